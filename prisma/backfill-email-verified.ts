@@ -0,0 +1,31 @@
+import { PrismaClient } from '../src/generated/prisma';
+
+const prisma = new PrismaClient();
+
+// Accounts created before email verification was introduced were never sent a link, so
+// they are marked verified instead of being locked out of requests and payments.
+// Usage: npm run db:backfill-email-verified -- <date the feature was deployed, e.g. 2026-05-01>
+async function main() {
+  const cutoff = new Date(process.argv[2] ?? '');
+
+  if (isNaN(cutoff.getTime())) {
+    throw new Error('Pass the date email verification was deployed, e.g. 2026-05-01');
+  }
+
+  const result = await prisma.user.updateMany({
+    where: { emailVerified: null, createdAt: { lt: cutoff }, deletedAt: null },
+    data: { emailVerified: cutoff }
+  });
+
+  console.log(`${result.count} existing account(s) marked as verified`);
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect();
+  })
+  .catch(async (e) => {
+    console.error(e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
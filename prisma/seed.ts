@@ -26,6 +26,7 @@ async function main() {
       lastName: 'Administrator',
       phoneNumber: '+251911000000',
       userType: UserType.SYSTEM_ADMIN,
+      emailVerified: new Date(),
     },
   });
 
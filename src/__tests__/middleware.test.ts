@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import { NextRequest } from 'next/server';
+import { middleware } from '@/middleware';
+import { UserType } from '@/generated/prisma';
+import { USER_TYPE_PERMISSIONS } from '@/lib/permissions';
+
+process.env.NEXTAUTH_SECRET = 'middleware-test-secret';
+
+// Same claims as the access tokens issued on sign in
+function signAccessToken(userType: UserType, options: jwt.SignOptions = { expiresIn: '15m' }) {
+  return jwt.sign(
+    {
+      id: 1,
+      username: 'user',
+      email: 'user@example.com',
+      userType,
+      firstName: 'Test',
+      lastName: 'User',
+      permissions: USER_TYPE_PERMISSIONS[userType],
+      sid: 1,
+    },
+    process.env.NEXTAUTH_SECRET!,
+    options
+  );
+}
+
+function requestPage(path: string, cookies: Record<string, string> = {}) {
+  const cookie = Object.entries(cookies).map(([name, value]) => `${name}=${value}`).join('; ');
+  return middleware(new NextRequest(`http://localhost${path}`, { headers: cookie ? { cookie } : {} }));
+}
+
+function redirectPath(response: Response) {
+  const location = response.headers.get('location');
+  if (!location) return null;
+  const url = new URL(location);
+  return url.pathname + url.search;
+}
+
+test('public pages are served without a session', () => {
+  for (const path of ['/', '/auth/signin', '/auth/reset-password/abc', '/api/auth/login']) {
+    assert.equal(redirectPath(requestPage(path)), null, path);
+  }
+});
+
+test('the home page does not make every page public', () => {
+  assert.equal(redirectPath(requestPage('/system-admin')), '/auth/signin');
+  assert.equal(redirectPath(requestPage('/customer/profile')), '/auth/signin');
+});
+
+test('a public path does not cover paths that merely share its prefix', () => {
+  assert.equal(redirectPath(requestPage('/auth/signin-help')), '/auth/signin');
+});
+
+test('a protected page without the right permission redirects to the user\'s home', () => {
+  const token = signAccessToken(UserType.CUSTOMER);
+
+  assert.equal(redirectPath(requestPage('/system-admin', { 'auth-token': token })), '/customer');
+  assert.equal(redirectPath(requestPage('/garage-admin/requests', { 'auth-token': token })), '/customer');
+});
+
+test('a protected page with the right permission is served', () => {
+  const token = signAccessToken(UserType.CUSTOMER);
+
+  assert.equal(redirectPath(requestPage('/customer/profile', { 'auth-token': token })), null);
+});
+
+test('an expired access token with a refresh token renews the session and returns to the page', () => {
+  const token = signAccessToken(UserType.CUSTOMER, { expiresIn: -60 });
+
+  assert.equal(
+    redirectPath(requestPage('/customer/profile?tab=vehicles', { 'auth-token': token, 'refresh-token': 'refresh' })),
+    `/api/auth/refresh?redirect=${encodeURIComponent('/customer/profile?tab=vehicles')}`
+  );
+});
+
+test('an expired access token without a refresh token redirects to sign in', () => {
+  const token = signAccessToken(UserType.CUSTOMER, { expiresIn: -60 });
+
+  assert.equal(redirectPath(requestPage('/customer/profile', { 'auth-token': token })), '/auth/signin');
+});
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { getSameOriginRedirect } from '@/lib/redirects';
+
+function resolveRedirect(redirectParam: string | null) {
+  const url = new URL('http://localhost/api/auth/refresh');
+  if (redirectParam !== null) url.searchParams.set('redirect', redirectParam);
+  const request = new NextRequest(url);
+
+  return getSameOriginRedirect(request.nextUrl.searchParams.get('redirect'), request).href;
+}
+
+test('a path on the same site is kept with its query', () => {
+  assert.equal(resolveRedirect('/customer/profile?tab=vehicles'), 'http://localhost/customer/profile?tab=vehicles');
+});
+
+test('a missing redirect goes to the home page', () => {
+  assert.equal(resolveRedirect(null), 'http://localhost/');
+});
+
+test('redirects to other origins fall back to the home page', () => {
+  for (const payload of ['/\\evil.com', '//evil.com', '/\\/evil.com', 'https://evil.com/', 'javascript:alert(1)']) {
+    assert.equal(resolveRedirect(payload), 'http://localhost/', payload);
+  }
+});
@@ -1,33 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { canAccessServiceRequest, withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
 import type { ApiResponse } from '@/types/auth';
 import { createNotification, NOTIFICATION_TYPES, NOTIFICATION_TEMPLATES } from '@/utils/notifications';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // PATCH - Approve/decline additional service (CUSTOMER only)
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PATCH = withAuth<{ id: string }>(async (request, { params, user }) => {
   try {
     const { id } = await params;
     const serviceId = parseInt(id);
@@ -42,32 +22,6 @@ export async function PATCH(
       );
     }
 
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
     const body = await request.json();
     const { approved } = body;
 
@@ -97,11 +51,7 @@ export async function PATCH(
                     lastName: true
                   }
                 },
-                garage: {
-                  select: {
-                    adminId: true
-                  }
-                }
+                garageId: true
               }
             }
           }
@@ -125,15 +75,11 @@ export async function PATCH(
     }
 
     // Check permissions - only customer can approve/decline their own additional services
-    let canUpdate = false;
-
-    if (decoded.userType === 'CUSTOMER' && additionalService.status.serviceRequest.customerId === decoded.id) {
-      canUpdate = true;
-    } else if (decoded.userType === 'GARAGE_ADMIN' && additionalService.status.serviceRequest.garage.adminId === decoded.id) {
-      canUpdate = true;
-    } else if (decoded.userType === 'SYSTEM_ADMIN') {
-      canUpdate = true;
-    }
+    const canUpdate = await canAccessServiceRequest(user, additionalService.status.serviceRequest, [
+      'owner',
+      'garageAdmin',
+      'systemAdmin'
+    ]);
 
     if (!canUpdate) {
       return NextResponse.json<ApiResponse>(
@@ -160,6 +106,13 @@ export async function PATCH(
       }
     });
 
+    await recordRequestEvent(user.id, {
+      serviceRequestId: additionalService.status.serviceRequestId,
+      type: approved ? REQUEST_EVENTS.ADDITIONAL_SERVICE_APPROVED : REQUEST_EVENTS.ADDITIONAL_SERVICE_DECLINED,
+      summary: `Additional service ${additionalService.service.serviceName} ${approved ? 'approved' : 'declined'}`,
+      details: { additionalServiceId: additionalService.id }
+    });
+
     // Create notification for mechanic about approval/decline using standardized template
     if (additionalService.status.serviceRequest.mechanicId) {
       const customerName = `${additionalService.status.serviceRequest.customer.firstName} ${additionalService.status.serviceRequest.customer.lastName}`;
@@ -167,7 +120,7 @@ export async function PATCH(
       if (approved) {
         const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.ADDITIONAL_SERVICE_APPROVED].toMechanic(additionalService.service.serviceName, customerName);
         await createNotification(
-          decoded.id,
+          user.id,
           additionalService.status.serviceRequest.mechanicId,
           NOTIFICATION_TYPES.ADDITIONAL_SERVICE_APPROVED,
           template.title,
@@ -176,7 +129,7 @@ export async function PATCH(
       } else {
         const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.ADDITIONAL_SERVICE_DECLINED].toMechanic(additionalService.service.serviceName, customerName);
         await createNotification(
-          decoded.id,
+          user.id,
           additionalService.status.serviceRequest.mechanicId,
           NOTIFICATION_TYPES.ADDITIONAL_SERVICE_DECLINED,
           template.title,
@@ -205,13 +158,10 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE - Remove additional service request (MECHANIC only)
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withAuth<{ id: string }>(async (request, { params, user }) => {
   try {
     const { id } = await params;
     const serviceId = parseInt(id);
@@ -226,43 +176,6 @@ export async function DELETE(
       );
     }
 
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Only mechanics can delete additional service requests
-    if (decoded.userType !== 'MECHANIC') {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Only mechanics can remove additional service requests' 
-        },
-        { status: 403 }
-      );
-    }
-
     // Get the additional service and verify access
     const additionalService = await prisma.additionalService.findUnique({
       where: { id: serviceId },
@@ -296,7 +209,7 @@ export async function DELETE(
     }
 
     // Check if mechanic is assigned to this service request
-    if (additionalService.status.serviceRequest.mechanicId !== decoded.id) {
+    if (additionalService.status.serviceRequest.mechanicId !== user.id) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
@@ -322,10 +235,17 @@ export async function DELETE(
       where: { id: serviceId }
     });
 
+    await recordRequestEvent(user.id, {
+      serviceRequestId: additionalService.status.serviceRequestId,
+      type: REQUEST_EVENTS.ADDITIONAL_SERVICE_WITHDRAWN,
+      summary: `Withdrew the request to add ${additionalService.service.serviceName}`,
+      details: { additionalServiceId: additionalService.id }
+    });
+
     // Create notification for customer
     await prisma.notification.create({
       data: {
-        senderId: decoded.id,
+        senderId: user.id,
         receiverId: additionalService.status.serviceRequest.customerId,
         type: 'ADDITIONAL_SERVICE_CANCELLED',
         title: 'Additional Service Cancelled',
@@ -350,4 +270,7 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, {
+  roles: [UserType.MECHANIC],
+  forbiddenMessage: 'Only mechanics can remove additional service requests'
+});
\ No newline at end of file
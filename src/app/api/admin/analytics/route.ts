@@ -1,29 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { isActiveRequestStatus } from '@/lib/request-status';
 import type { ApiResponse } from '@/types/auth';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  // Try to get token from cookie first
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  // Fallback to Authorization header
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 interface SystemAnalytics {
   overview: {
     totalUsers: number;
@@ -131,20 +111,9 @@ interface GarageAnalytics {
 }
 
 // GET /api/admin/analytics - Get system or garage analytics
-export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<SystemAnalytics | GarageAnalytics>>> {
+export const GET = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse<SystemAnalytics | GarageAnalytics>>> => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    
-    if (!['SYSTEM_ADMIN', 'GARAGE_ADMIN'].includes(decoded.userType)) {
+    if (!['SYSTEM_ADMIN', 'GARAGE_ADMIN'].includes(user.userType)) {
       return NextResponse.json({
         success: false,
         error: 'Unauthorized access - Admin required'
@@ -155,16 +124,16 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
     const scope = searchParams.get('scope') || 'system'; // system or garage
     const timeframe = searchParams.get('timeframe') || '30'; // days
 
-    if (decoded.userType === 'SYSTEM_ADMIN' && scope === 'system') {
+    if (user.userType === 'SYSTEM_ADMIN' && scope === 'system') {
       // System-wide analytics for System Admin
       const analytics = await getSystemAnalytics(parseInt(timeframe));
       return NextResponse.json({
         success: true,
         data: analytics
       });
-    } else if (decoded.userType === 'GARAGE_ADMIN') {
+    } else if (user.userType === 'GARAGE_ADMIN') {
       // Garage-specific analytics for Garage Admin
-      const analytics = await getGarageAnalytics(decoded.id, parseInt(timeframe));
+      const analytics = await getGarageAnalytics(user.id, parseInt(timeframe));
       return NextResponse.json({
         success: true,
         data: analytics
@@ -183,7 +152,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       error: 'Failed to fetch analytics data'
     }, { status: 500 });
   }
-}
+});
 
 async function getSystemAnalytics(timeframeDays: number): Promise<SystemAnalytics> {
   const startDate = new Date(Date.now() - timeframeDays * 24 * 60 * 60 * 1000);
@@ -401,7 +370,7 @@ async function getGarageAnalytics(adminUserId: number, timeframeDays: number): P
   
   const completedRequests = garage.serviceRequests.filter(r => r.status === 'COMPLETED').length;
   const pendingRequests = garage.serviceRequests.filter(r => r.status === 'PENDING').length;
-  const activeRequests = garage.serviceRequests.filter(r => ['ACCEPTED', 'IN_PROGRESS'].includes(r.status)).length;
+  const activeRequests = garage.serviceRequests.filter(r => isActiveRequestStatus(r.status)).length;
   
   const completionRate = totalRequests > 0 ? (completedRequests / totalRequests) * 100 : 0;
   const averageRating = garage.ratings.length > 0 
@@ -0,0 +1,167 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { AUDIT_ACTIONS } from '@/lib/audit';
+import { Prisma } from '@/generated/prisma';
+import type { ApiResponse } from '@/types/auth';
+
+// Upper bound on rows in a single CSV export
+const MAX_EXPORT_ROWS = 10000;
+
+// Page size of the log table; out-of-range values are clamped rather than rejected
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const CSV_COLUMNS = ['id', 'createdAt', 'actorId', 'actor', 'action', 'targetType', 'targetId', 'ipAddress', 'userAgent', 'before', 'after'];
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' && !(value instanceof Date)
+    ? JSON.stringify(value)
+    : value instanceof Date ? value.toISOString() : String(value);
+  // Spreadsheets run cells starting with these as formulas, e.g. a user agent of "=HYPERLINK(...)"
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// GET /api/admin/audit - Audit log with filtering and pagination; ?format=csv downloads the filtered entries
+export const GET = withAuth(async (request): Promise<NextResponse> => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const actor = searchParams.get('actor');
+    const actorId = parseInt(searchParams.get('actorId') || '');
+    const action = searchParams.get('action');
+    const targetType = searchParams.get('targetType');
+    const targetId = parseInt(searchParams.get('targetId') || '');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const format = searchParams.get('format');
+    const requestedPage = parseInt(searchParams.get('page') || '');
+    const requestedLimit = parseInt(searchParams.get('limit') || '');
+    const page = isNaN(requestedPage) ? 1 : Math.max(requestedPage, 1);
+    const limit = isNaN(requestedLimit) ? DEFAULT_PAGE_SIZE : Math.min(Math.max(requestedLimit, 1), MAX_PAGE_SIZE);
+    const offset = (page - 1) * limit;
+
+    // Build where clause
+    const where: Prisma.AuditLogWhereInput = {};
+
+    if (!isNaN(actorId)) {
+      where.actorId = actorId;
+    } else if (actor) {
+      where.actor = { username: { contains: actor, mode: 'insensitive' } };
+    }
+
+    if (action && action !== 'all') {
+      where.action = action;
+    }
+
+    if (targetType && targetType !== 'all') {
+      where.targetType = targetType;
+    }
+
+    if (!isNaN(targetId)) {
+      where.targetId = targetId;
+    }
+
+    if (from || to) {
+      const fromDate = from ? new Date(from) : null;
+      // A bare date includes the whole day
+      const toDate = to ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to) : null;
+
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Invalid date range'
+        }, { status: 400 });
+      }
+
+      where.createdAt = {
+        ...(fromDate && { gte: fromDate }),
+        ...(toDate && { lte: toDate })
+      };
+    }
+
+    const include = {
+      actor: {
+        select: {
+          id: true,
+          username: true,
+          firstName: true,
+          lastName: true
+        }
+      }
+    };
+
+    if (format === 'csv') {
+      const entries = await prisma.auditLog.findMany({
+        where,
+        include,
+        orderBy: { createdAt: 'desc' },
+        take: MAX_EXPORT_ROWS
+      });
+
+      const rows = entries.map(entry => [
+        entry.id,
+        entry.createdAt,
+        entry.actorId,
+        entry.actor?.username,
+        entry.action,
+        entry.targetType,
+        entry.targetId,
+        entry.ipAddress,
+        entry.userAgent,
+        entry.before,
+        entry.after
+      ].map(csvValue).join(','));
+
+      const csv = [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+
+      return new NextResponse(csv, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`
+        }
+      });
+    }
+
+    const [entries, totalCount, targetTypes] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset
+      }),
+      prisma.auditLog.count({ where }),
+      prisma.auditLog.findMany({
+        distinct: ['targetType'],
+        select: { targetType: true },
+        orderBy: { targetType: 'asc' }
+      })
+    ]);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        entries,
+        totalCount,
+        filters: {
+          actions: Object.values(AUDIT_ACTIONS),
+          targetTypes: targetTypes.map(entry => entry.targetType)
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Audit log fetch error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Failed to fetch audit log'
+    }, { status: 500 });
+  }
+}, {
+  permission: PERMISSIONS.AUDIT_VIEW,
+  forbiddenMessage: 'Unauthorized access - System Admin required'
+});
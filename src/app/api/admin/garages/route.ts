@@ -1,6 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { AUDIT_ACTIONS, AuditAction, recordAudit } from '@/lib/audit';
+import { OPEN_REQUEST_STATUSES } from '@/lib/request-status';
 import type { ApiResponse } from '@/types/auth';
 
 // Type for Prisma where clauses with flexible structure
@@ -9,25 +12,6 @@ type PrismaWhereInput = {
   OR?: Array<{ [key: string]: unknown }>;
 };
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 interface GarageWithDetails {
   id: number;
   garageName: string;
@@ -66,26 +50,8 @@ interface GaragesResponse {
 }
 
 // GET /api/admin/garages - List all garages with filtering and pagination
-export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<GaragesResponse>>> {
+export const GET = withAuth(async (request): Promise<NextResponse<ApiResponse<GaragesResponse>>> => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    
-    if (decoded.userType !== 'SYSTEM_ADMIN') {
-      return NextResponse.json({
-        success: false,
-        error: 'Unauthorized access - System Admin required'
-      }, { status: 403 });
-    }
-
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status'); // all, approved, pending, removed
     const search = searchParams.get('search');
@@ -189,29 +155,14 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       error: 'Failed to fetch garages'
     }, { status: 500 });
   }
-}
+}, {
+  permission: PERMISSIONS.GARAGES_MANAGE,
+  forbiddenMessage: 'Unauthorized access - System Admin required'
+});
 
 // PATCH /api/admin/garages - Update garage status (approve/remove/restore)
-export async function PATCH(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+export const PATCH = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    
-    if (decoded.userType !== 'SYSTEM_ADMIN') {
-      return NextResponse.json({
-        success: false,
-        error: 'Unauthorized access - System Admin required'
-      }, { status: 403 });
-    }
-
     const body = await request.json();
     const { garageIds, action } = body;
 
@@ -224,27 +175,32 @@ export async function PATCH(request: NextRequest): Promise<NextResponse<ApiRespo
 
     let updateData: Record<string, boolean> = {};
     let message = '';
+    let auditAction: AuditAction;
+
+    // Current state of the garages, kept for the audit log
+    const garages = await prisma.garage.findMany({
+      where: { id: { in: garageIds } },
+      select: { id: true, approved: true, removed: true, available: true }
+    });
 
     switch (action) {
       case 'approve':
         updateData = { approved: true, removed: false };
         message = `Approved ${garageIds.length} garage(s)`;
+        auditAction = AUDIT_ACTIONS.GARAGE_APPROVE;
         break;
       case 'remove':
         updateData = { removed: true, available: false };
         message = `Removed ${garageIds.length} garage(s)`;
+        auditAction = AUDIT_ACTIONS.GARAGE_REMOVE;
         break;
       case 'restore':
         updateData = { removed: false, available: true };
         message = `Restored ${garageIds.length} garage(s)`;
+        auditAction = AUDIT_ACTIONS.GARAGE_RESTORE;
         break;
       case 'toggleAvailability':
         // For this action, we need to handle each garage individually
-        const garages = await prisma.garage.findMany({
-          where: { id: { in: garageIds } },
-          select: { id: true, available: true }
-        });
-
         await Promise.all(
           garages.map(garage =>
             prisma.garage.update({
@@ -254,6 +210,14 @@ export async function PATCH(request: NextRequest): Promise<NextResponse<ApiRespo
           )
         );
 
+        await recordAudit(request, user.id, garages.map(garage => ({
+          action: AUDIT_ACTIONS.GARAGE_TOGGLE_AVAILABILITY,
+          targetType: 'Garage',
+          targetId: garage.id,
+          before: garage,
+          after: { ...garage, available: !garage.available }
+        })));
+
         return NextResponse.json({
           success: true,
           message: `Toggled availability for ${garageIds.length} garage(s)`
@@ -270,6 +234,14 @@ export async function PATCH(request: NextRequest): Promise<NextResponse<ApiRespo
       data: updateData
     });
 
+    await recordAudit(request, user.id, garages.map(garage => ({
+      action: auditAction,
+      targetType: 'Garage',
+      targetId: garage.id,
+      before: garage,
+      after: { ...garage, ...updateData }
+    })));
+
     return NextResponse.json({
       success: true,
       message
@@ -282,29 +254,14 @@ export async function PATCH(request: NextRequest): Promise<NextResponse<ApiRespo
       error: 'Failed to update garages'
     }, { status: 500 });
   }
-}
+}, {
+  permission: PERMISSIONS.GARAGES_MANAGE,
+  forbiddenMessage: 'Unauthorized access - System Admin required'
+});
 
 // DELETE /api/admin/garages - Permanently remove garages (hard delete)
-export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+export const DELETE = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    
-    if (decoded.userType !== 'SYSTEM_ADMIN') {
-      return NextResponse.json({
-        success: false,
-        error: 'Unauthorized access - System Admin required'
-      }, { status: 403 });
-    }
-
     const body = await request.json();
     const { garageIds, confirm } = body;
 
@@ -326,7 +283,7 @@ export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResp
     const activeRequests = await prisma.serviceRequest.count({
       where: {
         garageId: { in: garageIds },
-        status: { in: ['PENDING', 'ACCEPTED', 'IN_PROGRESS'] }
+        status: { in: [...OPEN_REQUEST_STATUSES] }
       }
     });
 
@@ -337,6 +294,10 @@ export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResp
       }, { status: 400 });
     }
 
+    const garagesToDelete = await prisma.garage.findMany({
+      where: { id: { in: garageIds } }
+    });
+
     // Use transaction for safe deletion
     await prisma.$transaction(async (tx) => {
       // Delete related records first
@@ -366,6 +327,13 @@ export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResp
       });
     });
 
+    await recordAudit(request, user.id, garagesToDelete.map(garage => ({
+      action: AUDIT_ACTIONS.GARAGE_DELETE,
+      targetType: 'Garage',
+      targetId: garage.id,
+      before: garage
+    })));
+
     return NextResponse.json({
       success: true,
       message: `Permanently deleted ${garageIds.length} garage(s) and all related data`
@@ -378,4 +346,7 @@ export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResp
       error: 'Failed to delete garages'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, {
+  permission: PERMISSIONS.GARAGES_MANAGE,
+  forbiddenMessage: 'Unauthorized access - System Admin required'
+});
\ No newline at end of file
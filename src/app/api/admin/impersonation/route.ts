@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import { getHomeRoute, PERMISSIONS } from '@/lib/permissions';
+import { setSessionCookies } from '@/lib/sessions';
+import { setImpersonationReturnCookie, startImpersonation } from '@/lib/impersonation';
+import type { ApiResponse } from '@/types/auth';
+
+// POST /api/admin/impersonation - Sign in as another user: { userId, readOnly = true, reason? }
+export const POST = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
+  try {
+    const body = await request.json();
+    const { userId, reason } = body;
+    const readOnly = body.readOnly !== false;
+
+    if (!Number.isInteger(userId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'User ID is required'
+      }, { status: 400 });
+    }
+
+    if (userId === user.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Cannot impersonate your own account'
+      }, { status: 400 });
+    }
+
+    // The admin's session is resumed afterwards, so it has to be known
+    if (!user.sid) {
+      return NextResponse.json({
+        success: false,
+        error: 'Sign in again before impersonating a user'
+      }, { status: 400 });
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        username: true,
+        email: true,
+        userType: true,
+        firstName: true,
+        lastName: true,
+        deletedAt: true
+      }
+    });
+
+    if (!target) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 });
+    }
+
+    if (target.userType === 'SYSTEM_ADMIN') {
+      return NextResponse.json({
+        success: false,
+        error: 'System admins cannot be impersonated'
+      }, { status: 403 });
+    }
+
+    if (target.deletedAt) {
+      return NextResponse.json({
+        success: false,
+        error: 'Closed accounts cannot be impersonated'
+      }, { status: 400 });
+    }
+
+    const { impersonation, permissions, returnToken, tokens } = await startImpersonation(
+      user,
+      target,
+      { readOnly, reason: typeof reason === 'string' && reason.trim() ? reason.trim() : null },
+      request
+    );
+
+    const response = NextResponse.json<ApiResponse>({
+      success: true,
+      message: `Now viewing as ${target.firstName} ${target.lastName}`,
+      data: {
+        expiresAt: impersonation.expiresAt,
+        readOnly,
+        redirect: getHomeRoute(permissions)
+      }
+    });
+
+    setSessionCookies(response, tokens);
+    setImpersonationReturnCookie(response, returnToken);
+
+    return response;
+
+  } catch (error) {
+    console.error('Start impersonation error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to start impersonation'
+    }, { status: 500 });
+  }
+}, {
+  roles: [UserType.SYSTEM_ADMIN],
+  permission: PERMISSIONS.USERS_IMPERSONATE,
+  forbiddenMessage: 'Unauthorized access - System Admin required',
+  blockImpersonation: true
+});
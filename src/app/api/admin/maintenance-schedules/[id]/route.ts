@@ -0,0 +1,155 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import {
+  findDuplicateMaintenanceSchedule,
+  MAINTENANCE_SCHEDULE_INCLUDE,
+  normalizeMaintenanceScheduleData,
+  toMaintenanceSchedule
+} from '@/lib/maintenance';
+import type { ApiResponse, MaintenanceSchedule, MaintenanceScheduleData } from '@/types/auth';
+
+// PATCH /api/admin/maintenance-schedules/[id] - Change intervals, vehicle type or pause the schedule
+export const PATCH = withAuth<{ id: string }>(async (request, { params }) => {
+  try {
+    const { id } = await params;
+    const scheduleId = parseInt(id);
+
+    if (isNaN(scheduleId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid schedule ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await prisma.maintenanceSchedule.findUnique({
+      where: { id: scheduleId }
+    });
+
+    if (!schedule) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Maintenance schedule not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    // The service stays fixed; reminders already sent belong to it
+    const body: Partial<MaintenanceScheduleData> = await request.json();
+    const normalized = normalizeMaintenanceScheduleData({
+      vehicleType: body.vehicleType !== undefined ? body.vehicleType : schedule.vehicleType,
+      serviceId: schedule.serviceId,
+      intervalKm: body.intervalKm !== undefined ? body.intervalKm : schedule.intervalKm,
+      intervalMonths: body.intervalMonths !== undefined ? body.intervalMonths : schedule.intervalMonths,
+      active: body.active ?? schedule.active
+    });
+
+    if ('error' in normalized) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: normalized.error
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data } = normalized;
+
+    if (await findDuplicateMaintenanceSchedule(data, schedule.id)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'This service already has a schedule for that vehicle type'
+        },
+        { status: 409 }
+      );
+    }
+
+    const updatedSchedule = await prisma.maintenanceSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        vehicleType: data.vehicleType,
+        intervalKm: data.intervalKm,
+        intervalMonths: data.intervalMonths,
+        active: data.active
+      },
+      include: MAINTENANCE_SCHEDULE_INCLUDE
+    });
+
+    return NextResponse.json<ApiResponse<{ schedule: MaintenanceSchedule }>>({
+      success: true,
+      message: 'Maintenance schedule updated',
+      data: { schedule: toMaintenanceSchedule(updatedSchedule) }
+    });
+
+  } catch (error) {
+    console.error('Update maintenance schedule error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.SERVICES_MANAGE,
+  forbiddenMessage: 'Only system administrators can manage maintenance schedules'
+});
+
+// DELETE /api/admin/maintenance-schedules/[id] - Remove a schedule along with its reminder history
+export const DELETE = withAuth<{ id: string }>(async (request, { params }) => {
+  try {
+    const { id } = await params;
+    const scheduleId = parseInt(id);
+
+    if (isNaN(scheduleId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid schedule ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await prisma.maintenanceSchedule.deleteMany({
+      where: { id: scheduleId }
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Maintenance schedule not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Maintenance schedule deleted'
+    });
+
+  } catch (error) {
+    console.error('Delete maintenance schedule error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.SERVICES_MANAGE,
+  forbiddenMessage: 'Only system administrators can manage maintenance schedules'
+});
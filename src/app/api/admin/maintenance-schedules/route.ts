@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import {
+  findDuplicateMaintenanceSchedule,
+  MAINTENANCE_SCHEDULE_INCLUDE,
+  normalizeMaintenanceScheduleData,
+  toMaintenanceSchedule
+} from '@/lib/maintenance';
+import type { ApiResponse, MaintenanceSchedule, MaintenanceScheduleData } from '@/types/auth';
+
+// GET /api/admin/maintenance-schedules - Every schedule, general ones first
+export const GET = withAuth(async () => {
+  try {
+    const schedules = await prisma.maintenanceSchedule.findMany({
+      include: MAINTENANCE_SCHEDULE_INCLUDE,
+      orderBy: [{ vehicleType: { sort: 'asc', nulls: 'first' } }, { id: 'asc' }]
+    });
+
+    return NextResponse.json<ApiResponse<{ schedules: MaintenanceSchedule[] }>>({
+      success: true,
+      data: { schedules: schedules.map(toMaintenanceSchedule) }
+    });
+
+  } catch (error) {
+    console.error('Get maintenance schedules error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.SERVICES_MANAGE,
+  forbiddenMessage: 'Only system administrators can manage maintenance schedules'
+});
+
+// POST /api/admin/maintenance-schedules - Add a schedule for a service and vehicle type
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    const body: MaintenanceScheduleData = await request.json();
+    const normalized = normalizeMaintenanceScheduleData(body);
+
+    if ('error' in normalized) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: normalized.error
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data } = normalized;
+
+    const service = await prisma.service.findFirst({
+      where: { id: data.serviceId, removed: false },
+      select: { id: true }
+    });
+
+    if (!service) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Service not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (await findDuplicateMaintenanceSchedule(data)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'This service already has a schedule for that vehicle type'
+        },
+        { status: 409 }
+      );
+    }
+
+    const schedule = await prisma.maintenanceSchedule.create({
+      data: { ...data, createdBy: user.id },
+      include: MAINTENANCE_SCHEDULE_INCLUDE
+    });
+
+    return NextResponse.json<ApiResponse<{ schedule: MaintenanceSchedule }>>(
+      {
+        success: true,
+        message: 'Maintenance schedule created',
+        data: { schedule: toMaintenanceSchedule(schedule) }
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Create maintenance schedule error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.SERVICES_MANAGE,
+  forbiddenMessage: 'Only system administrators can manage maintenance schedules'
+});
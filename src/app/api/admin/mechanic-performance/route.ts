@@ -1,6 +1,7 @@
-import { NextRequest, NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { ACTIVE_REQUEST_STATUSES } from '@/lib/request-status';
 import type { ApiResponse } from '@/types/auth';
 
 // Type for Prisma where clauses with flexible structure
@@ -9,25 +10,6 @@ type PrismaWhereInput = {
   OR?: Array<{ [key: string]: unknown }>;
 };
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 interface MechanicPerformance {
   id: number;
   userId: number;
@@ -79,29 +61,9 @@ interface MechanicsPerformanceResponse {
 }
 
 // GET /api/admin/mechanic-performance - Get mechanic performance data
-export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<MechanicsPerformanceResponse>>> {
+export const GET = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse<MechanicsPerformanceResponse>>> => {
   try {
-    const token = getTokenFromRequest(request);
-
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid token'
-      }, { status: 401 });
-    }
-
-    if (!['SYSTEM_ADMIN', 'GARAGE_ADMIN'].includes(decoded.userType)) {
+    if (!['SYSTEM_ADMIN', 'GARAGE_ADMIN'].includes(user.userType)) {
       return NextResponse.json({
         success: false,
         error: 'Unauthorized access'
@@ -120,10 +82,10 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
     const where: PrismaWhereInput = {};
     
     // For garage admin, only show their garage's mechanics
-    if (decoded.userType === 'GARAGE_ADMIN') {
+    if (user.userType === 'GARAGE_ADMIN') {
       // Get the garage admin's garage
       const garageAdmin = await prisma.user.findUnique({
-        where: { id: decoded.id },
+        where: { id: user.id },
         include: { garagesOwned: true }
       });
       
@@ -210,7 +172,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
           prisma.serviceRequest.count({
             where: {
               mechanicId: mechanic.userId,
-              status: { in: ['ACCEPTED', 'IN_PROGRESS'] }
+              status: { in: [...ACTIVE_REQUEST_STATUSES] }
             }
           }),
           
@@ -337,32 +299,12 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       error: 'Failed to fetch mechanic performance data'
     }, { status: 500 });
   }
-}
+});
 
 // PATCH /api/admin/mechanic-performance - Update mechanic status or add performance notes
-export async function PATCH(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+export const PATCH = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
   try {
-    const token = getTokenFromRequest(request);
-
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid token'
-      }, { status: 401 });
-    }
-
-    if (!['SYSTEM_ADMIN', 'GARAGE_ADMIN'].includes(decoded.userType)) {
+    if (!['SYSTEM_ADMIN', 'GARAGE_ADMIN'].includes(user.userType)) {
       return NextResponse.json({
         success: false,
         error: 'Unauthorized access'
@@ -380,9 +322,9 @@ export async function PATCH(request: NextRequest): Promise<NextResponse<ApiRespo
     }
 
     // For garage admin, verify they own the mechanics
-    if (decoded.userType === 'GARAGE_ADMIN') {
+    if (user.userType === 'GARAGE_ADMIN') {
       const garageAdmin = await prisma.user.findUnique({
-        where: { id: decoded.id },
+        where: { id: user.id },
         include: { garagesOwned: true }
       });
       
@@ -457,4 +399,4 @@ export async function PATCH(request: NextRequest): Promise<NextResponse<ApiRespo
       error: 'Failed to update mechanic performance'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,27 +1,10 @@
-import { NextRequest, NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { AUDIT_ACTIONS, recordAudit } from '@/lib/audit';
 import type { ApiResponse } from '@/types/auth';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // Type for Prisma where clauses with flexible structure
 type PrismaWhereInput = {
   [key: string]: unknown;
@@ -68,35 +51,8 @@ interface RatingsResponse {
 }
 
 // GET /api/admin/ratings - List all ratings with filtering and pagination
-export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<RatingsResponse>>> {
+export const GET = withAuth(async (request): Promise<NextResponse<ApiResponse<RatingsResponse>>> => {
   try {
-    const token = getTokenFromRequest(request);
-
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid token'
-      }, { status: 401 });
-    }
-
-    if (decoded.userType !== 'SYSTEM_ADMIN') {
-      return NextResponse.json({
-        success: false,
-        error: 'Unauthorized access'
-      }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const garageId = searchParams.get('garageId');
     const mechanicId = searchParams.get('mechanicId');
@@ -244,38 +200,14 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       error: 'Failed to fetch ratings'
     }, { status: 500 });
   }
-}
+}, {
+  permission: PERMISSIONS.RATINGS_MODERATE,
+  forbiddenMessage: 'Unauthorized access'
+});
 
 // DELETE /api/admin/ratings - Delete inappropriate ratings
-export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+export const DELETE = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
   try {
-    const token = getTokenFromRequest(request);
-
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid token'
-      }, { status: 401 });
-    }
-
-    if (decoded.userType !== 'SYSTEM_ADMIN') {
-      return NextResponse.json({
-        success: false,
-        error: 'Unauthorized access'
-      }, { status: 401 });
-    }
-
     const body = await request.json();
     const { ratingIds, reason } = body;
 
@@ -307,16 +239,19 @@ export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResp
       where: { id: { in: ratingIds } }
     });
 
-    // Log the deletion (in a real system, you might want to keep an audit log)
-    console.log(`System admin ${decoded.id} deleted ${ratingIds.length} ratings. Reason: ${reason}`, {
-      deletedRatings: ratingsToDelete.map(r => ({
+    await recordAudit(request, user.id, ratingsToDelete.map(r => ({
+      action: AUDIT_ACTIONS.RATING_DELETE,
+      targetType: 'Rating',
+      targetId: r.id,
+      before: {
         id: r.id,
         customer: r.customer.username,
         garage: r.garage.garageName,
         rating: r.rating,
         comment: r.comment
-      }))
-    });
+      },
+      after: { reason }
+    })));
 
     return NextResponse.json({
       success: true,
@@ -330,38 +265,14 @@ export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResp
       error: 'Failed to delete ratings'
     }, { status: 500 });
   }
-}
+}, {
+  permission: PERMISSIONS.RATINGS_MODERATE,
+  forbiddenMessage: 'Unauthorized access'
+});
 
 // PATCH /api/admin/ratings - Update rating status or flag inappropriate content
-export async function PATCH(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+export const PATCH = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
   try {
-    const token = getTokenFromRequest(request);
-
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid token'
-      }, { status: 401 });
-    }
-
-    if (decoded.userType !== 'SYSTEM_ADMIN') {
-      return NextResponse.json({
-        success: false,
-        error: 'Unauthorized access'
-      }, { status: 401 });
-    }
-
     const body = await request.json();
     const { ratingIds, action } = body;
 
@@ -375,12 +286,25 @@ export async function PATCH(request: NextRequest): Promise<NextResponse<ApiRespo
     // For this implementation, we'll focus on content moderation
     // In a production system, you might add fields like 'flagged' or 'hidden'
     if (action === 'hideComment') {
+      const ratingsToUpdate = await prisma.rating.findMany({
+        where: { id: { in: ratingIds } },
+        select: { id: true, rating: true, comment: true }
+      });
+
       // Hide inappropriate comments by setting them to null
       await prisma.rating.updateMany({
         where: { id: { in: ratingIds } },
         data: { comment: null }
       });
 
+      await recordAudit(request, user.id, ratingsToUpdate.map(r => ({
+        action: AUDIT_ACTIONS.RATING_HIDE_COMMENT,
+        targetType: 'Rating',
+        targetId: r.id,
+        before: r,
+        after: { ...r, comment: null }
+      })));
+
       return NextResponse.json({
         success: true,
         message: `Hidden comments for ${ratingIds.length} rating(s)`
@@ -399,4 +323,7 @@ export async function PATCH(request: NextRequest): Promise<NextResponse<ApiRespo
       error: 'Failed to update ratings'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, {
+  permission: PERMISSIONS.RATINGS_MODERATE,
+  forbiddenMessage: 'Unauthorized access'
+});
\ No newline at end of file
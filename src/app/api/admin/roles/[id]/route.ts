@@ -0,0 +1,167 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { AUDIT_ACTIONS, recordAudit } from '@/lib/audit';
+import { PERMISSIONS, validateRolePermissions } from '@/lib/permissions';
+import type { ApiResponse } from '@/types/auth';
+
+// PATCH /api/admin/roles/[id] - Update a role's name, description or permissions
+export const PATCH = withAuth<{ id: string }>(async (request, { params, user }): Promise<NextResponse<ApiResponse>> => {
+  try {
+    const { id } = await params;
+    const roleId = parseInt(id);
+    if (isNaN(roleId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid role ID'
+      }, { status: 400 });
+    }
+
+    const existingRole = await prisma.role.findUnique({
+      where: { id: roleId }
+    });
+
+    if (!existingRole) {
+      return NextResponse.json({
+        success: false,
+        error: 'Role not found'
+      }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { name, description, permissions } = body;
+
+    const updateData: {
+      name?: string;
+      description?: string | null;
+      permissions?: string[];
+    } = {};
+
+    if (name !== undefined) {
+      if (!name?.trim()) {
+        return NextResponse.json({
+          success: false,
+          error: 'Role name cannot be empty'
+        }, { status: 400 });
+      }
+
+      const duplicate = await prisma.role.findFirst({
+        where: {
+          name: name.trim(),
+          id: { not: roleId }
+        }
+      });
+
+      if (duplicate) {
+        return NextResponse.json({
+          success: false,
+          error: 'A role with this name already exists'
+        }, { status: 409 });
+      }
+
+      updateData.name = name.trim();
+    }
+
+    if (description !== undefined) {
+      updateData.description = description?.trim() || null;
+    }
+
+    if (permissions !== undefined) {
+      // The scope is fixed once created, since existing assignments depend on it
+      const permissionError = validateRolePermissions(existingRole.scope, permissions);
+      if (permissionError) {
+        return NextResponse.json({
+          success: false,
+          error: permissionError
+        }, { status: 400 });
+      }
+      updateData.permissions = permissions;
+    }
+
+    const role = await prisma.role.update({
+      where: { id: roleId },
+      data: updateData
+    });
+
+    await recordAudit(request, user.id, {
+      action: AUDIT_ACTIONS.ROLE_UPDATE,
+      targetType: 'Role',
+      targetId: role.id,
+      before: existingRole,
+      after: role
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Role updated successfully',
+      data: { role }
+    });
+
+  } catch (error) {
+    console.error('Admin role update error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update role'
+    }, { status: 500 });
+  }
+}, {
+  permission: PERMISSIONS.ROLES_MANAGE,
+  forbiddenMessage: 'Unauthorized access - System Admin required'
+});
+
+// DELETE /api/admin/roles/[id] - Delete a role and all of its assignments
+export const DELETE = withAuth<{ id: string }>(async (request, { params, user }): Promise<NextResponse<ApiResponse>> => {
+  try {
+    const { id } = await params;
+    const roleId = parseInt(id);
+    if (isNaN(roleId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid role ID'
+      }, { status: 400 });
+    }
+
+    const existingRole = await prisma.role.findUnique({
+      where: { id: roleId }
+    });
+
+    if (!existingRole) {
+      return NextResponse.json({
+        success: false,
+        error: 'Role not found'
+      }, { status: 404 });
+    }
+
+    // Its assignments go with it, so they are kept in the snapshot
+    const assignments = await prisma.roleAssignment.findMany({
+      where: { roleId },
+      select: { id: true, userId: true, garageId: true }
+    });
+
+    await prisma.role.delete({
+      where: { id: roleId }
+    });
+
+    await recordAudit(request, user.id, {
+      action: AUDIT_ACTIONS.ROLE_DELETE,
+      targetType: 'Role',
+      targetId: roleId,
+      before: { ...existingRole, assignments }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Role deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Admin role deletion error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete role'
+    }, { status: 500 });
+  }
+}, {
+  permission: PERMISSIONS.ROLES_MANAGE,
+  forbiddenMessage: 'Unauthorized access - System Admin required'
+});
@@ -0,0 +1,256 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { AUDIT_ACTIONS, recordAudit } from '@/lib/audit';
+import { PERMISSIONS } from '@/lib/permissions';
+import { RoleScope } from '@/generated/prisma';
+import type { ApiResponse } from '@/types/auth';
+
+const assignmentInclude = {
+  user: {
+    select: {
+      id: true,
+      username: true,
+      firstName: true,
+      lastName: true,
+      userType: true
+    }
+  },
+  role: {
+    select: {
+      id: true,
+      name: true,
+      scope: true
+    }
+  },
+  garage: {
+    select: {
+      id: true,
+      garageName: true
+    }
+  }
+};
+
+// GET /api/admin/roles/assignments - List role assignments, optionally for one user or role
+export const GET = withAuth(async (request): Promise<NextResponse<ApiResponse>> => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const roleId = searchParams.get('roleId');
+
+    const where: { userId?: number; roleId?: number } = {};
+    if (userId) where.userId = parseInt(userId);
+    if (roleId) where.roleId = parseInt(roleId);
+
+    const assignments = await prisma.roleAssignment.findMany({
+      where,
+      include: assignmentInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { assignments }
+    });
+
+  } catch (error) {
+    console.error('Role assignments fetch error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch role assignments'
+    }, { status: 500 });
+  }
+}, {
+  permission: PERMISSIONS.ROLES_MANAGE,
+  forbiddenMessage: 'Unauthorized access - System Admin required'
+});
+
+// POST /api/admin/roles/assignments - Assign a role to a user (garage roles need a garageId)
+export const POST = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
+  try {
+    const body = await request.json();
+    const { userId, roleId, garageId } = body;
+
+    if (!Number.isInteger(userId) || !Number.isInteger(roleId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'User ID and role ID are required'
+      }, { status: 400 });
+    }
+
+    if (garageId != null && !Number.isInteger(garageId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Valid garage ID is required'
+      }, { status: 400 });
+    }
+
+    const [assignee, role] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { id: true } }),
+      prisma.role.findUnique({ where: { id: roleId } })
+    ]);
+
+    if (!assignee) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 });
+    }
+
+    if (!role) {
+      return NextResponse.json({
+        success: false,
+        error: 'Role not found'
+      }, { status: 404 });
+    }
+
+    if (role.scope === RoleScope.GARAGE) {
+      if (!garageId) {
+        return NextResponse.json({
+          success: false,
+          error: 'Garage is required for garage roles'
+        }, { status: 400 });
+      }
+
+      const garage = await prisma.garage.findFirst({
+        where: {
+          id: garageId,
+          removed: false
+        }
+      });
+
+      if (!garage) {
+        return NextResponse.json({
+          success: false,
+          error: 'Garage not found'
+        }, { status: 404 });
+      }
+
+      // Garage roles only go to the garage's admin or one of its approved mechanics
+      const worksAtGarage = garage.adminId === userId || await prisma.mechanic.count({
+        where: { userId, garageId, approved: true, removed: false }
+      }) > 0;
+
+      if (!worksAtGarage) {
+        return NextResponse.json({
+          success: false,
+          error: 'User does not work at this garage'
+        }, { status: 400 });
+      }
+    } else if (garageId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Global roles cannot be limited to a garage'
+      }, { status: 400 });
+    }
+
+    // The unique index treats NULL garage IDs as distinct, so it does not stop a global role being
+    // assigned twice; the lock makes the check and insert atomic per user and role
+    const assignment = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${userId}::int, ${roleId}::int)`;
+
+      const existingAssignment = await tx.roleAssignment.findFirst({
+        where: {
+          userId,
+          roleId,
+          garageId: role.scope === RoleScope.GARAGE ? garageId : null
+        }
+      });
+
+      if (existingAssignment) return null;
+
+      return tx.roleAssignment.create({
+        data: {
+          userId,
+          roleId,
+          garageId: role.scope === RoleScope.GARAGE ? garageId : null,
+          assignedBy: user.id
+        },
+        include: assignmentInclude
+      });
+    });
+
+    if (!assignment) {
+      return NextResponse.json({
+        success: false,
+        error: 'User already has this role'
+      }, { status: 409 });
+    }
+
+    await recordAudit(request, user.id, {
+      action: AUDIT_ACTIONS.ROLE_ASSIGN,
+      targetType: 'User',
+      targetId: assignment.userId,
+      after: assignment
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Role assigned successfully',
+      data: { assignment }
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Role assignment error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to assign role'
+    }, { status: 500 });
+  }
+}, {
+  permission: PERMISSIONS.ROLES_MANAGE,
+  forbiddenMessage: 'Unauthorized access - System Admin required'
+});
+
+// DELETE /api/admin/roles/assignments?id=123 - Remove a role assignment
+export const DELETE = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const assignmentId = parseInt(searchParams.get('id') || '');
+
+    if (isNaN(assignmentId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Valid assignment ID is required'
+      }, { status: 400 });
+    }
+
+    const assignment = await prisma.roleAssignment.findUnique({
+      where: { id: assignmentId },
+      include: assignmentInclude
+    });
+
+    if (!assignment) {
+      return NextResponse.json({
+        success: false,
+        error: 'Role assignment not found'
+      }, { status: 404 });
+    }
+
+    await prisma.roleAssignment.delete({
+      where: { id: assignmentId }
+    });
+
+    await recordAudit(request, user.id, {
+      action: AUDIT_ACTIONS.ROLE_UNASSIGN,
+      targetType: 'User',
+      targetId: assignment.userId,
+      before: assignment
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Role removed successfully'
+    });
+
+  } catch (error) {
+    console.error('Role unassignment error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to remove role'
+    }, { status: 500 });
+  }
+}, {
+  permission: PERMISSIONS.ROLES_MANAGE,
+  forbiddenMessage: 'Unauthorized access - System Admin required'
+});
@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { AUDIT_ACTIONS, recordAudit } from '@/lib/audit';
+import {
+  ALL_PERMISSIONS,
+  GARAGE_PERMISSIONS,
+  PERMISSIONS,
+  USER_TYPE_PERMISSIONS,
+  validateRolePermissions
+} from '@/lib/permissions';
+import { RoleScope } from '@/generated/prisma';
+import type { ApiResponse } from '@/types/auth';
+
+// GET /api/admin/roles - List roles together with the permission catalog
+export const GET = withAuth(async (): Promise<NextResponse<ApiResponse>> => {
+  try {
+    const roles = await prisma.role.findMany({
+      include: {
+        _count: {
+          select: { assignments: true }
+        }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        roles,
+        permissions: ALL_PERMISSIONS,
+        garagePermissions: GARAGE_PERMISSIONS,
+        userTypePermissions: USER_TYPE_PERMISSIONS
+      }
+    });
+
+  } catch (error) {
+    console.error('Admin roles fetch error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch roles'
+    }, { status: 500 });
+  }
+}, {
+  permission: PERMISSIONS.ROLES_MANAGE,
+  forbiddenMessage: 'Unauthorized access - System Admin required'
+});
+
+// POST /api/admin/roles - Create a role
+export const POST = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
+  try {
+    const body = await request.json();
+    const { name, description, scope = RoleScope.GLOBAL, permissions } = body;
+
+    if (!name?.trim()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Role name is required'
+      }, { status: 400 });
+    }
+
+    if (!Object.values(RoleScope).includes(scope)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Scope must be GLOBAL or GARAGE'
+      }, { status: 400 });
+    }
+
+    const permissionError = validateRolePermissions(scope, permissions);
+    if (permissionError) {
+      return NextResponse.json({
+        success: false,
+        error: permissionError
+      }, { status: 400 });
+    }
+
+    const existingRole = await prisma.role.findUnique({
+      where: { name: name.trim() }
+    });
+
+    if (existingRole) {
+      return NextResponse.json({
+        success: false,
+        error: 'A role with this name already exists'
+      }, { status: 409 });
+    }
+
+    const role = await prisma.role.create({
+      data: {
+        name: name.trim(),
+        description: description?.trim() || null,
+        scope,
+        permissions
+      }
+    });
+
+    await recordAudit(request, user.id, {
+      action: AUDIT_ACTIONS.ROLE_CREATE,
+      targetType: 'Role',
+      targetId: role.id,
+      after: role
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Role created successfully',
+      data: { role }
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Admin role creation error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create role'
+    }, { status: 500 });
+  }
+}, {
+  permission: PERMISSIONS.ROLES_MANAGE,
+  forbiddenMessage: 'Unauthorized access - System Admin required'
+});
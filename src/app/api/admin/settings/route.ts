@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/api-auth';
+import { AUDIT_ACTIONS, recordAudit } from '@/lib/audit';
+import { PERMISSIONS } from '@/lib/permissions';
+import { getAllSettings, isSettingKey, updateSetting, validateSetting } from '@/lib/settings';
+import type { ApiResponse } from '@/types/auth';
+
+// GET /api/admin/settings - All system settings, with defaults for those never changed
+export const GET = withAuth(async (): Promise<NextResponse<ApiResponse>> => {
+  try {
+    const settings = await getAllSettings();
+
+    return NextResponse.json({
+      success: true,
+      data: { settings }
+    });
+
+  } catch (error) {
+    console.error('Settings fetch error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch settings'
+    }, { status: 500 });
+  }
+}, {
+  permission: PERMISSIONS.SETTINGS_MANAGE,
+  forbiddenMessage: 'Unauthorized access - System Admin required'
+});
+
+// PATCH /api/admin/settings - Change one setting: { key, value }
+export const PATCH = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
+  try {
+    const { key, value } = await request.json();
+
+    if (!isSettingKey(key)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unknown setting'
+      }, { status: 400 });
+    }
+
+    const validationError = validateSetting(key, value);
+    if (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError
+      }, { status: 400 });
+    }
+
+    const before = await getAllSettings();
+    await updateSetting(key, value, user.id);
+    const settings = await getAllSettings();
+
+    await recordAudit(request, user.id, {
+      action: AUDIT_ACTIONS.SETTING_UPDATE,
+      targetType: 'Setting',
+      before: { key, value: before[key] },
+      after: { key, value: settings[key] }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Setting updated successfully',
+      data: { settings }
+    });
+
+  } catch (error) {
+    console.error('Settings update error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update setting'
+    }, { status: 500 });
+  }
+}, {
+  permission: PERMISSIONS.SETTINGS_MANAGE,
+  forbiddenMessage: 'Unauthorized access - System Admin required'
+});
@@ -1,6 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { unlockAccounts } from '@/lib/login-protection';
+import { AUDIT_ACTIONS, recordAudit } from '@/lib/audit';
 import { UserType } from '@/generated/prisma';
 import type { ApiResponse } from '@/types/auth';
 
@@ -10,27 +13,6 @@ type PrismaWhereInput = {
   OR?: Array<{ [key: string]: unknown }>;
 };
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  // Try to get token from cookie first
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  // Fallback to Authorization header
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 interface UserWithCounts {
   id: number;
   username: string;
@@ -39,6 +21,10 @@ interface UserWithCounts {
   lastName: string;
   phoneNumber: string | null;
   userType: UserType;
+  failedLoginAttempts: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+  twoFactorEnabled: boolean;
   createdAt: Date;
   updatedAt: Date;
   _count: {
@@ -60,33 +46,17 @@ interface UsersResponse {
     mechanics: number;
     garageAdmins: number;
     systemAdmins: number;
+    lockedUsers: number;
   };
 }
 
 // GET /api/admin/users - List all users with filtering and pagination
-export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<UsersResponse>>> {
+export const GET = withAuth(async (request): Promise<NextResponse<ApiResponse<UsersResponse>>> => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    
-    if (decoded.userType !== 'SYSTEM_ADMIN') {
-      return NextResponse.json({
-        success: false,
-        error: 'Unauthorized access - System Admin required'
-      }, { status: 403 });
-    }
-
     const { searchParams } = new URL(request.url);
     const userType = searchParams.get('userType');
     const search = searchParams.get('search');
+    const status = searchParams.get('status');
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '20');
     const offset = (page - 1) * limit;
@@ -98,6 +68,11 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       where.userType = userType as UserType;
     }
     
+    // Accounts currently locked out after repeated failed logins
+    if (status === 'locked') {
+      where.lockedUntil = { gt: new Date() };
+    }
+
     if (search) {
       where.OR = [
         { username: { contains: search, mode: 'insensitive' } },
@@ -108,9 +83,16 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
     }
 
     // Fetch users with counts
-    const [users, totalCount, stats] = await Promise.all([
+    const [users, totalCount, stats, lockedUsers] = await Promise.all([
       prisma.user.findMany({
         where,
+        // Never send credentials or one-time tokens to the client
+        omit: {
+          password: true,
+          unlockToken: true,
+          twoFactorSecret: true,
+          twoFactorRecoveryCodes: true
+        },
         include: {
           _count: {
             select: {
@@ -133,6 +115,9 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       prisma.user.groupBy({
         by: ['userType'],
         _count: { userType: true }
+      }),
+      prisma.user.count({
+        where: { lockedUntil: { gt: new Date() } }
       })
     ]);
 
@@ -151,7 +136,8 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
         customers: roleStats.customers || 0,
         mechanics: roleStats.mechanics || 0,
         garageAdmins: roleStats.garage_admins || 0,
-        systemAdmins: roleStats.system_admins || 0
+        systemAdmins: roleStats.system_admins || 0,
+        lockedUsers
       }
     };
 
@@ -167,29 +153,14 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       error: 'Failed to fetch users'
     }, { status: 500 });
   }
-}
+}, {
+  permission: PERMISSIONS.USERS_MANAGE,
+  forbiddenMessage: 'Unauthorized access - System Admin required'
+});
 
-// PATCH /api/admin/users - Update user role or status
-export async function PATCH(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+// PATCH /api/admin/users - Update user role or status (changeUserType, unlock)
+export const PATCH = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    
-    if (decoded.userType !== 'SYSTEM_ADMIN') {
-      return NextResponse.json({
-        success: false,
-        error: 'Unauthorized access - System Admin required'
-      }, { status: 403 });
-    }
-
     const body = await request.json();
     const { userIds, action, newUserType } = body;
 
@@ -201,7 +172,7 @@ export async function PATCH(request: NextRequest): Promise<NextResponse<ApiRespo
     }
 
     // Prevent system admin from modifying their own account
-    const currentUserId = decoded.id;
+    const currentUserId = user.id;
     if (userIds.includes(currentUserId)) {
       return NextResponse.json({
         success: false,
@@ -217,17 +188,52 @@ export async function PATCH(request: NextRequest): Promise<NextResponse<ApiRespo
         }, { status: 400 });
       }
 
+      const usersToUpdate = await prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, username: true, userType: true }
+      });
+
       await prisma.user.updateMany({
         where: { id: { in: userIds } },
         data: { userType: newUserType as UserType }
       });
 
+      await recordAudit(request, user.id, usersToUpdate.map(target => ({
+        action: AUDIT_ACTIONS.USER_CHANGE_TYPE,
+        targetType: 'User',
+        targetId: target.id,
+        before: target,
+        after: { ...target, userType: newUserType }
+      })));
+
       return NextResponse.json({
         success: true,
         message: `Updated ${userIds.length} user(s) type to ${newUserType}`
       });
     }
 
+    if (action === 'unlock') {
+      const lockedUsers = await prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, username: true, failedLoginAttempts: true, lockedUntil: true }
+      });
+
+      const unlockedCount = await unlockAccounts(userIds);
+
+      await recordAudit(request, user.id, lockedUsers.map(target => ({
+        action: AUDIT_ACTIONS.USER_UNLOCK,
+        targetType: 'User',
+        targetId: target.id,
+        before: target,
+        after: { ...target, failedLoginAttempts: 0, lockedUntil: null }
+      })));
+
+      return NextResponse.json({
+        success: true,
+        message: `Unlocked ${unlockedCount} user account(s)`
+      });
+    }
+
     return NextResponse.json({
       success: false,
       error: 'Invalid action specified'
@@ -240,4 +246,7 @@ export async function PATCH(request: NextRequest): Promise<NextResponse<ApiRespo
       error: 'Failed to update users'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, {
+  permission: PERMISSIONS.USERS_MANAGE,
+  forbiddenMessage: 'Unauthorized access - System Admin required'
+});
\ No newline at end of file
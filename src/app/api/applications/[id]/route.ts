@@ -1,63 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
 import { ApplicationType } from '@/generated/prisma';
 import type { ApiResponse } from '@/types/auth';
 import { sendEmail, generateApplicationApprovalEmail } from '@/lib/email';
-
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  // Try to get token from cookie first
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  // Fallback to Authorization header
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
+import { AUDIT_ACTIONS, recordAudit } from '@/lib/audit';
 
 // PATCH - Approve or reject application
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PATCH = withAuth<{ id: string }>(async (request, { params, user }) => {
   try {
     const { id } = await params;
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
 
     const applicationId = parseInt(id);
     if (isNaN(applicationId)) {
@@ -117,13 +70,13 @@ export async function PATCH(
     // Check permissions
     let canApprove = false;
 
-    if (decoded.userType === 'SYSTEM_ADMIN') {
+    if (await hasPermission(user, PERMISSIONS.APPLICATIONS_REVIEW)) {
       canApprove = true;
-    } else if (decoded.userType === 'GARAGE_ADMIN' && application.applicationType === ApplicationType.MECHANIC) {
+    } else if (user.userType === 'GARAGE_ADMIN' && application.applicationType === ApplicationType.MECHANIC) {
       // Garage admins can approve mechanic applications for their garages
       const garageAdmin = await prisma.garage.findFirst({
         where: {
-          adminId: decoded.id,
+          adminId: user.id,
           id: application.garageId || 0,
           approved: true,
           removed: false,
@@ -191,6 +144,24 @@ export async function PATCH(
       }
     }
 
+    await recordAudit(request, user.id, {
+      action: AUDIT_ACTIONS.APPLICATION_REVIEW,
+      targetType: 'Application',
+      targetId: applicationId,
+      before: {
+        applicationType: application.applicationType,
+        applicantId: application.applicantId,
+        garageId: application.garageId,
+        approved: application.approved
+      },
+      after: {
+        applicationType: application.applicationType,
+        applicantId: application.applicantId,
+        garageId: application.garageId,
+        approved
+      }
+    });
+
     // Send email notification
     try {
       const applicantName = `${application.applicant.firstName} ${application.applicant.lastName}`;
@@ -232,4 +203,4 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,30 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { authenticateRequest, hasPermission, withAuth } from '@/lib/api-auth';
+import { setSessionCookies } from '@/lib/sessions';
+import { PERMISSIONS } from '@/lib/permissions';
 import { ApplicationType } from '@/generated/prisma';
-import type { MechanicApplicationData, GarageApplicationData, ApiResponse, Application } from '@/types/auth';
+import type { MechanicApplicationData, GarageApplicationData, ApiResponse, Application, AuthUser } from '@/types/auth';
 import { hashPassword } from '@/utils/password';
-
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  // Try to get token from cookie first
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  // Fallback to Authorization header
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
+import { sendVerificationEmail } from '@/lib/email-verification';
 
 // POST - Submit an application (mechanic or garage)
 export async function POST(request: NextRequest) {
@@ -45,33 +27,25 @@ export async function POST(request: NextRequest) {
     // Garage applications don't require authentication (new business owners)
     // Mechanic applications require authentication (existing users applying to garages)
     if (type === ApplicationType.MECHANIC) {
-      const token = getTokenFromRequest(request);
-      
-      if (!token) {
-        return NextResponse.json<ApiResponse>(
-          {
-            success: false,
-            error: 'Authentication required for mechanic applications'
-          },
-          { status: 401 }
-        );
-      }
+      const authentication = await authenticateRequest(request);
 
-      // Verify and decode JWT token for mechanic applications
-      let decoded: JwtPayload;
-      try {
-        decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-      } catch {
+      if ('error' in authentication) {
         return NextResponse.json<ApiResponse>(
           {
             success: false,
-            error: 'Invalid token'
+            error: authentication.error === 'Authentication required'
+              ? 'Authentication required for mechanic applications'
+              : authentication.error
           },
           { status: 401 }
         );
       }
 
-      return handleMechanicApplication(body, decoded);
+      const response = await handleMechanicApplication(body, authentication.user);
+      if (authentication.refreshedTokens) {
+        setSessionCookies(response, authentication.refreshedTokens);
+      }
+      return response;
     } else if (type === ApplicationType.GARAGE) {
       return handleGarageApplication(body);
     }
@@ -98,44 +72,18 @@ export async function POST(request: NextRequest) {
 }
 
 // GET - Get applications (for admins and applicants)
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const type = searchParams.get('type');
     const status = searchParams.get('status'); // pending, approved, rejected
 
     let whereClause: Record<string, unknown> = {};
 
-    // System admins can see all applications
+    // Users with applications.review can see all applications
     // Garage admins can see mechanic applications for their garages
     // Regular users can see their own applications
-    if (decoded.userType === 'SYSTEM_ADMIN') {
+    if (await hasPermission(user, PERMISSIONS.APPLICATIONS_REVIEW)) {
       if (type) {
         whereClause.applicationType = type;
       }
@@ -146,11 +94,11 @@ export async function GET(request: NextRequest) {
       } else if (status === 'rejected') {
         whereClause.approved = false;
       }
-    } else if (decoded.userType === 'GARAGE_ADMIN') {
+    } else if (user.userType === 'GARAGE_ADMIN') {
       // Get garage admin's garage
       const garageAdmin = await prisma.garage.findFirst({
         where: {
-          adminId: decoded.id,
+          adminId: user.id,
           approved: true,
           removed: false,
         }
@@ -181,7 +129,7 @@ export async function GET(request: NextRequest) {
       }
     } else {
       // Regular users can only see their own applications
-      whereClause.applicantId = decoded.id;
+      whereClause.applicantId = user.id;
     }
 
     const applications = await prisma.application.findMany({
@@ -232,9 +180,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
+
 // Helper function to handle mechanic applications
-async function handleMechanicApplication(body: MechanicApplicationData, decoded: JwtPayload) {
+async function handleMechanicApplication(body: MechanicApplicationData, user: AuthUser) {
   const { garageId }: MechanicApplicationData = body;
   
   if (!garageId) {
@@ -250,7 +199,7 @@ async function handleMechanicApplication(body: MechanicApplicationData, decoded:
   // Check if user already has a pending mechanic application
   const existingApplication = await prisma.application.findFirst({
     where: {
-      applicantId: decoded.id,
+      applicantId: user.id,
       applicationType: ApplicationType.MECHANIC,
       approved: null, // pending applications
     }
@@ -288,7 +237,7 @@ async function handleMechanicApplication(body: MechanicApplicationData, decoded:
   // Create mechanic application
   const application = await prisma.application.create({
     data: {
-      applicantId: decoded.id,
+      applicantId: user.id,
       applicationType: ApplicationType.MECHANIC,
       garageId: garageId,
     },
@@ -408,6 +357,9 @@ async function handleGarageApplication(body: GarageApplicationData) {
     }
   });
 
+  // The approval email goes to this address too, so have the applicant confirm it
+  await sendVerificationEmail(adminUser);
+
   return NextResponse.json<ApiResponse>(
     {
       success: true,
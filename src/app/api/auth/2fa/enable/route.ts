@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { completeTwoFactorEnrollment } from '@/lib/two-factor';
+import type { ApiResponse } from '@/types/auth';
+
+// POST - Confirm enrollment with a code from the authenticator app; returns the recovery codes
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    const { code } = await request.json();
+
+    if (!code) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Verification code is required'
+        },
+        { status: 400 }
+      );
+    }
+
+    const account = await prisma.user.findUnique({
+      where: { id: user.id }
+    });
+
+    if (!account || account.twoFactorEnabled || !account.twoFactorSecret) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Start two-factor setup first'
+        },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await completeTwoFactorEnrollment(account, String(code).trim());
+
+    if (!recoveryCodes) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid verification code'
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: true,
+        message: 'Two-factor authentication has been enabled',
+        data: { recoveryCodes }
+      }
+    );
+
+  } catch (error) {
+    console.error('Enable two-factor error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  blockImpersonation: true
+});
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { regenerateRecoveryCodes, verifyTwoFactorCode } from '@/lib/two-factor';
+import type { ApiResponse } from '@/types/auth';
+
+// POST - Replace the recovery codes (needs a current code); the old ones stop working
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    const { code } = await request.json();
+
+    if (!code) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Verification code is required'
+        },
+        { status: 400 }
+      );
+    }
+
+    const account = await prisma.user.findUnique({
+      where: { id: user.id }
+    });
+
+    if (!account || !account.twoFactorEnabled) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Two-factor authentication is not enabled'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!(await verifyTwoFactorCode(account, String(code)))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid verification code'
+        },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: true,
+        message: 'New recovery codes generated',
+        data: { recoveryCodes }
+      }
+    );
+
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  blockImpersonation: true
+});
@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { verifyPassword } from '@/utils/password';
+import { disableTwoFactor, isTwoFactorRequired, verifyTwoFactorCode } from '@/lib/two-factor';
+import type { ApiResponse } from '@/types/auth';
+
+// GET - Two-factor authentication status of the current user
+export const GET = withAuth(async (request, { user }) => {
+  try {
+    const account = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: {
+        twoFactorEnabled: true,
+        twoFactorRecoveryCodes: true
+      }
+    });
+
+    if (!account) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'User not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: true,
+        data: {
+          enabled: account.twoFactorEnabled,
+          required: await isTwoFactorRequired(user.userType),
+          recoveryCodesRemaining: account.twoFactorEnabled ? account.twoFactorRecoveryCodes.length : 0
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE - Turn two-factor authentication off (needs the password and a current code)
+export const DELETE = withAuth(async (request, { user }) => {
+  try {
+    const { password, code } = await request.json();
+
+    if (!password || !code) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Password and verification code are required'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (await isTwoFactorRequired(user.userType)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Two-factor authentication is required for your account type'
+        },
+        { status: 403 }
+      );
+    }
+
+    const account = await prisma.user.findUnique({
+      where: { id: user.id }
+    });
+
+    if (!account || !account.twoFactorEnabled) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Two-factor authentication is not enabled'
+        },
+        { status: 400 }
+      );
+    }
+
+    const isPasswordValid = await verifyPassword(password, account.password);
+    if (!isPasswordValid || !(await verifyTwoFactorCode(account, String(code)))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid password or verification code'
+        },
+        { status: 400 }
+      );
+    }
+
+    await disableTwoFactor(user.id);
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: true,
+        message: 'Two-factor authentication has been disabled'
+      }
+    );
+
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  blockImpersonation: true
+});
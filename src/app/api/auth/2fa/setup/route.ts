@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { beginTwoFactorEnrollment } from '@/lib/two-factor';
+import type { ApiResponse } from '@/types/auth';
+
+// POST - Start enrolling an authenticator app; returns the secret and an otpauth:// URL for it
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    const account = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { id: true, username: true, twoFactorEnabled: true }
+    });
+
+    if (!account) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'User not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (account.twoFactorEnabled) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Two-factor authentication is already enabled'
+        },
+        { status: 409 }
+      );
+    }
+
+    const enrollment = await beginTwoFactorEnrollment(account);
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: true,
+        data: enrollment
+      }
+    );
+
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  blockImpersonation: true
+});
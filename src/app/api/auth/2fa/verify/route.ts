@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createLoginResponse } from '@/lib/api-auth';
+import { getClientIp } from '@/lib/sessions';
+import { ACCOUNT_LOCKED_MESSAGE, isAccountLocked, recordLoginFailure, recordLoginSuccess } from '@/lib/login-protection';
+import { completeTwoFactorEnrollment, verifyTwoFactorChallenge, verifyTwoFactorCode } from '@/lib/two-factor';
+
+// Second login step: check the authenticator (or recovery) code and sign the user in
+export async function POST(request: NextRequest) {
+  try {
+    const { challengeToken, code } = await request.json();
+
+    if (!challengeToken || !code) {
+      return NextResponse.json(
+        { error: 'Verification code is required' },
+        { status: 400 }
+      );
+    }
+
+    const userId = verifyTwoFactorChallenge(challengeToken);
+    const user = userId
+      ? await prisma.user.findUnique({ where: { id: userId } })
+      : null;
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Your sign-in attempt has expired. Please sign in again.', challengeExpired: true },
+        { status: 401 }
+      );
+    }
+
+    if (isAccountLocked(user)) {
+      return NextResponse.json(
+        {
+          error: ACCOUNT_LOCKED_MESSAGE,
+          lockedUntil: user.lockedUntil,
+        },
+        { status: 423 }
+      );
+    }
+
+    const ipAddress = getClientIp(request);
+
+    // Accounts that must use 2FA but had not set it up enroll as part of signing in
+    let recoveryCodes: string[] | null = null;
+    let verified: boolean;
+    if (user.twoFactorEnabled) {
+      verified = await verifyTwoFactorCode(user, String(code));
+    } else {
+      recoveryCodes = await completeTwoFactorEnrollment(user, String(code).trim());
+      verified = recoveryCodes !== null;
+    }
+
+    if (!verified) {
+      // Wrong codes count towards the account lockout just like wrong passwords
+      const lockedUntil = await recordLoginFailure(user.username, ipAddress, user);
+      if (lockedUntil) {
+        return NextResponse.json(
+          {
+            error: ACCOUNT_LOCKED_MESSAGE,
+            lockedUntil,
+          },
+          { status: 423 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 401 }
+      );
+    }
+
+    await recordLoginSuccess(user.username, ipAddress, user);
+
+    return createLoginResponse(user, request, recoveryCodes ? { recoveryCodes } : {});
+  } catch (error) {
+    console.error('Two-factor verification error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { revokeUserSessions } from '@/lib/sessions';
+import { invalidatePasswordResetTokens } from '@/lib/password-reset';
 import { verifyPassword, hashPassword } from '@/utils/password';
-import jwt from 'jsonwebtoken';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { user: authUser }) => {
   try {
     const { currentPassword, newPassword } = await request.json();
 
@@ -14,20 +16,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get token from cookie or Authorization header
-    const token = request.cookies.get('auth-token')?.value || 
-                 request.headers.get('Authorization')?.replace('Bearer ', '');
-
-    if (!token) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode token
-    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as { id: number };
-    const userId = decoded.id;
+    const userId = authUser.id;
 
     // Get user from database
     const user = await prisma.user.findUnique({
@@ -71,24 +60,26 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    // Pending reset links were meant for the old password
+    await invalidatePasswordResetTokens(userId);
+
+    // Sign out every other device; the session that changed the password stays active
+    const revokedCount = await revokeUserSessions(userId, 'Password changed', authUser.sid);
+
     return NextResponse.json({
       success: true,
-      message: 'Password changed successfully'
+      message: revokedCount > 0
+        ? `Password changed successfully. Signed out of ${revokedCount} other session(s).`
+        : 'Password changed successfully'
     });
 
   } catch (error) {
     console.error('Change password error:', error);
-    
-    if (error instanceof jwt.JsonWebTokenError) {
-      return NextResponse.json(
-        { error: 'Invalid authentication token' },
-        { status: 401 }
-      );
-    }
-
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, {
+  blockImpersonation: true
+});
\ No newline at end of file
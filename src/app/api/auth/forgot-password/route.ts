@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { sendEmail, generatePasswordResetEmail } from '@/lib/email';
-import crypto from 'crypto';
+import { getClientIp } from '@/lib/sessions';
+import { checkPasswordResetRequest } from '@/lib/login-protection';
+import { issuePasswordResetToken } from '@/lib/password-reset';
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,6 +16,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const { ipLimited, emailLimited } = await checkPasswordResetRequest(email, getClientIp(request));
+
+    if (ipLimited) {
+      return NextResponse.json(
+        { error: 'Too many password reset requests. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': '3600' } }
+      );
+    }
+
     // Find user by email
     const user = await prisma.user.findUnique({
       where: { email }
@@ -25,23 +36,16 @@ export async function POST(request: NextRequest) {
       message: 'If an account with that email exists, you will receive a password reset link shortly.'
     });
 
-    if (!user) {
+    // Over the per-address limit no further emails are sent, without telling the requester
+    if (!user || emailLimited) {
       return successResponse;
     }
 
-    // Generate reset token
-    const resetToken = crypto.randomBytes(32).toString('hex');
-    const resetTokenExpires = new Date(Date.now() + 60 * 60 * 1000); // 1 hour from now
-
-    // Save reset token to database
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        resetToken,
-        resetTokenExpires,
-        updatedAt: new Date()
-      }
-    });
+    // Issue a new reset token (earlier links stop working); null if one was sent moments ago
+    const resetToken = await issuePasswordResetToken(user.id, request);
+    if (!resetToken) {
+      return successResponse;
+    }
 
     // Generate email content
     const emailContent = generatePasswordResetEmail(resetToken, user.firstName);
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { endImpersonation, getRequestImpersonation, setImpersonationEndCookies } from '@/lib/impersonation';
+import type { ApiResponse } from '@/types/auth';
+
+// GET - Whether the current session is a system admin impersonating a user; works after it expired
+export async function GET(request: NextRequest) {
+  try {
+    const impersonation = await getRequestImpersonation(request);
+
+    if (!impersonation || impersonation.endedAt) {
+      return NextResponse.json<ApiResponse>({
+        success: true,
+        data: { active: false }
+      });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        active: true,
+        expired: impersonation.expiresAt <= new Date(),
+        expiresAt: impersonation.expiresAt,
+        readOnly: impersonation.readOnly,
+        user: impersonation.user,
+        admin: impersonation.admin
+      }
+    });
+
+  } catch (error) {
+    console.error('Get impersonation error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Stop impersonating and return to the admin's own session
+export async function DELETE(request: NextRequest) {
+  try {
+    const ended = await endImpersonation(request);
+
+    if (!ended) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Not impersonating a user'
+        },
+        { status: 400 }
+      );
+    }
+
+    const response = NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Impersonation ended',
+      data: {
+        redirect: ended.tokens ? '/system-admin/users' : '/auth/signin'
+      }
+    });
+    setImpersonationEndCookies(response, ended.tokens);
+
+    return response;
+
+  } catch (error) {
+    console.error('End impersonation error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
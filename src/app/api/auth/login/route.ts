@@ -2,7 +2,35 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { verifyPassword } from '@/utils/password';
 import { UserType } from '@/generated/prisma';
-import jwt from 'jsonwebtoken';
+import { createLoginResponse } from '@/lib/api-auth';
+import { getClientIp } from '@/lib/sessions';
+import {
+  ACCOUNT_LOCKED_MESSAGE,
+  clearExpiredLockout,
+  getAccountRetryAfter,
+  getIpRetryAfter,
+  isAccountLocked,
+  recordLoginFailure,
+  recordLoginSuccess,
+} from '@/lib/login-protection';
+import { beginTwoFactorEnrollment, isTwoFactorRequired, signTwoFactorChallenge } from '@/lib/two-factor';
+
+function tooManyAttemptsResponse(retryAfter: number) {
+  return NextResponse.json(
+    { error: `Too many login attempts. Please try again in ${retryAfter} second(s).`, retryAfter },
+    { status: 429, headers: { 'Retry-After': retryAfter.toString() } }
+  );
+}
+
+function accountLockedResponse(lockedUntil: Date) {
+  return NextResponse.json(
+    {
+      error: ACCOUNT_LOCKED_MESSAGE,
+      lockedUntil,
+    },
+    { status: 423 }
+  );
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,71 +51,77 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Slow down and eventually block addresses that keep guessing
+    const ipAddress = getClientIp(request);
+    const ipRetryAfter = await getIpRetryAfter(ipAddress);
+    if (ipRetryAfter > 0) {
+      return tooManyAttemptsResponse(ipRetryAfter);
+    }
+
     // Find user by username and type
-    const user = await prisma.user.findFirst({
+    const foundUser = await prisma.user.findFirst({
       where: {
         username,
         userType: userType as UserType,
       },
     });
 
-    if (!user) {
+    if (!foundUser) {
+      await recordLoginFailure(username, ipAddress, null);
       return NextResponse.json(
         { error: 'Invalid credentials' },
         { status: 401 }
       );
     }
 
+    const user = await clearExpiredLockout(foundUser);
+
+    if (isAccountLocked(user)) {
+      return accountLockedResponse(user.lockedUntil!);
+    }
+
+    const accountRetryAfter = getAccountRetryAfter(user);
+    if (accountRetryAfter > 0) {
+      return tooManyAttemptsResponse(accountRetryAfter);
+    }
+
     // Verify password
     const isPasswordValid = await verifyPassword(password, user.password);
     
     if (!isPasswordValid) {
+      const lockedUntil = await recordLoginFailure(username, ipAddress, user);
+      if (lockedUntil) {
+        return accountLockedResponse(lockedUntil);
+      }
+
       return NextResponse.json(
         { error: 'Invalid credentials' },
         { status: 401 }
       );
     }
 
-    // Create JWT token
-    const token = jwt.sign(
-      {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        userType: user.userType,
-        firstName: user.firstName,
-        lastName: user.lastName,
-      },
-      process.env.NEXTAUTH_SECRET!,
-      { expiresIn: '24h' }
-    );
+    // With two-factor authentication a second step is needed before a session is created
+    if (user.twoFactorEnabled) {
+      return NextResponse.json({
+        success: true,
+        twoFactorRequired: true,
+        challengeToken: signTwoFactorChallenge(user.id),
+      });
+    }
 
-    // Return user data without password
-    const userData = {
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-      userType: user.userType,
-    };
-
-    const response = NextResponse.json({
-      success: true,
-      user: userData,
-      token,
-    });
+    if (await isTwoFactorRequired(user.userType)) {
+      const enrollment = await beginTwoFactorEnrollment(user);
+      return NextResponse.json({
+        success: true,
+        twoFactorSetupRequired: true,
+        challengeToken: signTwoFactorChallenge(user.id),
+        ...enrollment,
+      });
+    }
 
-    // Set HTTP-only cookie with the token
-    response.cookies.set('auth-token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 24 * 60 * 60, // 24 hours
-      path: '/',
-    });
+    await recordLoginSuccess(username, ipAddress, user);
 
-    return response;
+    return createLoginResponse(user, request);
   } catch (error) {
     console.error('Login error:', error);
     return NextResponse.json(
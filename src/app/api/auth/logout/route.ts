@@ -1,20 +1,24 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookies, getRequestSessionId, revokeSession } from '@/lib/sessions';
+import { closeImpersonation } from '@/lib/impersonation';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
+    // Revoke the session server-side so its tokens stop working even if they were copied
+    const sessionId = await getRequestSessionId(request);
+    if (sessionId) {
+      await revokeSession(sessionId, 'Signed out');
+      // Signing out while impersonating also ends the impersonation
+      await closeImpersonation(sessionId);
+    }
+
     const response = NextResponse.json({
       success: true,
       message: 'Logged out successfully',
     });
 
-    // Clear the auth-token cookie
-    response.cookies.set('auth-token', '', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 0, // Expire immediately
-      path: '/',
-    });
+    // Clear the auth-token, refresh-token and impersonation-return cookies
+    clearSessionCookies(response);
 
     return response;
   } catch (error) {
@@ -24,4 +28,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getUserPermissions, withAuth } from '@/lib/api-auth';
+import { DASHBOARD_ROUTES } from '@/lib/permissions';
+import type { ApiResponse } from '@/types/auth';
+
+// GET - Effective permissions of the signed-in user, their ID and the dashboard pages they unlock
+export const GET = withAuth(async (request, { user }) => {
+  try {
+    const permissions = await getUserPermissions(user);
+    const navigation = DASHBOARD_ROUTES.filter(route => permissions.includes(route.permission));
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: true,
+        data: { userId: user.id, permissions, navigation }
+      }
+    );
+
+  } catch (error) {
+    console.error('Get permissions error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
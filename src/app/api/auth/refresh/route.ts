@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshSession } from '@/lib/api-auth';
+import { clearSessionCookies, IMPERSONATION_RETURN_COOKIE, REFRESH_COOKIE, setSessionCookies } from '@/lib/sessions';
+import { endImpersonation, setImpersonationEndCookies } from '@/lib/impersonation';
+import { getSameOriginRedirect } from '@/lib/redirects';
+
+// POST - Exchange the refresh token cookie for a new access token (and rotated refresh token)
+export async function POST(request: NextRequest) {
+  try {
+    const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+    const refreshed = refreshToken ? await refreshSession(refreshToken, request) : null;
+
+    if (!refreshed) {
+      const response = NextResponse.json(
+        { error: 'Session expired or revoked' },
+        { status: 401 }
+      );
+      clearSessionCookies(response);
+      return response;
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      user: refreshed.user,
+      token: refreshed.tokens.accessToken,
+    });
+    setSessionCookies(response, refreshed.tokens);
+
+    return response;
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET - Used by the middleware when a page is opened with an expired access token;
+// refreshes the session and sends the browser back to the page it asked for
+export async function GET(request: NextRequest) {
+  const redirectUrl = getSameOriginRedirect(request.nextUrl.searchParams.get('redirect'), request);
+
+  try {
+    const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+    const refreshed = refreshToken ? await refreshSession(refreshToken, request) : null;
+
+    if (!refreshed) {
+      // An expired impersonation sends the admin back to their own session
+      if (request.cookies.get(IMPERSONATION_RETURN_COOKIE)) {
+        const ended = await endImpersonation(request);
+        if (ended?.tokens) {
+          const response = NextResponse.redirect(new URL('/system-admin/users', request.url));
+          setImpersonationEndCookies(response, ended.tokens);
+          return response;
+        }
+      }
+
+      const response = NextResponse.redirect(new URL('/auth/signin', request.url));
+      clearSessionCookies(response);
+      return response;
+    }
+
+    const response = NextResponse.redirect(redirectUrl);
+    setSessionCookies(response, refreshed.tokens);
+
+    return response;
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    return NextResponse.redirect(new URL('/auth/signin', request.url));
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { hashPassword } from '@/utils/password';
+import { revokeUserSessions } from '@/lib/sessions';
+import { consumePasswordResetToken } from '@/lib/password-reset';
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,15 +23,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Find user by reset token
-    const user = await prisma.user.findFirst({
-      where: {
-        resetToken: token,
-        resetTokenExpires: {
-          gt: new Date() // Token must not be expired
-        }
-      }
-    });
+    // Use up the reset token; it cannot be used again
+    const userId = await consumePasswordResetToken(token, request);
+    const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null;
 
     if (!user) {
       return NextResponse.json(
@@ -41,17 +37,24 @@ export async function POST(request: NextRequest) {
     // Hash new password
     const hashedPassword = await hashPassword(newPassword);
 
-    // Update user password and clear reset token
+    // Update user password
     await prisma.user.update({
       where: { id: user.id },
       data: {
         password: hashedPassword,
-        resetToken: null,
-        resetTokenExpires: null,
+        // Proving access to the email also lifts a login lockout
+        failedLoginAttempts: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null,
+        unlockToken: null,
+        unlockTokenExpires: null,
         updatedAt: new Date()
       }
     });
 
+    // Whoever knew the old password may still be signed in; end all existing sessions
+    await revokeUserSessions(user.id, 'Password reset');
+
     return NextResponse.json({
       success: true,
       message: 'Password has been reset successfully'
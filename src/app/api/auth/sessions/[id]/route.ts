@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { clearSessionCookies, revokeSession } from '@/lib/sessions';
+import type { ApiResponse } from '@/types/auth';
+
+// DELETE - Sign out a single session of the current user
+export const DELETE = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const sessionId = parseInt(id);
+
+    if (isNaN(sessionId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid session ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const session = await prisma.session.findFirst({
+      where: {
+        id: sessionId,
+        userId: user.id,
+        revokedAt: null
+      }
+    });
+
+    if (!session) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Session not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    await revokeSession(sessionId, sessionId === user.sid ? 'Signed out' : 'Signed out from another device');
+
+    const response = NextResponse.json<ApiResponse>(
+      {
+        success: true,
+        message: 'Session signed out'
+      }
+    );
+
+    if (sessionId === user.sid) {
+      clearSessionCookies(response);
+    }
+
+    return response;
+
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  blockImpersonation: true
+});
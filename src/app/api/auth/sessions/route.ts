@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { clearSessionCookies, revokeUserSessions } from '@/lib/sessions';
+import type { ApiResponse } from '@/types/auth';
+
+// GET - List the active sessions (signed-in devices) of the current user
+export const GET = withAuth(async (request, { user }) => {
+  try {
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId: user.id,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastSeenAt: true
+      },
+      orderBy: { lastSeenAt: 'desc' }
+    });
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: true,
+        data: {
+          sessions: sessions.map(session => ({
+            ...session,
+            current: session.id === user.sid
+          }))
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE - Sign out everywhere, including this device
+export const DELETE = withAuth(async (request, { user }) => {
+  try {
+    const revokedCount = await revokeUserSessions(user.id, 'Signed out everywhere');
+
+    const response = NextResponse.json<ApiResponse>(
+      {
+        success: true,
+        message: `Signed out of ${revokedCount} session(s)`
+      }
+    );
+    clearSessionCookies(response);
+
+    return response;
+
+  } catch (error) {
+    console.error('Revoke all sessions error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  blockImpersonation: true
+});
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { unlockAccountWithToken } from '@/lib/login-protection';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Unlock token is required' },
+        { status: 400 }
+      );
+    }
+
+    const unlocked = await unlockAccountWithToken(token);
+
+    if (!unlocked) {
+      return NextResponse.json(
+        { error: 'Invalid or expired unlock link' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Your account has been unlocked. You can sign in again.'
+    });
+
+  } catch (error) {
+    console.error('Unlock account error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
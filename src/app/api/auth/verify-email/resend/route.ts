@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { RESEND_INTERVAL_MS, sendVerificationEmail } from '@/lib/email-verification';
+import type { ApiResponse } from '@/types/auth';
+
+// POST - Send a new verification link to the current user's email address
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    const account = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        emailVerified: true,
+        emailVerificationSentAt: true
+      }
+    });
+
+    if (!account) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'User not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (account.emailVerified) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Your email address is already verified'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (account.emailVerificationSentAt && Date.now() - account.emailVerificationSentAt.getTime() < RESEND_INTERVAL_MS) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'A verification email was sent recently. Please wait a minute before trying again.'
+        },
+        { status: 429 }
+      );
+    }
+
+    await sendVerificationEmail(account);
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: true,
+        message: `Verification email sent to ${account.email}`
+      }
+    );
+
+  } catch (error) {
+    console.error('Resend verification email error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyEmailToken } from '@/lib/email-verification';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Verification token is required' },
+        { status: 400 }
+      );
+    }
+
+    const verified = await verifyEmailToken(token);
+
+    if (!verified) {
+      return NextResponse.json(
+        { error: 'Invalid or expired verification link' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Your email address has been verified.'
+    });
+
+  } catch (error) {
+    console.error('Verify email error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendAppointmentReminders } from '@/lib/appointments';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+import type { ApiResponse } from '@/types/auth';
+
+// GET - Send reminders for appointments starting within the next 24 hours; run hourly
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Unauthorized'
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const sent = await sendAppointmentReminders();
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: `${sent} appointment reminder(s) sent`,
+      data: { sent }
+    });
+
+  } catch (error) {
+    console.error('Appointment reminders error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
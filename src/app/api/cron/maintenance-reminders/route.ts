@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+import { sendMaintenanceReminders } from '@/lib/maintenance';
+import type { ApiResponse } from '@/types/auth';
+
+// GET - Remind owners of maintenance that is due or coming up; run daily
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Unauthorized'
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const sent = await sendMaintenanceReminders();
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: `${sent} maintenance reminder(s) sent`,
+      data: { sent }
+    });
+
+  } catch (error) {
+    console.error('Maintenance reminders error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+import { sendVehicleDocumentReminders } from '@/lib/vehicle-documents';
+import type { ApiResponse } from '@/types/auth';
+
+// GET - Remind owners of vehicle documents expiring soon; run daily
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Unauthorized'
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const sent = await sendVehicleDocumentReminders();
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: `${sent} document reminder(s) sent`,
+      data: { sent }
+    });
+
+  } catch (error) {
+    console.error('Vehicle document reminders error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import type { ApiResponse } from '@/types/auth';
+
+// DELETE - Remove a closure, e.g. when a holiday was entered by mistake
+export const DELETE = withAuth<{ id: string; closureId: string }>(async (request, { params, user }) => {
+  try {
+    const { id, closureId } = await params;
+    const garageId = parseInt(id);
+    const parsedClosureId = parseInt(closureId);
+
+    if (isNaN(garageId) || isNaN(parsedClosureId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid closure ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const closure = await prisma.garageClosure.findFirst({
+      where: { id: parsedClosureId, garageId }
+    });
+
+    if (!closure) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Closure not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await hasPermission(user, PERMISSIONS.GARAGE_SCHEDULE_EDIT, garageId))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'You cannot manage the closures of this garage'
+        },
+        { status: 403 }
+      );
+    }
+
+    await prisma.garageClosure.delete({
+      where: { id: closure.id }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Closure removed'
+    });
+
+  } catch (error) {
+    console.error('Delete garage closure error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.GARAGE_SCHEDULE_EDIT,
+  forbiddenMessage: 'Only garage staff can manage closures'
+});
@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { isValidDateKey } from '@/lib/opening-hours';
+import type { ApiResponse } from '@/types/auth';
+
+interface ClosureData {
+  startDate: string;
+  endDate: string;
+  reason?: string;
+}
+
+const MAX_CLOSURE_DAYS = 366;
+const MAX_REASON_LENGTH = 200;
+
+// POST - Close the garage for a range of dates ("YYYY-MM-DD", inclusive, in the garage's time zone)
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const garageId = parseInt(id);
+
+    if (isNaN(garageId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid garage ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const garage = await prisma.garage.findUnique({
+      where: { id: garageId },
+      select: { id: true, removed: true }
+    });
+
+    if (!garage || garage.removed) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Garage not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await hasPermission(user, PERMISSIONS.GARAGE_SCHEDULE_EDIT, garage.id))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'You cannot manage the closures of this garage'
+        },
+        { status: 403 }
+      );
+    }
+
+    const { startDate, endDate, reason }: ClosureData = await request.json();
+    const trimmedReason = typeof reason === 'string' ? reason.trim() : '';
+
+    if (typeof startDate !== 'string' || typeof endDate !== 'string' ||
+        !isValidDateKey(startDate) || !isValidDateKey(endDate) || endDate < startDate) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Start and end date are required and the end cannot be before the start'
+        },
+        { status: 400 }
+      );
+    }
+
+    const start = new Date(`${startDate}T00:00:00Z`);
+    const end = new Date(`${endDate}T00:00:00Z`);
+
+    if (end.getTime() - start.getTime() >= MAX_CLOSURE_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `A closure can last at most ${MAX_CLOSURE_DAYS} days`
+        },
+        { status: 400 }
+      );
+    }
+
+    if (trimmedReason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `Reason must be at most ${MAX_REASON_LENGTH} characters`
+        },
+        { status: 400 }
+      );
+    }
+
+    const closure = await prisma.garageClosure.create({
+      data: {
+        garageId: garage.id,
+        startDate: start,
+        endDate: end,
+        reason: trimmedReason || null
+      },
+      select: { id: true, startDate: true, endDate: true, reason: true }
+    });
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: true,
+        message: 'Closure added',
+        data: {
+          closure: {
+            ...closure,
+            startDate,
+            endDate
+          }
+        }
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Create garage closure error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.GARAGE_SCHEDULE_EDIT,
+  forbiddenMessage: 'Only garage staff can manage closures'
+});
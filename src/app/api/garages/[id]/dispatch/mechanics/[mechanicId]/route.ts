@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { getGarageDispatchSettings } from '@/lib/dispatch';
+import { validateOpeningHours } from '@/lib/opening-hours';
+import type { ApiResponse, MechanicShift } from '@/types/auth';
+
+interface MechanicDispatchProfileData {
+  serviceIds: number[];
+  shifts: MechanicShift[];
+}
+
+// A few shifts a day is plenty, split shifts included
+const MAX_SHIFTS = 7 * 4;
+
+// PUT - Replace the services a mechanic is skilled in and their weekly shifts
+export const PUT = withAuth<{ id: string; mechanicId: string }>(async (request, { params, user }) => {
+  try {
+    const { id, mechanicId: mechanicIdParam } = await params;
+    const garageId = parseInt(id);
+    const mechanicId = parseInt(mechanicIdParam);
+
+    if (isNaN(garageId) || isNaN(mechanicId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid garage or mechanic ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!(await hasPermission(user, PERMISSIONS.GARAGE_MECHANICS_MANAGE, garageId))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'You cannot manage the mechanics of this garage'
+        },
+        { status: 403 }
+      );
+    }
+
+    const mechanic = await prisma.mechanic.findUnique({
+      where: { userId: mechanicId },
+      select: { id: true, garageId: true, approved: true, removed: true }
+    });
+
+    if (!mechanic || mechanic.garageId !== garageId || !mechanic.approved || mechanic.removed) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Mechanic not found in this garage'
+        },
+        { status: 404 }
+      );
+    }
+
+    const body: Partial<MechanicDispatchProfileData> = await request.json();
+    const serviceIds = Array.isArray(body.serviceIds) ? [...new Set(body.serviceIds)] : [];
+    const shifts = Array.isArray(body.shifts) ? body.shifts : [];
+
+    const shiftError = shifts.length > MAX_SHIFTS
+      ? `At most ${MAX_SHIFTS} shifts can be set`
+      : validateOpeningHours(shifts.map(shift => ({
+        dayOfWeek: shift.dayOfWeek,
+        opensAt: shift.startsAt,
+        closesAt: shift.endsAt
+      })));
+
+    if (shiftError) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: shiftError
+        },
+        { status: 400 }
+      );
+    }
+
+    const offered = await prisma.garageService.count({
+      where: { garageId, serviceId: { in: serviceIds.filter(Number.isInteger) } }
+    });
+
+    if (offered !== serviceIds.length) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Skills must be services this garage offers'
+        },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.mechanicSkill.deleteMany({ where: { mechanicId: mechanic.id } }),
+      prisma.mechanicSkill.createMany({
+        data: serviceIds.map(serviceId => ({ mechanicId: mechanic.id, serviceId }))
+      }),
+      prisma.mechanicShift.deleteMany({ where: { mechanicId: mechanic.id } }),
+      prisma.mechanicShift.createMany({
+        data: shifts.map(({ dayOfWeek, startsAt, endsAt }) => ({
+          mechanicId: mechanic.id,
+          dayOfWeek,
+          startsAt,
+          endsAt
+        }))
+      })
+    ]);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Mechanic skills and shifts updated successfully',
+      data: { settings: await getGarageDispatchSettings(garageId) }
+    });
+
+  } catch (error) {
+    console.error('Update mechanic dispatch profile error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.GARAGE_MECHANICS_MANAGE,
+  forbiddenMessage: 'Only garage staff can manage dispatch'
+});
@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { getGarageDispatchSettings } from '@/lib/dispatch';
+import type { ApiResponse, AuthUser, GarageDispatchSettings } from '@/types/auth';
+
+// The garage, when the user may manage its mechanics
+async function findManagedGarage(user: AuthUser, id: string) {
+  const garageId = parseInt(id);
+
+  if (isNaN(garageId)) {
+    return { garage: null, error: 'Invalid garage ID', status: 400 } as const;
+  }
+
+  const garage = await prisma.garage.findUnique({
+    where: { id: garageId },
+    select: { id: true, removed: true }
+  });
+
+  if (!garage || garage.removed) {
+    return { garage: null, error: 'Garage not found', status: 404 } as const;
+  }
+
+  if (!(await hasPermission(user, PERMISSIONS.GARAGE_MECHANICS_MANAGE, garage.id))) {
+    return { garage: null, error: 'You cannot manage the mechanics of this garage', status: 403 } as const;
+  }
+
+  return { garage } as const;
+}
+
+// GET - Auto-dispatch setting, plus each mechanic's skills, shifts and current workload
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const found = await findManagedGarage(user, id);
+
+    if (!found.garage) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: found.error
+        },
+        { status: found.status }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { settings: await getGarageDispatchSettings(found.garage.id) }
+    });
+
+  } catch (error) {
+    console.error('Get dispatch settings error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.GARAGE_MECHANICS_MANAGE,
+  forbiddenMessage: 'Only garage staff can manage dispatch'
+});
+
+// PUT - Turn automatic dispatch of new requests on or off
+export const PUT = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const found = await findManagedGarage(user, id);
+
+    if (!found.garage) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: found.error
+        },
+        { status: found.status }
+      );
+    }
+
+    const body: Partial<Pick<GarageDispatchSettings, 'autoDispatch'>> = await request.json();
+
+    if (typeof body.autoDispatch !== 'boolean') {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'autoDispatch must be true or false'
+        },
+        { status: 400 }
+      );
+    }
+
+    await prisma.garage.update({
+      where: { id: found.garage.id },
+      data: { autoDispatch: body.autoDispatch }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: body.autoDispatch ? 'Automatic dispatch turned on' : 'Automatic dispatch turned off',
+      data: { settings: await getGarageDispatchSettings(found.garage.id) }
+    });
+
+  } catch (error) {
+    console.error('Update dispatch settings error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.GARAGE_MECHANICS_MANAGE,
+  forbiddenMessage: 'Only garage staff can manage dispatch'
+});
@@ -0,0 +1,227 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import {
+  garageScheduleInclude,
+  getGarageAvailability,
+  isValidTimeZone,
+  MAX_AFTER_HOURS_SURCHARGE,
+  validateOpeningHours
+} from '@/lib/opening-hours';
+import { MAX_CANCELLATION_FEE } from '@/lib/request-status';
+import type { ApiResponse, GarageScheduleData } from '@/types/auth';
+
+// Weekly opening windows are at most a few per day
+const MAX_OPENING_WINDOWS = 7 * 4;
+
+async function loadSchedule(garageId: number) {
+  const garage = await prisma.garage.findUnique({
+    where: { id: garageId },
+    select: {
+      id: true,
+      removed: true,
+      available: true,
+      timezone: true,
+      emergencyAfterHours: true,
+      afterHoursSurcharge: true,
+      cancellationFee: true,
+      ...garageScheduleInclude()
+    }
+  });
+
+  if (!garage || garage.removed) return null;
+
+  const availability = getGarageAvailability(garage);
+
+  return {
+    timezone: garage.timezone,
+    emergencyAfterHours: garage.emergencyAfterHours,
+    afterHoursSurcharge: garage.afterHoursSurcharge,
+    cancellationFee: garage.cancellationFee,
+    openingHours: garage.openingHours,
+    closures: garage.closures.map(closure => ({
+      ...closure,
+      startDate: closure.startDate.toISOString().slice(0, 10),
+      endDate: closure.endDate.toISOString().slice(0, 10)
+    })),
+    ...availability,
+    nextOpeningAt: availability.nextOpeningAt?.toISOString() ?? null
+  };
+}
+
+// GET - Opening hours, upcoming closures and whether the garage is open right now
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const garageId = parseInt(id);
+
+    if (isNaN(garageId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid garage ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await loadSchedule(garageId);
+
+    if (!schedule) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Garage not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { schedule }
+    });
+
+  } catch (error) {
+    console.error('Get garage hours error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Replace the weekly opening hours, time zone and after-hours emergency settings
+export const PUT = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const garageId = parseInt(id);
+
+    if (isNaN(garageId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid garage ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const garage = await prisma.garage.findUnique({
+      where: { id: garageId },
+      select: { id: true, removed: true }
+    });
+
+    if (!garage || garage.removed) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Garage not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await hasPermission(user, PERMISSIONS.GARAGE_SCHEDULE_EDIT, garage.id))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'You cannot manage the opening hours of this garage'
+        },
+        { status: 403 }
+      );
+    }
+
+    const body: Partial<GarageScheduleData> = await request.json();
+    const openingHours = Array.isArray(body.openingHours) ? body.openingHours : [];
+    const { timezone, emergencyAfterHours, afterHoursSurcharge, cancellationFee } = body;
+
+    if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Unknown time zone'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (typeof emergencyAfterHours !== 'boolean' ||
+        typeof afterHoursSurcharge !== 'number' ||
+        !(afterHoursSurcharge >= 0 && afterHoursSurcharge <= MAX_AFTER_HOURS_SURCHARGE)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `After-hours surcharge must be between 0 and ${MAX_AFTER_HOURS_SURCHARGE}`
+        },
+        { status: 400 }
+      );
+    }
+
+    if (typeof cancellationFee !== 'number' || !(cancellationFee >= 0 && cancellationFee <= MAX_CANCELLATION_FEE)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `Cancellation fee must be between 0 and ${MAX_CANCELLATION_FEE}`
+        },
+        { status: 400 }
+      );
+    }
+
+    const hoursError = openingHours.length > MAX_OPENING_WINDOWS
+      ? `At most ${MAX_OPENING_WINDOWS} opening times can be set`
+      : validateOpeningHours(openingHours);
+
+    if (hoursError) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: hoursError
+        },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.garage.update({
+        where: { id: garage.id },
+        data: { timezone, emergencyAfterHours, afterHoursSurcharge, cancellationFee }
+      }),
+      prisma.garageOpeningHours.deleteMany({ where: { garageId: garage.id } }),
+      prisma.garageOpeningHours.createMany({
+        data: openingHours.map(({ dayOfWeek, opensAt, closesAt }) => ({
+          garageId: garage.id,
+          dayOfWeek,
+          opensAt,
+          closesAt
+        }))
+      })
+    ]);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Opening hours updated successfully',
+      data: { schedule: await loadSchedule(garage.id) }
+    });
+
+  } catch (error) {
+    console.error('Update garage hours error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.GARAGE_SCHEDULE_EDIT,
+  forbiddenMessage: 'Only garage staff can manage opening hours'
+});
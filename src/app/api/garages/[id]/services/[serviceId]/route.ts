@@ -1,33 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
 import type { ApiResponse } from '@/types/auth';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
 interface GarageServiceUpdateData {
   available?: boolean;
 }
 
-function getTokenFromRequest(request: NextRequest): string | null {
-  // Try to get token from cookie first
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  // Fallback to Authorization header
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // GET - Get specific garage service
 export async function GET(
   request: NextRequest,
@@ -106,38 +86,10 @@ export async function GET(
   }
 }
 
-// PATCH - Update garage service availability (GARAGE_ADMIN or SYSTEM_ADMIN)
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string; serviceId: string }> }
-) {
+// PATCH - Update garage service availability (requires garage.services.edit)
+export const PATCH = withAuth<{ id: string; serviceId: string }>(async (request, { params, user }) => {
   try {
     const { id, serviceId: serviceIdStr } = await params;
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
 
     const garageId = parseInt(id);
     const serviceId = parseInt(serviceIdStr);
@@ -181,9 +133,8 @@ export async function PATCH(
       );
     }
 
-    // Only garage admin or system admin can update service availability
-    if (decoded.userType !== 'SYSTEM_ADMIN' && 
-        (decoded.userType !== 'GARAGE_ADMIN' || decoded.id !== existingAssignment.garage.adminId)) {
+    // Only users with garage.services.edit for this garage can update service availability
+    if (!(await hasPermission(user, PERMISSIONS.GARAGE_SERVICES_EDIT, existingAssignment.garageId))) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
@@ -254,40 +205,15 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
+}, {
+  permission: PERMISSIONS.GARAGE_SERVICES_EDIT,
+  forbiddenMessage: 'Only garage administrators can update service availability'
+});
 
-// DELETE - Remove service from garage (GARAGE_ADMIN or SYSTEM_ADMIN)
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string; serviceId: string }> }
-) {
+// DELETE - Remove service from garage (requires garage.services.edit)
+export const DELETE = withAuth<{ id: string; serviceId: string }>(async (request, { params, user }) => {
   try {
     const { id, serviceId: serviceIdStr } = await params;
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
 
     const garageId = parseInt(id);
     const serviceId = parseInt(serviceIdStr);
@@ -331,9 +257,8 @@ export async function DELETE(
       );
     }
 
-    // Only garage admin or system admin can remove services
-    if (decoded.userType !== 'SYSTEM_ADMIN' && 
-        (decoded.userType !== 'GARAGE_ADMIN' || decoded.id !== existingAssignment.garage.adminId)) {
+    // Only users with garage.services.edit for this garage can remove services
+    if (!(await hasPermission(user, PERMISSIONS.GARAGE_SERVICES_EDIT, existingAssignment.garageId))) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
@@ -370,4 +295,7 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, {
+  permission: PERMISSIONS.GARAGE_SERVICES_EDIT,
+  forbiddenMessage: 'Only garage administrators can remove services'
+});
\ No newline at end of file
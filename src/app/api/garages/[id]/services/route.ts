@@ -1,34 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
 import type { ApiResponse } from '@/types/auth';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
 interface GarageServiceData {
   serviceId: number;
   available?: boolean;
 }
 
-function getTokenFromRequest(request: NextRequest): string | null {
-  // Try to get token from cookie first
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  // Fallback to Authorization header
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // GET - Get services offered by a specific garage
 export async function GET(
   request: NextRequest,
@@ -117,38 +97,10 @@ export async function GET(
   }
 }
 
-// POST - Add service to garage (GARAGE_ADMIN or SYSTEM_ADMIN)
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+// POST - Add service to garage (requires garage.services.edit)
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
   try {
     const { id } = await params;
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
 
     const garageId = parseInt(id);
 
@@ -178,9 +130,8 @@ export async function POST(
       );
     }
 
-    // Only garage admin or system admin can add services
-    if (decoded.userType !== 'SYSTEM_ADMIN' && 
-        (decoded.userType !== 'GARAGE_ADMIN' || decoded.id !== garage.adminId)) {
+    // Only users with garage.services.edit for this garage can add services
+    if (!(await hasPermission(user, PERMISSIONS.GARAGE_SERVICES_EDIT, garage.id))) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
@@ -281,4 +232,7 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, {
+  permission: PERMISSIONS.GARAGE_SERVICES_EDIT,
+  forbiddenMessage: 'Only garage administrators can manage garage services'
+});
\ No newline at end of file
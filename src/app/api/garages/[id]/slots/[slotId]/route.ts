@@ -0,0 +1,144 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { MAX_SLOT_CAPACITY } from '@/lib/appointments';
+import type { ApiResponse, AuthUser } from '@/types/auth';
+
+// The slot, when it belongs to the garage and the user may manage the garage's schedule
+async function findManagedSlot(user: AuthUser, id: string, slotId: string) {
+  const garageId = parseInt(id);
+  const parsedSlotId = parseInt(slotId);
+
+  if (isNaN(garageId) || isNaN(parsedSlotId)) {
+    return { slot: null, error: 'Invalid slot ID', status: 400 } as const;
+  }
+
+  const slot = await prisma.appointmentSlot.findFirst({
+    where: { id: parsedSlotId, garageId }
+  });
+
+  if (!slot) {
+    return { slot: null, error: 'Appointment slot not found', status: 404 } as const;
+  }
+
+  if (!(await hasPermission(user, PERMISSIONS.GARAGE_SCHEDULE_EDIT, garageId))) {
+    return { slot: null, error: 'You cannot manage appointment slots of this garage', status: 403 } as const;
+  }
+
+  return { slot } as const;
+}
+
+// PATCH - Change the capacity of a slot; it cannot drop below the bookings already made
+export const PATCH = withAuth<{ id: string; slotId: string }>(async (request, { params, user }) => {
+  try {
+    const { id, slotId } = await params;
+    const found = await findManagedSlot(user, id, slotId);
+
+    if (!found.slot) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: found.error
+        },
+        { status: found.status }
+      );
+    }
+
+    const { capacity } = await request.json();
+
+    if (!Number.isInteger(capacity) || capacity < 1 || capacity > MAX_SLOT_CAPACITY) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `Capacity must be a whole number between 1 and ${MAX_SLOT_CAPACITY}`
+        },
+        { status: 400 }
+      );
+    }
+
+    // Conditional on the current bookings, so a booking made meanwhile is never squeezed out
+    const updated = await prisma.appointmentSlot.updateMany({
+      where: { id: found.slot.id, bookedCount: { lte: capacity } },
+      data: { capacity }
+    });
+
+    if (updated.count === 0) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Capacity cannot be lower than the number of bookings in this slot'
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Slot capacity updated'
+    });
+
+  } catch (error) {
+    console.error('Update appointment slot error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.GARAGE_SCHEDULE_EDIT,
+  forbiddenMessage: 'Only garage staff can manage appointment slots'
+});
+
+// DELETE - Remove a slot nobody has booked
+export const DELETE = withAuth<{ id: string; slotId: string }>(async (request, { params, user }) => {
+  try {
+    const { id, slotId } = await params;
+    const found = await findManagedSlot(user, id, slotId);
+
+    if (!found.slot) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: found.error
+        },
+        { status: found.status }
+      );
+    }
+
+    const deleted = await prisma.appointmentSlot.deleteMany({
+      where: { id: found.slot.id, bookedCount: 0 }
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Slots with bookings cannot be removed. Cancel the bookings first.'
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Slot removed'
+    });
+
+  } catch (error) {
+    console.error('Delete appointment slot error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.GARAGE_SCHEDULE_EDIT,
+  forbiddenMessage: 'Only garage staff can manage appointment slots'
+});
@@ -0,0 +1,229 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { MAX_SLOT_CAPACITY, MAX_SLOTS_PER_BATCH } from '@/lib/appointments';
+import type { ApiResponse, AppointmentSlot } from '@/types/auth';
+
+interface SlotData {
+  startsAt: string;
+  endsAt: string;
+  capacity: number;
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_SLOT_DURATION = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// GET - Appointment slots of a garage between from and to (default: the next 30 days); available=true hides full slots
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const garageId = parseInt(id);
+
+    if (isNaN(garageId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid garage ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const garage = await prisma.garage.findUnique({
+      where: { id: garageId },
+      select: { id: true, removed: true }
+    });
+
+    if (!garage || garage.removed) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Garage not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const from = parseDate(searchParams.get('from'));
+    const to = parseDate(searchParams.get('to'));
+
+    if (from === null || to === null) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid date range'
+        },
+        { status: 400 }
+      );
+    }
+
+    const rangeStart = from ?? new Date();
+    const rangeEnd = to ?? new Date(rangeStart.getTime() + DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+    const slots = await prisma.appointmentSlot.findMany({
+      where: {
+        garageId,
+        startsAt: { gte: rangeStart, lt: rangeEnd },
+        ...(searchParams.get('available') === 'true' && {
+          bookedCount: { lt: prisma.appointmentSlot.fields.capacity }
+        })
+      },
+      select: {
+        id: true,
+        garageId: true,
+        startsAt: true,
+        endsAt: true,
+        capacity: true,
+        bookedCount: true
+      },
+      orderBy: { startsAt: 'asc' },
+      take: MAX_SLOTS_PER_BATCH
+    });
+
+    return NextResponse.json<ApiResponse<{ slots: AppointmentSlot[] }>>({
+      success: true,
+      data: {
+        slots: slots.map(slot => ({
+          ...slot,
+          startsAt: slot.startsAt.toISOString(),
+          endsAt: slot.endsAt.toISOString()
+        }))
+      }
+    });
+
+  } catch (error) {
+    console.error('Get appointment slots error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add bookable slots (requires garage.schedule.edit); slots that already exist are skipped
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const garageId = parseInt(id);
+
+    if (isNaN(garageId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid garage ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const garage = await prisma.garage.findUnique({
+      where: { id: garageId },
+      select: { id: true, removed: true }
+    });
+
+    if (!garage || garage.removed) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Garage not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await hasPermission(user, PERMISSIONS.GARAGE_SCHEDULE_EDIT, garage.id))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'You cannot manage appointment slots of this garage'
+        },
+        { status: 403 }
+      );
+    }
+
+    const body: { slots?: SlotData[] } = await request.json();
+    const slots = Array.isArray(body.slots) ? body.slots : [];
+
+    if (slots.length === 0 || slots.length > MAX_SLOTS_PER_BATCH) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `Provide between 1 and ${MAX_SLOTS_PER_BATCH} slots`
+        },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const data = [];
+
+    for (const slot of slots) {
+      const startsAt = new Date(slot.startsAt);
+      const endsAt = new Date(slot.endsAt);
+      const duration = endsAt.getTime() - startsAt.getTime();
+
+      if (isNaN(duration) || duration <= 0 || duration > MAX_SLOT_DURATION || startsAt <= now) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: 'Every slot must start in the future and end after it starts, within 24 hours'
+          },
+          { status: 400 }
+        );
+      }
+
+      if (!Number.isInteger(slot.capacity) || slot.capacity < 1 || slot.capacity > MAX_SLOT_CAPACITY) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: `Capacity must be a whole number between 1 and ${MAX_SLOT_CAPACITY}`
+          },
+          { status: 400 }
+        );
+      }
+
+      data.push({ garageId, startsAt, endsAt, capacity: slot.capacity });
+    }
+
+    const result = await prisma.appointmentSlot.createMany({
+      data,
+      skipDuplicates: true
+    });
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: true,
+        message: `${result.count} slot(s) created${result.count < data.length ? `, ${data.length - result.count} already existed` : ''}`,
+        data: { created: result.count }
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Create appointment slots error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.GARAGE_SCHEDULE_EDIT,
+  forbiddenMessage: 'Only garage staff can manage appointment slots'
+});
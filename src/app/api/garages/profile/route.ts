@@ -1,15 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
 import type { ApiResponse } from '@/types/auth';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
 interface GarageProfileUpdateData {
   garageName?: string;
   latitude?: number;
@@ -17,64 +11,13 @@ interface GarageProfileUpdateData {
   available?: boolean;
 }
 
-function getTokenFromRequest(request: NextRequest): string | null {
-  // Try to get token from cookie first
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  // Fallback to Authorization header
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // GET - Get garage profile
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Only garage admins can access this endpoint
-    if (decoded.userType !== 'GARAGE_ADMIN') {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Only garage administrators can access garage profiles' 
-        },
-        { status: 403 }
-      );
-    }
-
     // Get garage for this admin
     const garage = await prisma.garage.findFirst({
       where: {
-        adminId: decoded.id,
+        adminId: user.id,
         approved: true,
         removed: false,
       },
@@ -146,48 +89,14 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, {
+  roles: [UserType.GARAGE_ADMIN],
+  forbiddenMessage: 'Only garage administrators can access garage profiles'
+});
 
 // PATCH - Update garage profile
-export async function PATCH(request: NextRequest) {
+export const PATCH = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Only garage admins can access this endpoint
-    if (decoded.userType !== 'GARAGE_ADMIN') {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Only garage administrators can update garage profiles' 
-        },
-        { status: 403 }
-      );
-    }
-
     const body: GarageProfileUpdateData = await request.json();
     const { garageName, latitude, longitude, available } = body;
 
@@ -205,7 +114,7 @@ export async function PATCH(request: NextRequest) {
     // Find garage for this admin
     const existingGarage = await prisma.garage.findFirst({
       where: {
-        adminId: decoded.id,
+        adminId: user.id,
         approved: true,
         removed: false,
       }
@@ -298,4 +207,7 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, {
+  roles: [UserType.GARAGE_ADMIN],
+  forbiddenMessage: 'Only garage administrators can update garage profiles'
+});
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { calculateDistance } from '@/utils/common';
-import type { ApiResponse } from '@/types/auth';
+import { garageScheduleInclude, getGarageAvailability } from '@/lib/opening-hours';
+import type { ApiResponse, GarageOpeningHours } from '@/types/auth';
 
 interface ProcessedGarageData {
   id: number;
@@ -14,6 +15,13 @@ interface ProcessedGarageData {
   removed: boolean;
   approved: boolean;
   createdAt: string;
+  timezone: string;
+  emergencyAfterHours: boolean;
+  afterHoursSurcharge: number;
+  openingHours: GarageOpeningHours[];
+  openNow: boolean;
+  nextOpeningAt: string | null;
+  closedReason: string | null;
   admin: {
     id: number;
     firstName: string;
@@ -37,7 +45,7 @@ interface ProcessedGarageData {
 }
 
 
-// GET - Get approved garages with optional location-based filtering
+// GET - Get approved garages with optional location-based filtering; open_now=true keeps only open garages
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -49,6 +57,7 @@ export async function GET(request: NextRequest) {
     const sortBy = searchParams.get('sort') || 'default'; // default, distance, rating, name
     const minRating = searchParams.get('min_rating');
     const maxRating = searchParams.get('max_rating');
+    const openNowOnly = searchParams.get('open_now') === 'true';
 
     const whereClause: Record<string, unknown> = {
       removed: false,
@@ -118,6 +127,7 @@ export async function GET(request: NextRequest) {
             }
           }
         },
+        ...garageScheduleInclude(),
         _count: {
           select: {
             mechanics: {
@@ -131,13 +141,23 @@ export async function GET(request: NextRequest) {
       }
     });
 
-    let processedGarages = garages.map(garage => ({
-      ...garage,
-      createdAt: garage.createdAt.toISOString(),
-      mechanicsCount: garage._count.mechanics,
-      servicesCount: garage.services.length,
-      distance: undefined as number | undefined
-    }));
+    let processedGarages = garages.map(({ closures, ...garage }) => {
+      const availability = getGarageAvailability({ ...garage, closures });
+
+      return {
+        ...garage,
+        ...availability,
+        nextOpeningAt: availability.nextOpeningAt?.toISOString() ?? null,
+        createdAt: garage.createdAt.toISOString(),
+        mechanicsCount: garage._count.mechanics,
+        servicesCount: garage.services.length,
+        distance: undefined as number | undefined
+      };
+    });
+
+    if (openNowOnly) {
+      processedGarages = processedGarages.filter(garage => garage.openNow);
+    }
 
     // Calculate distances if user location is provided
     const userLat = userLatString ? parseFloat(userLatString) : null;
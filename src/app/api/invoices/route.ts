@@ -1,50 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { withAuth } from '@/lib/api-auth';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
 import type { ApiResponse } from '@/types/auth';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // GET /api/invoices - Get invoices for a specific user or garage
-export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+export const GET = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid token'
-      }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const garageId = searchParams.get('garageId');
     const customerId = searchParams.get('customerId');
@@ -59,10 +21,10 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
         where: {
           id: parseInt(invoiceId),
           OR: [
-            { customerId: decoded.id },
+            { customerId: user.id },
             {
               garage: {
-                adminId: decoded.id
+                adminId: user.id
               }
             }
           ]
@@ -135,7 +97,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       const garage = await prisma.garage.findFirst({
         where: {
           id: parseInt(garageId),
-          adminId: decoded.id
+          adminId: user.id
         }
       });
 
@@ -149,7 +111,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       whereClause.garageId = parseInt(garageId);
     } else if (customerId) {
       // Users can only view their own invoices
-      if (parseInt(customerId) !== decoded.id) {
+      if (parseInt(customerId) !== user.id) {
         return NextResponse.json({
           success: false,
           error: 'Unauthorized to view other customers\' invoices'
@@ -158,7 +120,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       whereClause.customerId = parseInt(customerId);
     } else {
       // Default to current user's invoices
-      whereClause.customerId = decoded.id;
+      whereClause.customerId = user.id;
     }
 
     const [invoices, totalCount] = await Promise.all([
@@ -228,31 +190,11 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       error: 'Failed to fetch invoices'
     }, { status: 500 });
   }
-}
+});
 
 // POST /api/invoices - Generate invoice for a service request
-export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+export const POST = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid token'
-      }, { status: 401 });
-    }
-
     const body = await request.json();
     const { serviceRequestId, items } = body;
 
@@ -268,10 +210,10 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       where: {
         id: serviceRequestId,
         OR: [
-          { customerId: decoded.id },
+          { customerId: user.id },
           {
             garage: {
-              adminId: decoded.id
+              adminId: user.id
             }
           }
         ]
@@ -402,6 +344,13 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       }
     });
 
+    await recordRequestEvent(user.id, {
+      serviceRequestId: serviceRequestId,
+      type: REQUEST_EVENTS.INVOICE_GENERATED,
+      summary: `Invoice ${invoice.invoiceNumber} generated for $${invoice.totalAmount.toFixed(2)}`,
+      details: { invoiceId: invoice.id }
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Invoice generated successfully',
@@ -415,4 +364,4 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       error: 'Failed to generate invoice'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
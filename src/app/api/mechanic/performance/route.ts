@@ -1,60 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
 import { UserType } from '@/generated/prisma';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json(
-        { success: false, error: 'Invalid token' },
-        { status: 401 }
-      );
-    }
-
-    if (decoded.userType !== UserType.MECHANIC) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized access' },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const timeframe = searchParams.get('timeframe') || '30'; // days
 
-    const mechanicId = decoded.id;
+    const mechanicId = user.id;
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - parseInt(timeframe));
 
@@ -78,10 +32,12 @@ export async function GET(request: NextRequest) {
       }
     });
 
+    // Jobs past acceptance, including driving out and paused ones; together with the
+    // accepted ones below they make up every active request
     const inProgressRequests = await prisma.serviceRequest.count({
       where: {
         mechanicId: mechanicId,
-        status: 'IN_PROGRESS'
+        status: { in: ['EN_ROUTE', 'IN_PROGRESS', 'ON_HOLD'] }
       }
     });
 
@@ -174,7 +130,7 @@ export async function GET(request: NextRequest) {
     );
 
     // Get mechanic info with garage relationship
-    const user = await prisma.user.findUnique({
+    const mechanicUser = await prisma.user.findUnique({
       where: { id: mechanicId },
       select: {
         id: true,
@@ -230,9 +186,9 @@ export async function GET(request: NextRequest) {
         averageRating,
         averageCompletionTime
       },
-      garage: user?.mechanic?.garage ? {
-        id: user.mechanic.garage.id,
-        name: user.mechanic.garage.garageName
+      garage: mechanicUser?.mechanic?.garage ? {
+        id: mechanicUser.mechanic.garage.id,
+        name: mechanicUser.mechanic.garage.garageName
       } : null,
       ratings,
       dailyPerformance,
@@ -257,4 +213,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, {
+  roles: [UserType.MECHANIC],
+  forbiddenMessage: 'Unauthorized access'
+});
\ No newline at end of file
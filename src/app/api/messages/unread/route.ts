@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/api-auth';
+import { getUnreadMessageCounts } from '@/lib/request-messages';
+import type { ApiResponse, UnreadMessageCounts } from '@/types/auth';
+
+// GET - Unread request messages of the signed-in user, per service request
+export const GET = withAuth(async (request, { user }) => {
+  try {
+    const unread = await getUnreadMessageCounts(user);
+
+    return NextResponse.json<ApiResponse<{ unread: UnreadMessageCounts }>>({
+      success: true,
+      data: { unread }
+    });
+
+  } catch (error) {
+    console.error('Get unread messages error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
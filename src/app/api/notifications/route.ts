@@ -1,63 +1,18 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { withAuth } from '@/lib/api-auth';
 import type { ApiResponse, Notification } from '@/types/auth';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // GET - Get user's notifications
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const unreadOnly = searchParams.get('unread_only') === 'true';
     const limit = parseInt(searchParams.get('limit') || '50');
     const offset = parseInt(searchParams.get('offset') || '0');
 
     const whereClause: Record<string, unknown> = {
-      receiverId: decoded.id
+      receiverId: user.id
     };
 
     if (unreadOnly) {
@@ -101,7 +56,7 @@ export async function GET(request: NextRequest) {
           total: totalCount,
           unread: await prisma.notification.count({
             where: {
-              receiverId: decoded.id,
+              receiverId: user.id,
               read: false
             }
           })
@@ -119,37 +74,11 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // PATCH - Mark notifications as read
-export async function PATCH(request: NextRequest) {
+export const PATCH = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
     const body = await request.json();
     const { notificationIds, markAllAsRead } = body;
 
@@ -157,7 +86,7 @@ export async function PATCH(request: NextRequest) {
       // Mark all notifications as read for this user
       await prisma.notification.updateMany({
         where: {
-          receiverId: decoded.id,
+          receiverId: user.id,
           read: false
         },
         data: {
@@ -199,7 +128,7 @@ export async function PATCH(request: NextRequest) {
     const updateResult = await prisma.notification.updateMany({
       where: {
         id: { in: validIds },
-        receiverId: decoded.id // Ensure user can only update their own notifications
+        receiverId: user.id // Ensure user can only update their own notifications
       },
       data: {
         read: true
@@ -223,37 +152,11 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE - Delete notifications
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
     const body = await request.json();
     const { notificationIds, deleteAll } = body;
 
@@ -261,7 +164,7 @@ export async function DELETE(request: NextRequest) {
       // Delete all notifications for this user
       await prisma.notification.deleteMany({
         where: {
-          receiverId: decoded.id
+          receiverId: user.id
         }
       });
 
@@ -299,7 +202,7 @@ export async function DELETE(request: NextRequest) {
     const deleteResult = await prisma.notification.deleteMany({
       where: {
         id: { in: validIds },
-        receiverId: decoded.id // Ensure user can only delete their own notifications
+        receiverId: user.id // Ensure user can only delete their own notifications
       }
     });
 
@@ -320,4 +223,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
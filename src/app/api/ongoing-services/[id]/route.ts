@@ -1,33 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
 import type { ApiResponse } from '@/types/auth';
 import { createNotification, NOTIFICATION_TYPES, NOTIFICATION_TEMPLATES } from '@/utils/notifications';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // PATCH - Update ongoing service status (MECHANIC only)
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PATCH = withAuth<{ id: string }>(async (request, { params, user }) => {
   try {
     const { id } = await params;
     const serviceId = parseInt(id);
@@ -42,43 +22,6 @@ export async function PATCH(
       );
     }
 
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Only mechanics can update ongoing services
-    if (decoded.userType !== 'MECHANIC') {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Only mechanics can update ongoing services' 
-        },
-        { status: 403 }
-      );
-    }
-
     const body = await request.json();
     const { serviceFinished, totalPrice } = body;
 
@@ -136,7 +79,7 @@ export async function PATCH(
     }
 
     // Check if mechanic is assigned to this service request
-    if (ongoingService.status.serviceRequest.mechanicId !== decoded.id) {
+    if (ongoingService.status.serviceRequest.mechanicId !== user.id) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
@@ -147,7 +90,10 @@ export async function PATCH(
     }
 
     // Prepare update data
-    const updateData: { serviceFinished: boolean; totalPrice?: number } = { serviceFinished };
+    const updateData: { serviceFinished: boolean; finishedAt?: Date | null; totalPrice?: number } = { serviceFinished };
+    if (serviceFinished !== ongoingService.serviceFinished) {
+      updateData.finishedAt = serviceFinished ? new Date() : null;
+    }
     if (totalPrice !== undefined) {
       updateData.totalPrice = totalPrice;
     }
@@ -167,12 +113,21 @@ export async function PATCH(
       }
     });
 
+    if (serviceFinished && !ongoingService.serviceFinished) {
+      await recordRequestEvent(user.id, {
+        serviceRequestId: ongoingService.status.serviceRequestId,
+        type: REQUEST_EVENTS.SERVICE_COMPLETED,
+        summary: `Finished ${ongoingService.service.serviceName} ($${updatedService.totalPrice.toFixed(2)})`,
+        details: { ongoingServiceId: ongoingService.id, totalPrice: updatedService.totalPrice }
+      });
+    }
+
     // Create notification for customer if service is finished using standardized template
     if (serviceFinished) {
       const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.SERVICE_FINISHED].toCustomer(ongoingService.service.serviceName);
       
       await createNotification(
-        decoded.id,
+        user.id,
         ongoingService.status.serviceRequest.customerId,
         NOTIFICATION_TYPES.SERVICE_FINISHED,
         template.title,
@@ -203,13 +158,13 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
+}, {
+  roles: [UserType.MECHANIC],
+  forbiddenMessage: 'Only mechanics can update ongoing services'
+});
 
 // DELETE - Remove ongoing service (MECHANIC only)
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withAuth<{ id: string }>(async (request, { params, user }) => {
   try {
     const { id } = await params;
     const serviceId = parseInt(id);
@@ -224,43 +179,6 @@ export async function DELETE(
       );
     }
 
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Only mechanics can delete ongoing services
-    if (decoded.userType !== 'MECHANIC') {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Only mechanics can remove ongoing services' 
-        },
-        { status: 403 }
-      );
-    }
-
     // Get the ongoing service and verify access
     const ongoingService = await prisma.ongoingService.findUnique({
       where: { id: serviceId },
@@ -294,7 +212,7 @@ export async function DELETE(
     }
 
     // Check if mechanic is assigned to this service request
-    if (ongoingService.status.serviceRequest.mechanicId !== decoded.id) {
+    if (ongoingService.status.serviceRequest.mechanicId !== user.id) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
@@ -320,10 +238,17 @@ export async function DELETE(
       where: { id: serviceId }
     });
 
+    await recordRequestEvent(user.id, {
+      serviceRequestId: ongoingService.status.serviceRequestId,
+      type: REQUEST_EVENTS.SERVICE_REMOVED,
+      summary: `Removed ${ongoingService.service.serviceName}`,
+      details: { ongoingServiceId: ongoingService.id }
+    });
+
     // Create notification for customer
     await prisma.notification.create({
       data: {
-        senderId: decoded.id,
+        senderId: user.id,
         receiverId: ongoingService.status.serviceRequest.customerId,
         type: 'SERVICE_REMOVED',
         title: 'Service Removed',
@@ -348,4 +273,7 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, {
+  roles: [UserType.MECHANIC],
+  forbiddenMessage: 'Only mechanics can remove ongoing services'
+});
\ No newline at end of file
@@ -1,57 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { canAccessServiceRequest, withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
 import type { ApiResponse, OngoingServiceData, OngoingService } from '@/types/auth';
 import { createNotification, NOTIFICATION_TYPES, NOTIFICATION_TEMPLATES } from '@/utils/notifications';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // GET - Get ongoing services for a vehicle status
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const statusId = searchParams.get('status_id');
 
@@ -80,15 +37,7 @@ export async function GET(request: NextRequest) {
     const vehicleStatus = await prisma.vehicleStatus.findUnique({
       where: { id: vehicleStatusId },
       include: {
-        serviceRequest: {
-          include: {
-            garage: {
-              select: {
-                adminId: true
-              }
-            }
-          }
-        }
+        serviceRequest: true
       }
     });
 
@@ -103,28 +52,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Check access permissions
-    let hasAccess = false;
-
-    if (decoded.userType === 'CUSTOMER' && vehicleStatus.serviceRequest.customerId === decoded.id) {
-      hasAccess = true;
-    } else if (decoded.userType === 'MECHANIC') {
-      // Check if mechanic is assigned or belongs to the garage
-      const mechanic = await prisma.mechanic.findUnique({
-        where: { userId: decoded.id },
-        select: { garageId: true, approved: true }
-      });
-
-      if (mechanic && mechanic.approved && 
-          (mechanic.garageId === vehicleStatus.serviceRequest.garageId || 
-           vehicleStatus.serviceRequest.mechanicId === decoded.id)) {
-        hasAccess = true;
-      }
-    } else if (decoded.userType === 'GARAGE_ADMIN' && 
-               vehicleStatus.serviceRequest.garage.adminId === decoded.id) {
-      hasAccess = true;
-    } else if (decoded.userType === 'SYSTEM_ADMIN') {
-      hasAccess = true;
-    }
+    const hasAccess = await canAccessServiceRequest(user, vehicleStatus.serviceRequest);
 
     if (!hasAccess) {
       return NextResponse.json<ApiResponse>(
@@ -175,48 +103,11 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST - Add ongoing service to a vehicle status (MECHANIC only)
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Only mechanics can add ongoing services
-    if (decoded.userType !== 'MECHANIC') {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Only mechanics can add ongoing services' 
-        },
-        { status: 403 }
-      );
-    }
-
     const body: OngoingServiceData = await request.json();
     const { statusId, serviceId, expectedDate, totalPrice } = body;
 
@@ -278,7 +169,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if mechanic is assigned to this service request
-    if (vehicleStatus.serviceRequest.mechanicId !== decoded.id) {
+    if (vehicleStatus.serviceRequest.mechanicId !== user.id) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
@@ -347,11 +238,18 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    await recordRequestEvent(user.id, {
+      serviceRequestId: vehicleStatus.serviceRequestId,
+      type: REQUEST_EVENTS.SERVICE_ADDED,
+      summary: `Started ${service.serviceName} ($${ongoingService.totalPrice.toFixed(2)})`,
+      details: { ongoingServiceId: ongoingService.id, serviceId, totalPrice: ongoingService.totalPrice }
+    });
+
     // Create notification for customer using standardized template
     const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.SERVICE_STARTED].toCustomer(service.serviceName);
     
     await createNotification(
-      decoded.id,
+      user.id,
       vehicleStatus.serviceRequest.customerId,
       NOTIFICATION_TYPES.SERVICE_STARTED,
       template.title,
@@ -382,4 +280,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, {
+  roles: [UserType.MECHANIC],
+  forbiddenMessage: 'Only mechanics can add ongoing services'
+});
\ No newline at end of file
@@ -1,61 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { AUDIT_ACTIONS, recordAudit } from '@/lib/audit';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
 import type { ApiResponse } from '@/types/auth';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // PATCH /api/payments/[id] - Update payment status (Admin only)
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-): Promise<NextResponse<ApiResponse>> {
+export const PATCH = withAuth<{ id: string }>(async (request, { params, user }): Promise<NextResponse<ApiResponse>> => {
   try {
-    const token = getTokenFromRequest(request);
-
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid token'
-      }, { status: 401 });
-    }
-
-    // Check if user is admin
-    if (decoded.userType !== 'SYSTEM_ADMIN') {
-      return NextResponse.json({
-        success: false,
-        error: 'Admin access required'
-      }, { status: 403 });
-    }
-
     const { id } = await params;
     const paymentId = parseInt(id);
     if (isNaN(paymentId)) {
@@ -77,6 +30,14 @@ export async function PATCH(
       }, { status: 400 });
     }
 
+    // Refunds are granted separately from general payment management
+    if (status === 'REFUNDED' && !(await hasPermission(user, PERMISSIONS.PAYMENTS_REFUND))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Permission denied to refund payments'
+      }, { status: 403 });
+    }
+
     // Check if payment exists
     const existingPayment = await prisma.payment.findUnique({
       where: { id: paymentId },
@@ -150,11 +111,38 @@ export async function PATCH(
       }
     });
 
+    await recordAudit(request, user.id, {
+      action: AUDIT_ACTIONS.PAYMENT_UPDATE_STATUS,
+      targetType: 'Payment',
+      targetId: paymentId,
+      before: {
+        status: existingPayment.status,
+        amount: existingPayment.amount,
+        paymentDate: existingPayment.paymentDate,
+        notes: existingPayment.notes
+      },
+      after: {
+        status: updatedPayment.status,
+        amount: updatedPayment.amount,
+        paymentDate: updatedPayment.paymentDate,
+        notes: updatedPayment.notes
+      }
+    });
+
+    if (existingPayment.serviceRequestId && existingPayment.status !== updatedPayment.status) {
+      await recordRequestEvent(user.id, {
+        serviceRequestId: existingPayment.serviceRequestId,
+        type: REQUEST_EVENTS.PAYMENT_STATUS_CHANGED,
+        summary: `Payment of $${existingPayment.amount.toFixed(2)} marked as ${updatedPayment.status.toLowerCase()}`,
+        details: { paymentId: paymentId, from: existingPayment.status, to: updatedPayment.status }
+      });
+    }
+
     // Create notification for customer about payment status change
-    if (existingPayment.customerId !== decoded.id) {
+    if (existingPayment.customerId !== user.id) {
       await prisma.notification.create({
         data: {
-          senderId: decoded.id,
+          senderId: user.id,
           receiverId: existingPayment.customerId,
           type: 'PAYMENT_STATUS_UPDATE',
           title: `Payment Status Updated`,
@@ -178,42 +166,14 @@ export async function PATCH(
       error: 'Failed to update payment status'
     }, { status: 500 });
   }
-}
+}, {
+  permission: PERMISSIONS.PAYMENTS_MANAGE,
+  forbiddenMessage: 'Admin access required'
+});
 
 // GET /api/payments/[id] - Get specific payment details (Admin only)
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-): Promise<NextResponse<ApiResponse>> {
+export const GET = withAuth<{ id: string }>(async (request, { params }): Promise<NextResponse<ApiResponse>> => {
   try {
-    const token = getTokenFromRequest(request);
-
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid token'
-      }, { status: 401 });
-    }
-
-    // Check if user is admin
-    if (decoded.userType !== 'SYSTEM_ADMIN') {
-      return NextResponse.json({
-        success: false,
-        error: 'Admin access required'
-      }, { status: 403 });
-    }
-
     const { id } = await params;
     const paymentId = parseInt(id);
     if (isNaN(paymentId)) {
@@ -293,4 +253,7 @@ export async function GET(
       error: 'Failed to fetch payment details'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, {
+  permission: PERMISSIONS.PAYMENTS_MANAGE,
+  forbiddenMessage: 'Admin access required'
+});
\ No newline at end of file
@@ -1,28 +1,10 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { withAuth } from '@/lib/api-auth';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
 import { notifyPaymentCompleted, notifyInvoiceGenerated } from '@/utils/notifications';
 import type { ApiResponse } from '@/types/auth';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 interface PaymentSubmission {
   serviceRequestId?: number;
   amount: number;
@@ -31,28 +13,8 @@ interface PaymentSubmission {
 }
 
 // POST /api/payments - Create a new payment
-export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+export const POST = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid token'
-      }, { status: 401 });
-    }
-
     const body: PaymentSubmission = await request.json();
     const { serviceRequestId, amount, paymentMethod, notes } = body;
 
@@ -82,7 +44,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
     }
 
     let garageId: number;
-    const customerId: number = decoded.id;
+    const customerId: number = user.id;
 
     if (serviceRequestId) {
       // Validate service request exists and belongs to the customer
@@ -197,6 +159,15 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       data: { invoice: { connect: { id: invoice.id } } }
     });
 
+    if (serviceRequestId) {
+      await recordRequestEvent(user.id, {
+        serviceRequestId: serviceRequestId,
+        type: REQUEST_EVENTS.PAYMENT_RECORDED,
+        summary: `Payment of $${payment.amount.toFixed(2)} received by ${payment.paymentMethod.replace('_', ' ').toLowerCase()}`,
+        details: { paymentId: payment.id, invoiceId: invoice.id }
+      });
+    }
+
     // Send notifications
     try {
       await notifyPaymentCompleted(payment.id);
@@ -235,31 +206,13 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       error: 'Failed to process payment'
     }, { status: 500 });
   }
-}
+}, {
+  requireVerifiedEmail: true
+});
 
 // GET /api/payments - Get payments for a specific user or garage
-export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+export const GET = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid token'
-      }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const garageId = searchParams.get('garageId');
     const customerId = searchParams.get('customerId');
@@ -274,7 +227,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       const garage = await prisma.garage.findFirst({
         where: {
           id: parseInt(garageId),
-          adminId: decoded.id
+          adminId: user.id
         }
       });
 
@@ -288,7 +241,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       whereClause.garageId = parseInt(garageId);
     } else if (customerId) {
       // Users can only view their own payments
-      if (parseInt(customerId) !== decoded.id) {
+      if (parseInt(customerId) !== user.id) {
         return NextResponse.json({
           success: false,
           error: 'Unauthorized to view other customers\' payments'
@@ -297,7 +250,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       whereClause.customerId = parseInt(customerId);
     } else {
       // Default to current user's payments
-      whereClause.customerId = decoded.id;
+      whereClause.customerId = user.id;
     }
 
     const [payments, totalCount] = await Promise.all([
@@ -357,4 +310,4 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       error: 'Failed to fetch payments'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,27 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { withAuth } from '@/lib/api-auth';
 import type { ApiResponse } from '@/types/auth';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 interface RatingSubmission {
   garageId: number;
   mechanicId?: number;
@@ -30,28 +11,8 @@ interface RatingSubmission {
 }
 
 // POST /api/ratings - Submit a new rating
-export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+export const POST = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid token'
-      }, { status: 401 });
-    }
-
     const body: RatingSubmission = await request.json();
     const { garageId, mechanicId, rating, comment } = body;
 
@@ -117,7 +78,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
     // Check if user has already rated this garage recently (prevent spam)
     const existingRating = await prisma.rating.findFirst({
       where: {
-        customerId: decoded.id,
+        customerId: user.id,
         garageId: garageId,
         createdAt: {
           gte: new Date(Date.now() - 24 * 60 * 60 * 1000) // Last 24 hours
@@ -135,7 +96,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
     // Create the rating
     const newRating = await prisma.rating.create({
       data: {
-        customerId: decoded.id,
+        customerId: user.id,
         garageId: garageId,
         mechanicId: mechanicId || null,
         rating: rating,
@@ -197,31 +158,11 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       error: 'Failed to submit rating'
     }, { status: 500 });
   }
-}
+});
 
 // GET /api/ratings - Get ratings for a specific garage or customer
-export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+export const GET = withAuth(async (request, { user }): Promise<NextResponse<ApiResponse>> => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json({
-        success: false,
-        error: 'Authentication required'
-      }, { status: 401 });
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid token'
-      }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const garageId = searchParams.get('garageId');
     const customerId = searchParams.get('customerId');
@@ -236,10 +177,10 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
     } else if (customerId) {
       // Handle "current" as referring to the authenticated user
       if (customerId === 'current') {
-        whereClause.customerId = decoded.id;
+        whereClause.customerId = user.id;
       } else {
         // Users can only view their own ratings
-        if (parseInt(customerId) !== decoded.id) {
+        if (parseInt(customerId) !== user.id) {
           return NextResponse.json({
             success: false,
             error: 'Unauthorized to view other customers\' ratings'
@@ -305,4 +246,4 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       error: 'Failed to fetch ratings'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { canAccessServiceRequest, withAuth } from '@/lib/api-auth';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
+import { getRequestTracking } from '@/lib/request-tracking';
+import { isTrackingLive } from '@/lib/request-status';
+import { UserType } from '@/generated/prisma';
+import type { ApiResponse, RequestTracking } from '@/types/auth';
+import { createNotification, NOTIFICATION_TEMPLATES, NOTIFICATION_TYPES } from '@/utils/notifications';
+
+// POST - The assigned mechanic has reached the vehicle; ends location sharing for the request
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const requestId = parseInt(id);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const serviceRequest = await prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+      select: {
+        id: true,
+        customerId: true,
+        garageId: true,
+        mechanicId: true,
+        status: true,
+        arrivedAt: true,
+        mechanic: { select: { firstName: true, lastName: true } }
+      }
+    });
+
+    if (!serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Service request not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAccessServiceRequest(user, serviceRequest, ['assignedMechanic']))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Only the assigned mechanic can mark their arrival'
+        },
+        { status: 403 }
+      );
+    }
+
+    if (!isTrackingLive(serviceRequest)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: serviceRequest.arrivedAt
+            ? 'Your arrival has already been recorded'
+            : 'Mark yourself on the way before marking your arrival'
+        },
+        { status: 400 }
+      );
+    }
+
+    // Conditional, so a hand-over or cancellation made at the same moment is not overwritten
+    const arrived = await prisma.serviceRequest.updateMany({
+      where: { id: serviceRequest.id, status: 'EN_ROUTE', mechanicId: user.id, arrivedAt: null },
+      data: { arrivedAt: new Date() }
+    });
+
+    if (arrived.count === 0) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'The request was updated by someone else. Please reload and try again.'
+        },
+        { status: 409 }
+      );
+    }
+
+    const mechanicName = serviceRequest.mechanic
+      ? `${serviceRequest.mechanic.firstName} ${serviceRequest.mechanic.lastName}`
+      : 'Your mechanic';
+
+    await recordRequestEvent(user.id, {
+      serviceRequestId: serviceRequest.id,
+      type: REQUEST_EVENTS.MECHANIC_ARRIVED,
+      summary: `${mechanicName} arrived at the vehicle`
+    });
+
+    try {
+      const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.MECHANIC_ARRIVED].toCustomer(mechanicName);
+      await createNotification(
+        user.id,
+        serviceRequest.customerId,
+        NOTIFICATION_TYPES.MECHANIC_ARRIVED,
+        template.title,
+        template.message
+      );
+    } catch (notificationError) {
+      console.error('Failed to notify customer about mechanic arrival:', notificationError);
+    }
+
+    const tracking = await getRequestTracking(serviceRequest.id);
+
+    return NextResponse.json<ApiResponse<{ tracking: RequestTracking | null }>>({
+      success: true,
+      message: 'Arrival recorded; location sharing has stopped',
+      data: { tracking }
+    });
+
+  } catch (error) {
+    console.error('Mark mechanic arrival error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.MECHANIC],
+  forbiddenMessage: 'Only mechanics can mark their arrival',
+  blockImpersonation: true
+});
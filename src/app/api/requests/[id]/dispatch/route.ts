@@ -0,0 +1,348 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { autoDispatchRequest, notifyDispatchedMechanic, rankMechanics } from '@/lib/dispatch';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
+import { DISPATCHABLE_REQUEST_STATUSES, moveRequestStatus } from '@/lib/request-status';
+import type { ServiceStatus } from '@/generated/prisma';
+import type { ApiResponse, AuthUser, DispatchRationale } from '@/types/auth';
+import { createNotification, NOTIFICATION_TEMPLATES, NOTIFICATION_TYPES } from '@/utils/notifications';
+
+interface DispatchOverrideData {
+  mechanicId: number;
+  reason: string;
+}
+
+const MAX_REASON_LENGTH = 500;
+
+// Requests whose mechanic can still be chosen here; once work starts the mechanic hands over instead
+const OVERRIDABLE_STATUSES: readonly ServiceStatus[] = [...DISPATCHABLE_REQUEST_STATUSES, 'ACCEPTED'];
+
+// The request, when the user may assign mechanics at its garage
+async function findAssignableRequest(user: AuthUser, id: string) {
+  const requestId = parseInt(id);
+
+  if (isNaN(requestId)) {
+    return { serviceRequest: null, error: 'Invalid request ID', status: 400 } as const;
+  }
+
+  const serviceRequest = await prisma.serviceRequest.findUnique({
+    where: { id: requestId },
+    include: {
+      requestedServices: { select: { serviceId: true } },
+      garage: { select: { garageName: true } }
+    }
+  });
+
+  if (!serviceRequest) {
+    return { serviceRequest: null, error: 'Service request not found', status: 404 } as const;
+  }
+
+  if (!(await hasPermission(user, PERMISSIONS.REQUESTS_ASSIGN, serviceRequest.garageId))) {
+    return { serviceRequest: null, error: 'Permission denied to assign mechanics', status: 403 } as const;
+  }
+
+  return { serviceRequest } as const;
+}
+
+// GET - Past dispatch decisions of the request and how the garage's mechanics rank for it right now
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const found = await findAssignableRequest(user, id);
+
+    if (!found.serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: found.error
+        },
+        { status: found.status }
+      );
+    }
+
+    const { serviceRequest } = found;
+
+    const [decisions, ranking] = await Promise.all([
+      prisma.dispatchDecision.findMany({
+        where: { serviceRequestId: serviceRequest.id },
+        include: {
+          mechanic: { select: { id: true, firstName: true, lastName: true } },
+          overriddenBy: { select: { id: true, firstName: true, lastName: true } }
+        },
+        orderBy: { createdAt: 'desc' }
+      }),
+      rankMechanics(
+        serviceRequest.garageId,
+        serviceRequest.requestedServices.map(service => service.serviceId),
+        serviceRequest.scheduledFor ?? new Date()
+      )
+    ]);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        decisions: decisions.map(decision => ({
+          ...decision,
+          rationale: decision.rationale as unknown as DispatchRationale,
+          overriddenAt: decision.overriddenAt?.toISOString() ?? null,
+          createdAt: decision.createdAt.toISOString()
+        })),
+        ranking
+      }
+    });
+
+  } catch (error) {
+    console.error('Get dispatch decisions error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.REQUESTS_ASSIGN,
+  forbiddenMessage: 'Permission denied to assign mechanics'
+});
+
+// POST - Let auto-dispatch pick a mechanic for a pending or booked request now
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const found = await findAssignableRequest(user, id);
+
+    if (!found.serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: found.error
+        },
+        { status: found.status }
+      );
+    }
+
+    const decision = await autoDispatchRequest(found.serviceRequest.id, user.id);
+
+    if (!decision) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Only pending or booked requests can be dispatched'
+        },
+        { status: 409 }
+      );
+    }
+
+    await recordRequestEvent(user.id, {
+      serviceRequestId: decision.serviceRequestId,
+      type: REQUEST_EVENTS.DISPATCH_DECIDED,
+      summary: decision.summary,
+      details: { dispatchDecisionId: decision.id, mechanicId: decision.mechanicId }
+    });
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: !!decision.mechanicId,
+        ...(decision.mechanicId ? { message: decision.summary } : { error: decision.summary }),
+        data: { decision: { ...decision, createdAt: decision.createdAt.toISOString() } }
+      },
+      { status: decision.mechanicId ? 200 : 409 }
+    );
+
+  } catch (error) {
+    console.error('Auto-dispatch error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.REQUESTS_ASSIGN,
+  forbiddenMessage: 'Permission denied to assign mechanics',
+  blockImpersonation: true
+});
+
+// PATCH - Override the latest dispatch decision with a mechanic chosen by hand; a reason is required
+export const PATCH = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const found = await findAssignableRequest(user, id);
+
+    if (!found.serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: found.error
+        },
+        { status: found.status }
+      );
+    }
+
+    const { serviceRequest } = found;
+    const body: DispatchOverrideData = await request.json();
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    if (!Number.isInteger(body.mechanicId) || !reason || reason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `A mechanic and a reason (at most ${MAX_REASON_LENGTH} characters) are required`
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!OVERRIDABLE_STATUSES.includes(serviceRequest.status)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'The mechanic can no longer be changed here once work has started'
+        },
+        { status: 400 }
+      );
+    }
+
+    const decision = await prisma.dispatchDecision.findFirst({
+      where: { serviceRequestId: serviceRequest.id },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (!decision || decision.overriddenAt) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'There is no dispatch decision to override'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (body.mechanicId === serviceRequest.mechanicId) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'This mechanic is already assigned'
+        },
+        { status: 400 }
+      );
+    }
+
+    const mechanic = await prisma.mechanic.findUnique({
+      where: {
+        userId: body.mechanicId,
+        garageId: serviceRequest.garageId,
+        approved: true,
+        removed: false
+      },
+      include: { user: { select: { firstName: true, lastName: true } } }
+    });
+
+    if (!mechanic) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid mechanic assignment'
+        },
+        { status: 400 }
+      );
+    }
+
+    const overridden = await prisma.$transaction(async (tx) => {
+      // Conditional on what was read above, so two overrides at once cannot both apply
+      const moved = await moveRequestStatus(tx, serviceRequest, 'ACCEPTED', { mechanicId: mechanic.userId });
+
+      if (!moved) return null;
+
+      return tx.dispatchDecision.update({
+        where: { id: decision.id },
+        data: {
+          overriddenById: user.id,
+          overriddenAt: new Date(),
+          overrideReason: reason
+        }
+      });
+    });
+
+    if (!overridden) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'The request was updated by someone else. Please reload and try again.'
+        },
+        { status: 409 }
+      );
+    }
+
+    await recordRequestEvent(user.id, {
+      serviceRequestId: serviceRequest.id,
+      type: REQUEST_EVENTS.DISPATCH_OVERRIDDEN,
+      summary: `Assigned to ${mechanic.user.firstName} ${mechanic.user.lastName} instead of the dispatch choice: ${reason}`,
+      details: {
+        dispatchDecisionId: decision.id,
+        from: { status: serviceRequest.status, mechanicId: serviceRequest.mechanicId },
+        to: { status: 'ACCEPTED', mechanicId: mechanic.userId }
+      }
+    });
+
+    try {
+      const mechanicName = `${mechanic.user.firstName} ${mechanic.user.lastName}`;
+      const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.REQUEST_ACCEPTED].toCustomer(
+        serviceRequest.garage.garageName,
+        mechanicName
+      );
+      await createNotification(
+        user.id,
+        serviceRequest.customerId,
+        NOTIFICATION_TYPES.REQUEST_ACCEPTED,
+        template.title,
+        template.message
+      );
+      await notifyDispatchedMechanic(user.id, mechanic.userId, serviceRequest.id);
+
+      if (serviceRequest.mechanicId) {
+        const previousTemplate = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.REQUEST_ACCEPTED].toReplacedMechanic(serviceRequest.id);
+        await createNotification(
+          user.id,
+          serviceRequest.mechanicId,
+          NOTIFICATION_TYPES.REQUEST_ACCEPTED,
+          previousTemplate.title,
+          previousTemplate.message
+        );
+      }
+    } catch (notificationError) {
+      console.error('Failed to send dispatch override notifications:', notificationError);
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: `Request assigned to ${mechanic.user.firstName} ${mechanic.user.lastName}`,
+      data: {
+        decision: {
+          ...overridden,
+          overriddenAt: overridden.overriddenAt?.toISOString() ?? null,
+          createdAt: overridden.createdAt.toISOString()
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Override dispatch error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.REQUESTS_ASSIGN,
+  forbiddenMessage: 'Permission denied to assign mechanics',
+  blockImpersonation: true
+});
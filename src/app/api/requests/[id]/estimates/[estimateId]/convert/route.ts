@@ -0,0 +1,192 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
+import { isActiveRequestStatus } from '@/lib/request-status';
+import { ESTIMATE_INCLUDE, toEstimate } from '@/lib/estimates';
+import type { ApiResponse, Estimate, EstimateConversionData } from '@/types/auth';
+
+/**
+ * POST - Turn the approved lines of an answered estimate into work: an approved status update
+ * with an ongoing service per approved service line. Approved part and labor lines are billed
+ * when the service is completed.
+ */
+export const POST = withAuth<{ id: string; estimateId: string }>(async (request, { params, user }) => {
+  try {
+    const { id, estimateId } = await params;
+    const requestId = parseInt(id);
+    const estimateIdNumber = parseInt(estimateId);
+
+    if (isNaN(requestId) || isNaN(estimateIdNumber)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request or estimate ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const estimate = await prisma.estimate.findFirst({
+      where: { id: estimateIdNumber, serviceRequestId: requestId },
+      include: {
+        items: { where: { decision: 'APPROVED' }, orderBy: { id: 'asc' } },
+        serviceRequest: { select: { id: true, garageId: true, mechanicId: true, status: true } }
+      }
+    });
+
+    if (!estimate) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Estimate not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    const serviceRequest = estimate.serviceRequest;
+
+    if (
+      serviceRequest.mechanicId !== user.id &&
+      !(await hasPermission(user, PERMISSIONS.REQUESTS_UPDATE, serviceRequest.garageId))
+    ) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Only the assigned mechanic or garage staff can convert estimates'
+        },
+        { status: 403 }
+      );
+    }
+
+    if (!serviceRequest.mechanicId || !isActiveRequestStatus(serviceRequest.status)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Estimates can only be converted while a mechanic is working on the request'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (estimate.status !== 'ANSWERED' || estimate.items.length === 0) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: estimate.status === 'CONVERTED'
+            ? 'This estimate has already been converted'
+            : 'Only estimates the customer approved lines of can be converted'
+        },
+        { status: 400 }
+      );
+    }
+
+    const serviceLines = estimate.items.filter(item => item.kind === 'SERVICE' && item.serviceId !== null);
+    // Only service lines need a date, so a conversion without them may come with no body at all;
+    // a body that is not JSON is treated as missing the date
+    const body: Partial<EstimateConversionData> = serviceLines.length > 0
+      ? (await request.json().catch(() => null)) ?? {}
+      : {};
+    const expectedDate = new Date(body.expectedDate ?? '');
+
+    if (serviceLines.length > 0 && isNaN(expectedDate.getTime())) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'An expected date for the approved services is required'
+        },
+        { status: 400 }
+      );
+    }
+
+    const mechanicId = serviceRequest.mechanicId;
+
+    const converted = await prisma.$transaction(async (tx) => {
+      // Conditional on the answer read above, so the same estimate cannot be converted twice
+      const updated = await tx.estimate.updateMany({
+        where: { id: estimate.id, status: 'ANSWERED' },
+        data: { status: 'CONVERTED', convertedAt: new Date(), convertedById: user.id }
+      });
+
+      if (updated.count === 0) return null;
+
+      // The customer already approved these lines, so the status update needs no second approval
+      const vehicleStatus = await tx.vehicleStatus.create({
+        data: {
+          serviceRequestId: serviceRequest.id,
+          mechanicId,
+          description: `Approved work from estimate version ${estimate.version}: ${estimate.items.map(item => item.description).join(', ')}`,
+          approved: true
+        }
+      });
+
+      for (const item of serviceLines) {
+        const ongoingService = await tx.ongoingService.create({
+          data: {
+            statusId: vehicleStatus.id,
+            serviceId: item.serviceId as number,
+            expectedDate,
+            totalPrice: item.totalPrice
+          }
+        });
+
+        await tx.estimateItem.update({
+          where: { id: item.id },
+          data: { ongoingServiceId: ongoingService.id }
+        });
+      }
+
+      return tx.estimate.findUniqueOrThrow({
+        where: { id: estimate.id },
+        include: ESTIMATE_INCLUDE
+      });
+    });
+
+    if (!converted) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'The request was updated by someone else. Please reload and try again.'
+        },
+        { status: 409 }
+      );
+    }
+
+    const result = toEstimate(converted);
+
+    await recordRequestEvent(user.id, {
+      serviceRequestId: serviceRequest.id,
+      type: REQUEST_EVENTS.ESTIMATE_CONVERTED,
+      summary: `Scheduled the approved work from estimate version ${result.version} ($${result.approvedTotal.toFixed(2)})`,
+      details: {
+        estimateId: result.id,
+        version: result.version,
+        ongoingServiceIds: result.items
+          .map(item => item.ongoingServiceId)
+          .filter((ongoingServiceId): ongoingServiceId is number => ongoingServiceId !== null)
+      }
+    });
+
+    return NextResponse.json<ApiResponse<{ estimate: Estimate }>>({
+      success: true,
+      message: serviceLines.length > 0
+        ? `${serviceLines.length} approved service${serviceLines.length === 1 ? '' : 's'} added to the request`
+        : 'Approved parts and labor will be billed on completion',
+      data: { estimate: result }
+    });
+
+  } catch (error) {
+    console.error('Convert estimate error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  blockImpersonation: true
+});
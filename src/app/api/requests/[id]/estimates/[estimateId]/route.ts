@@ -0,0 +1,195 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
+import { ESTIMATE_INCLUDE, toEstimate } from '@/lib/estimates';
+import type { ApiResponse, Estimate, EstimateResponseData } from '@/types/auth';
+import { createNotification, NOTIFICATION_TEMPLATES, NOTIFICATION_TYPES } from '@/utils/notifications';
+
+/**
+ * PATCH - The customer approves or declines every line of the latest estimate. The answer is
+ * final for this version; the garage sends a new version if anything needs to change.
+ */
+export const PATCH = withAuth<{ id: string; estimateId: string }>(async (request, { params, user }) => {
+  try {
+    const { id, estimateId } = await params;
+    const requestId = parseInt(id);
+    const estimateIdNumber = parseInt(estimateId);
+
+    if (isNaN(requestId) || isNaN(estimateIdNumber)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request or estimate ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const estimate = await prisma.estimate.findFirst({
+      where: { id: estimateIdNumber, serviceRequestId: requestId },
+      include: {
+        items: { select: { id: true, totalPrice: true } },
+        serviceRequest: {
+          select: {
+            id: true,
+            customerId: true,
+            mechanicId: true,
+            garage: { select: { adminId: true } }
+          }
+        }
+      }
+    });
+
+    if (!estimate) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Estimate not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    const serviceRequest = estimate.serviceRequest;
+
+    if (serviceRequest.customerId !== user.id) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Only the customer can answer an estimate'
+        },
+        { status: 403 }
+      );
+    }
+
+    if (estimate.status !== 'SENT') {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: estimate.status === 'SUPERSEDED'
+            ? 'A newer version of this estimate has been sent'
+            : 'This estimate has already been answered'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (estimate.validUntil < new Date()) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'This estimate has expired. Ask the garage for a new one.'
+        },
+        { status: 400 }
+      );
+    }
+
+    const body: EstimateResponseData = await request.json();
+    const decisions = body.decisions && typeof body.decisions === 'object' ? body.decisions : {};
+
+    const missing = estimate.items.filter(item => {
+      const decision = decisions[item.id];
+      return decision !== 'APPROVED' && decision !== 'DECLINED';
+    });
+
+    if (missing.length > 0) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Approve or decline every line of the estimate'
+        },
+        { status: 400 }
+      );
+    }
+
+    const approvedIds = estimate.items.filter(item => decisions[item.id] === 'APPROVED').map(item => item.id);
+    const declinedIds = estimate.items.filter(item => decisions[item.id] === 'DECLINED').map(item => item.id);
+
+    const answered = await prisma.$transaction(async (tx) => {
+      // Conditional on the version still waiting, so a revision sent meanwhile is not answered blind
+      const updated = await tx.estimate.updateMany({
+        where: { id: estimate.id, status: 'SENT', validUntil: { gte: new Date() } },
+        data: { status: 'ANSWERED', respondedAt: new Date() }
+      });
+
+      if (updated.count === 0) return null;
+
+      await tx.estimateItem.updateMany({
+        where: { estimateId: estimate.id, id: { in: approvedIds } },
+        data: { decision: 'APPROVED' }
+      });
+      await tx.estimateItem.updateMany({
+        where: { estimateId: estimate.id, id: { in: declinedIds } },
+        data: { decision: 'DECLINED' }
+      });
+
+      return tx.estimate.findUniqueOrThrow({
+        where: { id: estimate.id },
+        include: ESTIMATE_INCLUDE
+      });
+    });
+
+    if (!answered) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'The request was updated by someone else. Please reload and try again.'
+        },
+        { status: 409 }
+      );
+    }
+
+    const result = toEstimate(answered);
+
+    await recordRequestEvent(user.id, {
+      serviceRequestId: serviceRequest.id,
+      type: REQUEST_EVENTS.ESTIMATE_ANSWERED,
+      summary: approvedIds.length > 0
+        ? `Approved ${approvedIds.length} of ${estimate.items.length} estimate lines ($${result.approvedTotal.toFixed(2)})`
+        : 'Declined the estimate',
+      details: { estimateId: estimate.id, version: estimate.version, approvedItemIds: approvedIds, declinedItemIds: declinedIds }
+    });
+
+    try {
+      const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.ESTIMATE_ANSWERED].toGarage(
+        `${user.firstName} ${user.lastName}`,
+        serviceRequest.id,
+        result.approvedTotal,
+        result.total
+      );
+      const recipients = [...new Set([serviceRequest.mechanicId, serviceRequest.garage.adminId])]
+        .filter((recipientId): recipientId is number => recipientId !== null);
+
+      for (const recipientId of recipients) {
+        await createNotification(
+          user.id,
+          recipientId,
+          NOTIFICATION_TYPES.ESTIMATE_ANSWERED,
+          template.title,
+          template.message
+        );
+      }
+    } catch (notificationError) {
+      console.error('Failed to notify garage about estimate answer:', notificationError);
+    }
+
+    return NextResponse.json<ApiResponse<{ estimate: Estimate }>>({
+      success: true,
+      message: approvedIds.length > 0 ? 'Your answer was sent to the garage' : 'Estimate declined',
+      data: { estimate: result }
+    });
+
+  } catch (error) {
+    console.error('Answer estimate error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  blockImpersonation: true
+});
@@ -0,0 +1,370 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { canAccessServiceRequest, hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { Prisma } from '@/generated/prisma';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
+import { isActiveRequestStatus } from '@/lib/request-status';
+import {
+  ESTIMATE_INCLUDE,
+  isEstimateItemKind,
+  MAX_ESTIMATE_ITEMS,
+  MAX_ESTIMATE_NOTES_LENGTH,
+  MAX_ESTIMATE_VALID_DAYS,
+  roundMoney,
+  toEstimate
+} from '@/lib/estimates';
+import type { ApiResponse, Estimate, EstimateData } from '@/types/auth';
+import { createNotification, NOTIFICATION_TEMPLATES, NOTIFICATION_TYPES } from '@/utils/notifications';
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// GET - Every version of the request's estimate, newest first
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const requestId = parseInt(id);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const serviceRequest = await prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+      select: { id: true, customerId: true, garageId: true, mechanicId: true }
+    });
+
+    if (!serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Service request not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAccessServiceRequest(user, serviceRequest))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Access denied'
+        },
+        { status: 403 }
+      );
+    }
+
+    const [estimates, canUpdate] = await Promise.all([
+      prisma.estimate.findMany({
+        where: { serviceRequestId: serviceRequest.id },
+        include: ESTIMATE_INCLUDE,
+        orderBy: { version: 'desc' }
+      }),
+      hasPermission(user, PERMISSIONS.REQUESTS_UPDATE, serviceRequest.garageId)
+    ]);
+
+    const now = new Date();
+
+    return NextResponse.json<ApiResponse<{ estimates: Estimate[]; canRespond: boolean; canEdit: boolean }>>({
+      success: true,
+      data: {
+        estimates: estimates.map(estimate => toEstimate(estimate, now)),
+        canRespond: serviceRequest.customerId === user.id,
+        canEdit: canUpdate || serviceRequest.mechanicId === user.id
+      }
+    });
+
+  } catch (error) {
+    console.error('Get estimates error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST - Send a new estimate version (assigned mechanic or garage staff). Any earlier version
+ * that has not been converted yet is superseded, so the customer only ever answers the latest.
+ */
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const requestId = parseInt(id);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const serviceRequest = await prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+      select: {
+        id: true,
+        customerId: true,
+        garageId: true,
+        mechanicId: true,
+        status: true,
+        garage: { select: { garageName: true } }
+      }
+    });
+
+    if (!serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Service request not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (
+      serviceRequest.mechanicId !== user.id &&
+      !(await hasPermission(user, PERMISSIONS.REQUESTS_UPDATE, serviceRequest.garageId))
+    ) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Only the assigned mechanic or garage staff can send estimates'
+        },
+        { status: 403 }
+      );
+    }
+
+    if (!isActiveRequestStatus(serviceRequest.status)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Estimates can only be sent while a mechanic is working on the request'
+        },
+        { status: 400 }
+      );
+    }
+
+    const body: EstimateData = await request.json();
+    const validDays = Number(body.validDays);
+    const notes = typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : null;
+    const items = Array.isArray(body.items) ? body.items : [];
+
+    if (!Number.isInteger(validDays) || validDays < 1 || validDays > MAX_ESTIMATE_VALID_DAYS) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `An estimate must be valid for 1 to ${MAX_ESTIMATE_VALID_DAYS} days`
+        },
+        { status: 400 }
+      );
+    }
+
+    if (notes && notes.length > MAX_ESTIMATE_NOTES_LENGTH) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `Notes can be at most ${MAX_ESTIMATE_NOTES_LENGTH} characters`
+        },
+        { status: 400 }
+      );
+    }
+
+    if (items.length === 0 || items.length > MAX_ESTIMATE_ITEMS) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `An estimate needs 1 to ${MAX_ESTIMATE_ITEMS} lines`
+        },
+        { status: 400 }
+      );
+    }
+
+    // Service lines must be services this garage currently offers
+    const serviceIds = items
+      .filter(item => item?.kind === 'SERVICE' && Number.isInteger(item.serviceId))
+      .map(item => item.serviceId as number);
+    const garageServices = serviceIds.length > 0
+      ? await prisma.garageService.findMany({
+        where: {
+          garageId: serviceRequest.garageId,
+          serviceId: { in: serviceIds },
+          available: true,
+          service: { removed: false }
+        },
+        include: { service: { select: { id: true, serviceName: true } } }
+      })
+      : [];
+
+    const lines: Prisma.EstimateItemCreateWithoutEstimateInput[] = [];
+
+    for (const [index, item] of items.entries()) {
+      const lineNumber = index + 1;
+
+      if (!item || !isEstimateItemKind(item.kind)) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: `Line ${lineNumber} must be a service, part or labor`
+          },
+          { status: 400 }
+        );
+      }
+
+      const quantity = Number(item.quantity);
+      const unitPrice = Number(item.unitPrice);
+
+      if (!Number.isFinite(quantity) || quantity <= 0 || !Number.isFinite(unitPrice) || unitPrice < 0) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: `Line ${lineNumber} needs a positive quantity and a price that is not negative`
+          },
+          { status: 400 }
+        );
+      }
+
+      let description = typeof item.description === 'string' ? item.description.trim() : '';
+      let serviceId: number | null = null;
+
+      if (item.kind === 'SERVICE') {
+        const garageService = garageServices.find(entry => entry.serviceId === item.serviceId);
+
+        if (!garageService) {
+          return NextResponse.json<ApiResponse>(
+            {
+              success: false,
+              error: `Line ${lineNumber} must be a service this garage offers`
+            },
+            { status: 400 }
+          );
+        }
+
+        serviceId = garageService.serviceId;
+        description = description || garageService.service.serviceName;
+      }
+
+      if (!description || description.length > MAX_DESCRIPTION_LENGTH) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: `Line ${lineNumber} needs a description of at most ${MAX_DESCRIPTION_LENGTH} characters`
+          },
+          { status: 400 }
+        );
+      }
+
+      lines.push({
+        kind: item.kind,
+        ...(serviceId !== null && { service: { connect: { id: serviceId } } }),
+        description,
+        quantity,
+        unitPrice: roundMoney(unitPrice),
+        totalPrice: roundMoney(quantity * unitPrice)
+      });
+    }
+
+    const validUntil = new Date(Date.now() + validDays * 24 * 60 * 60 * 1000);
+
+    let created;
+    try {
+      created = await prisma.$transaction(async (tx) => {
+        const superseded = await tx.estimate.updateMany({
+          where: { serviceRequestId: serviceRequest.id, status: { in: ['SENT', 'ANSWERED'] } },
+          data: { status: 'SUPERSEDED' }
+        });
+        const latest = await tx.estimate.aggregate({
+          where: { serviceRequestId: serviceRequest.id },
+          _max: { version: true }
+        });
+
+        const estimate = await tx.estimate.create({
+          data: {
+            serviceRequestId: serviceRequest.id,
+            version: (latest._max.version ?? 0) + 1,
+            createdById: user.id,
+            validUntil,
+            notes,
+            items: { create: lines }
+          },
+          include: ESTIMATE_INCLUDE
+        });
+
+        return { estimate, superseded: superseded.count };
+      });
+    } catch (error) {
+      // Two versions sent at once both picked the same number; the loser asks the user to retry
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: 'The request was updated by someone else. Please reload and try again.'
+          },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    const estimate = toEstimate(created.estimate);
+
+    await recordRequestEvent(user.id, {
+      serviceRequestId: serviceRequest.id,
+      type: REQUEST_EVENTS.ESTIMATE_SENT,
+      summary: created.superseded > 0
+        ? `Revised the estimate (version ${estimate.version}, $${estimate.total.toFixed(2)})`
+        : `Sent an estimate of $${estimate.total.toFixed(2)}`,
+      details: { estimateId: estimate.id, version: estimate.version, total: estimate.total }
+    });
+
+    try {
+      const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.ESTIMATE_SENT].toCustomer(
+        serviceRequest.garage.garageName,
+        serviceRequest.id,
+        estimate.total,
+        validUntil
+      );
+      await createNotification(
+        user.id,
+        serviceRequest.customerId,
+        NOTIFICATION_TYPES.ESTIMATE_SENT,
+        template.title,
+        template.message
+      );
+    } catch (notificationError) {
+      console.error('Failed to notify customer about estimate:', notificationError);
+    }
+
+    return NextResponse.json<ApiResponse<{ estimate: Estimate }>>(
+      {
+        success: true,
+        message: `Estimate version ${estimate.version} sent to the customer`,
+        data: { estimate }
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Create estimate error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  blockImpersonation: true
+});
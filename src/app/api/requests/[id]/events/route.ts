@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { canAccessServiceRequest, withAuth } from '@/lib/api-auth';
+import type { ApiResponse, RequestEvent } from '@/types/auth';
+
+// GET - Everything that happened to the request, oldest first
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const requestId = parseInt(id);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const serviceRequest = await prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+      select: { id: true, customerId: true, garageId: true, mechanicId: true }
+    });
+
+    if (!serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Service request not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAccessServiceRequest(user, serviceRequest))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Access denied'
+        },
+        { status: 403 }
+      );
+    }
+
+    const events = await prisma.requestEvent.findMany({
+      where: { serviceRequestId: serviceRequest.id },
+      include: {
+        actor: { select: { id: true, firstName: true, lastName: true, userType: true } }
+      },
+      // Events written together share a timestamp; the id keeps them in the order they happened
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+
+    return NextResponse.json<ApiResponse<{ events: RequestEvent[] }>>({
+      success: true,
+      data: {
+        events: events.map(event => ({
+          id: event.id,
+          serviceRequestId: event.serviceRequestId,
+          type: event.type,
+          summary: event.summary,
+          details: event.details,
+          createdAt: event.createdAt.toISOString(),
+          actor: event.actor
+        }))
+      }
+    });
+
+  } catch (error) {
+    console.error('Get request events error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
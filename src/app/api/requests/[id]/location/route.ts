@@ -0,0 +1,184 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { canAccessServiceRequest, withAuth } from '@/lib/api-auth';
+import { getRequestTracking, MIN_LOCATION_INTERVAL_MS } from '@/lib/request-tracking';
+import { isTrackingLive } from '@/lib/request-status';
+import { isValidCoordinate } from '@/utils/common';
+import { UserType } from '@/generated/prisma';
+import type { ApiResponse, RequestTracking } from '@/types/auth';
+
+// GET - The mechanic's trail with the distance and ETA to the vehicle
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const requestId = parseInt(id);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const serviceRequest = await prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+      select: { id: true, customerId: true, garageId: true, mechanicId: true }
+    });
+
+    if (!serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Service request not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAccessServiceRequest(user, serviceRequest))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Access denied'
+        },
+        { status: 403 }
+      );
+    }
+
+    const tracking = await getRequestTracking(serviceRequest.id);
+
+    return NextResponse.json<ApiResponse<{ tracking: RequestTracking | null }>>({
+      success: true,
+      data: { tracking }
+    });
+
+  } catch (error) {
+    console.error('Get request tracking error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// POST - The assigned mechanic reports their position while on the way to the vehicle
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const requestId = parseInt(id);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const serviceRequest = await prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+      select: { id: true, customerId: true, garageId: true, mechanicId: true, status: true, arrivedAt: true }
+    });
+
+    if (!serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Service request not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAccessServiceRequest(user, serviceRequest, ['assignedMechanic']))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Only the assigned mechanic can share their location'
+        },
+        { status: 403 }
+      );
+    }
+
+    if (!isTrackingLive(serviceRequest)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Location is only shared while on the way to the vehicle'
+        },
+        { status: 400 }
+      );
+    }
+
+    const body: { latitude?: unknown; longitude?: unknown; accuracy?: unknown } = await request.json();
+    const { latitude, longitude, accuracy } = body;
+
+    if (typeof latitude !== 'number' || typeof longitude !== 'number' || !isValidCoordinate(latitude, longitude)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Valid latitude and longitude are required'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (accuracy !== undefined && accuracy !== null && (typeof accuracy !== 'number' || !(accuracy >= 0))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Accuracy must be a distance in meters'
+        },
+        { status: 400 }
+      );
+    }
+
+    const lastLocation = await prisma.mechanicLocation.findFirst({
+      where: { serviceRequestId: serviceRequest.id, mechanicId: user.id },
+      orderBy: { recordedAt: 'desc' },
+      select: { recordedAt: true }
+    });
+
+    // Devices can report several times a second; keep the trail at a sensible density
+    if (!lastLocation || Date.now() - lastLocation.recordedAt.getTime() >= MIN_LOCATION_INTERVAL_MS) {
+      await prisma.mechanicLocation.create({
+        data: {
+          serviceRequestId: serviceRequest.id,
+          mechanicId: user.id,
+          latitude,
+          longitude,
+          accuracy: typeof accuracy === 'number' ? accuracy : null
+        }
+      });
+    }
+
+    const tracking = await getRequestTracking(serviceRequest.id);
+
+    return NextResponse.json<ApiResponse<{ tracking: RequestTracking | null }>>({
+      success: true,
+      data: { tracking }
+    });
+
+  } catch (error) {
+    console.error('Record mechanic location error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.MECHANIC],
+  forbiddenMessage: 'Only mechanics can share their location',
+  blockImpersonation: true
+});
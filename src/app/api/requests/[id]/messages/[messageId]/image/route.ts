@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { canAccessServiceRequest, withAuth } from '@/lib/api-auth';
+import { getStorage } from '@/lib/storage';
+import type { ApiResponse } from '@/types/auth';
+
+// GET - The image attached to a message, for anyone who can see the request
+export const GET = withAuth<{ id: string; messageId: string }>(async (request, { params, user }) => {
+  try {
+    const { id, messageId } = await params;
+    const requestId = parseInt(id);
+    const parsedMessageId = parseInt(messageId);
+
+    const message = isNaN(requestId) || isNaN(parsedMessageId)
+      ? null
+      : await prisma.requestMessage.findFirst({
+          where: { id: parsedMessageId, serviceRequestId: requestId },
+          include: {
+            serviceRequest: { select: { customerId: true, garageId: true, mechanicId: true } }
+          }
+        });
+
+    if (!message || !message.storageKey || !message.contentType) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Image not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAccessServiceRequest(user, message.serviceRequest))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Access denied'
+        },
+        { status: 403 }
+      );
+    }
+
+    const data = await getStorage().get(message.storageKey);
+
+    if (!data) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Image file is missing'
+        },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': message.contentType,
+        'Content-Length': data.length.toString(),
+        'Content-Disposition': `inline; filename="${encodeURIComponent(message.fileName || 'image')}"`,
+        'Cache-Control': 'private, max-age=3600',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    });
+
+  } catch (error) {
+    console.error('Get message image error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
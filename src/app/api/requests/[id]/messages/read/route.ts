@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { canAccessServiceRequest, withAuth } from '@/lib/api-auth';
+import { markMessagesRead } from '@/lib/request-messages';
+import type { ApiResponse } from '@/types/auth';
+
+// POST - The signed-in user has read the conversation up to now
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const requestId = parseInt(id);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const serviceRequest = await prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+      select: { id: true, customerId: true, garageId: true, mechanicId: true }
+    });
+
+    if (!serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Service request not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAccessServiceRequest(user, serviceRequest))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Access denied'
+        },
+        { status: 403 }
+      );
+    }
+
+    await markMessagesRead(serviceRequest.id, user.id);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Messages marked as read'
+    });
+
+  } catch (error) {
+    console.error('Mark messages read error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  // A system admin looking at a customer's account must not mark their messages as read
+  blockImpersonation: true
+});
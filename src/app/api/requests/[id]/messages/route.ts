@@ -0,0 +1,268 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { canAccessServiceRequest, withAuth } from '@/lib/api-auth';
+import { createStorageKey, getStorage } from '@/lib/storage';
+import { detectImageType, MAX_MESSAGE_LENGTH, MAX_PHOTO_SIZE } from '@/lib/service-requests';
+import {
+  getCaughtUpUsers,
+  getRequestMessages,
+  markMessagesRead,
+  MESSAGE_SENDERS
+} from '@/lib/request-messages';
+import type { ApiResponse, RequestMessage } from '@/types/auth';
+import { createNotification, NOTIFICATION_TEMPLATES, NOTIFICATION_TYPES } from '@/utils/notifications';
+
+const PREVIEW_LENGTH = 80;
+
+// GET - The conversation on a service request, oldest first, with read receipts
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const requestId = parseInt(id);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const serviceRequest = await prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+      select: { id: true, customerId: true, garageId: true, mechanicId: true }
+    });
+
+    if (!serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Service request not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAccessServiceRequest(user, serviceRequest))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Access denied'
+        },
+        { status: 403 }
+      );
+    }
+
+    const [messages, canSend] = await Promise.all([
+      getRequestMessages(serviceRequest.id),
+      canAccessServiceRequest(user, serviceRequest, MESSAGE_SENDERS)
+    ]);
+
+    return NextResponse.json<ApiResponse<{ messages: RequestMessage[]; canSend: boolean }>>({
+      success: true,
+      data: { messages, canSend }
+    });
+
+  } catch (error) {
+    console.error('Get request messages error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST - Send a message (multipart form: "body" and/or one "image"). The other participants are
+ * notified, unless they still have an earlier message from this conversation to read.
+ */
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const requestId = parseInt(id);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const serviceRequest = await prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+      select: {
+        id: true,
+        customerId: true,
+        garageId: true,
+        mechanicId: true,
+        garage: { select: { adminId: true } }
+      }
+    });
+
+    if (!serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Service request not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAccessServiceRequest(user, serviceRequest, MESSAGE_SENDERS))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Only the customer, the assigned mechanic and garage staff can write here'
+        },
+        { status: 403 }
+      );
+    }
+
+    const formData = await request.formData();
+    const bodyEntry = formData.get('body');
+    const body = typeof bodyEntry === 'string' && bodyEntry.trim() ? bodyEntry.trim() : null;
+    const imageEntry = formData.get('image');
+    const image = imageEntry instanceof File && imageEntry.size > 0 ? imageEntry : null;
+
+    if (!body && !image) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Write a message or attach an image'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body && body.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `A message can be at most ${MAX_MESSAGE_LENGTH} characters`
+        },
+        { status: 400 }
+      );
+    }
+
+    let upload: { fileName: string; data: Buffer; contentType: string; extension: string } | null = null;
+
+    if (image) {
+      if (image.size > MAX_PHOTO_SIZE) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: `${image.name} is larger than ${MAX_PHOTO_SIZE / (1024 * 1024)} MB`
+          },
+          { status: 400 }
+        );
+      }
+
+      const data = Buffer.from(await image.arrayBuffer());
+      const imageType = detectImageType(data);
+
+      if (!imageType) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: `${image.name} is not a JPEG, PNG or WebP image`
+          },
+          { status: 400 }
+        );
+      }
+
+      upload = {
+        fileName: image.name.slice(0, 255) || `image.${imageType.extension}`,
+        data,
+        ...imageType
+      };
+    }
+
+    const storage = getStorage();
+    const storageKey = upload ? createStorageKey(`requests/${requestId}/messages`, upload.extension) : null;
+
+    let message;
+    try {
+      if (upload && storageKey) {
+        await storage.put(storageKey, upload.data, upload.contentType);
+      }
+
+      message = await prisma.requestMessage.create({
+        data: {
+          serviceRequestId: serviceRequest.id,
+          senderId: user.id,
+          body,
+          ...(upload && {
+            storageKey,
+            fileName: upload.fileName,
+            contentType: upload.contentType,
+            size: upload.data.length
+          })
+        }
+      });
+    } catch (error) {
+      // Do not leave a file behind that no message points to
+      if (storageKey) await storage.delete(storageKey).catch(() => undefined);
+      throw error;
+    }
+
+    // Writing a reply means the sender has seen everything before it
+    await markMessagesRead(serviceRequest.id, user.id);
+
+    try {
+      const recipients = [
+        ...new Set([serviceRequest.customerId, serviceRequest.mechanicId, serviceRequest.garage.adminId])
+      ].filter((recipientId): recipientId is number => recipientId !== null && recipientId !== user.id);
+      const toNotify = await getCaughtUpUsers(serviceRequest.id, recipients, message.id);
+      const preview = body && body.length > PREVIEW_LENGTH ? `${body.slice(0, PREVIEW_LENGTH)}...` : body;
+      const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.NEW_MESSAGE].toParticipant(
+        `${user.firstName} ${user.lastName}`,
+        serviceRequest.id,
+        preview
+      );
+
+      for (const recipientId of toNotify) {
+        await createNotification(
+          user.id,
+          recipientId,
+          NOTIFICATION_TYPES.NEW_MESSAGE,
+          template.title,
+          template.message
+        );
+      }
+    } catch (notificationError) {
+      console.error('Failed to notify participants about new message:', notificationError);
+    }
+
+    const messages = await getRequestMessages(serviceRequest.id);
+
+    return NextResponse.json<ApiResponse<{ messages: RequestMessage[] }>>(
+      {
+        success: true,
+        message: 'Message sent',
+        data: { messages }
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Send request message error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  blockImpersonation: true
+});
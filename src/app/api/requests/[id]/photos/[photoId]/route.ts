@@ -0,0 +1,144 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { canAccessServiceRequest, withAuth } from '@/lib/api-auth';
+import { getStorage } from '@/lib/storage';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
+import type { ApiResponse } from '@/types/auth';
+
+async function findPhoto(id: string, photoId: string) {
+  const requestId = parseInt(id);
+  const parsedPhotoId = parseInt(photoId);
+
+  if (isNaN(requestId) || isNaN(parsedPhotoId)) return null;
+
+  return prisma.serviceRequestPhoto.findFirst({
+    where: { id: parsedPhotoId, serviceRequestId: requestId },
+    include: {
+      serviceRequest: {
+        select: { customerId: true, garageId: true, mechanicId: true, status: true }
+      }
+    }
+  });
+}
+
+// GET - The photo file, for anyone who can see the request
+export const GET = withAuth<{ id: string; photoId: string }>(async (request, { params, user }) => {
+  try {
+    const { id, photoId } = await params;
+    const photo = await findPhoto(id, photoId);
+
+    if (!photo) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Photo not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAccessServiceRequest(user, photo.serviceRequest))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Access denied'
+        },
+        { status: 403 }
+      );
+    }
+
+    const data = await getStorage().get(photo.storageKey);
+
+    if (!data) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Photo file is missing'
+        },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': photo.contentType,
+        'Content-Length': data.length.toString(),
+        'Content-Disposition': `inline; filename="${encodeURIComponent(photo.fileName)}"`,
+        'Cache-Control': 'private, max-age=3600',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    });
+
+  } catch (error) {
+    console.error('Get request photo error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE - Remove a photo while the request is still pending (customer only)
+export const DELETE = withAuth<{ id: string; photoId: string }>(async (request, { params, user }) => {
+  try {
+    const { id, photoId } = await params;
+    const photo = await findPhoto(id, photoId);
+
+    if (!photo) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Photo not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAccessServiceRequest(user, photo.serviceRequest, ['owner']))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Access denied'
+        },
+        { status: 403 }
+      );
+    }
+
+    if (photo.serviceRequest.status !== 'PENDING') {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Photos can only be removed before the request is accepted'
+        },
+        { status: 400 }
+      );
+    }
+
+    await prisma.serviceRequestPhoto.delete({ where: { id: photo.id } });
+    await getStorage().delete(photo.storageKey);
+    await recordRequestEvent(user.id, {
+      serviceRequestId: photo.serviceRequestId,
+      type: REQUEST_EVENTS.PHOTO_REMOVED,
+      summary: `Photo ${photo.fileName} removed`,
+      details: { photoId: photo.id }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Photo removed'
+    });
+
+  } catch (error) {
+    console.error('Delete request photo error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
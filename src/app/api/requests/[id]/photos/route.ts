@@ -0,0 +1,263 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { canAccessServiceRequest, withAuth } from '@/lib/api-auth';
+import { createStorageKey, getStorage } from '@/lib/storage';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
+import { OPEN_REQUEST_STATUSES } from '@/lib/request-status';
+import { UserType } from '@/generated/prisma';
+import {
+  detectImageType,
+  MAX_PHOTO_SIZE,
+  MAX_REQUEST_PHOTOS,
+  REQUEST_PHOTO_SELECT
+} from '@/lib/service-requests';
+import type { ApiResponse } from '@/types/auth';
+
+// GET - List the photos attached to a service request
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const requestId = parseInt(id);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const serviceRequest = await prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+      select: { customerId: true, garageId: true, mechanicId: true }
+    });
+
+    if (!serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Service request not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAccessServiceRequest(user, serviceRequest))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Access denied'
+        },
+        { status: 403 }
+      );
+    }
+
+    const photos = await prisma.serviceRequestPhoto.findMany({
+      where: { serviceRequestId: requestId },
+      select: REQUEST_PHOTO_SELECT,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { photos }
+    });
+
+  } catch (error) {
+    console.error('Get request photos error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// POST - Attach photos to an open service request (multipart form, field "photos"; customer only)
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const requestId = parseInt(id);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const serviceRequest = await prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+      select: {
+        customerId: true,
+        garageId: true,
+        mechanicId: true,
+        status: true,
+        _count: { select: { photos: true } }
+      }
+    });
+
+    if (!serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Service request not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAccessServiceRequest(user, serviceRequest, ['owner']))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Only the customer who created the request can add photos'
+        },
+        { status: 403 }
+      );
+    }
+
+    if (!(OPEN_REQUEST_STATUSES as readonly string[]).includes(serviceRequest.status)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Photos can only be added to open requests'
+        },
+        { status: 400 }
+      );
+    }
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Expected a multipart form upload'
+        },
+        { status: 400 }
+      );
+    }
+
+    const files = formData.getAll('photos').filter((entry): entry is File => entry instanceof File);
+
+    if (files.length === 0) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'No photos were uploaded'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (serviceRequest._count.photos + files.length > MAX_REQUEST_PHOTOS) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `A request can have at most ${MAX_REQUEST_PHOTOS} photos`
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate every file before storing any of them
+    const uploads: Array<{ fileName: string; data: Buffer; contentType: string; extension: string }> = [];
+    for (const file of files) {
+      if (file.size > MAX_PHOTO_SIZE) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: `${file.name} is larger than ${MAX_PHOTO_SIZE / (1024 * 1024)} MB`
+          },
+          { status: 400 }
+        );
+      }
+
+      const data = Buffer.from(await file.arrayBuffer());
+      const imageType = detectImageType(data);
+
+      if (!imageType) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: `${file.name} is not a JPEG, PNG or WebP image`
+          },
+          { status: 400 }
+        );
+      }
+
+      uploads.push({
+        fileName: file.name.slice(0, 255) || `photo.${imageType.extension}`,
+        data,
+        ...imageType
+      });
+    }
+
+    const storage = getStorage();
+    const storedKeys: string[] = [];
+
+    try {
+      for (const upload of uploads) {
+        const storageKey = createStorageKey(`requests/${requestId}`, upload.extension);
+        await storage.put(storageKey, upload.data, upload.contentType);
+        storedKeys.push(storageKey);
+      }
+
+      const photos = await prisma.$transaction(
+        uploads.map((upload, index) => prisma.serviceRequestPhoto.create({
+          data: {
+            serviceRequestId: requestId,
+            uploadedById: user.id,
+            storageKey: storedKeys[index],
+            fileName: upload.fileName,
+            contentType: upload.contentType,
+            size: upload.data.length
+          },
+          select: REQUEST_PHOTO_SELECT
+        }))
+      );
+
+      await recordRequestEvent(user.id, {
+        serviceRequestId: requestId,
+        type: REQUEST_EVENTS.PHOTO_ADDED,
+        summary: `${photos.length} photo(s) added`,
+        details: { photoIds: photos.map(photo => photo.id) }
+      });
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: true,
+          message: `${photos.length} photo(s) uploaded`,
+          data: { photos }
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      // Do not leave files behind that no record points to
+      await Promise.all(storedKeys.map(key => storage.delete(key).catch(() => undefined)));
+      throw error;
+    }
+
+  } catch (error) {
+    console.error('Upload request photos error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can add photos to service requests'
+});
@@ -0,0 +1,141 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { REQUEST_REASSIGNMENT_INCLUDE } from '@/lib/service-requests';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
+import type { ApiResponse } from '@/types/auth';
+import { createNotification, NOTIFICATION_TEMPLATES, NOTIFICATION_TYPES } from '@/utils/notifications';
+
+const MAX_NOTE_LENGTH = 500;
+
+// PATCH - Decline a mechanic's hand-over request; the mechanic stays assigned
+export const PATCH = withAuth<{ id: string; reassignmentId: string }>(async (request, { params, user }) => {
+  try {
+    const { id, reassignmentId: reassignmentIdParam } = await params;
+    const requestId = parseInt(id);
+    const reassignmentId = parseInt(reassignmentIdParam);
+
+    if (isNaN(requestId) || isNaN(reassignmentId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request or hand-over ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const reassignment = await prisma.requestReassignment.findUnique({
+      where: { id: reassignmentId },
+      include: { serviceRequest: { select: { garageId: true } } }
+    });
+
+    if (!reassignment || reassignment.serviceRequestId !== requestId) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Hand-over request not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await hasPermission(user, PERMISSIONS.REQUESTS_ASSIGN, reassignment.serviceRequest.garageId))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Permission denied to assign mechanics'
+        },
+        { status: 403 }
+      );
+    }
+
+    const body: { decisionNote?: string } = await request.json();
+    const decisionNote = typeof body.decisionNote === 'string' && body.decisionNote.trim()
+      ? body.decisionNote.trim()
+      : null;
+
+    if (decisionNote && decisionNote.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `The note can be at most ${MAX_NOTE_LENGTH} characters`
+        },
+        { status: 400 }
+      );
+    }
+
+    // Conditional on PENDING, so a decline cannot undo a reassignment made at the same moment
+    const declined = await prisma.requestReassignment.updateMany({
+      where: { id: reassignment.id, status: 'PENDING' },
+      data: {
+        status: 'DECLINED',
+        decidedById: user.id,
+        decidedAt: new Date(),
+        decisionNote
+      }
+    });
+
+    if (declined.count === 0) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'This hand-over request has already been answered'
+        },
+        { status: 409 }
+      );
+    }
+
+    await recordRequestEvent(user.id, {
+      serviceRequestId: requestId,
+      type: REQUEST_EVENTS.HANDOVER_DECLINED,
+      summary: decisionNote ? `Hand-over request declined: ${decisionNote}` : 'Hand-over request declined',
+      details: { reassignmentId: reassignment.id }
+    });
+
+    try {
+      const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.HANDOVER_DECLINED].toMechanic(requestId, decisionNote);
+      await createNotification(
+        user.id,
+        reassignment.requestedById,
+        NOTIFICATION_TYPES.HANDOVER_DECLINED,
+        template.title,
+        template.message
+      );
+    } catch (notificationError) {
+      console.error('Failed to notify mechanic about declined hand-over:', notificationError);
+    }
+
+    const updated = await prisma.requestReassignment.findUniqueOrThrow({
+      where: { id: reassignment.id },
+      include: REQUEST_REASSIGNMENT_INCLUDE
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Hand-over request declined',
+      data: {
+        reassignment: {
+          ...updated,
+          decidedAt: updated.decidedAt?.toISOString() ?? null,
+          createdAt: updated.createdAt.toISOString()
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Decline hand-over error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  permission: PERMISSIONS.REQUESTS_ASSIGN,
+  forbiddenMessage: 'Permission denied to assign mechanics',
+  blockImpersonation: true
+});
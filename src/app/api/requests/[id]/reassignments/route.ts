@@ -0,0 +1,378 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { canAccessServiceRequest, hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { REQUEST_REASSIGNMENT_INCLUDE } from '@/lib/service-requests';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
+import { ACTIVE_REQUEST_STATUSES, isActiveRequestStatus } from '@/lib/request-status';
+import type { ApiResponse, RequestReassignment, RequestReassignmentData } from '@/types/auth';
+import { createNotification, NOTIFICATION_TEMPLATES, NOTIFICATION_TYPES } from '@/utils/notifications';
+
+const MAX_REASON_LENGTH = 500;
+
+// GET - Hand-overs and reassignments of the request, newest first
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const requestId = parseInt(id);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const serviceRequest = await prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+      select: { id: true, customerId: true, garageId: true, mechanicId: true }
+    });
+
+    if (!serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Service request not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAccessServiceRequest(user, serviceRequest))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Access denied'
+        },
+        { status: 403 }
+      );
+    }
+
+    const reassignments = await prisma.requestReassignment.findMany({
+      where: { serviceRequestId: serviceRequest.id },
+      include: REQUEST_REASSIGNMENT_INCLUDE,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return NextResponse.json<ApiResponse<{ reassignments: RequestReassignment[] }>>({
+      success: true,
+      data: {
+        reassignments: reassignments.map(reassignment => ({
+          ...reassignment,
+          decidedAt: reassignment.decidedAt?.toISOString() ?? null,
+          createdAt: reassignment.createdAt.toISOString()
+        }))
+      }
+    });
+
+  } catch (error) {
+    console.error('Get reassignments error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST - Move the request to another mechanic (garage staff, mechanicId required) or, for the
+ * assigned mechanic, ask the garage to hand it over. Status updates and services already
+ * recorded stay with the request; only who works on it from now on changes.
+ */
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const requestId = parseInt(id);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const serviceRequest = await prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+      include: {
+        mechanic: { select: { id: true, firstName: true, lastName: true } },
+        garage: { select: { adminId: true } }
+      }
+    });
+
+    if (!serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Service request not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    const canAssign = await hasPermission(user, PERMISSIONS.REQUESTS_ASSIGN, serviceRequest.garageId);
+
+    if (!canAssign && serviceRequest.mechanicId !== user.id) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Only garage staff or the assigned mechanic can hand over this request'
+        },
+        { status: 403 }
+      );
+    }
+
+    const body: RequestReassignmentData = await request.json();
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    if (!reason || reason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `A reason of at most ${MAX_REASON_LENGTH} characters is required`
+        },
+        { status: 400 }
+      );
+    }
+
+    const currentMechanic = serviceRequest.mechanic;
+
+    // A request can change hands while a mechanic is on it; before that it is simply (re)accepted
+    if (!currentMechanic || !isActiveRequestStatus(serviceRequest.status)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Only requests a mechanic is working on can be handed over'
+        },
+        { status: 400 }
+      );
+    }
+
+    const pending = await prisma.requestReassignment.findFirst({
+      where: { serviceRequestId: serviceRequest.id, status: 'PENDING' }
+    });
+
+    // The assigned mechanic asks; garage staff decide who takes over
+    if (!canAssign) {
+      if (pending) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: 'A hand-over has already been requested for this request'
+          },
+          { status: 409 }
+        );
+      }
+
+      const handover = await prisma.requestReassignment.create({
+        data: {
+          serviceRequestId: serviceRequest.id,
+          fromMechanicId: currentMechanic.id,
+          requestedById: user.id,
+          reason
+        },
+        include: REQUEST_REASSIGNMENT_INCLUDE
+      });
+
+      await recordRequestEvent(user.id, {
+        serviceRequestId: serviceRequest.id,
+        type: REQUEST_EVENTS.HANDOVER_REQUESTED,
+        summary: `${currentMechanic.firstName} ${currentMechanic.lastName} asked to hand over the request: ${reason}`,
+        details: { reassignmentId: handover.id }
+      });
+
+      try {
+        const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.HANDOVER_REQUESTED].toGarage(
+          `${currentMechanic.firstName} ${currentMechanic.lastName}`,
+          serviceRequest.id,
+          reason
+        );
+        await createNotification(
+          user.id,
+          serviceRequest.garage.adminId,
+          NOTIFICATION_TYPES.HANDOVER_REQUESTED,
+          template.title,
+          template.message
+        );
+      } catch (notificationError) {
+        console.error('Failed to notify garage about hand-over request:', notificationError);
+      }
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: true,
+          message: 'Hand-over requested. You stay assigned until the garage picks another mechanic.',
+          data: {
+            reassignment: {
+              ...handover,
+              decidedAt: null,
+              createdAt: handover.createdAt.toISOString()
+            }
+          }
+        },
+        { status: 201 }
+      );
+    }
+
+    if (!Number.isInteger(body.mechanicId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Choose the mechanic who should take over'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.mechanicId === currentMechanic.id) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'This mechanic is already assigned'
+        },
+        { status: 400 }
+      );
+    }
+
+    const newMechanic = await prisma.mechanic.findUnique({
+      where: {
+        userId: body.mechanicId,
+        garageId: serviceRequest.garageId,
+        approved: true,
+        removed: false
+      },
+      include: { user: { select: { firstName: true, lastName: true } } }
+    });
+
+    if (!newMechanic) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid mechanic assignment'
+        },
+        { status: 400 }
+      );
+    }
+
+    const reassignment = await prisma.$transaction(async (tx) => {
+      // Conditional on the mechanic read above, so two reassignments at once cannot both apply
+      const moved = await tx.serviceRequest.updateMany({
+        where: {
+          id: serviceRequest.id,
+          mechanicId: currentMechanic.id,
+          status: { in: [...ACTIVE_REQUEST_STATUSES] }
+        },
+        data: { mechanicId: newMechanic.userId }
+      });
+
+      if (moved.count === 0) return null;
+
+      const decided = {
+        toMechanicId: newMechanic.userId,
+        status: 'COMPLETED' as const,
+        decidedById: user.id,
+        decidedAt: new Date()
+      };
+
+      // A waiting hand-over is answered by this reassignment; staff's reason goes in the note
+      return pending
+        ? tx.requestReassignment.update({
+          where: { id: pending.id },
+          data: { ...decided, decisionNote: reason },
+          include: REQUEST_REASSIGNMENT_INCLUDE
+        })
+        : tx.requestReassignment.create({
+          data: {
+            ...decided,
+            serviceRequestId: serviceRequest.id,
+            fromMechanicId: currentMechanic.id,
+            requestedById: user.id,
+            reason
+          },
+          include: REQUEST_REASSIGNMENT_INCLUDE
+        });
+    });
+
+    if (!reassignment) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'The request was updated by someone else. Please reload and try again.'
+        },
+        { status: 409 }
+      );
+    }
+
+    await recordRequestEvent(user.id, {
+      serviceRequestId: serviceRequest.id,
+      type: REQUEST_EVENTS.MECHANIC_REASSIGNED,
+      summary: `Handed over from ${currentMechanic.firstName} ${currentMechanic.lastName} to ${newMechanic.user.firstName} ${newMechanic.user.lastName}: ${reason}`,
+      details: { reassignmentId: reassignment.id, fromMechanicId: currentMechanic.id, toMechanicId: newMechanic.userId }
+    });
+
+    try {
+      const templates = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.REQUEST_REASSIGNED];
+      const newMechanicName = `${newMechanic.user.firstName} ${newMechanic.user.lastName}`;
+      const previousMechanicName = `${currentMechanic.firstName} ${currentMechanic.lastName}`;
+      const customerTemplate = templates.toCustomer(newMechanicName);
+      const newMechanicTemplate = templates.toNewMechanic(serviceRequest.id, previousMechanicName, reassignment.reason);
+      const previousMechanicTemplate = templates.toPreviousMechanic(serviceRequest.id, newMechanicName);
+
+      await createNotification(
+        user.id,
+        serviceRequest.customerId,
+        NOTIFICATION_TYPES.REQUEST_REASSIGNED,
+        customerTemplate.title,
+        customerTemplate.message
+      );
+      await createNotification(
+        user.id,
+        newMechanic.userId,
+        NOTIFICATION_TYPES.REQUEST_REASSIGNED,
+        newMechanicTemplate.title,
+        newMechanicTemplate.message
+      );
+      await createNotification(
+        user.id,
+        currentMechanic.id,
+        NOTIFICATION_TYPES.REQUEST_REASSIGNED,
+        previousMechanicTemplate.title,
+        previousMechanicTemplate.message
+      );
+    } catch (notificationError) {
+      console.error('Failed to send reassignment notifications:', notificationError);
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: `Request handed over to ${newMechanic.user.firstName} ${newMechanic.user.lastName}`,
+      data: {
+        reassignment: {
+          ...reassignment,
+          decidedAt: reassignment.decidedAt?.toISOString() ?? null,
+          createdAt: reassignment.createdAt.toISOString()
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Reassign request error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  blockImpersonation: true
+});
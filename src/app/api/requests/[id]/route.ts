@@ -1,33 +1,30 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
-import type { ApiResponse, ServiceRequestStatusUpdate } from '@/types/auth';
+import { canAccessServiceRequest, hasPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import { REQUEST_PHOTO_SELECT } from '@/lib/service-requests';
+import { releaseAppointmentSlot } from '@/lib/appointments';
+import { describeDispatch, notifyDispatchedMechanic, rankMechanics, toDispatchRationaleJson } from '@/lib/dispatch';
+import { recordRequestEvent, REQUEST_EVENTS, type RequestEventEntry } from '@/lib/request-events';
+import {
+  CANCELLATION_CATEGORY_LABELS,
+  DISPATCHABLE_REQUEST_STATUSES,
+  getCancellationFee,
+  getTransitionError,
+  HOLD_REASON_LABELS,
+  isCancellationCategory,
+  isHoldReason,
+  isServiceStatus,
+  MAX_STATUS_REASON_LENGTH,
+  moveRequestStatus,
+  REQUEST_STATUS_LABELS
+} from '@/lib/request-status';
+import type { Prisma } from '@/generated/prisma';
+import type { ApiResponse, DispatchRationale, ServiceRequestStatusUpdate } from '@/types/auth';
 import { createNotification, NOTIFICATION_TYPES, NOTIFICATION_TEMPLATES } from '@/utils/notifications';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // GET - Get specific service request
-export async function GET(
-  request: NextRequest, 
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
   try {
     const { id } = await params;
     const requestId = parseInt(id);
@@ -42,32 +39,6 @@ export async function GET(
       );
     }
 
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
     const serviceRequest = await prisma.serviceRequest.findUnique({
       where: { id: requestId },
       include: {
@@ -86,6 +57,7 @@ export async function GET(
             garageName: true,
             latitude: true,
             longitude: true,
+            cancellationFee: true,
           }
         },
         mechanic: {
@@ -104,6 +76,18 @@ export async function GET(
             plateCode: true,
             countryCode: true,
             color: true,
+            vin: true,
+            make: true,
+            modelYear: true,
+          }
+        },
+        photos: {
+          select: REQUEST_PHOTO_SELECT,
+          orderBy: { createdAt: 'asc' }
+        },
+        requestedServices: {
+          select: {
+            service: { select: { id: true, serviceName: true, estimatedPrice: true } }
           }
         }
       }
@@ -120,37 +104,7 @@ export async function GET(
     }
 
     // Check access permissions
-    let hasAccess = false;
-
-    if (decoded.userType === 'CUSTOMER' && serviceRequest.customerId === decoded.id) {
-      hasAccess = true;
-    } else if (decoded.userType === 'MECHANIC') {
-      // Check if mechanic is assigned or belongs to the garage
-      const mechanic = await prisma.mechanic.findUnique({
-        where: { userId: decoded.id },
-        select: { garageId: true, approved: true }
-      });
-
-      if (mechanic && mechanic.approved && 
-          (mechanic.garageId === serviceRequest.garageId || 
-           serviceRequest.mechanicId === decoded.id)) {
-        hasAccess = true;
-      }
-    } else if (decoded.userType === 'GARAGE_ADMIN') {
-      // Check if admin owns the garage
-      const garage = await prisma.garage.findUnique({
-        where: { 
-          id: serviceRequest.garageId,
-          adminId: decoded.id 
-        }
-      });
-
-      if (garage) {
-        hasAccess = true;
-      }
-    } else if (decoded.userType === 'SYSTEM_ADMIN') {
-      hasAccess = true;
-    }
+    const hasAccess = await canAccessServiceRequest(user, serviceRequest);
 
     if (!hasAccess) {
       return NextResponse.json<ApiResponse>(
@@ -184,13 +138,10 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
-// PATCH - Update service request status
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+// PATCH - Move the service request to another status (allowed moves are in lib/request-status)
+export const PATCH = withAuth<{ id: string }>(async (request, { params, user }) => {
   try {
     const { id } = await params;
     const requestId = parseInt(id);
@@ -205,38 +156,11 @@ export async function PATCH(
       );
     }
 
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
     const body: ServiceRequestStatusUpdate = await request.json();
     const { status, mechanicId } = body;
 
     // Validate status
-    const validStatuses = ['ACCEPTED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'];
-    if (!validStatuses.includes(status)) {
+    if (!isServiceStatus(status)) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
@@ -249,13 +173,7 @@ export async function PATCH(
     // Get the current service request
     const currentRequest = await prisma.serviceRequest.findUnique({
       where: { id: requestId },
-      include: {
-        garage: {
-          select: {
-            adminId: true
-          }
-        }
-      }
+      include: { garage: { select: { cancellationFee: true } } }
     });
 
     if (!currentRequest) {
@@ -270,36 +188,21 @@ export async function PATCH(
 
     // Check permissions for status updates
     let canUpdate = false;
+    const isOwner = await canAccessServiceRequest(user, currentRequest, ['owner']);
 
-    if (decoded.userType === 'CUSTOMER' && currentRequest.customerId === decoded.id) {
+    if (isOwner) {
       // Customers can only cancel their own requests
       canUpdate = status === 'CANCELLED';
-    } else if (decoded.userType === 'MECHANIC') {
-      // Mechanics can accept requests from their garage and update assigned requests
-      const mechanic = await prisma.mechanic.findUnique({
-        where: { userId: decoded.id },
-        select: { garageId: true, approved: true }
-      });
-
-      if (mechanic && mechanic.approved) {
-        if (mechanic.garageId === currentRequest.garageId) {
-          // Can accept requests from their garage
-          if (status === 'ACCEPTED' && currentRequest.status === 'PENDING') {
-            canUpdate = true;
-          }
-        }
-        
-        if (currentRequest.mechanicId === decoded.id) {
-          // Can update their assigned requests
-          canUpdate = true;
-        }
-      }
-    } else if (decoded.userType === 'GARAGE_ADMIN' && 
-               currentRequest.garage.adminId === decoded.id) {
-      // Garage admins can update requests for their garage
-      canUpdate = true;
-    } else if (decoded.userType === 'SYSTEM_ADMIN') {
+    } else if (await canAccessServiceRequest(user, currentRequest, ['assignedMechanic'])) {
+      // Assigned mechanics can move their request forward; turning it down is the garage's call
+      canUpdate = status !== 'REJECTED_BY_GARAGE';
+    } else if (await hasPermission(user, PERMISSIONS.REQUESTS_UPDATE, currentRequest.garageId)) {
+      // The garage's admin, system admins and staff with requests.update can update the request
       canUpdate = true;
+    } else if (await hasPermission(user, PERMISSIONS.REQUESTS_ACCEPT, currentRequest.garageId)) {
+      // Other mechanics and front desk staff of the garage can only accept pending or booked requests
+      canUpdate = status === 'ACCEPTED'
+        && (DISPATCHABLE_REQUEST_STATUSES as readonly string[]).includes(currentRequest.status);
     }
 
     if (!canUpdate) {
@@ -314,32 +217,109 @@ export async function PATCH(
 
     // Validate status transitions
     const currentStatus = currentRequest.status;
-    const validTransitions: Record<string, string[]> = {
-      PENDING: ['ACCEPTED', 'CANCELLED'],
-      ACCEPTED: ['IN_PROGRESS', 'CANCELLED'],
-      IN_PROGRESS: ['COMPLETED', 'CANCELLED'],
-      COMPLETED: [],
-      CANCELLED: []
-    };
+    const transitionError = getTransitionError(currentStatus, status);
 
-    if (!validTransitions[currentStatus].includes(status)) {
+    if (transitionError) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
-          error: `Cannot change status from ${currentStatus} to ${status}` 
+          error: transitionError
         },
         { status: 400 }
       );
     }
 
+    // Reasons the new status asks for
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null;
+    const cancellationReason = typeof body.cancellationReason === 'string' && body.cancellationReason.trim()
+      ? body.cancellationReason.trim()
+      : null;
+
+    if ((note?.length ?? 0) > MAX_STATUS_REASON_LENGTH || (cancellationReason?.length ?? 0) > MAX_STATUS_REASON_LENGTH) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `Reasons can be at most ${MAX_STATUS_REASON_LENGTH} characters`
+        },
+        { status: 400 }
+      );
+    }
+
+    let changes: Omit<Prisma.ServiceRequestUncheckedUpdateManyInput, 'status'> = {};
+    const cancellationFee = status === 'CANCELLED'
+      ? getCancellationFee(currentStatus, isOwner, currentRequest.garage.cancellationFee)
+      : 0;
+
+    if (status === 'ON_HOLD') {
+      if (!isHoldReason(body.holdReason) || (body.holdReason === 'OTHER' && !note)) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: 'Choose why the work is on hold, and describe it when choosing Other'
+          },
+          { status: 400 }
+        );
+      }
+
+      changes = { holdReason: body.holdReason, statusNote: note };
+    } else if (status === 'REJECTED_BY_GARAGE') {
+      if (!note) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: 'Tell the customer why the garage cannot take the request'
+          },
+          { status: 400 }
+        );
+      }
+
+      changes = { statusNote: note };
+    } else if (status === 'CANCELLED') {
+      if (!isCancellationCategory(body.cancellationCategory) ||
+          (body.cancellationCategory === 'OTHER' && !cancellationReason)) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: 'Choose why the request is cancelled, and describe it when choosing Other'
+          },
+          { status: 400 }
+        );
+      }
+
+      changes = {
+        cancellationCategory: body.cancellationCategory,
+        cancellationReason,
+        cancelledById: user.id,
+        cancelledAt: new Date(),
+        cancellationFee: cancellationFee > 0 ? cancellationFee : null
+      };
+    } else if (currentStatus === 'ON_HOLD') {
+      // Work resumes; the hold reason no longer applies
+      changes = { holdReason: null, statusNote: null };
+    } else if (currentStatus === 'EN_ROUTE' && !currentRequest.arrivedAt) {
+      // Starting work means the mechanic got there, even without marking the arrival first
+      changes = { arrivedAt: new Date() };
+    }
+
     // Prepare update data based on status
     let mechanicToAssign: number | undefined;
+    let dispatch: { rationale: DispatchRationale; summary: string } | undefined;
     
     if (status === 'ACCEPTED') {
-      if (decoded.userType === 'MECHANIC') {
+      if (user.userType === 'MECHANIC' && (!mechanicId || mechanicId === user.id)) {
         // Auto-assign the mechanic who accepts the request
-        mechanicToAssign = decoded.id;
+        mechanicToAssign = user.id;
       } else if (mechanicId) {
+        if (!(await hasPermission(user, PERMISSIONS.REQUESTS_ASSIGN, currentRequest.garageId))) {
+          return NextResponse.json<ApiResponse>(
+            {
+              success: false,
+              error: 'Permission denied to assign mechanics'
+            },
+            { status: 403 }
+          );
+        }
+
         // Verify the mechanic exists and belongs to the garage
         const mechanic = await prisma.mechanic.findUnique({
           where: {
@@ -362,66 +342,212 @@ export async function PATCH(
 
         mechanicToAssign = mechanicId;
       } else {
-        return NextResponse.json<ApiResponse>(
-          {
-            success: false,
-            error: 'Mechanic assignment required for accepting request'
-          },
-          { status: 400 }
+        const garage = await prisma.garage.findUnique({
+          where: { id: currentRequest.garageId },
+          select: { autoDispatch: true }
+        });
+
+        if (!garage?.autoDispatch) {
+          return NextResponse.json<ApiResponse>(
+            {
+              success: false,
+              error: 'Mechanic assignment required for accepting request'
+            },
+            { status: 400 }
+          );
+        }
+
+        // Auto-dispatch garages let the system pick when nobody is chosen by hand
+        const requested = await prisma.requestedService.findMany({
+          where: { serviceRequestId: requestId },
+          select: { serviceId: true }
+        });
+        const rationale = await rankMechanics(
+          currentRequest.garageId,
+          requested.map(service => service.serviceId),
+          currentRequest.scheduledFor ?? new Date()
         );
+        const decision = describeDispatch(rationale);
+
+        if (!decision.mechanicId) {
+          return NextResponse.json<ApiResponse>(
+            {
+              success: false,
+              error: `${decision.summary}. Please assign a mechanic by hand.`
+            },
+            { status: 409 }
+          );
+        }
+
+        mechanicToAssign = decision.mechanicId;
+        dispatch = { rationale, summary: decision.summary };
       }
+
+      changes = { mechanicId: mechanicToAssign };
     }
 
-    // Update the service request
-    const updatedRequest = await prisma.serviceRequest.update({
-      where: { id: requestId },
-      data: mechanicToAssign ? { status, mechanicId: mechanicToAssign } : { status },
-      include: {
-        customer: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            phoneNumber: true,
-          }
-        },
-        garage: {
-          select: {
-            id: true,
-            garageName: true,
-            latitude: true,
-            longitude: true,
+    // Update the service request; cancelling or rejecting a booking before it starts frees its place in the slot
+    const releasesSlot = (status === 'CANCELLED' || status === 'REJECTED_BY_GARAGE')
+      && currentRequest.scheduledFor !== null
+      && currentRequest.scheduledFor > new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Only succeeds if nobody changed the status in the meantime, so a place is never given back twice
+      if (!(await moveRequestStatus(tx, currentRequest, status, changes))) return null;
+
+      if (releasesSlot && currentRequest.appointmentSlotId) {
+        await releaseAppointmentSlot(tx, currentRequest.appointmentSlotId);
+      }
+
+      if (dispatch) {
+        await tx.dispatchDecision.create({
+          data: {
+            serviceRequestId: requestId,
+            mechanicId: mechanicToAssign,
+            summary: dispatch.summary,
+            rationale: toDispatchRationaleJson(dispatch.rationale)
           }
-        },
-        mechanic: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            phoneNumber: true,
+        });
+      }
+
+      // The customer pays the fee like any other invoice
+      const feeInvoice = cancellationFee > 0
+        ? await tx.invoice.create({
+          data: {
+            invoiceNumber: `INV-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`,
+            customerId: currentRequest.customerId,
+            garageId: currentRequest.garageId,
+            serviceRequestId: requestId,
+            subtotal: cancellationFee,
+            totalAmount: cancellationFee,
+            status: 'unpaid',
+            notes: 'Cancelled after a mechanic was dispatched',
+            invoiceItems: {
+              create: [{
+                description: 'Cancellation Fee',
+                quantity: 1,
+                unitPrice: cancellationFee,
+                totalPrice: cancellationFee
+              }]
+            }
           }
-        },
-        vehicle: {
-          select: {
-            id: true,
-            vehicleType: true,
-            plateNumber: true,
-            plateCode: true,
-            countryCode: true,
-            color: true,
+        })
+        : null;
+
+      const updatedRequest = await tx.serviceRequest.findUniqueOrThrow({
+        where: { id: requestId },
+        include: {
+          customer: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+              phoneNumber: true,
+            }
+          },
+          garage: {
+            select: {
+              id: true,
+              garageName: true,
+              latitude: true,
+              longitude: true,
+              cancellationFee: true,
+            }
+          },
+          mechanic: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              phoneNumber: true,
+            }
+          },
+          vehicle: {
+            select: {
+              id: true,
+              vehicleType: true,
+              plateNumber: true,
+              plateCode: true,
+              countryCode: true,
+              color: true,
+              vin: true,
+              make: true,
+              modelYear: true,
+            }
+          },
+          photos: {
+            select: REQUEST_PHOTO_SELECT,
+            orderBy: { createdAt: 'asc' }
+          },
+          requestedServices: {
+            select: {
+              service: { select: { id: true, serviceName: true, estimatedPrice: true } }
+            }
           }
         }
-      }
+      });
+
+      return { updatedRequest, feeInvoice };
     });
 
+    if (!result) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'The request was updated by someone else. Please reload and try again.'
+        },
+        { status: 409 }
+      );
+    }
+
+    const { updatedRequest, feeInvoice } = result;
+    const assignedName = updatedRequest.mechanic
+      ? `${updatedRequest.mechanic.firstName} ${updatedRequest.mechanic.lastName}`
+      : null;
+    const holdReason = updatedRequest.holdReason ? HOLD_REASON_LABELS[updatedRequest.holdReason] : null;
+    const cancellation = updatedRequest.cancellationCategory
+      ? `${CANCELLATION_CATEGORY_LABELS[updatedRequest.cancellationCategory]}${cancellationReason ? ` (${cancellationReason})` : ''}`
+      : null;
+    const slotFreed = releasesSlot ? '; the appointment slot was freed' : '';
+    const statusSummaries: Partial<Record<typeof status, string>> = {
+      ACCEPTED: assignedName ? `Accepted and assigned to ${assignedName}` : 'Accepted',
+      EN_ROUTE: `${assignedName ?? 'The mechanic'} is on the way`,
+      IN_PROGRESS: currentStatus === 'ON_HOLD' ? 'Work resumed' : 'Work started',
+      ON_HOLD: `Put on hold: ${holdReason}${note ? ` (${note})` : ''}`,
+      COMPLETED: 'Marked as completed',
+      CANCELLED: `Cancelled: ${cancellation}${cancellationFee > 0 ? `; a cancellation fee of $${cancellationFee.toFixed(2)} was charged` : ''}${slotFreed}`,
+      REJECTED_BY_GARAGE: `Rejected by the garage: ${note}${slotFreed}`
+    };
+    const events: RequestEventEntry[] = [{
+      serviceRequestId: requestId,
+      type: REQUEST_EVENTS.REQUEST_STATUS_CHANGED,
+      summary: statusSummaries[status] ?? `Status changed to ${REQUEST_STATUS_LABELS[status]}`,
+      details: { from: currentStatus, to: status, mechanicId: updatedRequest.mechanicId, ...changes }
+    }];
+    if (dispatch) {
+      events.unshift({
+        serviceRequestId: requestId,
+        type: REQUEST_EVENTS.DISPATCH_DECIDED,
+        summary: dispatch.summary,
+        details: { mechanicId: mechanicToAssign }
+      });
+    }
+    if (feeInvoice) {
+      events.push({
+        serviceRequestId: requestId,
+        type: REQUEST_EVENTS.INVOICE_GENERATED,
+        summary: `Invoice ${feeInvoice.invoiceNumber} generated for the $${cancellationFee.toFixed(2)} cancellation fee`,
+        details: { invoiceId: feeInvoice.id }
+      });
+    }
+    await recordRequestEvent(user.id, events);
+
     // Send appropriate notifications based on status change
     try {
       const customerName = `${updatedRequest.customer.firstName} ${updatedRequest.customer.lastName}`;
       const garageName = updatedRequest.garage.garageName;
-      const mechanicName = updatedRequest.mechanic
-        ? `${updatedRequest.mechanic.firstName} ${updatedRequest.mechanic.lastName}`
-        : 'Assigned Mechanic';
+      const mechanicName = assignedName ?? 'Assigned Mechanic';
 
       switch (status) {
         case 'ACCEPTED':
@@ -434,6 +560,23 @@ export async function PATCH(
               template.title,
               template.message
             );
+
+            if (dispatch) {
+              await notifyDispatchedMechanic(user.id, updatedRequest.mechanicId, updatedRequest.id);
+            }
+          }
+          break;
+
+        case 'EN_ROUTE':
+          if (updatedRequest.mechanicId) {
+            const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.REQUEST_EN_ROUTE].toCustomer(mechanicName);
+            await createNotification(
+              updatedRequest.mechanicId,
+              updatedRequest.customerId,
+              NOTIFICATION_TYPES.REQUEST_EN_ROUTE,
+              template.title,
+              template.message
+            );
           }
           break;
 
@@ -450,6 +593,18 @@ export async function PATCH(
           }
           break;
 
+        case 'ON_HOLD': {
+          const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.REQUEST_ON_HOLD].toCustomer(holdReason ?? 'Other', note);
+          await createNotification(
+            user.id,
+            updatedRequest.customerId,
+            NOTIFICATION_TYPES.REQUEST_ON_HOLD,
+            template.title,
+            template.message
+          );
+          break;
+        }
+
         case 'COMPLETED':
           if (updatedRequest.mechanicId) {
             // For completion notification, we'll use a basic template since final pricing comes from service completion endpoint
@@ -466,9 +621,12 @@ export async function PATCH(
 
         case 'CANCELLED':
           // Notify customer about cancellation
-          const customerTemplate = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.REQUEST_CANCELLED].toCustomer();
+          const customerTemplate = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.REQUEST_CANCELLED].toCustomer(
+            cancellation ?? 'Other',
+            cancellationFee
+          );
           await createNotification(
-            decoded.id,
+            user.id,
             updatedRequest.customerId,
             NOTIFICATION_TYPES.REQUEST_CANCELLED,
             customerTemplate.title,
@@ -476,10 +634,13 @@ export async function PATCH(
           );
 
           // Notify mechanic if assigned
-          if (updatedRequest.mechanicId && updatedRequest.mechanicId !== decoded.id) {
-            const mechanicTemplate = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.REQUEST_CANCELLED].toMechanic(customerName);
+          if (updatedRequest.mechanicId && updatedRequest.mechanicId !== user.id) {
+            const mechanicTemplate = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.REQUEST_CANCELLED].toMechanic(
+              customerName,
+              cancellation ?? 'Other'
+            );
             await createNotification(
-              decoded.id,
+              user.id,
               updatedRequest.mechanicId,
               NOTIFICATION_TYPES.REQUEST_CANCELLED,
               mechanicTemplate.title,
@@ -487,6 +648,18 @@ export async function PATCH(
             );
           }
           break;
+
+        case 'REJECTED_BY_GARAGE': {
+          const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.REQUEST_REJECTED].toCustomer(garageName, note ?? '');
+          await createNotification(
+            user.id,
+            updatedRequest.customerId,
+            NOTIFICATION_TYPES.REQUEST_REJECTED,
+            template.title,
+            template.message
+          );
+          break;
+        }
       }
     } catch (notificationError) {
       console.error('Error sending status update notification:', notificationError);
@@ -496,7 +669,9 @@ export async function PATCH(
     return NextResponse.json<ApiResponse>(
       {
         success: true,
-        message: `Service request status updated to ${status}`,
+        message: cancellationFee > 0
+          ? `Service request cancelled. A cancellation fee of $${cancellationFee.toFixed(2)} has been invoiced.`
+          : `Service request status updated to ${REQUEST_STATUS_LABELS[status]}`,
         data: { 
           request: {
             ...updatedRequest,
@@ -516,4 +691,4 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { canAccessServiceRequest, withAuth } from '@/lib/api-auth';
+import { getStorage } from '@/lib/storage';
+import { isActiveRequestStatus } from '@/lib/request-status';
+import type { ApiResponse } from '@/types/auth';
+
+// GET - The uploaded file of a vehicle document, for the mechanic assigned to an active request
+export const GET = withAuth<{ id: string; documentId: string }>(async (request, { params, user }) => {
+  try {
+    const { id, documentId } = await params;
+    const requestId = parseInt(id);
+    const parsedDocumentId = parseInt(documentId);
+
+    if (isNaN(requestId) || isNaN(parsedDocumentId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Document not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    const serviceRequest = await prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+      select: { customerId: true, garageId: true, mechanicId: true, vehicleId: true, status: true }
+    });
+
+    if (!serviceRequest || !(await canAccessServiceRequest(user, serviceRequest, ['assignedMechanic']))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Access denied'
+        },
+        { status: 403 }
+      );
+    }
+
+    if (!isActiveRequestStatus(serviceRequest.status)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Vehicle documents are only available while the request is active'
+        },
+        { status: 403 }
+      );
+    }
+
+    const document = await prisma.vehicleDocument.findFirst({
+      where: {
+        id: parsedDocumentId,
+        vehicleId: serviceRequest.vehicleId,
+        uploadedById: serviceRequest.customerId
+      }
+    });
+    const data = document?.storageKey ? await getStorage().get(document.storageKey) : null;
+
+    if (!document || !data || !document.contentType) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Document file not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': document.contentType,
+        'Content-Length': data.length.toString(),
+        'Content-Disposition': `inline; filename="${encodeURIComponent(document.fileName || 'document')}"`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    });
+
+  } catch (error) {
+    console.error('Get request vehicle document error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
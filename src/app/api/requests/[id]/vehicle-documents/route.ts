@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { canAccessServiceRequest, withAuth } from '@/lib/api-auth';
+import { isActiveRequestStatus } from '@/lib/request-status';
+import { toVehicleDocument, VEHICLE_DOCUMENT_SELECT } from '@/lib/vehicle-documents';
+import type { ApiResponse, VehicleDocument } from '@/types/auth';
+
+// GET - The customer's documents for the vehicle on the request, e.g. to file an insurance claim;
+// only the assigned mechanic, and only while the job is active
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const requestId = parseInt(id);
+
+    if (isNaN(requestId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid request ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const serviceRequest = await prisma.serviceRequest.findUnique({
+      where: { id: requestId },
+      select: { customerId: true, garageId: true, mechanicId: true, vehicleId: true, status: true }
+    });
+
+    if (!serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Service request not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canAccessServiceRequest(user, serviceRequest, ['assignedMechanic']))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Access denied'
+        },
+        { status: 403 }
+      );
+    }
+
+    if (!isActiveRequestStatus(serviceRequest.status)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Vehicle documents are only available while the request is active'
+        },
+        { status: 403 }
+      );
+    }
+
+    const documents = await prisma.vehicleDocument.findMany({
+      where: { vehicleId: serviceRequest.vehicleId, uploadedById: serviceRequest.customerId },
+      select: VEHICLE_DOCUMENT_SELECT,
+      orderBy: [{ type: 'asc' }, { expiresAt: { sort: 'desc', nulls: 'first' } }]
+    });
+
+    return NextResponse.json<ApiResponse<{ documents: VehicleDocument[] }>>({
+      success: true,
+      data: { documents: documents.map(toVehicleDocument) }
+    });
+
+  } catch (error) {
+    console.error('Get request vehicle documents error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
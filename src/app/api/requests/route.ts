@@ -1,58 +1,26 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { getGarageIdsWithPermission, withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
+import {
+  isRequestUrgency,
+  isSymptomCategory,
+  MAX_DESCRIPTION_LENGTH,
+  REQUEST_PHOTO_SELECT
+} from '@/lib/service-requests';
+import { isServiceStatus, OPEN_REQUEST_STATUSES } from '@/lib/request-status';
+import { UserType } from '@/generated/prisma';
 import type { ApiResponse, ServiceRequestData, ServiceRequest } from '@/types/auth';
 import { calculateDistance } from '@/utils/common';
+import { reserveAppointmentSlot } from '@/lib/appointments';
+import { autoDispatchRequest } from '@/lib/dispatch';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
+import { formatGarageTime, garageScheduleInclude, getGarageAvailability } from '@/lib/opening-hours';
 import { notifyGarageAboutNewRequest } from '@/utils/notifications';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // GET - Get user's service requests
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status');
     const garageId = searchParams.get('garage_id');
@@ -61,64 +29,35 @@ export async function GET(request: NextRequest) {
 
     const whereClause: Record<string, unknown> = {};
 
-    // Filter based on user type
-    if (decoded.userType === 'CUSTOMER') {
-      whereClause.customerId = decoded.id;
-    } else if (decoded.userType === 'MECHANIC') {
-      // Get mechanic's garage
-      const mechanic = await prisma.mechanic.findUnique({
-        where: { userId: decoded.id },
-        select: { garageId: true, approved: true }
-      });
-
-      if (!mechanic || !mechanic.approved) {
-        return NextResponse.json<ApiResponse>(
-          { 
-            success: false,
-            error: 'Mechanic not found or not approved' 
-          },
-          { status: 403 }
-        );
-      }
-
-      whereClause.garageId = mechanic.garageId;
-    } else if (decoded.userType === 'GARAGE_ADMIN') {
-      // Get admin's garages
-      const adminGarages = await prisma.garage.findMany({
-        where: { 
-          adminId: decoded.id,
-          approved: true 
-        },
-        select: { id: true }
-      });
-
-      const garageIds = adminGarages.map(g => g.id);
-      if (garageIds.length === 0) {
-        return NextResponse.json<ApiResponse<{ requests: ServiceRequest[] }>>(
-          {
-            success: true,
-            data: { requests: [] }
-          }
-        );
-      }
-
+    // Customers see their own requests; garage staff see the requests of the garages
+    // where they hold requests.view (null means every garage)
+    const garageIds = await getGarageIdsWithPermission(user, PERMISSIONS.REQUESTS_VIEW);
+
+    if (garageIds === null) {
+      // Access to every garage, no additional filter needed
+    } else if (user.userType === UserType.CUSTOMER && garageIds.length > 0) {
+      // Customers who also work at a garage through a role see both
+      whereClause.OR = [
+        { customerId: user.id },
+        { garageId: { in: garageIds } }
+      ];
+    } else if (user.userType === UserType.CUSTOMER) {
+      whereClause.customerId = user.id;
+    } else if (garageIds.length === 0) {
+      return NextResponse.json<ApiResponse<{ requests: ServiceRequest[] }>>(
+        {
+          success: true,
+          data: { requests: [] }
+        }
+      );
+    } else {
       whereClause.garageId = {
         in: garageIds
       };
-    } else if (decoded.userType === 'SYSTEM_ADMIN') {
-      // System admin can see all requests, no additional filter needed
-    } else {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Unauthorized' 
-        },
-        { status: 403 }
-      );
     }
 
     // Add status filter if provided
-    if (status) {
+    if (isServiceStatus(status)) {
       whereClause.status = status;
     }
 
@@ -145,6 +84,7 @@ export async function GET(request: NextRequest) {
             garageName: true,
             latitude: true,
             longitude: true,
+            cancellationFee: true,
           }
         },
         mechanic: {
@@ -163,6 +103,18 @@ export async function GET(request: NextRequest) {
             plateCode: true,
             countryCode: true,
             color: true,
+            vin: true,
+            make: true,
+            modelYear: true,
+          }
+        },
+        photos: {
+          select: REQUEST_PHOTO_SELECT,
+          orderBy: { createdAt: 'asc' }
+        },
+        requestedServices: {
+          select: {
+            service: { select: { id: true, serviceName: true, estimatedPrice: true } }
           }
         }
       },
@@ -207,68 +159,86 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST - Create a new service request (CUSTOMER only)
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
+    const body: ServiceRequestData = await request.json();
+    const { garageId, vehicleId, symptomCategory, urgency, appointmentSlotId } = body;
+    let { latitude, longitude } = body;
+    const description = typeof body.description === 'string' ? body.description.trim() : '';
+    const serviceIds = Array.from(new Set(body.serviceIds ?? []));
+    const isAppointment = appointmentSlotId !== undefined && appointmentSlotId !== null;
+
+    // Validate required fields; appointments take place at the garage, so the location is optional
+    if (!garageId || !vehicleId || (!isAppointment && (latitude === undefined || longitude === undefined))) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
-          error: 'Authentication required' 
+          error: 'Garage ID, vehicle ID, latitude, and longitude are required' 
         },
-        { status: 401 }
+        { status: 400 }
       );
     }
 
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
+    if (isAppointment && !Number.isInteger(appointmentSlotId)) {
       return NextResponse.json<ApiResponse>(
-        { 
+        {
           success: false,
-          error: 'Invalid token' 
+          error: 'Invalid appointment slot'
         },
-        { status: 401 }
+        { status: 400 }
       );
     }
 
-    // Only customers can create service requests
-    if (decoded.userType !== 'CUSTOMER') {
+    if (!serviceIds.every(serviceId => Number.isInteger(serviceId))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid service selection'
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate coordinates
+    if (latitude !== undefined && longitude !== undefined &&
+        (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180)) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
-          error: 'Only customers can create service requests' 
+          error: 'Invalid coordinates' 
         },
-        { status: 403 }
+        { status: 400 }
       );
     }
 
-    const body: ServiceRequestData = await request.json();
-    const { garageId, vehicleId, latitude, longitude } = body;
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`
+        },
+        { status: 400 }
+      );
+    }
 
-    // Validate required fields
-    if (!garageId || !vehicleId || latitude === undefined || longitude === undefined) {
+    if (symptomCategory !== undefined && !isSymptomCategory(symptomCategory)) {
       return NextResponse.json<ApiResponse>(
-        { 
+        {
           success: false,
-          error: 'Garage ID, vehicle ID, latitude, and longitude are required' 
+          error: 'Invalid symptom category'
         },
         { status: 400 }
       );
     }
 
-    // Validate coordinates
-    if (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
+    if (urgency !== undefined && !isRequestUrgency(urgency)) {
       return NextResponse.json<ApiResponse>(
-        { 
+        {
           success: false,
-          error: 'Invalid coordinates' 
+          error: 'Invalid urgency'
         },
         { status: 400 }
       );
@@ -279,9 +249,18 @@ export async function POST(request: NextRequest) {
       where: { id: garageId },
       select: { 
         id: true, 
+        garageName: true,
         approved: true, 
         available: true, 
-        removed: true 
+        removed: true,
+        latitude: true,
+        longitude: true,
+        adminId: true,
+        timezone: true,
+        emergencyAfterHours: true,
+        afterHoursSurcharge: true,
+        autoDispatch: true,
+        ...garageScheduleInclude()
       }
     });
 
@@ -305,11 +284,64 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify the vehicle belongs to the customer
+    // Roadside requests need the garage to be open; appointments are only offered in bookable slots
+    const availability = getGarageAvailability(garage);
+    const afterHours = !isAppointment && !availability.openNow;
+
+    if (afterHours && !(garage.emergencyAfterHours && urgency === 'EMERGENCY')) {
+      const reopens = availability.nextOpeningAt
+        ? ` It opens again ${formatGarageTime(availability.nextOpeningAt, garage.timezone)}.`
+        : '';
+      const emergencies = garage.emergencyAfterHours
+        ? ' Emergency requests are still accepted at an after-hours surcharge.'
+        : '';
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `${garage.garageName} is closed right now (${availability.closedReason}).${reopens}${emergencies}`,
+          data: {
+            nextOpeningAt: availability.nextOpeningAt?.toISOString() ?? null,
+            emergencyAfterHours: garage.emergencyAfterHours
+          }
+        },
+        { status: 409 }
+      );
+    }
+
+    if (latitude === undefined || longitude === undefined) {
+      latitude = garage.latitude;
+      longitude = garage.longitude;
+    }
+
+    // Every selected service must be offered by the garage
+    if (serviceIds.length > 0) {
+      const offeredCount = await prisma.garageService.count({
+        where: {
+          garageId,
+          serviceId: { in: serviceIds },
+          available: true,
+          service: { removed: false }
+        }
+      });
+
+      if (offeredCount !== serviceIds.length) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: 'Some selected services are not offered by this garage'
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Verify the vehicle belongs to the customer and has not been archived
     const vehicle = await prisma.vehicle.findUnique({
       where: { 
         id: vehicleId,
-        customerId: decoded.id 
+        customerId: user.id,
+        archivedAt: null
       }
     });
 
@@ -326,10 +358,10 @@ export async function POST(request: NextRequest) {
     // Check if customer has pending requests for the same vehicle
     const existingRequest = await prisma.serviceRequest.findFirst({
       where: {
-        customerId: decoded.id,
+        customerId: user.id,
         vehicleId: vehicleId,
         status: {
-          in: ['PENDING', 'ACCEPTED', 'IN_PROGRESS']
+          in: [...OPEN_REQUEST_STATUSES]
         }
       }
     });
@@ -344,44 +376,99 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create the service request
-    const serviceRequest = await prisma.serviceRequest.create({
-      data: {
-        customerId: decoded.id,
-        garageId,
-        vehicleId,
-        latitude,
-        longitude,
-        status: 'PENDING'
-      },
-      include: {
-        customer: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            phoneNumber: true,
-          }
-        },
-        garage: {
-          select: {
-            id: true,
-            garageName: true,
-            latitude: true,
-            longitude: true,
+    // Create the service request; a booking takes its place in the slot in the same transaction
+    const serviceRequest = await prisma.$transaction(async (tx) => {
+      const slot = isAppointment
+        ? await reserveAppointmentSlot(tx, appointmentSlotId, garageId)
+        : null;
+
+      if (isAppointment && !slot) return null;
+
+      return tx.serviceRequest.create({
+        data: {
+          customerId: user.id,
+          garageId,
+          vehicleId,
+          latitude,
+          longitude,
+          description: description || null,
+          symptomCategory: symptomCategory ?? null,
+          urgency: urgency ?? 'NORMAL',
+          status: slot ? 'SCHEDULED' : 'PENDING',
+          appointmentSlotId: slot?.id ?? null,
+          scheduledFor: slot?.startsAt ?? null,
+          afterHours,
+          afterHoursSurcharge: afterHours ? garage.afterHoursSurcharge : null,
+          requestedServices: {
+            create: serviceIds.map(serviceId => ({ serviceId }))
           }
         },
-        vehicle: {
-          select: {
-            id: true,
-            vehicleType: true,
-            plateNumber: true,
-            plateCode: true,
-            countryCode: true,
-            color: true,
+        include: {
+          customer: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+              phoneNumber: true,
+            }
+          },
+          garage: {
+            select: {
+              id: true,
+              garageName: true,
+              latitude: true,
+              longitude: true,
+              cancellationFee: true,
+            }
+          },
+          vehicle: {
+            select: {
+              id: true,
+              vehicleType: true,
+              plateNumber: true,
+              plateCode: true,
+              countryCode: true,
+              color: true,
+              vin: true,
+              make: true,
+              modelYear: true,
+            }
+          },
+          photos: {
+            select: REQUEST_PHOTO_SELECT,
+            orderBy: { createdAt: 'asc' }
+          },
+          requestedServices: {
+            select: {
+              service: { select: { id: true, serviceName: true, estimatedPrice: true } }
+            }
           }
         }
+      });
+    });
+
+    if (!serviceRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'The selected appointment slot is full or no longer available'
+        },
+        { status: 409 }
+      );
+    }
+
+    await recordRequestEvent(user.id, {
+      serviceRequestId: serviceRequest.id,
+      type: REQUEST_EVENTS.REQUEST_CREATED,
+      summary: serviceRequest.scheduledFor
+        ? `Appointment booked for ${formatGarageTime(serviceRequest.scheduledFor, garage.timezone)}`
+        : `Roadside request sent to ${serviceRequest.garage.garageName}`,
+      details: {
+        status: serviceRequest.status,
+        urgency: serviceRequest.urgency,
+        afterHours,
+        serviceIds
       }
     });
 
@@ -390,19 +477,45 @@ export async function POST(request: NextRequest) {
     const vehicleInfo = `${serviceRequest.vehicle.color} ${serviceRequest.vehicle.vehicleType} (${serviceRequest.vehicle.plateCode}-${serviceRequest.vehicle.plateNumber})`;
     
     await notifyGarageAboutNewRequest(
-      decoded.id,
+      user.id,
       garageId,
       customerName,
-      vehicleInfo
+      vehicleInfo,
+      serviceRequest.scheduledFor ? formatGarageTime(serviceRequest.scheduledFor, garage.timezone) : undefined
     );
 
+    // Roadside calls go straight to a mechanic at auto-dispatch garages; bookings are dispatched when accepted
+    // The request stands even if dispatching fails; staff can still assign it by hand
+    const dispatch = garage.autoDispatch && !serviceRequest.scheduledFor
+      ? await autoDispatchRequest(serviceRequest.id, garage.adminId).catch(error => {
+          console.error('Auto-dispatch error:', error);
+          return null;
+        })
+      : null;
+
+    if (dispatch) {
+      await recordRequestEvent(null, {
+        serviceRequestId: serviceRequest.id,
+        type: REQUEST_EVENTS.DISPATCH_DECIDED,
+        summary: dispatch.summary,
+        details: { dispatchDecisionId: dispatch.id, mechanicId: dispatch.mechanicId }
+      });
+    }
+
+    const notes = [
+      serviceRequest.scheduledFor ? 'Appointment booked successfully.' : 'Service request created successfully.',
+      ...(afterHours ? [`It was sent outside opening hours, so an after-hours surcharge of $${garage.afterHoursSurcharge.toFixed(2)} applies.`] : []),
+      ...(dispatch?.mechanicId ? ['A mechanic has been assigned.'] : [])
+    ];
+
     return NextResponse.json<ApiResponse>(
       {
         success: true,
-        message: 'Service request created successfully',
+        message: notes.join(' '),
         data: { 
           request: {
             ...serviceRequest,
+            ...(dispatch?.mechanicId && { status: 'ACCEPTED' as const, mechanicId: dispatch.mechanicId }),
             createdAt: serviceRequest.createdAt.toISOString()
           }
         }
@@ -420,4 +533,8 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can create service requests',
+  requireVerifiedEmail: true
+});
\ No newline at end of file
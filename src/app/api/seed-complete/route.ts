@@ -112,6 +112,7 @@ export async function GET(request: Request) {
           lastName: 'Administrator',
           phoneNumber: '+251911000000',
           userType: UserType.SYSTEM_ADMIN,
+          emailVerified: new Date(),
         },
       });
     }
@@ -131,6 +132,7 @@ export async function GET(request: Request) {
           lastName,
           phoneNumber: `+2519${Math.floor(Math.random() * 10000000).toString().padStart(7, '0')}`,
           userType: UserType.GARAGE_ADMIN,
+          emailVerified: new Date(),
         },
       });
       garageAdmins.push(garageAdmin);
@@ -151,6 +153,7 @@ export async function GET(request: Request) {
           lastName,
           phoneNumber: `+2519${Math.floor(Math.random() * 10000000).toString().padStart(7, '0')}`,
           userType: UserType.MECHANIC,
+          emailVerified: new Date(),
         },
       });
       mechanics.push(mechanic);
@@ -171,6 +174,7 @@ export async function GET(request: Request) {
           lastName,
           phoneNumber: `+2519${Math.floor(Math.random() * 10000000).toString().padStart(7, '0')}`,
           userType: UserType.CUSTOMER,
+          emailVerified: new Date(),
         },
       });
       customers.push(customer);
@@ -50,6 +50,7 @@ export async function GET() {
         lastName: 'Bekele',
         phoneNumber: '+251911123456',
         userType: UserType.CUSTOMER,
+        emailVerified: new Date(),
       },
     });
 
@@ -70,6 +71,7 @@ export async function GET() {
           lastName,
           phoneNumber: `+2519${String(Math.floor(Math.random() * 100000000)).padStart(8, '0')}`,
           userType: UserType.CUSTOMER,
+          emailVerified: new Date(),
         },
       });
       customers.push(customer);
@@ -91,6 +93,7 @@ export async function GET() {
           lastName,
           phoneNumber: `+2519${String(Math.floor(Math.random() * 100000000)).padStart(8, '0')}`,
           userType: UserType.GARAGE_ADMIN,
+          emailVerified: new Date(),
         },
       });
 
@@ -123,6 +126,7 @@ export async function GET() {
           lastName,
           phoneNumber: `+2519${String(Math.floor(Math.random() * 100000000)).padStart(8, '0')}`,
           userType: UserType.MECHANIC,
+          emailVerified: new Date(),
         },
       });
 
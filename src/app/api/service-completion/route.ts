@@ -1,16 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { canAccessServiceRequest, withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
+import { getTransitionError, isActiveRequestStatus, moveRequestStatus } from '@/lib/request-status';
+import { ESTIMATE_ITEM_KIND_LABELS, getEstimateCharges } from '@/lib/estimates';
 import type { ApiResponse } from '@/types/auth';
 import { createNotification, NOTIFICATION_TYPES, NOTIFICATION_TEMPLATES } from '@/utils/notifications';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
 interface ServiceCompletionData {
   serviceRequestId: number;
   finalNotes?: string;
@@ -22,6 +19,8 @@ interface ServiceSummary {
   serviceRequestId: number;
   totalOngoingServices: number;
   totalAdditionalServices: number;
+  totalEstimateCharges: number;
+  afterHoursSurcharge: number;
   additionalCharges: number;
   discount: number;
   subtotal: number;
@@ -30,51 +29,13 @@ interface ServiceSummary {
     id: number;
     serviceName: string;
     price: number;
-    type: 'ongoing' | 'additional';
+    type: 'ongoing' | 'additional' | 'estimate';
   }>;
 }
 
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // GET - Calculate service completion summary and pricing
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const serviceRequestId = searchParams.get('service_request_id');
 
@@ -101,14 +62,7 @@ export async function GET(request: NextRequest) {
 
     // Verify access to the service request
     const serviceRequest = await prisma.serviceRequest.findUnique({
-      where: { id: requestId },
-      include: {
-        garage: {
-          select: {
-            adminId: true
-          }
-        }
-      }
+      where: { id: requestId }
     });
 
     if (!serviceRequest) {
@@ -122,15 +76,11 @@ export async function GET(request: NextRequest) {
     }
 
     // Check access permissions - only mechanic assigned or garage admin
-    let hasAccess = false;
-
-    if (decoded.userType === 'MECHANIC' && serviceRequest.mechanicId === decoded.id) {
-      hasAccess = true;
-    } else if (decoded.userType === 'GARAGE_ADMIN' && serviceRequest.garage.adminId === decoded.id) {
-      hasAccess = true;
-    } else if (decoded.userType === 'SYSTEM_ADMIN') {
-      hasAccess = true;
-    }
+    const hasAccess = await canAccessServiceRequest(user, serviceRequest, [
+      'assignedMechanic',
+      'garageAdmin',
+      'systemAdmin'
+    ]);
 
     if (!hasAccess) {
       return NextResponse.json<ApiResponse>(
@@ -143,11 +93,11 @@ export async function GET(request: NextRequest) {
     }
 
     // Check if service request is in valid state for completion
-    if (!['ACCEPTED', 'IN_PROGRESS'].includes(serviceRequest.status)) {
+    if (!isActiveRequestStatus(serviceRequest.status)) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
-          error: 'Service request must be accepted or in progress to calculate completion summary' 
+          error: 'Service request must have a mechanic on it to calculate completion summary' 
         },
         { status: 400 }
       );
@@ -216,12 +166,30 @@ export async function GET(request: NextRequest) {
       });
     });
 
-    const subtotal = totalOngoingServices + totalAdditionalServices;
+    // Approved parts and labor from converted estimates
+    const estimateCharges = await getEstimateCharges(prisma, requestId);
+    let totalEstimateCharges = 0;
+
+    estimateCharges.forEach(item => {
+      totalEstimateCharges += item.totalPrice;
+      completedServices.push({
+        id: item.id,
+        serviceName: `${item.description} (${ESTIMATE_ITEM_KIND_LABELS[item.kind]})`,
+        price: item.totalPrice,
+        type: 'estimate'
+      });
+    });
+
+    // Emergency requests taken outside opening hours carry the garage's surcharge
+    const afterHoursSurcharge = serviceRequest.afterHoursSurcharge ?? 0;
+    const subtotal = totalOngoingServices + totalAdditionalServices + totalEstimateCharges + afterHoursSurcharge;
 
     const summary: ServiceSummary = {
       serviceRequestId: requestId,
       totalOngoingServices,
       totalAdditionalServices,
+      totalEstimateCharges,
+      afterHoursSurcharge,
       additionalCharges: 0,
       discount: 0,
       subtotal,
@@ -246,48 +214,11 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST - Complete service request with final pricing
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Only mechanics can complete service requests
-    if (decoded.userType !== 'MECHANIC') {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Only mechanics can complete service requests' 
-        },
-        { status: 403 }
-      );
-    }
-
     const body: ServiceCompletionData = await request.json();
     const { serviceRequestId, finalNotes, additionalCharges = 0, discount = 0 } = body;
 
@@ -352,7 +283,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if mechanic is assigned to this service request
-    if (serviceRequest.mechanicId !== decoded.id) {
+    if (serviceRequest.mechanicId !== user.id) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
@@ -363,11 +294,14 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if the service request is in a valid state for completion
-    if (!['ACCEPTED', 'IN_PROGRESS'].includes(serviceRequest.status)) {
+    const transitionError = getTransitionError(serviceRequest.status, 'COMPLETED');
+    if (transitionError) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
-          error: 'Service request must be accepted or in progress to complete' 
+          error: serviceRequest.status === 'ACCEPTED' || serviceRequest.status === 'EN_ROUTE'
+            ? 'Start work on the service request before completing it'
+            : transitionError
         },
         { status: 400 }
       );
@@ -424,40 +358,62 @@ export async function POST(request: NextRequest) {
       });
     });
 
-    const subtotal = totalOngoingServices + totalAdditionalServices;
+    const estimateCharges = await getEstimateCharges(prisma, serviceRequestId);
+    let totalEstimateCharges = 0;
+
+    estimateCharges.forEach(item => {
+      totalEstimateCharges += item.totalPrice;
+      servicesList.push(item.description);
+    });
+
+    const afterHoursSurcharge = serviceRequest.afterHoursSurcharge ?? 0;
+    const subtotal = totalOngoingServices + totalAdditionalServices + totalEstimateCharges + afterHoursSurcharge;
     const finalTotal = subtotal + additionalCharges - discount;
 
     // Create a final status update for completion
     const completionNotes = finalNotes || `Service completed. Total: $${finalTotal}${additionalCharges > 0 ? ` (includes $${additionalCharges} additional charges)` : ''}${discount > 0 ? ` (includes $${discount} discount)` : ''}`;
 
-    await prisma.vehicleStatus.create({
-      data: {
-        serviceRequestId,
-        mechanicId: decoded.id,
-        description: completionNotes,
-        approved: true // Auto-approved as this is the final completion
-      }
-    });
+    // Update the service request status to completed, unless it was cancelled or paused meanwhile
+    const completedRequest = await prisma.$transaction(async (tx) => {
+      if (!(await moveRequestStatus(tx, serviceRequest, 'COMPLETED'))) return null;
 
-    // Update the service request status to completed
-    const completedRequest = await prisma.serviceRequest.update({
-      where: { id: serviceRequestId },
-      data: { status: 'COMPLETED' },
-      include: {
-        customer: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true
+      await tx.vehicleStatus.create({
+        data: {
+          serviceRequestId,
+          mechanicId: user.id,
+          description: completionNotes,
+          approved: true // Auto-approved as this is the final completion
+        }
+      });
+
+      return tx.serviceRequest.findUniqueOrThrow({
+        where: { id: serviceRequestId },
+        include: {
+          customer: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true
+            }
           }
         }
-      }
+      });
     });
 
+    if (!completedRequest) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'The request was updated by someone else. Please reload and try again.'
+        },
+        { status: 409 }
+      );
+    }
+
     // Generate invoice for the completed service
     const invoiceNumber = `INV-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
 
-    await prisma.invoice.create({
+    const invoice = await prisma.invoice.create({
       data: {
         invoiceNumber: invoiceNumber,
         customerId: serviceRequest.customerId,
@@ -491,6 +447,22 @@ export async function POST(request: NextRequest) {
                 totalPrice: service.totalPrice
               }))
             ),
+            // Add approved parts and labor from converted estimates
+            ...estimateCharges.map(item => ({
+              serviceId: null,
+              description: `${item.description} (${ESTIMATE_ITEM_KIND_LABELS[item.kind]})`,
+              quantity: item.quantity,
+              unitPrice: item.unitPrice,
+              totalPrice: item.totalPrice
+            })),
+            // Add the after-hours emergency surcharge if any
+            ...(afterHoursSurcharge > 0 ? [{
+              serviceId: null,
+              description: 'After-hours Emergency Surcharge',
+              quantity: 1,
+              unitPrice: afterHoursSurcharge,
+              totalPrice: afterHoursSurcharge
+            }] : []),
             // Add additional charges if any
             ...(additionalCharges > 0 ? [{
               serviceId: null,
@@ -504,11 +476,26 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    await recordRequestEvent(user.id, [
+      {
+        serviceRequestId,
+        type: REQUEST_EVENTS.REQUEST_STATUS_CHANGED,
+        summary: `Service completed: ${completionNotes}`,
+        details: { from: serviceRequest.status, to: 'COMPLETED' }
+      },
+      {
+        serviceRequestId,
+        type: REQUEST_EVENTS.INVOICE_GENERATED,
+        summary: `Invoice #${invoiceNumber} generated for $${finalTotal.toFixed(2)}`,
+        details: { invoiceId: invoice.id, subtotal, discount, additionalCharges, totalAmount: finalTotal }
+      }
+    ]);
+
     // Create completion notification for customer using standardized template
-    const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.SERVICE_COMPLETION].toCustomer(finalTotal, totalOngoingServices + totalAdditionalServices);
+    const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.SERVICE_COMPLETION].toCustomer(finalTotal, totalOngoingServices + totalAdditionalServices + totalEstimateCharges);
 
     await createNotification(
-      decoded.id,
+      user.id,
       serviceRequest.customerId,
       NOTIFICATION_TYPES.SERVICE_COMPLETION,
       template.title,
@@ -518,7 +505,7 @@ export async function POST(request: NextRequest) {
     // Create completion notification for garage admin
     if (serviceRequest.garage) {
       await createNotification(
-        decoded.id,
+        user.id,
         serviceRequest.garage.adminId,
         NOTIFICATION_TYPES.SERVICE_COMPLETION,
         'Service Request Completed',
@@ -530,6 +517,8 @@ export async function POST(request: NextRequest) {
       serviceRequestId,
       totalOngoingServices,
       totalAdditionalServices,
+      totalEstimateCharges,
+      afterHoursSurcharge,
       additionalCharges,
       discount,
       subtotal,
@@ -562,4 +551,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, {
+  roles: [UserType.MECHANIC],
+  forbiddenMessage: 'Only mechanics can complete service requests'
+});
\ No newline at end of file
@@ -1,35 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
 import type { ApiResponse } from '@/types/auth';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
 interface ServiceUpdateData {
   serviceName?: string;
   estimatedPrice?: number;
   removed?: boolean;
 }
 
-function getTokenFromRequest(request: NextRequest): string | null {
-  // Try to get token from cookie first
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  // Fallback to Authorization header
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // GET - Get specific service by ID
 export async function GET(
   request: NextRequest,
@@ -105,48 +85,9 @@ export async function GET(
 }
 
 // PATCH - Update service (SYSTEM_ADMIN only)
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PATCH = withAuth<{ id: string }>(async (request, { params }) => {
   try {
     const { id } = await params;
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Only system admins can update services
-    if (decoded.userType !== 'SYSTEM_ADMIN') {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Only system administrators can update services' 
-        },
-        { status: 403 }
-      );
-    }
 
     const serviceId = parseInt(id);
 
@@ -258,51 +199,15 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
+}, {
+  permission: PERMISSIONS.SERVICES_MANAGE,
+  forbiddenMessage: 'Only system administrators can update services'
+});
 
 // DELETE - Remove service (SYSTEM_ADMIN only)
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withAuth<{ id: string }>(async (request, { params }) => {
   try {
     const { id } = await params;
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Only system admins can delete services
-    if (decoded.userType !== 'SYSTEM_ADMIN') {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Only system administrators can delete services' 
-        },
-        { status: 403 }
-      );
-    }
 
     const serviceId = parseInt(id);
 
@@ -354,4 +259,7 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, {
+  permission: PERMISSIONS.SERVICES_MANAGE,
+  forbiddenMessage: 'Only system administrators can delete services'
+});
\ No newline at end of file
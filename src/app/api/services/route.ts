@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { withAuth } from '@/lib/api-auth';
+import { PERMISSIONS } from '@/lib/permissions';
 import type { ApiResponse } from '@/types/auth';
 
 interface ServiceData {
@@ -11,32 +12,11 @@ interface ServiceData {
   createdBy: number;
 }
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
 interface ServiceData {
   serviceName: string;
   estimatedPrice: number;
 }
 
-function getTokenFromRequest(request: NextRequest): string | null {
-  // Try to get token from cookie first
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  // Fallback to Authorization header
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // GET - Get all available services
 export async function GET(request: NextRequest) {
   try {
@@ -135,45 +115,8 @@ export async function GET(request: NextRequest) {
 }
 
 // POST - Create a new service (SYSTEM_ADMIN only)
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Only system admins can create services
-    if (decoded.userType !== 'SYSTEM_ADMIN') {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Only system administrators can create services' 
-        },
-        { status: 403 }
-      );
-    }
-
     const body: ServiceData = await request.json();
     const { serviceName, estimatedPrice } = body;
 
@@ -211,7 +154,7 @@ export async function POST(request: NextRequest) {
       data: {
         serviceName,
         estimatedPrice,
-        createdBy: decoded.id,
+        createdBy: user.id,
       },
       include: {
         creator: {
@@ -243,4 +186,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, {
+  permission: PERMISSIONS.SERVICES_MANAGE,
+  forbiddenMessage: 'Only system administrators can create services'
+});
\ No newline at end of file
@@ -2,9 +2,16 @@ import { prisma } from '@/lib/prisma';
 import { NextResponse } from 'next/server';
 import bcrypt from 'bcryptjs';
 import { UserType } from '@/generated/prisma';
+import { PRESET_ROLES } from '@/lib/permissions';
 
 export async function GET() {
   try {
+    // Create the preset roles (existing roles with the same name are left untouched)
+    const rolesCreated = await prisma.role.createMany({
+      data: PRESET_ROLES,
+      skipDuplicates: true
+    });
+
     // Check if system admin already exists
     const existingAdmin = await prisma.user.findFirst({
       where: { userType: UserType.SYSTEM_ADMIN }
@@ -14,7 +21,8 @@ export async function GET() {
       return NextResponse.json({ 
         success: true, 
         message: 'Database already initialized. Admin user exists.',
-        adminExists: true 
+        adminExists: true,
+        rolesCreated: rolesCreated.count
       });
     }
 
@@ -30,6 +38,7 @@ export async function GET() {
         lastName: 'Administrator',
         phoneNumber: '+251911000000',
         userType: UserType.SYSTEM_ADMIN,
+        emailVerified: new Date(),
       },
     });
 
@@ -60,7 +69,8 @@ export async function GET() {
         email: 'admin@autoservice.com',
         userType: 'SYSTEM_ADMIN'
       },
-      servicesCreated: basicServices.length
+      servicesCreated: basicServices.length,
+      rolesCreated: rolesCreated.count
     });
 
   } catch (error) {
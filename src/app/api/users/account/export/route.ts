@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/api-auth';
+import { collectUserData, createUserDataZip } from '@/lib/account';
+import type { ApiResponse } from '@/types/auth';
+
+// GET - Download everything stored about the current user; ?format=zip for one JSON file per topic
+export const GET = withAuth(async (request, { user }) => {
+  try {
+    const format = request.nextUrl.searchParams.get('format') || 'json';
+
+    if (format !== 'json' && format !== 'zip') {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Format must be json or zip'
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = await collectUserData(user.id);
+    const filename = `my-data-${data.exportedAt.toISOString().slice(0, 10)}.${format}`;
+
+    if (format === 'zip') {
+      return new NextResponse(new Uint8Array(createUserDataZip(data)), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${filename}"`
+        }
+      });
+    }
+
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Data export error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  blockImpersonation: true
+});
@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { anonymizeUser, getAccountDeletionBlocker } from '@/lib/account';
+import { AUDIT_ACTIONS, recordAudit } from '@/lib/audit';
+import { clearSessionCookies } from '@/lib/sessions';
+import { sendEmail, generateAccountDeletedEmail } from '@/lib/email';
+import { verifyPassword } from '@/utils/password';
+import type { ApiResponse } from '@/types/auth';
+
+// GET - Whether the current user can delete their account right now
+export const GET = withAuth(async (request, { user }) => {
+  try {
+    const blocker = await getAccountDeletionBlocker(user);
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: true,
+        data: {
+          canDelete: !blocker,
+          reason: blocker
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error('Account deletion check error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE - Close the account: { password, confirmation: "DELETE" }
+export const DELETE = withAuth(async (request, { user: authUser }) => {
+  try {
+    const { password, confirmation } = await request.json();
+
+    if (!password || confirmation !== 'DELETE') {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Password and the confirmation "DELETE" are required'
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: authUser.id }
+    });
+
+    if (!user || user.deletedAt) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'User not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!(await verifyPassword(password, user.password))) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Password is incorrect'
+        },
+        { status: 400 }
+      );
+    }
+
+    const blocker = await getAccountDeletionBlocker(authUser);
+    if (blocker) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: blocker
+        },
+        { status: 409 }
+      );
+    }
+
+    await anonymizeUser(user.id);
+
+    await recordAudit(request, user.id, {
+      action: AUDIT_ACTIONS.USER_DELETE_ACCOUNT,
+      targetType: 'User',
+      targetId: user.id,
+      after: { userType: user.userType, deletedAt: new Date() }
+    });
+
+    // Sent to the address the account had, which is gone from the database now
+    try {
+      await sendEmail({
+        ...generateAccountDeletedEmail(user.firstName),
+        to: user.email,
+      });
+    } catch (emailError) {
+      console.error('Failed to send account deletion email:', emailError);
+    }
+
+    const response = NextResponse.json<ApiResponse>(
+      {
+        success: true,
+        message: 'Your account has been deleted'
+      }
+    );
+    clearSessionCookies(response);
+
+    return response;
+
+  } catch (error) {
+    console.error('Account deletion error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  blockImpersonation: true
+});
@@ -1,68 +1,21 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { withAuth } from '@/lib/api-auth';
 import type { ApiResponse } from '@/types/auth';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
 interface ProfileUpdateData {
   firstName?: string;
   lastName?: string;
   phoneNumber?: string;
 }
 
-function getTokenFromRequest(request: NextRequest): string | null {
-  // Try to get token from cookie first
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  // Fallback to Authorization header
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // GET - Get user profile
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
     // Get user profile
-    const user = await prisma.user.findUnique({
+    const profile = await prisma.user.findUnique({
       where: {
-        id: decoded.id,
+        id: user.id,
       },
       select: {
         id: true,
@@ -72,12 +25,13 @@ export async function GET(request: NextRequest) {
         lastName: true,
         phoneNumber: true,
         userType: true,
+        emailVerified: true,
         createdAt: true,
         updatedAt: true,
       },
     });
 
-    if (!user) {
+    if (!profile) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
@@ -90,7 +44,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json<ApiResponse>(
       {
         success: true,
-        data: { user }
+        data: { user: profile }
       }
     );
 
@@ -104,37 +58,11 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // PATCH - Update user profile
-export async function PATCH(request: NextRequest) {
+export const PATCH = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
     const body: ProfileUpdateData = await request.json();
     const { firstName, lastName, phoneNumber } = body;
 
@@ -162,7 +90,7 @@ export async function PATCH(request: NextRequest) {
     // Update user profile
     const updatedUser = await prisma.user.update({
       where: {
-        id: decoded.id,
+        id: user.id,
       },
       data: updateData,
       select: {
@@ -196,4 +124,4 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { hashPassword, validatePassword } from '@/utils/password';
 import { UserType } from '@/generated/prisma';
+import { sendVerificationEmail } from '@/lib/email-verification';
 import type { CustomerRegistrationData, ApiResponse } from '@/types/auth';
 
 export async function POST(request: NextRequest) {
@@ -101,10 +102,13 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // The account works right away, but requests and payments wait for a verified email
+    await sendVerificationEmail(user);
+
     return NextResponse.json<ApiResponse>(
       {
         success: true,
-        message: 'Customer registered successfully',
+        message: 'Customer registered successfully. Please check your email to verify your address.',
         data: { user }
       },
       { status: 201 }
@@ -1,33 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { canAccessServiceRequest, withAuth } from '@/lib/api-auth';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
 import type { ApiResponse } from '@/types/auth';
 import { createNotification, NOTIFICATION_TYPES, NOTIFICATION_TEMPLATES } from '@/utils/notifications';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // PATCH - Approve/disapprove vehicle status update (CUSTOMER only)
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PATCH = withAuth<{ id: string }>(async (request, { params, user }) => {
   try {
     const { id } = await params;
     const statusId = parseInt(id);
@@ -42,32 +21,6 @@ export async function PATCH(
       );
     }
 
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
     const body = await request.json();
     const { approved } = body;
 
@@ -95,11 +48,7 @@ export async function PATCH(
                 lastName: true
               }
             },
-            garage: {
-              select: {
-                adminId: true
-              }
-            }
+            garageId: true
           }
         }
       }
@@ -116,15 +65,11 @@ export async function PATCH(
     }
 
     // Check permissions - only customer can approve/disapprove their own service status
-    let canUpdate = false;
-
-    if (decoded.userType === 'CUSTOMER' && vehicleStatus.serviceRequest.customerId === decoded.id) {
-      canUpdate = true;
-    } else if (decoded.userType === 'GARAGE_ADMIN' && vehicleStatus.serviceRequest.garage.adminId === decoded.id) {
-      canUpdate = true;
-    } else if (decoded.userType === 'SYSTEM_ADMIN') {
-      canUpdate = true;
-    }
+    const canUpdate = await canAccessServiceRequest(user, vehicleStatus.serviceRequest, [
+      'owner',
+      'garageAdmin',
+      'systemAdmin'
+    ]);
 
     if (!canUpdate) {
       return NextResponse.json<ApiResponse>(
@@ -174,6 +119,13 @@ export async function PATCH(
       }
     });
 
+    await recordRequestEvent(user.id, {
+      serviceRequestId: vehicleStatus.serviceRequestId,
+      type: approved ? REQUEST_EVENTS.STATUS_UPDATE_APPROVED : REQUEST_EVENTS.STATUS_UPDATE_DECLINED,
+      summary: `Status update ${approved ? 'approved' : 'declined'}: ${vehicleStatus.description}`,
+      details: { vehicleStatusId: vehicleStatus.id }
+    });
+
     // Create notification for mechanic about approval/disapproval using standardized template
     if (vehicleStatus.serviceRequest.mechanicId) {
       const customerName = `${vehicleStatus.serviceRequest.customer.firstName} ${vehicleStatus.serviceRequest.customer.lastName}`;
@@ -181,7 +133,7 @@ export async function PATCH(
       if (approved) {
         const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.STATUS_APPROVED].toMechanic(customerName);
         await createNotification(
-          decoded.id,
+          user.id,
           vehicleStatus.serviceRequest.mechanicId,
           NOTIFICATION_TYPES.STATUS_APPROVED,
           template.title,
@@ -190,7 +142,7 @@ export async function PATCH(
       } else {
         const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.STATUS_DECLINED].toMechanic(customerName);
         await createNotification(
-          decoded.id,
+          user.id,
           vehicleStatus.serviceRequest.mechanicId,
           NOTIFICATION_TYPES.STATUS_DECLINED,
           template.title,
@@ -226,4 +178,4 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
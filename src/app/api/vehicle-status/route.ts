@@ -1,57 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { canAccessServiceRequest, withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import { recordRequestEvent, REQUEST_EVENTS } from '@/lib/request-events';
+import { isActiveRequestStatus } from '@/lib/request-status';
+import { getLatestOdometerReading, validateOdometerKm } from '@/lib/maintenance';
 import type { ApiResponse, VehicleStatusData, VehicleStatus } from '@/types/auth';
 import { createNotification, NOTIFICATION_TYPES, NOTIFICATION_TEMPLATES } from '@/utils/notifications';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
 // GET - Get vehicle status updates for a service request
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const serviceRequestId = searchParams.get('service_request_id');
 
@@ -78,14 +37,7 @@ export async function GET(request: NextRequest) {
 
     // Verify access to the service request
     const serviceRequest = await prisma.serviceRequest.findUnique({
-      where: { id: requestId },
-      include: {
-        garage: {
-          select: {
-            adminId: true
-          }
-        }
-      }
+      where: { id: requestId }
     });
 
     if (!serviceRequest) {
@@ -99,28 +51,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Check access permissions
-    let hasAccess = false;
-
-    if (decoded.userType === 'CUSTOMER' && serviceRequest.customerId === decoded.id) {
-      hasAccess = true;
-    } else if (decoded.userType === 'MECHANIC') {
-      // Check if mechanic is assigned or belongs to the garage
-      const mechanic = await prisma.mechanic.findUnique({
-        where: { userId: decoded.id },
-        select: { garageId: true, approved: true }
-      });
-
-      if (mechanic && mechanic.approved && 
-          (mechanic.garageId === serviceRequest.garageId || 
-           serviceRequest.mechanicId === decoded.id)) {
-        hasAccess = true;
-      }
-    } else if (decoded.userType === 'GARAGE_ADMIN' && 
-               serviceRequest.garage.adminId === decoded.id) {
-      hasAccess = true;
-    } else if (decoded.userType === 'SYSTEM_ADMIN') {
-      hasAccess = true;
-    }
+    const hasAccess = await canAccessServiceRequest(user, serviceRequest);
 
     if (!hasAccess) {
       return NextResponse.json<ApiResponse>(
@@ -165,6 +96,9 @@ export async function GET(request: NextRequest) {
               }
             }
           }
+        },
+        odometerReading: {
+          select: { km: true }
         }
       },
       orderBy: {
@@ -172,8 +106,9 @@ export async function GET(request: NextRequest) {
       }
     });
 
-    const processedStatuses = vehicleStatuses.map(status => ({
+    const processedStatuses = vehicleStatuses.map(({ odometerReading, ...status }) => ({
       ...status,
+      odometerKm: odometerReading?.km ?? null,
       createdAt: status.createdAt.toISOString(),
       ongoingServices: status.ongoingServices.map(service => ({
         ...service,
@@ -198,50 +133,14 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST - Create a vehicle status update (MECHANIC only)
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Only mechanics can create vehicle status updates
-    if (decoded.userType !== 'MECHANIC') {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Only mechanics can create vehicle status updates' 
-        },
-        { status: 403 }
-      );
-    }
-
     const body: VehicleStatusData = await request.json();
     const { serviceRequestId, description } = body;
+    const odometerKm = body.odometerKm ?? null;
 
     // Validate required fields
     if (!serviceRequestId || !description?.trim()) {
@@ -279,7 +178,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if mechanic is assigned to this request
-    if (serviceRequest.mechanicId !== decoded.id) {
+    if (serviceRequest.mechanicId !== user.id) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
@@ -290,23 +189,49 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if the service request is in a valid state for updates
-    if (!['ACCEPTED', 'IN_PROGRESS'].includes(serviceRequest.status)) {
+    if (!isActiveRequestStatus(serviceRequest.status)) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
-          error: 'Service request must be accepted or in progress to add status updates' 
+          error: 'Service request must have a mechanic on it to add status updates' 
         },
         { status: 400 }
       );
     }
 
+    // The mechanic can note the odometer while at the vehicle; it feeds the maintenance schedules
+    if (odometerKm !== null) {
+      const latestReading = await getLatestOdometerReading(serviceRequest.vehicleId);
+      const odometerError = validateOdometerKm(odometerKm, latestReading?.km ?? null);
+
+      if (odometerError) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: odometerError
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     // Create the vehicle status update
     const vehicleStatus = await prisma.vehicleStatus.create({
       data: {
         serviceRequestId,
-        mechanicId: decoded.id,
+        mechanicId: user.id,
         description: description.trim(),
-        approved: false // Requires customer approval
+        approved: false, // Requires customer approval
+        ...(odometerKm !== null && {
+          odometerReading: {
+            create: {
+              vehicleId: serviceRequest.vehicleId,
+              km: odometerKm,
+              source: 'MECHANIC',
+              recordedById: user.id
+            }
+          }
+        })
       },
       include: {
         mechanic: {
@@ -338,29 +263,42 @@ export async function POST(request: NextRequest) {
               }
             }
           }
+        },
+        odometerReading: {
+          select: { km: true }
         }
       }
     });
 
+    await recordRequestEvent(user.id, {
+      serviceRequestId,
+      type: REQUEST_EVENTS.STATUS_UPDATE_ADDED,
+      summary: `Status update: ${vehicleStatus.description}`,
+      details: { vehicleStatusId: vehicleStatus.id }
+    });
+
     // Create notification for customer using standardized template
     const mechanicName = `${vehicleStatus.mechanic.firstName} ${vehicleStatus.mechanic.lastName}`;
     const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.STATUS_UPDATE].toCustomer(mechanicName, description.trim());
     
     await createNotification(
-      decoded.id,
+      user.id,
       serviceRequest.customerId,
       NOTIFICATION_TYPES.STATUS_UPDATE,
       template.title,
       template.message
     );
 
+    const { odometerReading, ...vehicleStatusFields } = vehicleStatus;
+
     return NextResponse.json<ApiResponse>(
       {
         success: true,
         message: 'Vehicle status update created successfully',
         data: { 
           status: {
-            ...vehicleStatus,
+            ...vehicleStatusFields,
+            odometerKm: odometerReading?.km ?? null,
             createdAt: vehicleStatus.createdAt.toISOString(),
             ongoingServices: vehicleStatus.ongoingServices.map(service => ({
               ...service,
@@ -382,4 +320,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, {
+  roles: [UserType.MECHANIC],
+  forbiddenMessage: 'Only mechanics can create vehicle status updates'
+});
\ No newline at end of file
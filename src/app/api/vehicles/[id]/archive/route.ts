@@ -0,0 +1,162 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import { hasOpenVehicleRequest } from '@/lib/vehicles';
+import type { ApiResponse } from '@/types/auth';
+
+/**
+ * POST - Archive a vehicle the customer no longer uses. It disappears from booking but keeps its
+ * service history; not possible while a request or transfer is open.
+ */
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const vehicleId = parseInt(id);
+
+    if (isNaN(vehicleId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid vehicle ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id: vehicleId, customerId: user.id },
+      include: { transfers: { where: { status: 'PENDING' }, select: { id: true } } }
+    });
+
+    if (!vehicle) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Vehicle not found or does not belong to you'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (vehicle.archivedAt) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Vehicle is already archived'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (vehicle.transfers.length > 0) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Cancel the pending transfer before archiving the vehicle'
+        },
+        { status: 409 }
+      );
+    }
+
+    if (await hasOpenVehicleRequest(vehicle.id)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'The vehicle cannot be archived while a service request for it is open'
+        },
+        { status: 409 }
+      );
+    }
+
+    const archivedVehicle = await prisma.vehicle.update({
+      where: { id: vehicle.id },
+      data: { archivedAt: new Date() }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Vehicle archived successfully',
+      data: { vehicle: archivedVehicle }
+    });
+
+  } catch (error) {
+    console.error('Vehicle archive error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can archive vehicles'
+});
+
+// DELETE - Restore an archived vehicle so it can be booked again
+export const DELETE = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const vehicleId = parseInt(id);
+
+    if (isNaN(vehicleId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid vehicle ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id: vehicleId, customerId: user.id }
+    });
+
+    if (!vehicle) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Vehicle not found or does not belong to you'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!vehicle.archivedAt) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Vehicle is not archived'
+        },
+        { status: 400 }
+      );
+    }
+
+    const restoredVehicle = await prisma.vehicle.update({
+      where: { id: vehicle.id },
+      data: { archivedAt: null }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Vehicle restored successfully',
+      data: { vehicle: restoredVehicle }
+    });
+
+  } catch (error) {
+    console.error('Vehicle restore error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can restore vehicles'
+});
@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { getStorage } from '@/lib/storage';
+import { UserType } from '@/generated/prisma';
+import type { ApiResponse } from '@/types/auth';
+
+async function findOwnDocument(id: string, documentId: string, customerId: number) {
+  const vehicleId = parseInt(id);
+  const parsedDocumentId = parseInt(documentId);
+
+  if (isNaN(vehicleId) || isNaN(parsedDocumentId)) return null;
+
+  return prisma.vehicleDocument.findFirst({
+    where: { id: parsedDocumentId, vehicleId, vehicle: { customerId } }
+  });
+}
+
+// GET - The uploaded file of one of the customer's vehicle documents
+export const GET = withAuth<{ id: string; documentId: string }>(async (request, { params, user }) => {
+  try {
+    const { id, documentId } = await params;
+    const document = await findOwnDocument(id, documentId, user.id);
+
+    if (!document) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Document not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    const data = document.storageKey ? await getStorage().get(document.storageKey) : null;
+
+    if (!data || !document.contentType) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'No file was uploaded for this document'
+        },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': document.contentType,
+        'Content-Length': data.length.toString(),
+        'Content-Disposition': `inline; filename="${encodeURIComponent(document.fileName || 'document')}"`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    });
+
+  } catch (error) {
+    console.error('Get vehicle document error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can view vehicle documents'
+});
+
+// DELETE - Remove a document and its file, e.g. once it has been replaced by a renewal
+export const DELETE = withAuth<{ id: string; documentId: string }>(async (request, { params, user }) => {
+  try {
+    const { id, documentId } = await params;
+    const document = await findOwnDocument(id, documentId, user.id);
+
+    if (!document) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Document not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    await prisma.vehicleDocument.delete({ where: { id: document.id } });
+    if (document.storageKey) {
+      await getStorage().delete(document.storageKey);
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Document removed'
+    });
+
+  } catch (error) {
+    console.error('Delete vehicle document error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can remove vehicle documents'
+});
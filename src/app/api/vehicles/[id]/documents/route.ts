@@ -0,0 +1,238 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { createStorageKey, getStorage } from '@/lib/storage';
+import { UserType } from '@/generated/prisma';
+import {
+  detectDocumentFileType,
+  MAX_DOCUMENT_FILE_SIZE,
+  MAX_VEHICLE_DOCUMENTS,
+  normalizeVehicleDocumentData,
+  toVehicleDocument,
+  VEHICLE_DOCUMENT_SELECT
+} from '@/lib/vehicle-documents';
+import type { ApiResponse, VehicleDocument } from '@/types/auth';
+
+// GET - Documents kept with the customer's vehicle, soonest expiry first
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const vehicleId = parseInt(id);
+
+    if (isNaN(vehicleId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid vehicle ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id: vehicleId, customerId: user.id },
+      select: { id: true }
+    });
+
+    if (!vehicle) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Vehicle not found or does not belong to you'
+        },
+        { status: 404 }
+      );
+    }
+
+    const documents = await prisma.vehicleDocument.findMany({
+      where: { vehicleId: vehicle.id },
+      select: VEHICLE_DOCUMENT_SELECT,
+      orderBy: [{ expiresAt: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }]
+    });
+
+    return NextResponse.json<ApiResponse<{ documents: VehicleDocument[] }>>({
+      success: true,
+      data: { documents: documents.map(toVehicleDocument) }
+    });
+
+  } catch (error) {
+    console.error('Get vehicle documents error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can view vehicle documents'
+});
+
+// POST - Add a document (multipart form: type, documentNumber, issuer, expiresAt and an optional PDF or photo in "file")
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const vehicleId = parseInt(id);
+
+    if (isNaN(vehicleId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid vehicle ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id: vehicleId, customerId: user.id },
+      select: { id: true, archivedAt: true, _count: { select: { documents: true } } }
+    });
+
+    if (!vehicle) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Vehicle not found or does not belong to you'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (vehicle.archivedAt) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Restore the vehicle before adding documents'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (vehicle._count.documents >= MAX_VEHICLE_DOCUMENTS) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `A vehicle can have at most ${MAX_VEHICLE_DOCUMENTS} documents`
+        },
+        { status: 400 }
+      );
+    }
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Expected a multipart form upload'
+        },
+        { status: 400 }
+      );
+    }
+
+    const normalized = normalizeVehicleDocumentData({
+      type: formData.get('type'),
+      documentNumber: formData.get('documentNumber'),
+      issuer: formData.get('issuer'),
+      expiresAt: formData.get('expiresAt')
+    });
+
+    if ('error' in normalized) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: normalized.error
+        },
+        { status: 400 }
+      );
+    }
+
+    const file = formData.get('file');
+    let upload: { fileName: string; data: Buffer; contentType: string; extension: string } | null = null;
+
+    if (file instanceof File && file.size > 0) {
+      if (file.size > MAX_DOCUMENT_FILE_SIZE) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: `${file.name} is larger than ${MAX_DOCUMENT_FILE_SIZE / (1024 * 1024)} MB`
+          },
+          { status: 400 }
+        );
+      }
+
+      const data = Buffer.from(await file.arrayBuffer());
+      const fileType = detectDocumentFileType(data);
+
+      if (!fileType) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: `${file.name} is not a PDF, JPEG, PNG or WebP file`
+          },
+          { status: 400 }
+        );
+      }
+
+      upload = {
+        fileName: file.name.slice(0, 255) || `document.${fileType.extension}`,
+        data,
+        ...fileType
+      };
+    }
+
+    const storage = getStorage();
+    const storageKey = upload ? createStorageKey(`vehicles/${vehicle.id}`, upload.extension) : null;
+
+    try {
+      if (upload && storageKey) {
+        await storage.put(storageKey, upload.data, upload.contentType);
+      }
+
+      const document = await prisma.vehicleDocument.create({
+        data: {
+          ...normalized.data,
+          vehicleId: vehicle.id,
+          uploadedById: user.id,
+          storageKey,
+          fileName: upload?.fileName ?? null,
+          contentType: upload?.contentType ?? null,
+          size: upload?.data.length ?? null
+        },
+        select: VEHICLE_DOCUMENT_SELECT
+      });
+
+      return NextResponse.json<ApiResponse<{ document: VehicleDocument }>>(
+        {
+          success: true,
+          message: 'Document added',
+          data: { document: toVehicleDocument(document) }
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      // Do not leave a file behind that no record points to
+      if (storageKey) {
+        await storage.delete(storageKey).catch(() => undefined);
+      }
+      throw error;
+    }
+
+  } catch (error) {
+    console.error('Add vehicle document error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can add vehicle documents'
+});
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import {
+  getVehicleHistory,
+  getVehicleHistoryFilename,
+  renderVehicleHistoryHtml,
+  renderVehicleHistoryPdf
+} from '@/lib/vehicle-history';
+import type { ApiResponse, VehicleHistory } from '@/types/auth';
+
+const HISTORY_FORMATS = ['json', 'html', 'pdf'] as const;
+
+// GET - Full service history of the customer's vehicle; ?format=html for a printable page, ?format=pdf to download
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const vehicleId = parseInt(id);
+    const format = request.nextUrl.searchParams.get('format') || 'json';
+
+    if (isNaN(vehicleId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid vehicle ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!(HISTORY_FORMATS as readonly string[]).includes(format)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Format must be json, html or pdf'
+        },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id: vehicleId, customerId: user.id },
+      select: { id: true }
+    });
+
+    const history = vehicle ? await getVehicleHistory(vehicle.id) : null;
+
+    if (!history) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Vehicle not found or does not belong to you'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (format === 'html') {
+      return new NextResponse(renderVehicleHistoryHtml(history), {
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Content-Disposition': `inline; filename="${getVehicleHistoryFilename(history, 'html')}"`,
+          'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'",
+          'X-Content-Type-Options': 'nosniff'
+        }
+      });
+    }
+
+    if (format === 'pdf') {
+      return new NextResponse(new Uint8Array(renderVehicleHistoryPdf(history)), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${getVehicleHistoryFilename(history, 'pdf')}"`
+        }
+      });
+    }
+
+    return NextResponse.json<ApiResponse<{ history: VehicleHistory }>>({
+      success: true,
+      data: { history }
+    });
+
+  } catch (error) {
+    console.error('Get vehicle history error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can view vehicle history'
+});
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import { getVehicleMaintenance } from '@/lib/maintenance';
+import type { ApiResponse, VehicleMaintenance } from '@/types/auth';
+
+// GET - Maintenance schedules that apply to the customer's vehicle and when each is due
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const vehicleId = parseInt(id);
+
+    if (isNaN(vehicleId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid vehicle ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id: vehicleId, customerId: user.id },
+      select: { id: true, vehicleType: true, createdAt: true }
+    });
+
+    if (!vehicle) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Vehicle not found or does not belong to you'
+        },
+        { status: 404 }
+      );
+    }
+
+    const maintenance = await getVehicleMaintenance(vehicle);
+
+    return NextResponse.json<ApiResponse<{ maintenance: VehicleMaintenance }>>({
+      success: true,
+      data: { maintenance }
+    });
+
+  } catch (error) {
+    console.error('Get vehicle maintenance error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can view vehicle maintenance'
+});
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import type { ApiResponse } from '@/types/auth';
+
+// DELETE - Remove a mistyped reading; customers can only remove the ones they logged themselves
+export const DELETE = withAuth<{ id: string; readingId: string }>(async (request, { params, user }) => {
+  try {
+    const { id, readingId: readingIdParam } = await params;
+    const vehicleId = parseInt(id);
+    const readingId = parseInt(readingIdParam);
+
+    if (isNaN(vehicleId) || isNaN(readingId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid vehicle or reading ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const reading = await prisma.odometerReading.findFirst({
+      where: { id: readingId, vehicleId, vehicle: { customerId: user.id } }
+    });
+
+    if (!reading) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Reading not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (reading.source !== 'CUSTOMER' || reading.recordedById !== user.id) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Only readings you logged yourself can be removed'
+        },
+        { status: 403 }
+      );
+    }
+
+    await prisma.odometerReading.delete({
+      where: { id: reading.id }
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Odometer reading removed'
+    });
+
+  } catch (error) {
+    console.error('Delete odometer reading error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can remove odometer readings'
+});
@@ -0,0 +1,161 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import {
+  getLatestOdometerReading,
+  ODOMETER_READING_INCLUDE,
+  toOdometerReading,
+  validateOdometerKm
+} from '@/lib/maintenance';
+import type { ApiResponse, OdometerReading, OdometerReadingData } from '@/types/auth';
+
+// Readings returned by GET, newest first
+const ODOMETER_HISTORY_LIMIT = 50;
+
+// GET - Odometer readings of the customer's vehicle, including the ones mechanics took
+export const GET = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const vehicleId = parseInt(id);
+
+    if (isNaN(vehicleId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid vehicle ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id: vehicleId, customerId: user.id },
+      select: { id: true }
+    });
+
+    if (!vehicle) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Vehicle not found or does not belong to you'
+        },
+        { status: 404 }
+      );
+    }
+
+    const readings = await prisma.odometerReading.findMany({
+      where: { vehicleId: vehicle.id },
+      include: ODOMETER_READING_INCLUDE,
+      orderBy: [{ recordedAt: 'desc' }, { id: 'desc' }],
+      take: ODOMETER_HISTORY_LIMIT
+    });
+
+    return NextResponse.json<ApiResponse<{ readings: OdometerReading[] }>>({
+      success: true,
+      data: { readings: readings.map(toOdometerReading) }
+    });
+
+  } catch (error) {
+    console.error('Get odometer readings error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can view odometer readings'
+});
+
+// POST - Log the current odometer reading of the customer's vehicle
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const vehicleId = parseInt(id);
+
+    if (isNaN(vehicleId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid vehicle ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id: vehicleId, customerId: user.id },
+      select: { id: true, archivedAt: true }
+    });
+
+    if (!vehicle) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Vehicle not found or does not belong to you'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (vehicle.archivedAt) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Restore the vehicle before logging a reading'
+        },
+        { status: 400 }
+      );
+    }
+
+    const body: OdometerReadingData = await request.json();
+    const latestReading = await getLatestOdometerReading(vehicle.id);
+    const odometerError = validateOdometerKm(body.km, latestReading?.km ?? null);
+
+    if (odometerError) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: odometerError
+        },
+        { status: 400 }
+      );
+    }
+
+    const reading = await prisma.odometerReading.create({
+      data: {
+        vehicleId: vehicle.id,
+        km: body.km,
+        source: 'CUSTOMER',
+        recordedById: user.id
+      },
+      include: ODOMETER_READING_INCLUDE
+    });
+
+    return NextResponse.json<ApiResponse<{ reading: OdometerReading }>>(
+      {
+        success: true,
+        message: 'Odometer reading saved',
+        data: { reading: toOdometerReading(reading) }
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Odometer reading error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can log odometer readings'
+});
@@ -0,0 +1,118 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import { findDuplicateVehicle, hasOpenVehicleRequest, normalizeVehicleData } from '@/lib/vehicles';
+import type { ApiResponse, VehicleData } from '@/types/auth';
+
+// PUT - Correct a vehicle's details (owner only, not while a request or transfer is open)
+export const PUT = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const vehicleId = parseInt(id);
+
+    if (isNaN(vehicleId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid vehicle ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id: vehicleId, customerId: user.id },
+      include: { transfers: { where: { status: 'PENDING' }, select: { id: true } } }
+    });
+
+    if (!vehicle) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Vehicle not found or does not belong to you'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (vehicle.archivedAt) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Restore the vehicle before editing it'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (vehicle.transfers.length > 0) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Cancel the pending transfer before editing the vehicle'
+        },
+        { status: 409 }
+      );
+    }
+
+    const body: VehicleData = await request.json();
+    const normalized = normalizeVehicleData(body);
+
+    if ('error' in normalized) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: normalized.error
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data } = normalized;
+
+    if (await hasOpenVehicleRequest(vehicle.id)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'The vehicle cannot be changed while a service request for it is open'
+        },
+        { status: 409 }
+      );
+    }
+
+    if (await findDuplicateVehicle(user.id, data, vehicle.id)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Vehicle with this plate number or VIN already exists'
+        },
+        { status: 409 }
+      );
+    }
+
+    const updatedVehicle = await prisma.vehicle.update({
+      where: { id: vehicle.id },
+      data
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Vehicle updated successfully',
+      data: { vehicle: updatedVehicle }
+    });
+
+  } catch (error) {
+    console.error('Vehicle update error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can update vehicles'
+});
@@ -0,0 +1,155 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import { formatVehicle, hasOpenVehicleRequest, toVehicleTransfer, VEHICLE_TRANSFER_INCLUDE } from '@/lib/vehicles';
+import type { ApiResponse, VehicleTransfer, VehicleTransferData } from '@/types/auth';
+import { createNotification, NOTIFICATION_TEMPLATES, NOTIFICATION_TYPES } from '@/utils/notifications';
+
+/**
+ * POST - Offer the vehicle to another customer account by email. Nothing changes until the
+ * recipient accepts; then the vehicle moves to their account. Its service history is recorded
+ * against the vehicle and goes with it, while past requests and invoices stay with whoever made them.
+ */
+export const POST = withAuth<{ id: string }>(async (request, { params, user }) => {
+  try {
+    const { id } = await params;
+    const vehicleId = parseInt(id);
+
+    if (isNaN(vehicleId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid vehicle ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id: vehicleId, customerId: user.id },
+      include: { transfers: { where: { status: 'PENDING' }, select: { id: true } } }
+    });
+
+    if (!vehicle) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Vehicle not found or does not belong to you'
+        },
+        { status: 404 }
+      );
+    }
+
+    if (vehicle.archivedAt) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Restore the vehicle before transferring it'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (vehicle.transfers.length > 0) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'This vehicle already has a pending transfer'
+        },
+        { status: 409 }
+      );
+    }
+
+    const body: VehicleTransferData = await request.json();
+    const email = typeof body.email === 'string' ? body.email.trim() : '';
+
+    if (!email) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Email address of the new owner is required'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (await hasOpenVehicleRequest(vehicle.id)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'The vehicle cannot be transferred while a service request for it is open'
+        },
+        { status: 409 }
+      );
+    }
+
+    if (email.toLowerCase() === user.email.toLowerCase()) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'You already own this vehicle'
+        },
+        { status: 400 }
+      );
+    }
+
+    const account = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, userType: true, deletedAt: true }
+    });
+    // The offer is recorded either way, so the response does not tell whether the address has an account
+    const recipient = account && account.userType === UserType.CUSTOMER && !account.deletedAt ? account : null;
+
+    const transfer = await prisma.vehicleTransfer.create({
+      data: {
+        vehicleId: vehicle.id,
+        fromCustomerId: user.id,
+        toCustomerId: recipient?.id ?? null,
+        toEmail: email
+      },
+      include: VEHICLE_TRANSFER_INCLUDE
+    });
+
+    try {
+      if (recipient) {
+        const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.VEHICLE_TRANSFER_REQUESTED].toRecipient(
+          `${user.firstName} ${user.lastName}`,
+          formatVehicle(vehicle)
+        );
+        await createNotification(
+          user.id,
+          recipient.id,
+          NOTIFICATION_TYPES.VEHICLE_TRANSFER_REQUESTED,
+          template.title,
+          template.message
+        );
+      }
+    } catch (notificationError) {
+      console.error('Failed to notify recipient about vehicle transfer:', notificationError);
+    }
+
+    return NextResponse.json<ApiResponse<{ transfer: VehicleTransfer }>>(
+      {
+        success: true,
+        message: `Transfer offered to ${email}. The vehicle stays yours until the customer account with this address accepts it.`,
+        data: { transfer: toVehicleTransfer(transfer) }
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Vehicle transfer error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can transfer vehicles',
+  blockImpersonation: true
+});
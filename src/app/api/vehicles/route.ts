@@ -1,98 +1,35 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
+import { withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import { findDuplicateVehicle, normalizeVehicleData } from '@/lib/vehicles';
 import type { VehicleData, ApiResponse } from '@/types/auth';
 
-interface JwtPayload {
-  id: number;
-  username: string;
-  email: string;
-  userType: string;
-}
-
-function getTokenFromRequest(request: NextRequest): string | null {
-  // Try to get token from cookie first
-  const tokenFromCookie = request.cookies.get('auth-token')?.value;
-  if (tokenFromCookie) return tokenFromCookie;
-
-  // Fallback to Authorization header
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    return authHeader.substring(7);
-  }
-
-  return null;
-}
-
-// POST - Register a new vehicle
-export async function POST(request: NextRequest) {
+// POST - Register a new vehicle (the VIN is optional; make, model year and origin are decoded from it)
+export const POST = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Only customers can register vehicles
-    if (decoded.userType !== 'CUSTOMER') {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Only customers can register vehicles' 
-        },
-        { status: 403 }
-      );
-    }
-
     const body: VehicleData = await request.json();
-    const { vehicleType, plateNumber, plateCode, countryCode, color } = body;
+    const normalized = normalizeVehicleData(body);
 
-    // Validate required fields
-    if (!vehicleType || !plateNumber || !plateCode || !countryCode || !color) {
+    // Validate required fields and the VIN
+    if ('error' in normalized) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
-          error: 'All vehicle fields are required' 
+          error: normalized.error 
         },
         { status: 400 }
       );
     }
 
-    // Check if vehicle with same plate number already exists for this user
-    const existingVehicle = await prisma.vehicle.findFirst({
-      where: {
-        customerId: decoded.id,
-        plateNumber: plateNumber,
-        plateCode: plateCode,
-        countryCode: countryCode,
-      }
-    });
+    // Check if vehicle with same plate number or VIN already exists for this user
+    const existingVehicle = await findDuplicateVehicle(user.id, normalized.data);
 
     if (existingVehicle) {
       return NextResponse.json<ApiResponse>(
         { 
           success: false,
-          error: 'Vehicle with this plate number already exists' 
+          error: 'Vehicle with this plate number or VIN already exists' 
         },
         { status: 409 }
       );
@@ -101,12 +38,8 @@ export async function POST(request: NextRequest) {
     // Create vehicle
     const vehicle = await prisma.vehicle.create({
       data: {
-        customerId: decoded.id,
-        vehicleType,
-        plateNumber,
-        plateCode,
-        countryCode,
-        color,
+        customerId: user.id,
+        ...normalized.data,
       },
     });
 
@@ -129,52 +62,22 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can register vehicles'
+});
 
-// GET - Get user's vehicles
-export async function GET(request: NextRequest) {
+// GET - Get user's vehicles; archived ones only with include_archived=true
+export const GET = withAuth(async (request, { user }) => {
   try {
-    const token = getTokenFromRequest(request);
-    
-    if (!token) {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Verify and decode JWT token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as JwtPayload;
-    } catch {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Invalid token' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Only customers can view their vehicles
-    if (decoded.userType !== 'CUSTOMER') {
-      return NextResponse.json<ApiResponse>(
-        { 
-          success: false,
-          error: 'Only customers can view vehicles' 
-        },
-        { status: 403 }
-      );
-    }
+    const { searchParams } = new URL(request.url);
+    const includeArchived = searchParams.get('include_archived') === 'true';
 
     // Get user's vehicles
     const vehicles = await prisma.vehicle.findMany({
       where: {
-        customerId: decoded.id,
+        customerId: user.id,
+        ...(!includeArchived && { archivedAt: null }),
       },
       orderBy: {
         id: 'desc',
@@ -198,4 +101,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can view vehicles'
+});
\ No newline at end of file
@@ -0,0 +1,226 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import { OPEN_REQUEST_STATUSES } from '@/lib/request-status';
+import { getStorage } from '@/lib/storage';
+import { findDuplicateVehicle, formatVehicle, toVehicleTransfer, VEHICLE_TRANSFER_INCLUDE } from '@/lib/vehicles';
+import type { ApiResponse, VehicleTransfer, VehicleTransferDecisionData } from '@/types/auth';
+import { createNotification, NOTIFICATION_TEMPLATES, NOTIFICATION_TYPES } from '@/utils/notifications';
+
+const STATUS_BY_ACTION = {
+  accept: 'ACCEPTED',
+  decline: 'DECLINED',
+  cancel: 'CANCELLED'
+} as const;
+
+const VEHICLE_NOT_TRANSFERABLE = 'Vehicle can no longer be transferred';
+
+/**
+ * PATCH - Answer a pending transfer: the recipient accepts or declines it, the owner can cancel
+ * it. Accepting moves the vehicle to the recipient's account.
+ */
+export const PATCH = withAuth<{ transferId: string }>(async (request, { params, user }) => {
+  try {
+    const { transferId: transferIdParam } = await params;
+    const transferId = parseInt(transferIdParam);
+
+    if (isNaN(transferId)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid transfer ID'
+        },
+        { status: 400 }
+      );
+    }
+
+    const transfer = await prisma.vehicleTransfer.findUnique({
+      where: { id: transferId },
+      include: VEHICLE_TRANSFER_INCLUDE
+    });
+
+    // Only the two customers involved may know the transfer exists
+    if (!transfer || (transfer.fromCustomerId !== user.id && transfer.toCustomerId !== user.id)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Transfer not found'
+        },
+        { status: 404 }
+      );
+    }
+
+    const body: VehicleTransferDecisionData = await request.json();
+    const action = body.action;
+
+    if (action !== 'accept' && action !== 'decline' && action !== 'cancel') {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Action must be accept, decline or cancel'
+        },
+        { status: 400 }
+      );
+    }
+
+    const isOwner = transfer.fromCustomerId === user.id;
+
+    if ((action === 'cancel') !== isOwner) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: isOwner
+            ? 'Only the new owner can accept or decline a transfer'
+            : 'Only the current owner can cancel a transfer'
+        },
+        { status: 403 }
+      );
+    }
+
+    if (transfer.status !== 'PENDING') {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'This transfer has already been answered'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'accept' && await findDuplicateVehicle(user.id, transfer.vehicle)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'You already have a vehicle with this plate number or VIN'
+        },
+        { status: 409 }
+      );
+    }
+
+    const decidedAt = new Date();
+    let removedDocumentKeys: string[] = [];
+
+    const decided = await prisma.$transaction(async (tx) => {
+      // Answer the transfer first, so a lost race changes nothing
+      const updated = await tx.vehicleTransfer.updateMany({
+        where: { id: transfer.id, status: 'PENDING' },
+        data: { status: STATUS_BY_ACTION[action], decidedAt }
+      });
+
+      if (updated.count === 0) return null;
+
+      if (action === 'accept') {
+        // Conditional on the owner and no request being open meanwhile
+        const moved = await tx.vehicle.updateMany({
+          where: {
+            id: transfer.vehicleId,
+            customerId: transfer.fromCustomerId,
+            archivedAt: null,
+            serviceRequests: { none: { status: { in: [...OPEN_REQUEST_STATUSES] } } }
+          },
+          // Only the recipient gets this far, so the vehicle moves to the user
+          data: { customerId: user.id }
+        });
+
+        // Throw so the answer above is rolled back and the transfer stays pending
+        if (moved.count === 0) throw new Error(VEHICLE_NOT_TRANSFERABLE);
+
+        // Insurance and registration papers belong to the previous owner and do not go with the vehicle
+        const documents = await tx.vehicleDocument.findMany({
+          where: { vehicleId: transfer.vehicleId },
+          select: { storageKey: true }
+        });
+        await tx.vehicleDocument.deleteMany({ where: { vehicleId: transfer.vehicleId } });
+        removedDocumentKeys = documents.flatMap(document => document.storageKey ?? []);
+      }
+
+      return tx.vehicleTransfer.findUniqueOrThrow({
+        where: { id: transfer.id },
+        include: VEHICLE_TRANSFER_INCLUDE
+      });
+    }).catch(error => {
+      if (error instanceof Error && error.message === VEHICLE_NOT_TRANSFERABLE) return null;
+      throw error;
+    });
+
+    if (!decided) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: action === 'accept'
+            ? 'The vehicle can no longer be transferred. Please reload and try again.'
+            : 'The transfer was updated by someone else. Please reload and try again.'
+        },
+        { status: 409 }
+      );
+    }
+
+    const storage = getStorage();
+    await Promise.all(removedDocumentKeys.map(storageKey =>
+      storage.delete(storageKey).catch(error => console.error('Delete vehicle document file error:', error))
+    ));
+
+    try {
+      const vehicleInfo = formatVehicle(transfer.vehicle);
+
+      if (action === 'cancel') {
+        // Offers to an address without an account have nobody to tell
+        if (transfer.toCustomerId) {
+          const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.VEHICLE_TRANSFER_CANCELLED].toRecipient(
+            `${user.firstName} ${user.lastName}`,
+            vehicleInfo
+          );
+          await createNotification(
+            user.id,
+            transfer.toCustomerId,
+            NOTIFICATION_TYPES.VEHICLE_TRANSFER_CANCELLED,
+            template.title,
+            template.message
+          );
+        }
+      } else {
+        const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.VEHICLE_TRANSFER_ANSWERED].toOwner(
+          `${user.firstName} ${user.lastName}`,
+          vehicleInfo,
+          action === 'accept'
+        );
+        await createNotification(
+          user.id,
+          transfer.fromCustomerId,
+          NOTIFICATION_TYPES.VEHICLE_TRANSFER_ANSWERED,
+          template.title,
+          template.message
+        );
+      }
+    } catch (notificationError) {
+      console.error('Failed to send vehicle transfer notification:', notificationError);
+    }
+
+    const messages = {
+      accept: 'Vehicle transferred to your account',
+      decline: 'Transfer declined',
+      cancel: 'Transfer cancelled'
+    };
+
+    return NextResponse.json<ApiResponse<{ transfer: VehicleTransfer }>>({
+      success: true,
+      message: messages[action],
+      data: { transfer: toVehicleTransfer(decided) }
+    });
+
+  } catch (error) {
+    console.error('Answer vehicle transfer error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can answer vehicle transfers',
+  blockImpersonation: true
+});
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/api-auth';
+import { UserType } from '@/generated/prisma';
+import { toVehicleTransfer, VEHICLE_TRANSFER_INCLUDE } from '@/lib/vehicles';
+import type { ApiResponse, VehicleTransfer } from '@/types/auth';
+
+// GET - Pending transfers offered to the customer and those they offered to someone else
+export const GET = withAuth(async (request, { user }) => {
+  try {
+    const [incoming, outgoing] = await Promise.all([
+      prisma.vehicleTransfer.findMany({
+        where: { toCustomerId: user.id, status: 'PENDING' },
+        include: VEHICLE_TRANSFER_INCLUDE,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.vehicleTransfer.findMany({
+        where: { fromCustomerId: user.id, status: 'PENDING' },
+        include: VEHICLE_TRANSFER_INCLUDE,
+        orderBy: { createdAt: 'desc' }
+      })
+    ]);
+
+    return NextResponse.json<ApiResponse<{ incoming: VehicleTransfer[]; outgoing: VehicleTransfer[] }>>({
+      success: true,
+      data: {
+        incoming: incoming.map(toVehicleTransfer),
+        outgoing: outgoing.map(toVehicleTransfer)
+      }
+    });
+
+  } catch (error) {
+    console.error('Get vehicle transfers error:', error);
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}, {
+  roles: [UserType.CUSTOMER],
+  forbiddenMessage: 'Only customers can view vehicle transfers'
+});
@@ -0,0 +1,173 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface DeletionStatus {
+  canDelete: boolean;
+  reason: string | null;
+}
+
+const inputClassName = 'mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm';
+
+export default function AccountDataPage() {
+  const [deletionStatus, setDeletionStatus] = useState<DeletionStatus | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState('');
+  const router = useRouter();
+
+  useEffect(() => {
+    const fetchDeletionStatus = async () => {
+      try {
+        const response = await fetch('/api/users/account');
+        const result = await response.json();
+
+        if (result.success) {
+          setDeletionStatus(result.data);
+        } else {
+          setError(result.error || 'Failed to load account status');
+        }
+      } catch (error) {
+        console.error('Fetch account status error:', error);
+        setError('Network error. Please try again.');
+      }
+    };
+
+    fetchDeletionStatus();
+  }, []);
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm('Delete your account permanently? This cannot be undone.')) return;
+
+    setDeleting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/users/account', {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ password, confirmation }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        router.push('/auth/signin');
+      } else {
+        setError(result.error || 'Failed to delete account');
+      }
+    } catch (error) {
+      console.error('Delete account error:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Your Data
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Download what we store about you or close your account
+          </p>
+        </div>
+
+        {error && (
+          <div className="text-red-600 text-sm text-center">{error}</div>
+        )}
+
+        <div className="bg-white shadow rounded-lg p-6 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900">Download your data</h3>
+          <p className="text-sm text-gray-600">
+            Your profile, vehicles, service requests, invoices, payments, ratings and notifications.
+          </p>
+          <div className="flex space-x-4">
+            <a
+              href="/api/users/account/export?format=json"
+              className="w-full flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Download JSON
+            </a>
+            <a
+              href="/api/users/account/export?format=zip"
+              className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              Download ZIP
+            </a>
+          </div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-6 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900">Delete your account</h3>
+          <p className="text-sm text-gray-600">
+            Your personal details are removed and you are signed out everywhere. Invoices and payments are kept
+            without your details, because garages are required to keep financial records.
+          </p>
+
+          {!deletionStatus ? (
+            <div className="text-center text-gray-600 text-sm">Loading...</div>
+          ) : !deletionStatus.canDelete ? (
+            <p className="text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded-md px-3 py-2">
+              {deletionStatus.reason}
+            </p>
+          ) : (
+            <form className="space-y-4" onSubmit={handleDelete}>
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  autoComplete="current-password"
+                  required
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className={inputClassName}
+                  placeholder="Enter your password"
+                />
+              </div>
+              <div>
+                <label htmlFor="confirmation" className="block text-sm font-medium text-gray-700">
+                  Type DELETE to confirm
+                </label>
+                <input
+                  id="confirmation"
+                  type="text"
+                  required
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  className={inputClassName}
+                  placeholder="DELETE"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={deleting || !password || confirmation !== 'DELETE'}
+                className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+              >
+                {deleting ? 'Deleting...' : 'Delete my account'}
+              </button>
+            </form>
+          )}
+        </div>
+
+        <button
+          type="button"
+          onClick={() => router.back()}
+          className="group relative w-full flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+}
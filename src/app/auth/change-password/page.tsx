@@ -181,6 +181,30 @@ export default function ChangePasswordPage() {
               {loading ? 'Changing...' : 'Change Password'}
             </button>
           </div>
+
+          <div className="flex justify-center space-x-6">
+            <button
+              type="button"
+              onClick={() => router.push('/auth/sessions')}
+              className="text-sm text-indigo-600 hover:text-indigo-500"
+            >
+              Manage active sessions
+            </button>
+            <button
+              type="button"
+              onClick={() => router.push('/auth/two-factor')}
+              className="text-sm text-indigo-600 hover:text-indigo-500"
+            >
+              Two-factor authentication
+            </button>
+            <button
+              type="button"
+              onClick={() => router.push('/auth/account')}
+              className="text-sm text-indigo-600 hover:text-indigo-500"
+            >
+              Your data
+            </button>
+          </div>
         </form>
       </div>
     </div>
@@ -52,7 +52,7 @@ export default function RegisterPage() {
       const data: ApiResponse = await response.json();
 
       if (response.ok) {
-        setSuccess('Registration successful! Please sign in to continue.');
+        setSuccess('Registration successful! We sent you an email to verify your address. Please sign in to continue.');
         setTimeout(() => {
           router.push('/auth/signin');
         }, 2000);
@@ -0,0 +1,207 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface ActiveSession {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+// Short, human readable description of the device behind a user agent
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    'Unknown browser';
+
+  const os =
+    /Android/.test(userAgent) ? 'Android' :
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    'Unknown OS';
+
+  return `${browser} on ${os}`;
+}
+
+export default function SessionsPage() {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const router = useRouter();
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/sessions');
+      const result = await response.json();
+
+      if (result.success) {
+        setSessions(result.data.sessions);
+      } else {
+        setError(result.error || 'Failed to load sessions');
+      }
+    } catch (error) {
+      console.error('Fetch sessions error:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleSignOutSession = async (session: ActiveSession) => {
+    setActionLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(`/api/auth/sessions/${session.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(result.error || 'Failed to sign out session');
+        return;
+      }
+
+      if (session.current) {
+        router.push('/auth/signin');
+        return;
+      }
+
+      setSuccess('Session signed out');
+      await fetchSessions();
+    } catch (error) {
+      console.error('Sign out session error:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!confirm('Sign out of all devices, including this one?')) return;
+
+    setActionLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch('/api/auth/sessions', {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        router.push('/auth/signin');
+      } else {
+        setError(result.error || 'Failed to sign out everywhere');
+      }
+    } catch (error) {
+      console.error('Sign out everywhere error:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Active Sessions
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Devices currently signed in to your account
+          </p>
+        </div>
+
+        {error && (
+          <div className="text-red-600 text-sm text-center">{error}</div>
+        )}
+
+        {success && (
+          <div className="text-green-600 text-sm text-center">{success}</div>
+        )}
+
+        {loading ? (
+          <div className="text-center text-gray-600">Loading sessions...</div>
+        ) : sessions.length === 0 ? (
+          <div className="text-center text-gray-600">No active sessions</div>
+        ) : (
+          <ul className="bg-white shadow rounded-lg divide-y divide-gray-200">
+            {sessions.map(session => (
+              <li key={session.id} className="p-4 flex items-center justify-between">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-medium text-gray-900">
+                      {describeDevice(session.userAgent)}
+                    </span>
+                    {session.current && (
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                        This device
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    IP: {session.ipAddress || 'Unknown'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Signed in {new Date(session.createdAt).toLocaleString()} · Last seen {new Date(session.lastSeenAt).toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleSignOutSession(session)}
+                  disabled={actionLoading}
+                  className="px-3 py-1 text-sm font-medium rounded-md text-red-700 border border-red-300 hover:bg-red-50 disabled:opacity-50"
+                >
+                  Sign out
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex space-x-4">
+          <button
+            type="button"
+            onClick={() => router.back()}
+            className="group relative w-full flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Back
+          </button>
+          <button
+            type="button"
+            onClick={handleSignOutEverywhere}
+            disabled={actionLoading || sessions.length === 0}
+            className={`group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white ${
+              actionLoading || sessions.length === 0
+                ? 'bg-red-400 cursor-not-allowed'
+                : 'bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500'
+            }`}
+          >
+            Sign out everywhere
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,23 @@ interface LoginFormData {
   userType: UserType;
 }
 
+// Second login step for accounts with two-factor authentication
+interface TwoFactorStep {
+  challengeToken: string;
+  // Present when the account must set up 2FA before it can sign in
+  setup?: {
+    secret: string;
+    otpauthUrl: string;
+  };
+}
+
+const dashboards = {
+  [UserType.SYSTEM_ADMIN]: '/system-admin',
+  [UserType.GARAGE_ADMIN]: '/garage-admin',
+  [UserType.MECHANIC]: '/mechanic',
+  [UserType.CUSTOMER]: '/customer',
+};
+
 export default function SignInPage() {
   const [formData, setFormData] = useState<LoginFormData>({
     username: '',
@@ -19,6 +36,9 @@ export default function SignInPage() {
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [twoFactorStep, setTwoFactorStep] = useState<TwoFactorStep | null>(null);
+  const [verificationCode, setVerificationCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
   const router = useRouter();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -37,15 +57,15 @@ export default function SignInPage() {
 
       const data = await response.json();
 
-      if (response.ok) {
+      if (response.ok && data.twoFactorRequired) {
+        setTwoFactorStep({ challengeToken: data.challengeToken });
+      } else if (response.ok && data.twoFactorSetupRequired) {
+        setTwoFactorStep({
+          challengeToken: data.challengeToken,
+          setup: { secret: data.secret, otpauthUrl: data.otpauthUrl },
+        });
+      } else if (response.ok) {
         // Redirect based on user type
-        const dashboards = {
-          [UserType.SYSTEM_ADMIN]: '/system-admin',
-          [UserType.GARAGE_ADMIN]: '/garage-admin',
-          [UserType.MECHANIC]: '/mechanic',
-          [UserType.CUSTOMER]: '/customer',
-        };
-
         router.push(dashboards[formData.userType]);
       } else {
         setError(data.error || 'Login failed');
@@ -58,6 +78,47 @@ export default function SignInPage() {
     }
   };
 
+  const handleVerifySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!twoFactorStep) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/auth/2fa/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          challengeToken: twoFactorStep.challengeToken,
+          code: verificationCode,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok && data.recoveryCodes) {
+        // Just enrolled: show the recovery codes once before continuing
+        setRecoveryCodes(data.recoveryCodes);
+      } else if (response.ok) {
+        router.push(dashboards[formData.userType]);
+      } else {
+        setError(data.error || 'Verification failed');
+        if (data.challengeExpired) {
+          // Took too long after entering the password; start over
+          setTwoFactorStep(null);
+        }
+      }
+    } catch (error) {
+      console.error('Two-factor verification error:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
@@ -66,6 +127,116 @@ export default function SignInPage() {
     }));
   };
 
+  if (recoveryCodes) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+              Save your recovery codes
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              Each code can be used once to sign in if you lose access to your authenticator app.
+              They will not be shown again.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-2 bg-white shadow rounded-lg p-4 font-mono text-sm text-gray-900">
+            {recoveryCodes.map(code => (
+              <div key={code} className="text-center">{code}</div>
+            ))}
+          </div>
+          <button
+            onClick={() => router.push(dashboards[formData.userType])}
+            className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            I have saved my codes, continue
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (twoFactorStep) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+              {twoFactorStep.setup ? 'Set up two-factor authentication' : 'Two-factor authentication'}
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              {twoFactorStep.setup
+                ? 'Your account type requires two-factor authentication. Add this account to your authenticator app, then enter the 6-digit code it shows.'
+                : 'Enter the 6-digit code from your authenticator app, or one of your recovery codes.'}
+            </p>
+          </div>
+
+          {twoFactorStep.setup && (
+            <div className="bg-white shadow rounded-lg p-4 space-y-2 text-sm">
+              <p className="text-gray-700">Secret key (enter it manually in your app):</p>
+              <p className="font-mono text-gray-900 break-all">{twoFactorStep.setup.secret}</p>
+              <a
+                href={twoFactorStep.setup.otpauthUrl}
+                className="text-indigo-600 hover:text-indigo-500"
+              >
+                Open in authenticator app
+              </a>
+            </div>
+          )}
+
+          <form className="space-y-6" onSubmit={handleVerifySubmit}>
+            <div>
+              <label htmlFor="verificationCode" className="sr-only">
+                Verification code
+              </label>
+              <input
+                id="verificationCode"
+                name="verificationCode"
+                type="text"
+                inputMode={twoFactorStep.setup ? 'numeric' : 'text'}
+                autoComplete="one-time-code"
+                required
+                value={verificationCode}
+                onChange={(e) => setVerificationCode(e.target.value)}
+                className="appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                placeholder={twoFactorStep.setup ? '6-digit code' : '6-digit code or recovery code'}
+              />
+            </div>
+
+            {error && (
+              <div className="text-red-600 text-sm text-center">{error}</div>
+            )}
+
+            <div className="flex space-x-4">
+              <button
+                type="button"
+                onClick={() => {
+                  setTwoFactorStep(null);
+                  setVerificationCode('');
+                  setError('');
+                }}
+                className="group relative w-full flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                Back
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className={`group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white ${
+                  loading
+                    ? 'bg-indigo-400 cursor-not-allowed'
+                    : 'bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500'
+                }`}
+              >
+                {loading ? 'Verifying...' : 'Verify'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
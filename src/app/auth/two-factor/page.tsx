@@ -0,0 +1,294 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+const inputClassName = 'mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm';
+
+export default function TwoFactorPage() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const router = useRouter();
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/2fa');
+      const result = await response.json();
+
+      if (result.success) {
+        setStatus(result.data);
+      } else {
+        setError(result.error || 'Failed to load two-factor status');
+      }
+    } catch (error) {
+      console.error('Fetch two-factor status error:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  // Shared request handling for the actions on this page
+  const runAction = async (url: string, method: string, body?: object) => {
+    setActionLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(result.error || 'Request failed');
+        return null;
+      }
+
+      if (result.message) setSuccess(result.message);
+      return result;
+    } catch (error) {
+      console.error('Two-factor action error:', error);
+      setError('Network error. Please try again.');
+      return null;
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    const result = await runAction('/api/auth/2fa/setup', 'POST');
+    if (result) {
+      setEnrollment(result.data);
+      setRecoveryCodes(null);
+      setCode('');
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await runAction('/api/auth/2fa/enable', 'POST', { code });
+    if (result) {
+      setEnrollment(null);
+      setRecoveryCodes(result.data.recoveryCodes);
+      setCode('');
+      await fetchStatus();
+    }
+  };
+
+  const handleRegenerateCodes = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await runAction('/api/auth/2fa/recovery-codes', 'POST', { code });
+    if (result) {
+      setRecoveryCodes(result.data.recoveryCodes);
+      setCode('');
+      await fetchStatus();
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!confirm('Turn off two-factor authentication for your account?')) return;
+
+    const result = await runAction('/api/auth/2fa', 'DELETE', { password, code });
+    if (result) {
+      setRecoveryCodes(null);
+      setPassword('');
+      setCode('');
+      await fetchStatus();
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Two-Factor Authentication
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Protect your account with a code from an authenticator app
+          </p>
+        </div>
+
+        {error && (
+          <div className="text-red-600 text-sm text-center">{error}</div>
+        )}
+
+        {success && (
+          <div className="text-green-600 text-sm text-center">{success}</div>
+        )}
+
+        {loading || !status ? (
+          <div className="text-center text-gray-600">Loading...</div>
+        ) : (
+          <div className="bg-white shadow rounded-lg p-6 space-y-6">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-900">Status</span>
+              <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                status.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+              }`}>
+                {status.enabled ? 'Enabled' : 'Disabled'}
+              </span>
+            </div>
+
+            {status.required && (
+              <p className="text-sm text-gray-600">
+                Two-factor authentication is required for your account type.
+              </p>
+            )}
+
+            {recoveryCodes && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-700">
+                  Save these recovery codes somewhere safe. Each one can be used once if you lose your
+                  authenticator app, and they will not be shown again.
+                </p>
+                <div className="grid grid-cols-2 gap-2 bg-gray-50 rounded-md p-3 font-mono text-sm text-gray-900">
+                  {recoveryCodes.map(recoveryCode => (
+                    <div key={recoveryCode} className="text-center">{recoveryCode}</div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {!status.enabled && !enrollment && (
+              <button
+                onClick={handleStartSetup}
+                disabled={actionLoading}
+                className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Set up two-factor authentication
+              </button>
+            )}
+
+            {enrollment && (
+              <form className="space-y-4" onSubmit={handleEnable}>
+                <div className="text-sm space-y-2">
+                  <p className="text-gray-700">Add this secret key to your authenticator app:</p>
+                  <p className="font-mono text-gray-900 break-all">{enrollment.secret}</p>
+                  <a href={enrollment.otpauthUrl} className="text-indigo-600 hover:text-indigo-500">
+                    Open in authenticator app
+                  </a>
+                </div>
+                <div>
+                  <label htmlFor="enableCode" className="block text-sm font-medium text-gray-700">
+                    Code from the app
+                  </label>
+                  <input
+                    id="enableCode"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    required
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className={inputClassName}
+                    placeholder="6-digit code"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={actionLoading}
+                  className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {actionLoading ? 'Verifying...' : 'Enable'}
+                </button>
+              </form>
+            )}
+
+            {status.enabled && (
+              <form className="space-y-4" onSubmit={handleRegenerateCodes}>
+                <p className="text-sm text-gray-600">
+                  Recovery codes left: {status.recoveryCodesRemaining}
+                </p>
+                <div>
+                  <label htmlFor="currentCode" className="block text-sm font-medium text-gray-700">
+                    Current code
+                  </label>
+                  <input
+                    id="currentCode"
+                    type="text"
+                    autoComplete="one-time-code"
+                    required
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className={inputClassName}
+                    placeholder="6-digit code or recovery code"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={actionLoading}
+                  className="w-full flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Generate new recovery codes
+                </button>
+
+                {!status.required && (
+                  <>
+                    <div>
+                      <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                        Password (to turn two-factor authentication off)
+                      </label>
+                      <input
+                        id="password"
+                        type="password"
+                        autoComplete="current-password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        className={inputClassName}
+                        placeholder="Enter your password"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleDisable}
+                      disabled={actionLoading || !password || !code}
+                      className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Turn off two-factor authentication
+                    </button>
+                  </>
+                )}
+              </form>
+            )}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={() => router.back()}
+          className="group relative w-full flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+}
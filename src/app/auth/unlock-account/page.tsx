@@ -0,0 +1,111 @@
+'use client';
+
+import { useState, useEffect, useRef, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+
+function UnlockAccount() {
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  // The token is single-use, so never submit it twice (e.g. effects re-run in development)
+  const submitted = useRef(false);
+
+  const searchParams = useSearchParams();
+
+  useEffect(() => {
+    if (submitted.current) return;
+    submitted.current = true;
+
+    const token = searchParams.get('token');
+    if (!token) {
+      setError('Invalid unlock link.');
+      setLoading(false);
+      return;
+    }
+
+    const unlock = async () => {
+      try {
+        const response = await fetch('/api/auth/unlock-account', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ token }),
+        });
+
+        const data = await response.json();
+
+        if (response.ok) {
+          setMessage(data.message);
+        } else {
+          setError(data.error || 'Failed to unlock account');
+        }
+      } catch (error) {
+        console.error('Unlock account error:', error);
+        setError('Network error. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    unlock();
+  }, [searchParams]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            {loading ? 'Unlocking Account...' : error ? 'Unlock Failed' : 'Account Unlocked'}
+          </h2>
+          {!loading && (
+            <p className={`mt-2 text-center text-sm ${error ? 'text-red-600' : 'text-gray-600'}`}>
+              {error || message}
+            </p>
+          )}
+          {error && !loading && (
+            <p className="mt-2 text-center text-sm text-gray-600">
+              The account also unlocks by itself after a while, or when you reset your password.
+            </p>
+          )}
+          <div className="mt-6 space-y-4">
+            <Link
+              href="/auth/signin"
+              className="text-indigo-600 hover:text-indigo-500 font-medium"
+            >
+              Go to sign in →
+            </Link>
+            <br />
+            <Link
+              href="/auth/forgot-password"
+              className="text-gray-600 hover:text-gray-500"
+            >
+              Forgot your password?
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function LoadingFallback() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function UnlockAccountPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <UnlockAccount />
+    </Suspense>
+  );
+}
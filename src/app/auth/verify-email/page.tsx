@@ -0,0 +1,104 @@
+'use client';
+
+import { useState, useEffect, useRef, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+
+function VerifyEmail() {
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  // Submit the link once, even if effects re-run in development
+  const submitted = useRef(false);
+
+  const searchParams = useSearchParams();
+
+  useEffect(() => {
+    if (submitted.current) return;
+    submitted.current = true;
+
+    const token = searchParams.get('token');
+    if (!token) {
+      setError('Invalid verification link.');
+      setLoading(false);
+      return;
+    }
+
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ token }),
+        });
+
+        const data = await response.json();
+
+        if (response.ok) {
+          setMessage(data.message);
+        } else {
+          setError(data.error || 'Failed to verify email address');
+        }
+      } catch (error) {
+        console.error('Verify email error:', error);
+        setError('Network error. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    verify();
+  }, [searchParams]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            {loading ? 'Verifying Email...' : error ? 'Verification Failed' : 'Email Verified'}
+          </h2>
+          {!loading && (
+            <p className={`mt-2 text-center text-sm ${error ? 'text-red-600' : 'text-gray-600'}`}>
+              {error || message}
+            </p>
+          )}
+          {error && !loading && (
+            <p className="mt-2 text-center text-sm text-gray-600">
+              Sign in to request a new verification email from your dashboard.
+            </p>
+          )}
+          <div className="mt-6">
+            <Link
+              href="/auth/signin"
+              className="text-indigo-600 hover:text-indigo-500 font-medium"
+            >
+              Go to sign in →
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function LoadingFallback() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <VerifyEmail />
+    </Suspense>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useRouter } from 'next/navigation';
 import { useState, useEffect, useCallback } from 'react';
-import { getCurrentLocation, formatDistance, formatRating, estimateTravelTime } from '@/utils/common';
+import { getCurrentLocation, formatDistance, formatRating, estimateTravelTime, formatDateTime } from '@/utils/common';
 import RatingDisplay from '@/components/RatingDisplay';
 import RatingForm from '@/components/RatingForm';
 
@@ -15,6 +15,11 @@ interface Garage {
   available: boolean;
   approved: boolean;
   createdAt: string;
+  openNow: boolean;
+  nextOpeningAt: string | null;
+  closedReason: string | null;
+  emergencyAfterHours: boolean;
+  afterHoursSurcharge: number;
   distance?: number;
   mechanicsCount: number;
   servicesCount: number;
@@ -46,6 +51,7 @@ export default function CustomerGarages() {
   const [maxDistance, setMaxDistance] = useState('');
   const [minRating, setMinRating] = useState('');
   const [maxRating, setMaxRating] = useState('');
+  const [openNowOnly, setOpenNowOnly] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [selectedGarage, setSelectedGarage] = useState<Garage | null>(null);
   const [showRatingForm, setShowRatingForm] = useState(false);
@@ -83,6 +89,10 @@ export default function CustomerGarages() {
         params.append('max_rating', maxRating);
       }
 
+      if (openNowOnly) {
+        params.append('open_now', 'true');
+      }
+
       const response = await fetch(`/api/garages?${params.toString()}`);
       const result = await response.json();
 
@@ -97,7 +107,7 @@ export default function CustomerGarages() {
     } finally {
       setLoading(false);
     }
-  }, [userLocation, maxDistance, searchTerm, sortBy, minRating, maxRating]);
+  }, [userLocation, maxDistance, searchTerm, sortBy, minRating, maxRating, openNowOnly]);
 
   const getUserLocation = async () => {
     try {
@@ -119,7 +129,7 @@ export default function CustomerGarages() {
 
   useEffect(() => {
     fetchGarages();
-  }, [userLocation, maxDistance, searchTerm, sortBy, minRating, maxRating, fetchGarages]);
+  }, [userLocation, maxDistance, searchTerm, sortBy, minRating, maxRating, openNowOnly, fetchGarages]);
 
   const handleLogout = async () => {
     try {
@@ -141,6 +151,7 @@ export default function CustomerGarages() {
     setSortBy('default');
     setMinRating('');
     setMaxRating('');
+    setOpenNowOnly(false);
   };
 
   return (
@@ -230,7 +241,7 @@ export default function CustomerGarages() {
             </div>
 
             {showFilters && (
-              <div className="mt-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Sort By
@@ -296,6 +307,17 @@ export default function CustomerGarages() {
                   </select>
                 </div>
 
+                <div className="flex items-end">
+                  <label className="flex items-center space-x-2 text-sm text-gray-700 pb-2">
+                    <input
+                      type="checkbox"
+                      checked={openNowOnly}
+                      onChange={(e) => setOpenNowOnly(e.target.checked)}
+                    />
+                    <span>Open now</span>
+                  </label>
+                </div>
+
                 <div className="flex items-end">
                   <button
                     onClick={clearFilters}
@@ -357,10 +379,22 @@ export default function CustomerGarages() {
                         </div>
                       </div>
 
-                      <div className="text-sm text-gray-600 mb-3">
+                      <div className="text-sm text-gray-600 mb-1">
                         Owner: {garage.admin.firstName} {garage.admin.lastName}
                       </div>
 
+                      <div className="text-sm mb-3">
+                        {garage.openNow ? (
+                          <span className="text-green-600 font-medium">Open now</span>
+                        ) : (
+                          <span className="text-red-600">
+                            Closed
+                            {garage.nextOpeningAt && ` · opens ${formatDateTime(new Date(garage.nextOpeningAt))}`}
+                            {garage.emergencyAfterHours && ' · emergencies accepted'}
+                          </span>
+                        )}
+                      </div>
+
                       <div className="flex items-center justify-between text-sm">
                         <div className="flex space-x-4">
                           <span className="text-gray-600">
@@ -511,14 +545,21 @@ export default function CustomerGarages() {
                     <div className="pt-4 border-t border-gray-200">
                       <div className="flex items-center justify-between">
                         <div className="text-sm text-gray-600">
-                          Ready to request service from this garage?
+                          {selectedGarage.openNow
+                            ? 'Ready to request service from this garage?'
+                            : selectedGarage.emergencyAfterHours
+                              ? `Closed now. Emergency requests carry a $${selectedGarage.afterHoursSurcharge.toFixed(2)} after-hours surcharge; appointments can still be booked.`
+                              : 'Closed now. You can still book an appointment.'}
                         </div>
                         <button
                           onClick={() => {
                             setSelectedGarage(null);
                             setShowRatingForm(false);
                             setRatingSubmitted(false);
-                            router.push(`/customer/request-service?garage_id=${selectedGarage.id}`);
+                            // Keep vehicle_id/service_id from a maintenance booking link
+                            const bookingParams = new URLSearchParams(window.location.search);
+                            bookingParams.set('garage_id', String(selectedGarage.id));
+                            router.push(`/customer/request-service?${bookingParams}`);
                           }}
                           className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md text-sm font-medium"
                         >
@@ -3,11 +3,25 @@
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useState, useEffect, useCallback, Suspense } from 'react';
 import { formatDateTime } from '@/utils/common';
+import {
+  CANCELLATION_CATEGORY_LABELS,
+  canTransition,
+  HOLD_REASON_LABELS,
+  isActiveRequestStatus,
+  REQUEST_STATUS_BADGE_STYLES
+} from '@/lib/request-status';
 import type { ServiceRequest, VehicleStatus, Notification } from '@/types/auth';
 import PaymentHistory from '@/components/PaymentHistory';
+import RequestTimeline from '@/components/RequestTimeline';
+import RequestChat, { UnreadMessagesBadge } from '@/components/RequestChat';
+import RequestEstimates from '@/components/RequestEstimates';
+import { useUnreadMessages } from '@/hooks/useUnreadMessages';
+import MechanicTrackingPanel from '@/components/MechanicTrackingPanel';
+import RequestStatusReasonForm from '@/components/RequestStatusReasonForm';
 import PaymentForm from '@/components/PaymentForm';
 import InvoiceDisplay from '@/components/InvoiceDisplay';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import EmailVerificationBanner from '@/components/EmailVerificationBanner';
 
 function CustomerDashboardContent() {
   const router = useRouter();
@@ -21,10 +35,12 @@ function CustomerDashboardContent() {
 
   const [activeTab, setActiveTab] = useState<'overview' | 'requests' | 'tracking' | 'payments' | 'feedback' | 'notifications'>(getValidTab(searchParams.get('tab')));
   const [requests, setRequests] = useState<ServiceRequest[]>([]);
+  const { unread: unreadMessages, refresh: refreshUnreadMessages } = useUnreadMessages();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [selectedRequest, setSelectedRequest] = useState<ServiceRequest | null>(null);
+  const [cancellingRequest, setCancellingRequest] = useState(false);
   const [successMessage, setSuccessMessage] = useState(searchParams.get('success') || '');
 
   // Service tracking states
@@ -105,29 +121,11 @@ function CustomerDashboardContent() {
     }
   }, [successMessage]);
 
-  const handleCancelRequest = async (requestId: number) => {
-    try {
-      const response = await fetch(`/api/requests/${requestId}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          status: 'CANCELLED'
-        })
-      });
-      const result = await response.json();
-
-      if (result.success) {
-        await fetchRequests();
-        setSelectedRequest(null);
-      } else {
-        setError(result.error || 'Failed to cancel request');
-      }
-    } catch (error) {
-      console.error('Cancel request error:', error);
-      setError('Failed to cancel request');
-    }
+  const handleRequestCancelled = async (message: string) => {
+    setSuccessMessage(message);
+    setCancellingRequest(false);
+    setSelectedRequest(null);
+    await fetchRequests();
   };
 
   const handleApproveStatusUpdate = async (statusId: number, approved: boolean) => {
@@ -214,26 +212,19 @@ function CustomerDashboardContent() {
   };
 
   const getStatusBadge = (status: string) => {
-    const statusStyles = {
-      PENDING: 'bg-yellow-100 text-yellow-800',
-      ACCEPTED: 'bg-blue-100 text-blue-800',
-      IN_PROGRESS: 'bg-purple-100 text-purple-800',
-      COMPLETED: 'bg-green-100 text-green-800',
-      CANCELLED: 'bg-red-100 text-red-800'
-    };
-
     return (
-      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[status as keyof typeof statusStyles] || 'bg-gray-100 text-gray-800'}`}>
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${REQUEST_STATUS_BADGE_STYLES[status as ServiceRequest['status']] || 'bg-gray-100 text-gray-800'}`}>
         {status}
       </span>
     );
   };
 
   const canCancelRequest = (request: ServiceRequest) => {
-    return ['PENDING', 'ACCEPTED'].includes(request.status);
+    return canTransition(request.status, 'CANCELLED');
   };
 
-  const activeRequests = requests.filter(r => ['ACCEPTED', 'IN_PROGRESS'].includes(r.status));
+  const activeRequests = requests.filter(r => isActiveRequestStatus(r.status));
+  const trackedRequest = activeRequests.find(r => r.id === selectedServiceRequest);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -328,6 +319,8 @@ function CustomerDashboardContent() {
       </header>
 
       <main id="main-content" className="max-w-7xl mx-auto py-4 sm:py-6 px-4 sm:px-6 lg:px-8" role="main">
+        <EmailVerificationBanner className="mb-4 sm:mb-6" />
+
         {successMessage && (
           <div className="mb-4 sm:mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg" role="alert" aria-live="polite">
             <div className="flex items-center">
@@ -530,7 +523,8 @@ function CustomerDashboardContent() {
                           <div className="flex items-center space-x-3">
                             <h3 className="text-lg font-medium text-gray-900">Request #{request.id}</h3>
                             {getStatusBadge(request.status)}
-                            {['ACCEPTED', 'IN_PROGRESS'].includes(request.status) && (
+                            <UnreadMessagesBadge count={unreadMessages.requests[request.id]} />
+                            {isActiveRequestStatus(request.status) && (
                               <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded-full">
                                 Tracking Available
                               </span>
@@ -541,12 +535,15 @@ function CustomerDashboardContent() {
                           <div>
                             <div>Garage: {request.garage.garageName}</div>
                             <div>Requested: {formatDateTime(new Date(request.createdAt))}</div>
+                            {request.scheduledFor && (
+                              <div>Appointment: {formatDateTime(new Date(request.scheduledFor))}</div>
+                            )}
                             {request.mechanic && (
                               <div>Assigned to: {request.mechanic.firstName} {request.mechanic.lastName}</div>
                             )}
                           </div>
                           <div className="flex space-x-2">
-                            {['ACCEPTED', 'IN_PROGRESS'].includes(request.status) && (
+                            {isActiveRequestStatus(request.status) && (
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation();
@@ -571,7 +568,8 @@ function CustomerDashboardContent() {
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  handleCancelRequest(request.id);
+                                  setSelectedRequest(request);
+                                  setCancellingRequest(true);
                                 }}
                                 className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded text-xs"
                               >
@@ -638,6 +636,12 @@ function CustomerDashboardContent() {
                       </select>
                     </div>
 
+                    {trackedRequest?.status === 'EN_ROUTE' && (
+                      <div className="bg-white shadow rounded-lg p-6 mb-6">
+                        <MechanicTrackingPanel key={trackedRequest.id} request={trackedRequest} />
+                      </div>
+                    )}
+
                     {selectedServiceRequest && (
                       <div className="bg-white shadow rounded-lg p-6">
                         {trackingLoading ? (
@@ -811,7 +815,10 @@ function CustomerDashboardContent() {
                   Service Request #{selectedRequest.id}
                 </h3>
                 <button
-                  onClick={() => setSelectedRequest(null)}
+                  onClick={() => {
+                    setSelectedRequest(null);
+                    setCancellingRequest(false);
+                  }}
                   className="text-gray-400 hover:text-gray-600"
                 >
                   <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -831,6 +838,14 @@ function CustomerDashboardContent() {
                     <h4 className="font-medium text-gray-700">Garage Information</h4>
                     <div>Name: {selectedRequest.garage.garageName}</div>
                     <div>Request Date: {formatDateTime(new Date(selectedRequest.createdAt))}</div>
+                    {selectedRequest.scheduledFor && (
+                      <div>Appointment: {formatDateTime(new Date(selectedRequest.scheduledFor))}</div>
+                    )}
+                    {selectedRequest.requestedServices.length > 0 && (
+                      <div>
+                        Services: {selectedRequest.requestedServices.map(({ service }) => service.serviceName).join(', ')}
+                      </div>
+                    )}
                   </div>
 
                   <div className="space-y-2">
@@ -838,6 +853,9 @@ function CustomerDashboardContent() {
                     <div>Type: {selectedRequest.vehicle.vehicleType}</div>
                     <div>Plate: {selectedRequest.vehicle.plateCode} {selectedRequest.vehicle.plateNumber}</div>
                     <div>Color: {selectedRequest.vehicle.color}</div>
+                    {selectedRequest.vehicle.make && <div>Make: {selectedRequest.vehicle.make}</div>}
+                    {selectedRequest.vehicle.modelYear && <div>Model Year: {selectedRequest.vehicle.modelYear}</div>}
+                    {selectedRequest.vehicle.vin && <div>VIN: <span className="font-mono">{selectedRequest.vehicle.vin}</span></div>}
                   </div>
                 </div>
 
@@ -853,7 +871,36 @@ function CustomerDashboardContent() {
                   </div>
                 )}
 
-                {['ACCEPTED', 'IN_PROGRESS'].includes(selectedRequest.status) && (
+                {selectedRequest.status === 'EN_ROUTE' && (
+                  <div className="p-3 border border-cyan-200 rounded-lg">
+                    <MechanicTrackingPanel key={selectedRequest.id} request={selectedRequest} />
+                  </div>
+                )}
+
+                {selectedRequest.status === 'ON_HOLD' && selectedRequest.holdReason && (
+                  <div className="p-3 bg-orange-50 rounded-lg text-sm text-orange-800">
+                    On hold: {HOLD_REASON_LABELS[selectedRequest.holdReason]}
+                    {selectedRequest.statusNote && ` - ${selectedRequest.statusNote}`}
+                  </div>
+                )}
+
+                {selectedRequest.status === 'REJECTED_BY_GARAGE' && (
+                  <div className="p-3 bg-red-50 rounded-lg text-sm text-red-800">
+                    The garage could not take this request: {selectedRequest.statusNote}
+                  </div>
+                )}
+
+                {selectedRequest.status === 'CANCELLED' && selectedRequest.cancellationCategory && (
+                  <div className="p-3 bg-red-50 rounded-lg text-sm text-red-800">
+                    Cancelled: {CANCELLATION_CATEGORY_LABELS[selectedRequest.cancellationCategory]}
+                    {selectedRequest.cancellationReason && ` - ${selectedRequest.cancellationReason}`}
+                    {selectedRequest.cancellationFee !== null && (
+                      <div>A cancellation fee of ${selectedRequest.cancellationFee.toFixed(2)} was invoiced; you can pay it under Payments.</div>
+                    )}
+                  </div>
+                )}
+
+                {isActiveRequestStatus(selectedRequest.status) && (
                   <div className="bg-purple-50 border border-purple-200 rounded-lg p-3">
                     <div className="flex items-center justify-between">
                       <span className="text-purple-700 font-medium">Track detailed progress</span>
@@ -871,14 +918,36 @@ function CustomerDashboardContent() {
                   </div>
                 )}
 
+                <div className="pt-4 border-t border-gray-200">
+                  <RequestEstimates key={selectedRequest.id} request={selectedRequest} />
+                </div>
+
+                <div className="pt-4 border-t border-gray-200">
+                  <RequestChat key={selectedRequest.id} request={selectedRequest} onRead={refreshUnreadMessages} />
+                </div>
+
+                <div className="pt-4 border-t border-gray-200">
+                  <RequestTimeline key={selectedRequest.id} request={selectedRequest} />
+                </div>
+
                 {canCancelRequest(selectedRequest) && (
                   <div className="pt-4 border-t border-gray-200">
-                    <button
-                      onClick={() => handleCancelRequest(selectedRequest.id)}
-                      className="w-full bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md font-medium"
-                    >
-                      Cancel Request
-                    </button>
+                    {cancellingRequest ? (
+                      <RequestStatusReasonForm
+                        request={selectedRequest}
+                        status="CANCELLED"
+                        cancelledByCustomer
+                        onDone={handleRequestCancelled}
+                        onClose={() => setCancellingRequest(false)}
+                      />
+                    ) : (
+                      <button
+                        onClick={() => setCancellingRequest(true)}
+                        className="w-full bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md font-medium"
+                      >
+                        Cancel Request
+                      </button>
+                    )}
                   </div>
                 )}
               </div>
@@ -938,6 +1007,9 @@ function ServiceTrackingTimeline({
                   </span>
                 </div>
                 <h3 className="text-lg font-medium text-gray-900 mt-2">{status.description}</h3>
+                {status.odometerKm !== null && (
+                  <p className="text-sm text-gray-600">Odometer: {status.odometerKm.toLocaleString()} km</p>
+                )}
               </div>
 
               {/* Approval buttons */}
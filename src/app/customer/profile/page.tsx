@@ -3,7 +3,11 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import type { ApiResponse, VehicleData } from '@/types/auth';
+import VehicleMaintenance from '@/components/VehicleMaintenance';
+import VehicleDocuments from '@/components/VehicleDocuments';
+import VinField from '@/components/VinField';
+import { decodeVin, normalizeVin, VIN_LENGTH } from '@/lib/vin';
+import type { ApiResponse, VehicleData, VehicleTransfer } from '@/types/auth';
 
 interface User {
   id: number;
@@ -25,6 +29,104 @@ interface Vehicle {
   plateCode: string;
   countryCode: string;
   color: string;
+  vin: string | null;
+  make: string | null;
+  modelYear: number | null;
+  origin: string | null;
+  archivedAt: string | null;
+}
+
+const EMPTY_VEHICLE_DATA: VehicleData = {
+  vehicleType: '',
+  plateNumber: '',
+  plateCode: '',
+  countryCode: '',
+  color: '',
+  vin: '',
+  make: '',
+  modelYear: null,
+  origin: '',
+};
+
+type RequiredVehicleField = 'vehicleType' | 'color' | 'plateNumber' | 'plateCode' | 'countryCode';
+
+const VEHICLE_FIELD_LABELS: Record<RequiredVehicleField, string> = {
+  vehicleType: 'Vehicle Type',
+  color: 'Color',
+  plateNumber: 'Plate Number',
+  plateCode: 'Plate Code',
+  countryCode: 'Country Code',
+};
+
+// Sets the VIN and pre-fills the details it decodes to, keeping anything the owner already typed
+function withVin(data: VehicleData, value: string): VehicleData {
+  const vin = normalizeVin(value);
+  const decoded = vin.length === VIN_LENGTH ? decodeVin(vin) : null;
+
+  return {
+    ...data,
+    vin: value,
+    make: data.make || decoded?.make || '',
+    modelYear: data.modelYear ?? decoded?.modelYear ?? null,
+    origin: data.origin || decoded?.origin || '',
+  };
+}
+
+interface VehicleIdentityFieldsProps {
+  idPrefix: string;
+  data: VehicleData;
+  onChange: (data: VehicleData) => void;
+}
+
+function VehicleIdentityFields({ idPrefix, data, onChange }: VehicleIdentityFieldsProps) {
+  const inputClassName = 'mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+  return (
+    <div className="space-y-4">
+      <VinField id={`${idPrefix}-vin`} value={data.vin ?? ''} onChange={(vin) => onChange(withVin(data, vin))} />
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label htmlFor={`${idPrefix}-make`} className="block text-sm font-medium text-gray-700">
+            Make
+          </label>
+          <input
+            type="text"
+            id={`${idPrefix}-make`}
+            value={data.make ?? ''}
+            onChange={(e) => onChange({ ...data, make: e.target.value })}
+            className={inputClassName}
+            placeholder="Optional"
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-modelYear`} className="block text-sm font-medium text-gray-700">
+            Model Year
+          </label>
+          <input
+            type="number"
+            id={`${idPrefix}-modelYear`}
+            value={data.modelYear ?? ''}
+            onChange={(e) => onChange({ ...data, modelYear: e.target.value ? parseInt(e.target.value) : null })}
+            className={inputClassName}
+            placeholder="Optional"
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-origin`} className="block text-sm font-medium text-gray-700">
+            Origin
+          </label>
+          <input
+            type="text"
+            id={`${idPrefix}-origin`}
+            value={data.origin ?? ''}
+            onChange={(e) => onChange({ ...data, origin: e.target.value })}
+            className={inputClassName}
+            placeholder="Optional"
+          />
+        </div>
+      </div>
+    </div>
+  );
 }
 
 interface ProfileUpdateData {
@@ -40,6 +142,18 @@ export default function CustomerProfilePage() {
   const [updating, setUpdating] = useState(false);
   const [addingVehicle, setAddingVehicle] = useState(false);
   const [showVehicleForm, setShowVehicleForm] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingVehicleId, setEditingVehicleId] = useState<number | null>(null);
+  const [editVehicleData, setEditVehicleData] = useState<VehicleData>(EMPTY_VEHICLE_DATA);
+  const [transferVehicleId, setTransferVehicleId] = useState<number | null>(null);
+  const [maintenanceVehicleId, setMaintenanceVehicleId] = useState<number | null>(null);
+  const [documentsVehicleId, setDocumentsVehicleId] = useState<number | null>(null);
+  const [transferEmail, setTransferEmail] = useState('');
+  const [transfers, setTransfers] = useState<{ incoming: VehicleTransfer[]; outgoing: VehicleTransfer[] }>({
+    incoming: [],
+    outgoing: [],
+  });
+  const [vehicleActionPending, setVehicleActionPending] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   
@@ -49,21 +163,19 @@ export default function CustomerProfilePage() {
     phoneNumber: '',
   });
 
-  const [vehicleData, setVehicleData] = useState<VehicleData>({
-    vehicleType: '',
-    plateNumber: '',
-    plateCode: '',
-    countryCode: '',
-    color: '',
-  });
+  const [vehicleData, setVehicleData] = useState<VehicleData>(EMPTY_VEHICLE_DATA);
 
   const router = useRouter();
 
   useEffect(() => {
     fetchProfile();
-    fetchVehicles();
+    fetchTransfers();
   }, []);
 
+  useEffect(() => {
+    fetchVehicles(showArchived);
+  }, [showArchived]);
+
   const fetchProfile = async () => {
     try {
       const response = await fetch('/api/users/profile');
@@ -87,9 +199,9 @@ export default function CustomerProfilePage() {
     }
   };
 
-  const fetchVehicles = async () => {
+  const fetchVehicles = async (includeArchived: boolean) => {
     try {
-      const response = await fetch('/api/vehicles');
+      const response = await fetch(`/api/vehicles${includeArchived ? '?include_archived=true' : ''}`);
       const data: ApiResponse<{ vehicles: Vehicle[] }> = await response.json();
 
       if (response.ok && data.success) {
@@ -100,6 +212,68 @@ export default function CustomerProfilePage() {
     }
   };
 
+  const fetchTransfers = async () => {
+    try {
+      const response = await fetch('/api/vehicles/transfers');
+      const data: ApiResponse<{ incoming: VehicleTransfer[]; outgoing: VehicleTransfer[] }> = await response.json();
+
+      if (response.ok && data.success) {
+        setTransfers(data.data!);
+      }
+    } catch (error) {
+      console.error('Vehicle transfers fetch error:', error);
+    }
+  };
+
+  // Edit, archive, restore and transfer calls all reload the vehicles and transfers afterwards
+  const runVehicleAction = async (url: string, method: string, body?: unknown): Promise<boolean> => {
+    setVehicleActionPending(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      });
+
+      const data: ApiResponse = await response.json();
+
+      if (response.ok && data.success) {
+        setSuccess(data.message || 'Vehicle updated');
+        await Promise.all([fetchVehicles(showArchived), fetchTransfers()]);
+        return true;
+      }
+
+      setError(data.error || 'Vehicle update failed');
+    } catch (error) {
+      console.error('Vehicle action error:', error);
+      setError('Network error');
+    } finally {
+      setVehicleActionPending(false);
+    }
+
+    return false;
+  };
+
+  const handleVehicleEdit = async (e: React.FormEvent, vehicleId: number) => {
+    e.preventDefault();
+    if (await runVehicleAction(`/api/vehicles/${vehicleId}`, 'PUT', editVehicleData)) {
+      setEditingVehicleId(null);
+    }
+  };
+
+  const handleVehicleTransfer = async (e: React.FormEvent, vehicleId: number) => {
+    e.preventDefault();
+    if (await runVehicleAction(`/api/vehicles/${vehicleId}/transfer`, 'POST', { email: transferEmail })) {
+      setTransferVehicleId(null);
+      setTransferEmail('');
+    }
+  };
+
   const handleProfileUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     setUpdating(true);
@@ -150,13 +324,7 @@ export default function CustomerProfilePage() {
 
       if (response.ok && data.success) {
         setVehicles(prev => [data.data!.vehicle, ...prev]);
-        setVehicleData({
-          vehicleType: '',
-          plateNumber: '',
-          plateCode: '',
-          countryCode: '',
-          color: '',
-        });
+        setVehicleData(EMPTY_VEHICLE_DATA);
         setShowVehicleForm(false);
         setSuccess('Vehicle added successfully');
       } else {
@@ -211,6 +379,12 @@ export default function CustomerProfilePage() {
             >
               Change Password
             </button>
+            <Link
+              href="/auth/account"
+              className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Your Data
+            </Link>
             <button
               onClick={handleLogout}
               className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium"
@@ -406,6 +580,8 @@ export default function CustomerProfilePage() {
                   </div>
                 </div>
 
+                <VehicleIdentityFields idPrefix="add-vehicle" data={vehicleData} onChange={setVehicleData} />
+
                 <button
                   type="submit"
                   disabled={addingVehicle}
@@ -420,25 +596,240 @@ export default function CustomerProfilePage() {
               </form>
             )}
 
+            {transfers.incoming.length > 0 && (
+              <div className="mb-6 space-y-3">
+                {transfers.incoming.map((transfer) => (
+                  <div key={transfer.id} className="p-4 bg-indigo-50 border border-indigo-200 rounded-lg">
+                    <p className="text-sm text-gray-900">
+                      {transfer.fromCustomer.firstName} {transfer.fromCustomer.lastName} wants to transfer their{' '}
+                      <span className="font-medium">
+                        {transfer.vehicle.color} {transfer.vehicle.vehicleType} ({transfer.vehicle.plateCode} {transfer.vehicle.plateNumber})
+                      </span>{' '}
+                      and its service history to you.
+                    </p>
+                    <div className="mt-3 flex gap-2">
+                      <button
+                        onClick={() => runVehicleAction(`/api/vehicles/transfers/${transfer.id}`, 'PATCH', { action: 'accept' })}
+                        disabled={vehicleActionPending}
+                        className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white px-3 py-1 rounded-md text-sm font-medium"
+                      >
+                        Accept
+                      </button>
+                      <button
+                        onClick={() => runVehicleAction(`/api/vehicles/transfers/${transfer.id}`, 'PATCH', { action: 'decline' })}
+                        disabled={vehicleActionPending}
+                        className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-3 py-1 rounded-md text-sm font-medium"
+                      >
+                        Decline
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="space-y-4">
               {vehicles.length === 0 ? (
                 <p className="text-gray-500 text-center py-4">No vehicles registered yet.</p>
               ) : (
-                vehicles.map((vehicle) => (
-                  <div key={vehicle.id} className="border border-gray-200 rounded-lg p-4">
-                    <div className="flex justify-between items-start">
-                      <div>
-                        <h3 className="font-medium text-gray-900">{vehicle.vehicleType}</h3>
-                        <p className="text-sm text-gray-600">Color: {vehicle.color}</p>
-                        <p className="text-sm text-gray-600">
-                          Plate: {vehicle.plateCode} {vehicle.plateNumber} ({vehicle.countryCode})
+                vehicles.map((vehicle) => {
+                  const pendingTransfer = transfers.outgoing.find(transfer => transfer.vehicle.id === vehicle.id);
+
+                  return (
+                    <div
+                      key={vehicle.id}
+                      className={`border border-gray-200 rounded-lg p-4 ${vehicle.archivedAt ? 'bg-gray-50' : ''}`}
+                    >
+                      {editingVehicleId === vehicle.id ? (
+                        <form onSubmit={(e) => handleVehicleEdit(e, vehicle.id)} className="space-y-3">
+                          <div className="grid grid-cols-2 gap-3">
+                            {(Object.keys(VEHICLE_FIELD_LABELS) as RequiredVehicleField[]).map((field) => (
+                              <input
+                                key={field}
+                                type="text"
+                                aria-label={VEHICLE_FIELD_LABELS[field]}
+                                placeholder={VEHICLE_FIELD_LABELS[field]}
+                                value={editVehicleData[field]}
+                                onChange={(e) => setEditVehicleData(prev => ({ ...prev, [field]: e.target.value }))}
+                                className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                required
+                              />
+                            ))}
+                          </div>
+                          <VehicleIdentityFields idPrefix={`edit-vehicle-${vehicle.id}`} data={editVehicleData} onChange={setEditVehicleData} />
+                          <div className="flex gap-2">
+                            <button
+                              type="submit"
+                              disabled={vehicleActionPending}
+                              className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white px-3 py-1 rounded-md text-sm font-medium"
+                            >
+                              Save
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setEditingVehicleId(null)}
+                              className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-3 py-1 rounded-md text-sm font-medium"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </form>
+                      ) : (
+                        <div className="flex justify-between items-start">
+                          <div>
+                            <h3 className="font-medium text-gray-900">
+                              {vehicle.vehicleType}
+                              {vehicle.archivedAt && <span className="ml-2 text-xs text-gray-500">(archived)</span>}
+                            </h3>
+                            <p className="text-sm text-gray-600">Color: {vehicle.color}</p>
+                            <p className="text-sm text-gray-600">
+                              Plate: {vehicle.plateCode} {vehicle.plateNumber} ({vehicle.countryCode})
+                            </p>
+                            {(vehicle.make || vehicle.modelYear) && (
+                              <p className="text-sm text-gray-600">
+                                {[vehicle.make, vehicle.modelYear, vehicle.origin].filter(Boolean).join(' · ')}
+                              </p>
+                            )}
+                            {vehicle.vin && <p className="text-sm text-gray-600 font-mono">VIN: {vehicle.vin}</p>}
+                            {pendingTransfer && (
+                              <p className="text-sm text-indigo-700 mt-1">
+                                Waiting for {pendingTransfer.toEmail} to accept the transfer
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex gap-3 text-sm">
+                            <button
+                              onClick={() => setMaintenanceVehicleId(maintenanceVehicleId === vehicle.id ? null : vehicle.id)}
+                              className="text-indigo-600 hover:text-indigo-800 font-medium"
+                            >
+                              Maintenance
+                            </button>
+                            <button
+                              onClick={() => setDocumentsVehicleId(documentsVehicleId === vehicle.id ? null : vehicle.id)}
+                              className="text-indigo-600 hover:text-indigo-800 font-medium"
+                            >
+                              Documents
+                            </button>
+                            <a
+                              href={`/api/vehicles/${vehicle.id}/history?format=html`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-indigo-600 hover:text-indigo-800 font-medium"
+                            >
+                              History
+                            </a>
+                            <a
+                              href={`/api/vehicles/${vehicle.id}/history?format=pdf`}
+                              className="text-indigo-600 hover:text-indigo-800 font-medium"
+                            >
+                              PDF
+                            </a>
+                            {vehicle.archivedAt ? (
+                              <button
+                                onClick={() => runVehicleAction(`/api/vehicles/${vehicle.id}/archive`, 'DELETE')}
+                                disabled={vehicleActionPending}
+                                className="text-indigo-600 hover:text-indigo-800 font-medium"
+                              >
+                                Restore
+                              </button>
+                            ) : pendingTransfer ? (
+                              <button
+                                onClick={() => runVehicleAction(`/api/vehicles/transfers/${pendingTransfer.id}`, 'PATCH', { action: 'cancel' })}
+                                disabled={vehicleActionPending}
+                                className="text-red-600 hover:text-red-800 font-medium"
+                              >
+                                Cancel Transfer
+                              </button>
+                            ) : (
+                              <>
+                                <button
+                                  onClick={() => {
+                                    setEditingVehicleId(vehicle.id);
+                                    setEditVehicleData({
+                                      vehicleType: vehicle.vehicleType,
+                                      plateNumber: vehicle.plateNumber,
+                                      plateCode: vehicle.plateCode,
+                                      countryCode: vehicle.countryCode,
+                                      color: vehicle.color,
+                                      vin: vehicle.vin ?? '',
+                                      make: vehicle.make ?? '',
+                                      modelYear: vehicle.modelYear,
+                                      origin: vehicle.origin ?? '',
+                                    });
+                                  }}
+                                  className="text-indigo-600 hover:text-indigo-800 font-medium"
+                                >
+                                  Edit
+                                </button>
+                                <button
+                                  onClick={() => setTransferVehicleId(transferVehicleId === vehicle.id ? null : vehicle.id)}
+                                  className="text-indigo-600 hover:text-indigo-800 font-medium"
+                                >
+                                  Transfer
+                                </button>
+                                <button
+                                  onClick={() => runVehicleAction(`/api/vehicles/${vehicle.id}/archive`, 'POST')}
+                                  disabled={vehicleActionPending}
+                                  className="text-gray-600 hover:text-gray-800 font-medium"
+                                >
+                                  Archive
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      )}
+
+                      {transferVehicleId === vehicle.id && !pendingTransfer && !vehicle.archivedAt && (
+                        <form onSubmit={(e) => handleVehicleTransfer(e, vehicle.id)} className="mt-3 flex gap-2">
+                          <input
+                            type="email"
+                            placeholder="Email of the new owner's account"
+                            value={transferEmail}
+                            onChange={(e) => setTransferEmail(e.target.value)}
+                            className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                            required
+                          />
+                          <button
+                            type="submit"
+                            disabled={vehicleActionPending}
+                            className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white px-3 py-2 rounded-md text-sm font-medium"
+                          >
+                            Send Transfer
+                          </button>
+                        </form>
+                      )}
+                      {transferVehicleId === vehicle.id && !pendingTransfer && !vehicle.archivedAt && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          The service history goes with the vehicle. Its documents stay yours and are removed once the transfer is accepted.
                         </p>
-                      </div>
+                      )}
+
+                      {maintenanceVehicleId === vehicle.id && user && (
+                        <div className="mt-4 pt-4 border-t border-gray-200">
+                          <VehicleMaintenance vehicleId={vehicle.id} userId={user.id} archived={vehicle.archivedAt !== null} />
+                        </div>
+                      )}
+
+                      {documentsVehicleId === vehicle.id && (
+                        <div className="mt-4 pt-4 border-t border-gray-200">
+                          <VehicleDocuments vehicleId={vehicle.id} archived={vehicle.archivedAt !== null} />
+                        </div>
+                      )}
                     </div>
-                  </div>
-                ))
+                  );
+                })
               )}
             </div>
+
+            <label className="mt-4 flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+              />
+              Show archived vehicles
+            </label>
           </div>
         </div>
       </main>
@@ -2,7 +2,17 @@
 
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useState, useEffect, useCallback, Suspense } from 'react';
-import { getCurrentLocation } from '@/utils/common';
+import { formatDateTime, getCurrentLocation } from '@/utils/common';
+import EmailVerificationBanner from '@/components/EmailVerificationBanner';
+import {
+  MAX_DESCRIPTION_LENGTH,
+  MAX_PHOTO_SIZE,
+  MAX_REQUEST_PHOTOS,
+  PHOTO_CONTENT_TYPES,
+  SYMPTOM_CATEGORY_LABELS,
+  URGENCY_LABELS
+} from '@/lib/service-requests';
+import type { AppointmentSlot, RequestUrgency, SymptomCategory } from '@/types/auth';
 
 interface Vehicle {
   id: number;
@@ -19,6 +29,11 @@ interface Garage {
   latitude: number;
   longitude: number;
   rating: number;
+  openNow: boolean;
+  nextOpeningAt: string | null;
+  closedReason: string | null;
+  emergencyAfterHours: boolean;
+  afterHoursSurcharge: number;
   admin: {
     firstName: string;
     lastName: string;
@@ -36,12 +51,22 @@ function RequestServiceContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const garageId = searchParams.get('garage_id');
+  // Set by the "Book" link of a maintenance item, to pre-fill the booking
+  const maintenanceVehicleId = searchParams.get('vehicle_id');
+  const maintenanceServiceId = searchParams.get('service_id');
   
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [selectedVehicle, setSelectedVehicle] = useState<number | null>(null);
   const [garage, setGarage] = useState<Garage | null>(null);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [description, setDescription] = useState('');
+  const [symptomCategory, setSymptomCategory] = useState<SymptomCategory | ''>('');
+  const [urgency, setUrgency] = useState<RequestUrgency>('NORMAL');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [mode, setMode] = useState<'roadside' | 'appointment'>('roadside');
+  const [slots, setSlots] = useState<AppointmentSlot[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<number | null>(null);
+  const [serviceIds, setServiceIds] = useState<number[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState('');
@@ -53,7 +78,13 @@ function RequestServiceContent() {
       const result = await response.json();
 
       if (result.success) {
-        setVehicles(result.data.vehicles);
+        const fetchedVehicles: Vehicle[] = result.data.vehicles;
+        setVehicles(fetchedVehicles);
+
+        const preselected = fetchedVehicles.find(vehicle => String(vehicle.id) === maintenanceVehicleId);
+        if (preselected) {
+          setSelectedVehicle(preselected.id);
+        }
       } else {
         setError(result.error || 'Failed to fetch vehicles');
       }
@@ -61,7 +92,7 @@ function RequestServiceContent() {
       console.error('Fetch vehicles error:', error);
       setError('Failed to fetch vehicles');
     }
-  }, []);
+  }, [maintenanceVehicleId]);
 
   const fetchGarageDetails = useCallback(async () => {
     if (!garageId) return;
@@ -71,7 +102,16 @@ function RequestServiceContent() {
       const result = await response.json();
 
       if (result.success && result.data.garages.length > 0) {
-        setGarage(result.data.garages[0]);
+        const fetchedGarage: Garage = result.data.garages[0];
+        setGarage(fetchedGarage);
+
+        // Maintenance is booked as an appointment for the service that is due, if the garage offers it
+        const maintenanceService = fetchedGarage.services.find(({ service }) => String(service.id) === maintenanceServiceId);
+        if (maintenanceService) {
+          setMode('appointment');
+          setServiceIds([maintenanceService.service.id]);
+          setDescription(`Scheduled maintenance: ${maintenanceService.service.serviceName}`);
+        }
       } else {
         setError('Garage not found');
       }
@@ -79,6 +119,21 @@ function RequestServiceContent() {
       console.error('Fetch garage error:', error);
       setError('Failed to fetch garage details');
     }
+  }, [garageId, maintenanceServiceId]);
+
+  const fetchAvailableSlots = useCallback(async () => {
+    if (!garageId) return;
+
+    try {
+      const response = await fetch(`/api/garages/${garageId}/slots?available=true`);
+      const result = await response.json();
+
+      if (result.success) {
+        setSlots(result.data.slots);
+      }
+    } catch (error) {
+      console.error('Fetch appointment slots error:', error);
+    }
   }, [garageId]);
 
   const getUserLocation = async () => {
@@ -101,19 +156,76 @@ function RequestServiceContent() {
       await Promise.all([
         fetchUserVehicles(),
         fetchGarageDetails(),
+        fetchAvailableSlots(),
         getUserLocation()
       ]);
       setLoading(false);
     };
 
     initialize();
-  }, [fetchUserVehicles, fetchGarageDetails]);
+  }, [fetchUserVehicles, fetchGarageDetails, fetchAvailableSlots]);
+
+  // Roadside help outside opening hours is only possible as a paid emergency, if the garage offers it
+  const closedForRoadside = mode === 'roadside' && garage !== null && !garage.openNow;
+  const roadsideBlocked = closedForRoadside && !(garage.emergencyAfterHours && urgency === 'EMERGENCY');
+
+  const toggleService = (serviceId: number) => {
+    setServiceIds(prev => prev.includes(serviceId)
+      ? prev.filter(id => id !== serviceId)
+      : [...prev, serviceId]);
+  };
+
+  const handlePhotosChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    setError('');
+
+    if (files.length > MAX_REQUEST_PHOTOS) {
+      setError(`You can attach at most ${MAX_REQUEST_PHOTOS} photos`);
+      e.target.value = '';
+      return;
+    }
+
+    const tooLarge = files.find(file => file.size > MAX_PHOTO_SIZE);
+    if (tooLarge) {
+      setError(`${tooLarge.name} is larger than ${MAX_PHOTO_SIZE / (1024 * 1024)} MB`);
+      e.target.value = '';
+      return;
+    }
+
+    setPhotos(files);
+  };
+
+  // Photos go up after the request exists; the request itself is kept if this fails
+  const uploadPhotos = async (requestId: number) => {
+    const formData = new FormData();
+    photos.forEach(photo => formData.append('photos', photo));
+
+    const response = await fetch(`/api/requests/${requestId}/photos`, {
+      method: 'POST',
+      body: formData,
+    });
+    const result = await response.json();
+
+    return result.success ? null : (result.error || 'Failed to upload photos');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!selectedVehicle || !garageId || !userLocation) {
-      setError('Please select a vehicle and ensure location is detected');
+    const isAppointment = mode === 'appointment';
+
+    if (!selectedVehicle || !garageId) {
+      setError('Please select a vehicle');
+      return;
+    }
+
+    if (isAppointment && !selectedSlot) {
+      setError('Please select an appointment time');
+      return;
+    }
+
+    if (!isAppointment && !userLocation) {
+      setError('Please make sure your location is detected');
       return;
     }
 
@@ -129,18 +241,30 @@ function RequestServiceContent() {
         body: JSON.stringify({
           garageId: parseInt(garageId),
           vehicleId: selectedVehicle,
-          latitude: userLocation.lat,
-          longitude: userLocation.lng,
-          description
+          latitude: userLocation?.lat,
+          longitude: userLocation?.lng,
+          description,
+          symptomCategory: symptomCategory || undefined,
+          urgency,
+          ...(isAppointment && { appointmentSlotId: selectedSlot, serviceIds })
         }),
       });
 
       const result = await response.json();
 
       if (result.success) {
-        router.push('/customer?tab=requests&success=Service request submitted successfully');
+        const photoError = photos.length > 0 ? await uploadPhotos(result.data.request.id) : null;
+        const submitted = isAppointment ? 'Appointment booked' : 'Service request submitted';
+        const message = photoError
+          ? `${submitted}, but the photos were not uploaded: ${photoError}`
+          : result.message;
+        router.push(`/customer?tab=requests&success=${encodeURIComponent(message)}`);
       } else {
         setError(result.error || 'Failed to submit service request');
+        if (isAppointment && response.status === 409) {
+          setSelectedSlot(null);
+          fetchAvailableSlots();
+        }
       }
     } catch (error) {
       console.error('Submit request error:', error);
@@ -214,6 +338,7 @@ function RequestServiceContent() {
 
       <main className="max-w-3xl mx-auto py-6 sm:px-6 lg:px-8">
         <div className="px-4 py-6 sm:px-0">
+          <EmailVerificationBanner className="mb-6" />
           {loading ? (
             <div className="text-center py-12">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
@@ -256,8 +381,44 @@ function RequestServiceContent() {
                 </div>
               )}
 
+              {/* Request Type */}
+              <div className="mb-6 grid grid-cols-2 gap-2">
+                <button
+                  type="button"
+                  onClick={() => setMode('roadside')}
+                  className={`px-4 py-2 rounded-md text-sm font-medium border ${
+                    mode === 'roadside'
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  Roadside help now
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setMode('appointment')}
+                  className={`px-4 py-2 rounded-md text-sm font-medium border ${
+                    mode === 'appointment'
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  Book an appointment
+                </button>
+              </div>
+
+              {closedForRoadside && (
+                <div className="mb-6 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded text-sm">
+                  {garage.garageName} is closed right now{garage.closedReason && ` (${garage.closedReason})`}.
+                  {garage.nextOpeningAt && ` It opens again ${formatDateTime(new Date(garage.nextOpeningAt))}.`}
+                  {garage.emergencyAfterHours
+                    ? ` Emergency requests are still accepted with an after-hours surcharge of $${garage.afterHoursSurcharge.toFixed(2)}; set the urgency to Emergency to continue.`
+                    : ' You can book an appointment instead.'}
+                </div>
+              )}
+
               {/* Location Status */}
-              {locationError && (
+              {mode === 'roadside' && locationError && (
                 <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded flex items-center justify-between">
                   <span>{locationError}</span>
                   <button
@@ -269,7 +430,7 @@ function RequestServiceContent() {
                 </div>
               )}
 
-              {userLocation && (
+              {mode === 'roadside' && userLocation && (
                 <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
                   <div className="flex items-center">
                     <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -322,6 +483,92 @@ function RequestServiceContent() {
                   )}
                 </div>
 
+                {mode === 'appointment' && (
+                  <>
+                    <div>
+                      <label htmlFor="slot" className="block text-sm font-medium text-gray-700">
+                        Appointment Time *
+                      </label>
+                      <select
+                        id="slot"
+                        value={selectedSlot || ''}
+                        onChange={(e) => setSelectedSlot(e.target.value ? parseInt(e.target.value) : null)}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                        required
+                      >
+                        <option value="" className="text-gray-900">Choose a time</option>
+                        {slots.map((slot) => (
+                          <option key={slot.id} value={slot.id} className="text-gray-900">
+                            {formatDateTime(new Date(slot.startsAt))} ({slot.capacity - slot.bookedCount} left)
+                          </option>
+                        ))}
+                      </select>
+                      {slots.length === 0 && (
+                        <p className="mt-2 text-sm text-gray-500">
+                          This garage has no free appointment times in the next 30 days.
+                        </p>
+                      )}
+                    </div>
+
+                    {garage && garage.services.length > 0 && (
+                      <div>
+                        <span className="block text-sm font-medium text-gray-700">Services (Optional)</span>
+                        <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-2">
+                          {garage.services.map(({ service }) => (
+                            <label key={service.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                              <input
+                                type="checkbox"
+                                checked={serviceIds.includes(service.id)}
+                                onChange={() => toggleService(service.id)}
+                              />
+                              <span>{service.serviceName} (${service.estimatedPrice})</span>
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="symptomCategory" className="block text-sm font-medium text-gray-700">
+                      What&apos;s wrong?
+                    </label>
+                    <select
+                      id="symptomCategory"
+                      value={symptomCategory}
+                      onChange={(e) => setSymptomCategory(e.target.value as SymptomCategory | '')}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                    >
+                      <option value="" className="text-gray-900">Not sure</option>
+                      {Object.entries(SYMPTOM_CATEGORY_LABELS).map(([value, label]) => (
+                        <option key={value} value={value} className="text-gray-900">
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label htmlFor="urgency" className="block text-sm font-medium text-gray-700">
+                      Urgency
+                    </label>
+                    <select
+                      id="urgency"
+                      value={urgency}
+                      onChange={(e) => setUrgency(e.target.value as RequestUrgency)}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                    >
+                      {Object.entries(URGENCY_LABELS).map(([value, label]) => (
+                        <option key={value} value={value} className="text-gray-900">
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
                 <div>
                   <label htmlFor="description" className="block text-sm font-medium text-gray-700">
                     Problem Description (Optional)
@@ -329,6 +576,7 @@ function RequestServiceContent() {
                   <textarea
                     id="description"
                     rows={4}
+                    maxLength={MAX_DESCRIPTION_LENGTH}
                     value={description}
                     onChange={(e) => setDescription(e.target.value)}
                     placeholder="Describe the issue with your vehicle or specify the type of service needed..."
@@ -336,9 +584,30 @@ function RequestServiceContent() {
                   />
                 </div>
 
+                <div>
+                  <label htmlFor="photos" className="block text-sm font-medium text-gray-700">
+                    Photos (Optional)
+                  </label>
+                  <input
+                    id="photos"
+                    type="file"
+                    multiple
+                    accept={PHOTO_CONTENT_TYPES.join(',')}
+                    onChange={handlePhotosChange}
+                    className="mt-1 block w-full text-sm text-gray-900"
+                  />
+                  <p className="mt-1 text-sm text-gray-500">
+                    Up to {MAX_REQUEST_PHOTOS} JPEG, PNG or WebP images, {MAX_PHOTO_SIZE / (1024 * 1024)} MB each.
+                    {photos.length > 0 && ` ${photos.length} selected.`}
+                  </p>
+                </div>
+
                 <div className="bg-gray-50 p-4 rounded-lg">
                   <h3 className="text-sm font-medium text-gray-700 mb-2">What happens next?</h3>
                   <ul className="text-sm text-gray-600 space-y-1">
+                    {mode === 'appointment' && (
+                      <li>• Your time slot is reserved and you&apos;ll get a reminder the day before</li>
+                    )}
                     <li>• Your request will be sent to the selected garage</li>
                     <li>• A mechanic will review and accept your request</li>
                     <li>• You&apos;ll receive updates on the status of your service</li>
@@ -356,10 +625,13 @@ function RequestServiceContent() {
                   </button>
                   <button
                     type="submit"
-                    disabled={submitting || !selectedVehicle || !userLocation || vehicles.length === 0}
+                    disabled={
+                      submitting || !selectedVehicle || vehicles.length === 0 ||
+                      (mode === 'appointment' ? !selectedSlot : !userLocation || roadsideBlocked)
+                    }
                     className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white px-6 py-2 rounded-md font-medium"
                   >
-                    {submitting ? 'Submitting...' : 'Submit Request'}
+                    {submitting ? 'Submitting...' : mode === 'appointment' ? 'Book Appointment' : 'Submit Request'}
                   </button>
                 </div>
               </form>
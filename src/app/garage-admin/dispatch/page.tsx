@@ -0,0 +1,437 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState, useEffect, useCallback } from 'react';
+import { WEEKDAY_LABELS } from '@/lib/opening-hours';
+import type { DispatchMechanicProfile, GarageDispatchSettings, MechanicShift } from '@/types/auth';
+
+// Monday first, as on the opening hours page
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export default function GarageDispatchPage() {
+  const router = useRouter();
+  const [garageId, setGarageId] = useState<number | null>(null);
+  const [settings, setSettings] = useState<GarageDispatchSettings | null>(null);
+  const [editing, setEditing] = useState<DispatchMechanicProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const fetchSettings = useCallback(async (gId: number) => {
+    try {
+      const response = await fetch(`/api/garages/${gId}/dispatch`);
+      const result = await response.json();
+
+      if (result.success) {
+        setSettings(result.data.settings);
+      } else {
+        setError(result.error || 'Failed to fetch dispatch settings');
+      }
+    } catch (error) {
+      console.error('Fetch dispatch settings error:', error);
+      setError('Failed to fetch dispatch settings');
+    }
+  }, []);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/garages/profile');
+      const result = await response.json();
+
+      if (result.success && result.data.garage) {
+        setGarageId(result.data.garage.id);
+        await fetchSettings(result.data.garage.id);
+      } else {
+        setError('Could not load garage profile');
+      }
+    } catch (error) {
+      console.error('Fetch garage profile error:', error);
+      setError('Failed to load garage profile');
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchSettings]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+      router.push('/auth/signin');
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
+  };
+
+  const handleToggleAutoDispatch = async (autoDispatch: boolean) => {
+    if (!garageId) return;
+
+    setSubmitting(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(`/api/garages/${garageId}/dispatch`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ autoDispatch }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setSettings(result.data.settings);
+        setSuccess(result.message);
+      } else {
+        setError(result.error || 'Failed to update dispatch settings');
+      }
+    } catch (error) {
+      console.error('Update dispatch settings error:', error);
+      setError('Failed to update dispatch settings');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleSkill = (serviceId: number) => {
+    setEditing(prev => prev && ({
+      ...prev,
+      serviceIds: prev.serviceIds.includes(serviceId)
+        ? prev.serviceIds.filter(id => id !== serviceId)
+        : [...prev.serviceIds, serviceId]
+    }));
+  };
+
+  const addShift = (dayOfWeek: number) => {
+    setEditing(prev => prev && ({
+      ...prev,
+      shifts: [...prev.shifts, { dayOfWeek, startsAt: '08:00', endsAt: '17:00' }]
+    }));
+  };
+
+  const updateShift = (index: number, field: keyof Omit<MechanicShift, 'dayOfWeek'>, value: string) => {
+    setEditing(prev => prev && ({
+      ...prev,
+      shifts: prev.shifts.map((shift, i) => i === index ? { ...shift, [field]: value } : shift)
+    }));
+  };
+
+  const removeShift = (index: number) => {
+    setEditing(prev => prev && ({
+      ...prev,
+      shifts: prev.shifts.filter((_, i) => i !== index)
+    }));
+  };
+
+  const handleSaveMechanic = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!garageId || !editing) return;
+
+    setSubmitting(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(`/api/garages/${garageId}/dispatch/mechanics/${editing.mechanicId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ serviceIds: editing.serviceIds, shifts: editing.shifts }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setSettings(result.data.settings);
+        setEditing(null);
+        setSuccess(result.message);
+      } else {
+        setError(result.error || 'Failed to save mechanic');
+      }
+    } catch (error) {
+      console.error('Save mechanic dispatch profile error:', error);
+      setError('Failed to save mechanic');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const describeShifts = (shifts: MechanicShift[]) => {
+    if (shifts.length === 0) return 'Whenever the garage is open';
+    return WEEK_ORDER
+      .filter(day => shifts.some(shift => shift.dayOfWeek === day))
+      .map(day => `${WEEKDAY_LABELS[day].slice(0, 3)} ${shifts
+        .filter(shift => shift.dayOfWeek === day)
+        .map(shift => `${shift.startsAt}-${shift.endsAt}`)
+        .join(', ')}`)
+      .join('; ');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => router.push('/garage-admin')}
+              className="text-gray-600 hover:text-gray-900"
+            >
+              ← Back to Dashboard
+            </button>
+            <h1 className="text-3xl font-bold text-gray-900">Dispatch</h1>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => router.push('/garage-admin/mechanics')}
+              className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Mechanics
+            </button>
+            <button
+              onClick={() => router.push('/auth/change-password')}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Change Password
+            </button>
+            <button
+              onClick={handleLogout}
+              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Logout
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          {success && (
+            <div className="mb-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+              {success}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-teal-600 mx-auto"></div>
+              <p className="mt-2 text-gray-600">Loading dispatch settings...</p>
+            </div>
+          ) : settings && (
+            <>
+              {/* Auto-dispatch */}
+              <div className="bg-white shadow rounded-lg mb-8">
+                <div className="px-4 py-5 sm:p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">Automatic Dispatch</h3>
+                  <p className="text-sm text-gray-500 mb-4">
+                    New roadside requests are given straight to the best available mechanic: the one on shift with
+                    the most matching skills, the best ratings and the fewest open jobs. Each decision and the ranking
+                    behind it can be reviewed and overridden from the request.
+                  </p>
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={settings.autoDispatch}
+                      disabled={submitting}
+                      onChange={(e) => handleToggleAutoDispatch(e.target.checked)}
+                    />
+                    <span>Assign new requests automatically</span>
+                  </label>
+                </div>
+              </div>
+
+              {/* Mechanics */}
+              <div className="bg-white shadow rounded-lg">
+                <div className="px-4 py-5 sm:p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Skills &amp; Shifts</h3>
+
+                  {settings.mechanics.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      <p>No approved mechanics yet.</p>
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Mechanic
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Open Jobs
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Skills
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Shifts
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Actions
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {settings.mechanics.map((mechanic) => (
+                            <tr key={mechanic.mechanicId}>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                                {mechanic.firstName} {mechanic.lastName}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                {mechanic.openJobs}
+                              </td>
+                              <td className="px-6 py-4 text-sm text-gray-500">
+                                {mechanic.serviceIds.length === 0
+                                  ? '-'
+                                  : settings.services
+                                    .filter(service => mechanic.serviceIds.includes(service.id))
+                                    .map(service => service.serviceName)
+                                    .join(', ')}
+                              </td>
+                              <td className="px-6 py-4 text-sm text-gray-500">
+                                {describeShifts(mechanic.shifts)}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                                <button
+                                  onClick={() => setEditing(mechanic)}
+                                  className="text-teal-600 hover:text-teal-900"
+                                >
+                                  Edit
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+
+      {/* Edit Mechanic Modal */}
+      {editing && settings && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-11/12 md:w-2/3 lg:w-1/2 shadow-lg rounded-md bg-white">
+            <form onSubmit={handleSaveMechanic} className="space-y-6">
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-medium text-gray-900">
+                  {editing.firstName} {editing.lastName}
+                </h3>
+                <button
+                  type="button"
+                  onClick={() => setEditing(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">Skills</h4>
+                {settings.services.length === 0 ? (
+                  <p className="text-sm text-gray-500">The garage does not offer any services yet.</p>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {settings.services.map(service => (
+                      <label key={service.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={editing.serviceIds.includes(service.id)}
+                          onChange={() => toggleSkill(service.id)}
+                        />
+                        <span>{service.serviceName}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-700">Shifts</h4>
+                <p className="text-xs text-gray-500 mb-2">
+                  In the garage&apos;s time zone. Without shifts the mechanic counts as available whenever the garage is open.
+                </p>
+                <div className="divide-y divide-gray-200">
+                  {WEEK_ORDER.map(day => (
+                    <div key={day} className="py-2 flex items-start">
+                      <div className="w-28 pt-1 text-sm font-medium text-gray-900">{WEEKDAY_LABELS[day]}</div>
+                      <div className="flex-1 space-y-2">
+                        {editing.shifts.every(shift => shift.dayOfWeek !== day) && (
+                          <p className="pt-1 text-sm text-gray-500">Off</p>
+                        )}
+                        {editing.shifts.map((shift, index) => shift.dayOfWeek === day && (
+                          <div key={index} className="flex items-center space-x-2">
+                            <input
+                              type="time"
+                              required
+                              value={shift.startsAt}
+                              onChange={(e) => updateShift(index, 'startsAt', e.target.value)}
+                              className="border-gray-300 rounded-md shadow-sm text-gray-900"
+                            />
+                            <span className="text-gray-500">to</span>
+                            <input
+                              type="time"
+                              required
+                              value={shift.endsAt === '24:00' ? '23:59' : shift.endsAt}
+                              onChange={(e) => updateShift(index, 'endsAt', e.target.value === '23:59' ? '24:00' : e.target.value)}
+                              className="border-gray-300 rounded-md shadow-sm text-gray-900"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => removeShift(index)}
+                              className="text-red-600 hover:text-red-900 text-sm"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => addShift(day)}
+                        className="text-teal-600 hover:text-teal-900 text-sm font-medium"
+                      >
+                        + Add shift
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <button
+                  type="button"
+                  onClick={() => setEditing(null)}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded-md text-sm font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+                >
+                  {submitting ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,497 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState, useEffect, useCallback } from 'react';
+import { formatDateTime } from '@/utils/common';
+import { WEEKDAY_LABELS } from '@/lib/opening-hours';
+import type { GarageAvailability, GarageClosure, GarageScheduleData } from '@/types/auth';
+
+interface GarageSchedule extends GarageScheduleData, GarageAvailability {
+  closures: GarageClosure[];
+}
+
+// Monday first, as on most printed opening hours
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const TIME_ZONES = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+export default function GarageOpeningHoursPage() {
+  const router = useRouter();
+  const [garageId, setGarageId] = useState<number | null>(null);
+  const [schedule, setSchedule] = useState<GarageSchedule | null>(null);
+  const [form, setForm] = useState<GarageScheduleData>({
+    timezone: 'UTC',
+    emergencyAfterHours: false,
+    afterHoursSurcharge: 0,
+    cancellationFee: 0,
+    openingHours: []
+  });
+  const [closureForm, setClosureForm] = useState({ startDate: '', endDate: '', reason: '' });
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const applySchedule = (data: GarageSchedule) => {
+    setSchedule(data);
+    setForm({
+      timezone: data.timezone,
+      emergencyAfterHours: data.emergencyAfterHours,
+      afterHoursSurcharge: data.afterHoursSurcharge,
+      cancellationFee: data.cancellationFee,
+      openingHours: data.openingHours
+    });
+  };
+
+  const fetchSchedule = useCallback(async (gId: number) => {
+    try {
+      const response = await fetch(`/api/garages/${gId}/hours`);
+      const result = await response.json();
+
+      if (result.success) {
+        applySchedule(result.data.schedule);
+      } else {
+        setError(result.error || 'Failed to fetch opening hours');
+      }
+    } catch (error) {
+      console.error('Fetch opening hours error:', error);
+      setError('Failed to fetch opening hours');
+    }
+  }, []);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/garages/profile');
+      const result = await response.json();
+
+      if (result.success && result.data.garage) {
+        setGarageId(result.data.garage.id);
+        await fetchSchedule(result.data.garage.id);
+      } else {
+        setError('Could not load garage profile');
+      }
+    } catch (error) {
+      console.error('Fetch garage profile error:', error);
+      setError('Failed to load garage profile');
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchSchedule]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+      router.push('/auth/signin');
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
+  };
+
+  const addWindow = (dayOfWeek: number) => {
+    setForm(prev => ({
+      ...prev,
+      openingHours: [...prev.openingHours, { dayOfWeek, opensAt: '08:00', closesAt: '17:00' }]
+    }));
+  };
+
+  const updateWindow = (index: number, field: 'opensAt' | 'closesAt', value: string) => {
+    setForm(prev => ({
+      ...prev,
+      openingHours: prev.openingHours.map((entry, i) => i === index ? { ...entry, [field]: value } : entry)
+    }));
+  };
+
+  const removeWindow = (index: number) => {
+    setForm(prev => ({
+      ...prev,
+      openingHours: prev.openingHours.filter((_, i) => i !== index)
+    }));
+  };
+
+  const handleSaveHours = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!garageId) return;
+
+    setSubmitting(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(`/api/garages/${garageId}/hours`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(form),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        applySchedule(result.data.schedule);
+        setSuccess(result.message);
+      } else {
+        setError(result.error || 'Failed to save opening hours');
+      }
+    } catch (error) {
+      console.error('Save opening hours error:', error);
+      setError('Failed to save opening hours');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAddClosure = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!garageId) return;
+
+    setSubmitting(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(`/api/garages/${garageId}/closures`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...closureForm,
+          endDate: closureForm.endDate || closureForm.startDate
+        }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setClosureForm({ startDate: '', endDate: '', reason: '' });
+        setSuccess(result.message);
+        await fetchSchedule(garageId);
+      } else {
+        setError(result.error || 'Failed to add closure');
+      }
+    } catch (error) {
+      console.error('Add closure error:', error);
+      setError('Failed to add closure');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRemoveClosure = async (closure: GarageClosure) => {
+    if (!garageId) return;
+
+    setSubmitting(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(`/api/garages/${garageId}/closures/${closure.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        await fetchSchedule(garageId);
+      } else {
+        setError(result.error || 'Failed to remove closure');
+      }
+    } catch (error) {
+      console.error('Remove closure error:', error);
+      setError('Failed to remove closure');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => router.push('/garage-admin')}
+              className="text-gray-600 hover:text-gray-900"
+            >
+              ← Back to Dashboard
+            </button>
+            <h1 className="text-3xl font-bold text-gray-900">Opening Hours</h1>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => router.push('/garage-admin/slots')}
+              className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Appointment Slots
+            </button>
+            <button
+              onClick={() => router.push('/auth/change-password')}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Change Password
+            </button>
+            <button
+              onClick={handleLogout}
+              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Logout
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          {success && (
+            <div className="mb-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+              {success}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-teal-600 mx-auto"></div>
+              <p className="mt-2 text-gray-600">Loading opening hours...</p>
+            </div>
+          ) : (
+            <>
+              {schedule && (
+                <div className={`mb-8 px-4 py-3 rounded border ${
+                  schedule.openNow ? 'bg-green-50 border-green-200 text-green-800' : 'bg-gray-50 border-gray-200 text-gray-800'
+                }`}>
+                  {schedule.openNow ? 'Open now - customers can send roadside requests.' : `Closed now (${schedule.closedReason}).`}
+                  {schedule.nextOpeningAt && ` Opens again ${formatDateTime(new Date(schedule.nextOpeningAt))}.`}
+                  {schedule.openingHours.length === 0 && ' No opening hours are set, so the garage counts as always open.'}
+                </div>
+              )}
+
+              {/* Weekly Hours */}
+              <div className="bg-white shadow rounded-lg mb-8">
+                <form onSubmit={handleSaveHours} className="px-4 py-5 sm:p-6 space-y-6">
+                  <h3 className="text-lg font-medium text-gray-900">Weekly Hours</h3>
+
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div>
+                      <label htmlFor="timezone" className="block text-sm font-medium text-gray-700">Time zone</label>
+                      <input
+                        id="timezone"
+                        type="text"
+                        list="timezones"
+                        required
+                        value={form.timezone}
+                        onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500 text-gray-900"
+                      />
+                      <datalist id="timezones">
+                        {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+                      </datalist>
+                    </div>
+                    <div className="flex items-end">
+                      <label className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={form.emergencyAfterHours}
+                          onChange={(e) => setForm({ ...form, emergencyAfterHours: e.target.checked })}
+                        />
+                        <span>Accept emergency requests when closed</span>
+                      </label>
+                    </div>
+                    <div>
+                      <label htmlFor="surcharge" className="block text-sm font-medium text-gray-700">After-hours surcharge ($)</label>
+                      <input
+                        id="surcharge"
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        disabled={!form.emergencyAfterHours}
+                        value={form.afterHoursSurcharge}
+                        onChange={(e) => setForm({ ...form, afterHoursSurcharge: parseFloat(e.target.value) || 0 })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500 text-gray-900 disabled:bg-gray-100"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="cancellationFee" className="block text-sm font-medium text-gray-700">Cancellation fee ($)</label>
+                      <input
+                        id="cancellationFee"
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={form.cancellationFee}
+                        onChange={(e) => setForm({ ...form, cancellationFee: parseFloat(e.target.value) || 0 })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500 text-gray-900"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">Charged when a customer cancels after a mechanic was dispatched</p>
+                    </div>
+                  </div>
+
+                  <div className="divide-y divide-gray-200">
+                    {WEEK_ORDER.map(day => (
+                      <div key={day} className="py-3 flex items-start">
+                        <div className="w-32 pt-1 text-sm font-medium text-gray-900">{WEEKDAY_LABELS[day]}</div>
+                        <div className="flex-1 space-y-2">
+                          {form.openingHours.every(entry => entry.dayOfWeek !== day) && (
+                            <p className="pt-1 text-sm text-gray-500">Closed</p>
+                          )}
+                          {form.openingHours.map((entry, index) => entry.dayOfWeek === day && (
+                            <div key={index} className="flex items-center space-x-2">
+                              <input
+                                type="time"
+                                required
+                                value={entry.opensAt}
+                                onChange={(e) => updateWindow(index, 'opensAt', e.target.value)}
+                                className="border-gray-300 rounded-md shadow-sm text-gray-900"
+                              />
+                              <span className="text-gray-500">to</span>
+                              <input
+                                type="time"
+                                required
+                                value={entry.closesAt === '24:00' ? '23:59' : entry.closesAt}
+                                onChange={(e) => updateWindow(index, 'closesAt', e.target.value === '23:59' ? '24:00' : e.target.value)}
+                                className="border-gray-300 rounded-md shadow-sm text-gray-900"
+                              />
+                              <button
+                                type="button"
+                                onClick={() => removeWindow(index)}
+                                className="text-red-600 hover:text-red-900 text-sm"
+                              >
+                                Remove
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => addWindow(day)}
+                          className="text-teal-600 hover:text-teal-900 text-sm font-medium"
+                        >
+                          + Add hours
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex justify-end">
+                    <button
+                      type="submit"
+                      disabled={submitting}
+                      className="bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+                    >
+                      {submitting ? 'Saving...' : 'Save Opening Hours'}
+                    </button>
+                  </div>
+                </form>
+              </div>
+
+              {/* Holidays & Closures */}
+              <div className="bg-white shadow rounded-lg">
+                <div className="px-4 py-5 sm:p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Holidays &amp; Closures</h3>
+
+                  <form onSubmit={handleAddClosure} className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+                    <div>
+                      <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">From</label>
+                      <input
+                        id="startDate"
+                        type="date"
+                        required
+                        value={closureForm.startDate}
+                        onChange={(e) => setClosureForm({ ...closureForm, startDate: e.target.value })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500 text-gray-900"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">To (optional)</label>
+                      <input
+                        id="endDate"
+                        type="date"
+                        min={closureForm.startDate}
+                        value={closureForm.endDate}
+                        onChange={(e) => setClosureForm({ ...closureForm, endDate: e.target.value })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500 text-gray-900"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="reason" className="block text-sm font-medium text-gray-700">Reason</label>
+                      <input
+                        id="reason"
+                        type="text"
+                        maxLength={200}
+                        placeholder="e.g. Public holiday"
+                        value={closureForm.reason}
+                        onChange={(e) => setClosureForm({ ...closureForm, reason: e.target.value })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500 text-gray-900"
+                      />
+                    </div>
+                    <div className="flex items-end">
+                      <button
+                        type="submit"
+                        disabled={submitting}
+                        className="bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+                      >
+                        Add Closure
+                      </button>
+                    </div>
+                  </form>
+
+                  {!schedule || schedule.closures.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      <p>No upcoming closures.</p>
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Dates
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Reason
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Actions
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {schedule.closures.map((closure) => (
+                            <tr key={closure.id}>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                                {closure.startDate === closure.endDate ? closure.startDate : `${closure.startDate} - ${closure.endDate}`}
+                              </td>
+                              <td className="px-6 py-4 text-sm text-gray-500">
+                                {closure.reason || '-'}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                                <button
+                                  onClick={() => handleRemoveClosure(closure)}
+                                  disabled={submitting}
+                                  className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                                >
+                                  Remove
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
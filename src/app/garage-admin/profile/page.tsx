@@ -316,6 +316,11 @@ export default function GarageProfilePage() {
                   Garage is available for new service requests
                 </label>
               </div>
+              <p className="-mt-4 text-sm text-gray-500">
+                Within this, requests are only taken during your{' '}
+                <Link href="/garage-admin/hours" className="text-indigo-600 hover:text-indigo-500">opening hours</Link>.
+                Untick to close temporarily.
+              </p>
 
               <div>
                 <div className="flex items-center justify-between mb-2">
@@ -3,15 +3,37 @@
 import { useRouter } from 'next/navigation';
 import { useState, useEffect, useCallback } from 'react';
 import { formatDateTime } from '@/utils/common';
+import ServiceRequestProblem, { UrgencyBadge } from '@/components/ServiceRequestProblem';
+import DispatchPanel from '@/components/DispatchPanel';
+import RequestHandoverPanel from '@/components/RequestHandoverPanel';
+import RequestTimeline from '@/components/RequestTimeline';
+import RequestChat, { UnreadMessagesBadge } from '@/components/RequestChat';
+import RequestEstimates from '@/components/RequestEstimates';
+import { useUnreadMessages } from '@/hooks/useUnreadMessages';
+import MechanicTrackingPanel from '@/components/MechanicTrackingPanel';
+import RequestStatusReasonForm from '@/components/RequestStatusReasonForm';
+import { usePermissions } from '@/hooks/usePermissions';
+import { PERMISSIONS } from '@/lib/permissions';
+import {
+  CANCELLATION_CATEGORY_LABELS,
+  canTransition,
+  HOLD_REASON_LABELS,
+  REQUEST_STATUS_BADGE_STYLES,
+  REQUEST_STATUS_LABELS
+} from '@/lib/request-status';
 import type { ServiceRequest } from '@/types/auth';
 
 export default function GarageAdminRequests() {
   const router = useRouter();
+  const { can } = usePermissions();
   const [requests, setRequests] = useState<ServiceRequest[]>([]);
+  const { unread: unreadMessages, refresh: refreshUnreadMessages } = useUnreadMessages();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [selectedRequest, setSelectedRequest] = useState<ServiceRequest | null>(null);
+  const [reasonStatus, setReasonStatus] = useState<'CANCELLED' | 'REJECTED_BY_GARAGE' | null>(null);
+  const [success, setSuccess] = useState('');
   const fetchRequests = useCallback(async () => {
     try {
       setLoading(true);
@@ -42,6 +64,17 @@ export default function GarageAdminRequests() {
     fetchRequests();
   }, [fetchRequests]);
 
+  // Keep the open request in step with the list, e.g. after it was assigned from the modal
+  useEffect(() => {
+    setSelectedRequest(prev => prev && (requests.find(request => request.id === prev.id) ?? prev));
+  }, [requests]);
+
+
+  const handleReasonStatusDone = async (message: string) => {
+    setSuccess(message);
+    setReasonStatus(null);
+    await fetchRequests();
+  };
 
   const handleLogout = async () => {
     try {
@@ -53,16 +86,8 @@ export default function GarageAdminRequests() {
   };
 
   const getStatusBadge = (status: string) => {
-    const statusStyles = {
-      PENDING: 'bg-yellow-100 text-yellow-800',
-      ACCEPTED: 'bg-blue-100 text-blue-800',
-      IN_PROGRESS: 'bg-purple-100 text-purple-800',
-      COMPLETED: 'bg-green-100 text-green-800',
-      CANCELLED: 'bg-red-100 text-red-800'
-    };
-
     return (
-      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[status as keyof typeof statusStyles] || 'bg-gray-100 text-gray-800'}`}>
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${REQUEST_STATUS_BADGE_STYLES[status as ServiceRequest['status']] || 'bg-gray-100 text-gray-800'}`}>
         {status}
       </span>
     );
@@ -112,8 +137,8 @@ export default function GarageAdminRequests() {
           )}
 
           {/* Status Summary Cards */}
-          <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6">
-            {['all', 'PENDING', 'ACCEPTED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'].map((status) => (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+            {['all', ...Object.keys(REQUEST_STATUS_LABELS)].map((status) => (
               <div
                 key={status}
                 className={`bg-white p-4 rounded-lg shadow cursor-pointer transition-colors ${
@@ -124,7 +149,7 @@ export default function GarageAdminRequests() {
                 <div className="text-center">
                   <div className="text-2xl font-bold text-gray-900">{getStatusCount(status)}</div>
                   <div className="text-sm text-gray-600">
-                    {status === 'all' ? 'All' : status.replace('_', ' ')}
+                    {status === 'all' ? 'All' : REQUEST_STATUS_LABELS[status as ServiceRequest['status']]}
                   </div>
                 </div>
               </div>
@@ -169,11 +194,17 @@ export default function GarageAdminRequests() {
                               Request #{request.id}
                             </h4>
                             {getStatusBadge(request.status)}
+                            <UrgencyBadge urgency={request.urgency} />
+                            <UnreadMessagesBadge count={unreadMessages.requests[request.id]} />
                           </div>
                           <div className="text-sm text-gray-600 space-y-1">
                             <div>Customer: {request.customer.firstName} {request.customer.lastName}</div>
                             <div>Vehicle: {request.vehicle.vehicleType} - {request.vehicle.plateCode} {request.vehicle.plateNumber}</div>
+                            <ServiceRequestProblem request={request} compact />
                             <div>Created: {formatDateTime(new Date(request.createdAt))}</div>
+                            {request.scheduledFor && (
+                              <div>Appointment: {formatDateTime(new Date(request.scheduledFor))}</div>
+                            )}
                             {request.mechanic && (
                               <div>Assigned to: {request.mechanic.firstName} {request.mechanic.lastName}</div>
                             )}
@@ -181,7 +212,11 @@ export default function GarageAdminRequests() {
                         </div>
                         <div className="flex space-x-2">
                           <button
-                            onClick={() => setSelectedRequest(request)}
+                            onClick={() => {
+                              setSelectedRequest(request);
+                              setReasonStatus(null);
+                              setSuccess('');
+                            }}
                             className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-sm font-medium"
                           >
                             Details
@@ -235,9 +270,31 @@ export default function GarageAdminRequests() {
                         <div>Type: {selectedRequest.vehicle.vehicleType}</div>
                         <div>Plate: {selectedRequest.vehicle.plateCode} {selectedRequest.vehicle.plateNumber}</div>
                         <div>Color: {selectedRequest.vehicle.color}</div>
+                        {selectedRequest.vehicle.make && <div>Make: {selectedRequest.vehicle.make}</div>}
+                        {selectedRequest.vehicle.modelYear && <div>Model Year: {selectedRequest.vehicle.modelYear}</div>}
+                        {selectedRequest.vehicle.vin && <div>VIN: <span className="font-mono">{selectedRequest.vehicle.vin}</span></div>}
                       </div>
                     </div>
 
+                    <ServiceRequestProblem request={selectedRequest} />
+
+                    {selectedRequest.scheduledFor && (
+                      <div className="text-sm space-y-1">
+                        <div>
+                          <span className="font-medium text-gray-700">Appointment:</span>
+                          <span className="ml-2">{formatDateTime(new Date(selectedRequest.scheduledFor))}</span>
+                        </div>
+                        {selectedRequest.requestedServices.length > 0 && (
+                          <div>
+                            <span className="font-medium text-gray-700">Requested services:</span>
+                            <span className="ml-2">
+                              {selectedRequest.requestedServices.map(({ service }) => service.serviceName).join(', ')}
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     <div>
                       <span className="text-sm font-medium text-gray-700">Request Date:</span>
                       <span className="ml-2 text-sm">{formatDateTime(new Date(selectedRequest.createdAt))}</span>
@@ -259,7 +316,40 @@ export default function GarageAdminRequests() {
                         As a garage admin, you can monitor and oversee all requests. Mechanics can accept and update their assigned requests directly.
                       </div>
                       
-                      {['ACCEPTED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'].includes(selectedRequest.status) && (
+                      {success && (
+                        <div className="bg-green-50 border border-green-200 text-green-700 px-3 py-2 rounded mb-3 text-sm">
+                          {success}
+                        </div>
+                      )}
+
+                      {selectedRequest.status === 'EN_ROUTE' && (
+                        <div className="border border-cyan-200 rounded p-3 mb-3">
+                          <MechanicTrackingPanel key={selectedRequest.id} request={selectedRequest} />
+                        </div>
+                      )}
+
+                      {selectedRequest.status === 'ON_HOLD' && selectedRequest.holdReason && (
+                        <div className="bg-orange-50 rounded p-3 mb-3 text-sm text-orange-800">
+                          On hold: {HOLD_REASON_LABELS[selectedRequest.holdReason]}
+                          {selectedRequest.statusNote && ` - ${selectedRequest.statusNote}`}
+                        </div>
+                      )}
+
+                      {selectedRequest.status === 'REJECTED_BY_GARAGE' && (
+                        <div className="bg-red-50 rounded p-3 mb-3 text-sm text-red-800">
+                          Rejected: {selectedRequest.statusNote}
+                        </div>
+                      )}
+
+                      {selectedRequest.status === 'CANCELLED' && selectedRequest.cancellationCategory && (
+                        <div className="bg-red-50 rounded p-3 mb-3 text-sm text-red-800">
+                          Cancelled: {CANCELLATION_CATEGORY_LABELS[selectedRequest.cancellationCategory]}
+                          {selectedRequest.cancellationReason && ` - ${selectedRequest.cancellationReason}`}
+                          {selectedRequest.cancellationFee !== null && ` (cancellation fee $${selectedRequest.cancellationFee.toFixed(2)} invoiced)`}
+                        </div>
+                      )}
+
+                      {!canTransition(selectedRequest.status, 'ACCEPTED') && (
                         <div className="bg-gray-50 rounded p-3">
                           <div className="text-sm text-gray-600">
                             This request is currently being handled by the assigned mechanic or has been completed.
@@ -267,6 +357,14 @@ export default function GarageAdminRequests() {
                         </div>
                       )}
 
+                      {selectedRequest.status === 'SCHEDULED' && (
+                        <div className="bg-indigo-50 rounded p-3">
+                          <div className="text-sm text-indigo-800">
+                            This appointment is booked. A mechanic can accept it ahead of the appointment time.
+                          </div>
+                        </div>
+                      )}
+
                       {selectedRequest.status === 'PENDING' && (
                         <div className="bg-yellow-50 rounded p-3">
                           <div className="text-sm text-yellow-800">
@@ -274,6 +372,69 @@ export default function GarageAdminRequests() {
                           </div>
                         </div>
                       )}
+
+                      {can(PERMISSIONS.REQUESTS_UPDATE) && (
+                        reasonStatus ? (
+                          <div className="mt-4">
+                            <RequestStatusReasonForm
+                              request={selectedRequest}
+                              status={reasonStatus}
+                              onDone={handleReasonStatusDone}
+                              onClose={() => setReasonStatus(null)}
+                            />
+                          </div>
+                        ) : (
+                          <div className="mt-4 flex space-x-2">
+                            {canTransition(selectedRequest.status, 'REJECTED_BY_GARAGE') && (
+                              <button
+                                onClick={() => setReasonStatus('REJECTED_BY_GARAGE')}
+                                className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded-md text-sm font-medium"
+                              >
+                                Reject Request
+                              </button>
+                            )}
+                            {canTransition(selectedRequest.status, 'CANCELLED') && (
+                              <button
+                                onClick={() => setReasonStatus('CANCELLED')}
+                                className="bg-gray-100 hover:bg-gray-200 text-red-700 px-3 py-1 rounded-md text-sm font-medium"
+                              >
+                                Cancel Request
+                              </button>
+                            )}
+                          </div>
+                        )
+                      )}
+
+                      {can(PERMISSIONS.REQUESTS_ASSIGN) && !['CANCELLED', 'REJECTED_BY_GARAGE'].includes(selectedRequest.status) && (
+                        <div className="mt-4">
+                          <DispatchPanel
+                            key={selectedRequest.id}
+                            request={selectedRequest}
+                            onAssigned={fetchRequests}
+                          />
+                        </div>
+                      )}
+
+                      <div className="mt-4">
+                        <RequestHandoverPanel
+                          key={selectedRequest.id}
+                          request={selectedRequest}
+                          canAssign={can(PERMISSIONS.REQUESTS_ASSIGN)}
+                          onChanged={fetchRequests}
+                        />
+                      </div>
+
+                      <div className="mt-4">
+                        <RequestEstimates key={selectedRequest.id} request={selectedRequest} onChanged={fetchRequests} />
+                      </div>
+
+                      <div className="mt-4">
+                        <RequestChat key={selectedRequest.id} request={selectedRequest} onRead={refreshUnreadMessages} />
+                      </div>
+
+                      <div className="mt-4">
+                        <RequestTimeline key={selectedRequest.id} request={selectedRequest} />
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,489 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState, useEffect, useCallback } from 'react';
+import { formatDateTime } from '@/utils/common';
+import type { AppointmentSlot } from '@/types/auth';
+
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+// How far ahead the list of slots reaches
+const LIST_RANGE_DAYS = 28;
+
+interface SlotForm {
+  fromDate: string;
+  toDate: string;
+  weekdays: number[];
+  times: string;
+  durationMinutes: number;
+  capacity: number;
+}
+
+const toDateInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 10);
+};
+
+// Every start time on the chosen weekdays between the two dates, in the browser's time zone
+function buildSlots(form: SlotForm) {
+  const times = form.times.split(',').map(time => time.trim()).filter(Boolean);
+  const slots: { startsAt: string; endsAt: string; capacity: number }[] = [];
+
+  for (const time of times) {
+    if (!/^\d{1,2}:\d{2}$/.test(time)) return null;
+  }
+
+  const day = new Date(`${form.fromDate}T00:00`);
+  const lastDay = new Date(`${form.toDate}T00:00`);
+
+  while (day <= lastDay) {
+    if (form.weekdays.includes(day.getDay())) {
+      for (const time of times) {
+        const [hours, minutes] = time.split(':').map(Number);
+        const startsAt = new Date(day);
+        startsAt.setHours(hours, minutes, 0, 0);
+        const endsAt = new Date(startsAt.getTime() + form.durationMinutes * 60000);
+        slots.push({ startsAt: startsAt.toISOString(), endsAt: endsAt.toISOString(), capacity: form.capacity });
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+
+  return slots;
+}
+
+export default function GarageAppointmentSlots() {
+  const router = useRouter();
+  const [garageId, setGarageId] = useState<number | null>(null);
+  const [slots, setSlots] = useState<AppointmentSlot[]>([]);
+  const [capacityEdits, setCapacityEdits] = useState<Record<number, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [form, setForm] = useState<SlotForm>(() => {
+    const today = new Date();
+    return {
+      fromDate: toDateInput(today),
+      toDate: toDateInput(new Date(today.getTime() + 13 * 24 * 60 * 60 * 1000)),
+      weekdays: [1, 2, 3, 4, 5],
+      times: '09:00, 10:00, 11:00, 13:00, 14:00, 15:00',
+      durationMinutes: 60,
+      capacity: 2,
+    };
+  });
+
+  const fetchSlots = useCallback(async (gId: number) => {
+    try {
+      const to = new Date(Date.now() + LIST_RANGE_DAYS * 24 * 60 * 60 * 1000);
+      const response = await fetch(`/api/garages/${gId}/slots?to=${encodeURIComponent(to.toISOString())}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setSlots(result.data.slots);
+        setCapacityEdits({});
+      } else {
+        setError(result.error || 'Failed to fetch appointment slots');
+      }
+    } catch (error) {
+      console.error('Fetch slots error:', error);
+      setError('Failed to fetch appointment slots');
+    }
+  }, []);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/garages/profile');
+      const result = await response.json();
+
+      if (result.success && result.data.garage) {
+        setGarageId(result.data.garage.id);
+        await fetchSlots(result.data.garage.id);
+      } else {
+        setError('Could not load garage profile');
+      }
+    } catch (error) {
+      console.error('Fetch garage profile error:', error);
+      setError('Failed to load garage profile');
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchSlots]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+      router.push('/auth/signin');
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    setForm(prev => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(weekday)
+        ? prev.weekdays.filter(day => day !== weekday)
+        : [...prev.weekdays, weekday]
+    }));
+  };
+
+  const handleCreateSlots = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!garageId) return;
+
+    const newSlots = buildSlots(form);
+    if (!newSlots) {
+      setError('Start times must look like 09:00, separated by commas');
+      return;
+    }
+
+    // Slots in the past are skipped, e.g. earlier today
+    const futureSlots = newSlots.filter(slot => new Date(slot.startsAt) > new Date());
+    if (futureSlots.length === 0) {
+      setError('The chosen days and times do not produce any future slots');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(`/api/garages/${garageId}/slots`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ slots: futureSlots }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setSuccess(result.message);
+        await fetchSlots(garageId);
+      } else {
+        setError(result.error || 'Failed to create slots');
+      }
+    } catch (error) {
+      console.error('Create slots error:', error);
+      setError('Failed to create slots');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleUpdateCapacity = async (slot: AppointmentSlot) => {
+    if (!garageId) return;
+
+    setSubmitting(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(`/api/garages/${garageId}/slots/${slot.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ capacity: capacityEdits[slot.id] }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        await fetchSlots(garageId);
+      } else {
+        setError(result.error || 'Failed to update slot');
+      }
+    } catch (error) {
+      console.error('Update slot error:', error);
+      setError('Failed to update slot');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDeleteSlot = async (slot: AppointmentSlot) => {
+    if (!garageId) return;
+    if (!confirm(`Remove the slot on ${formatDateTime(new Date(slot.startsAt))}?`)) return;
+
+    setSubmitting(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(`/api/garages/${garageId}/slots/${slot.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        await fetchSlots(garageId);
+      } else {
+        setError(result.error || 'Failed to remove slot');
+      }
+    } catch (error) {
+      console.error('Delete slot error:', error);
+      setError('Failed to remove slot');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => router.push('/garage-admin')}
+              className="text-gray-600 hover:text-gray-900"
+            >
+              ← Back to Dashboard
+            </button>
+            <h1 className="text-3xl font-bold text-gray-900">Appointment Slots</h1>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => router.push('/garage-admin/requests')}
+              className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Service Requests
+            </button>
+            <button
+              onClick={() => router.push('/auth/change-password')}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Change Password
+            </button>
+            <button
+              onClick={handleLogout}
+              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Logout
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          {success && (
+            <div className="mb-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+              {success}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-teal-600 mx-auto"></div>
+              <p className="mt-2 text-gray-600">Loading slots...</p>
+            </div>
+          ) : (
+            <>
+              {/* Add Slots */}
+              <div className="bg-white shadow rounded-lg mb-8">
+                <form onSubmit={handleCreateSlots} className="px-4 py-5 sm:p-6 space-y-4">
+                  <h3 className="text-lg font-medium text-gray-900">Add Slots</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div>
+                      <label htmlFor="fromDate" className="block text-sm font-medium text-gray-700">From</label>
+                      <input
+                        id="fromDate"
+                        type="date"
+                        required
+                        value={form.fromDate}
+                        onChange={(e) => setForm({ ...form, fromDate: e.target.value })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500 text-gray-900"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="toDate" className="block text-sm font-medium text-gray-700">To</label>
+                      <input
+                        id="toDate"
+                        type="date"
+                        required
+                        value={form.toDate}
+                        onChange={(e) => setForm({ ...form, toDate: e.target.value })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500 text-gray-900"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="duration" className="block text-sm font-medium text-gray-700">Length (minutes)</label>
+                      <input
+                        id="duration"
+                        type="number"
+                        min={15}
+                        max={1440}
+                        step={15}
+                        required
+                        value={form.durationMinutes}
+                        onChange={(e) => setForm({ ...form, durationMinutes: parseInt(e.target.value) || 0 })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500 text-gray-900"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="capacity" className="block text-sm font-medium text-gray-700">Vehicles per slot</label>
+                      <input
+                        id="capacity"
+                        type="number"
+                        min={1}
+                        max={50}
+                        required
+                        value={form.capacity}
+                        onChange={(e) => setForm({ ...form, capacity: parseInt(e.target.value) || 0 })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500 text-gray-900"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <span className="block text-sm font-medium text-gray-700">Days</span>
+                    <div className="mt-1 flex flex-wrap gap-4">
+                      {WEEKDAYS.map(({ value, label }) => (
+                        <label key={value} className="flex items-center space-x-1 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={form.weekdays.includes(value)}
+                            onChange={() => toggleWeekday(value)}
+                          />
+                          <span>{label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <label htmlFor="times" className="block text-sm font-medium text-gray-700">Start times</label>
+                    <input
+                      id="times"
+                      type="text"
+                      required
+                      value={form.times}
+                      onChange={(e) => setForm({ ...form, times: e.target.value })}
+                      placeholder="09:00, 10:00, 11:00"
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500 text-gray-900"
+                    />
+                  </div>
+                  <div className="flex justify-end">
+                    <button
+                      type="submit"
+                      disabled={submitting || form.weekdays.length === 0}
+                      className="bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+                    >
+                      {submitting ? 'Saving...' : 'Create Slots'}
+                    </button>
+                  </div>
+                </form>
+              </div>
+
+              {/* Upcoming Slots */}
+              <div className="bg-white shadow rounded-lg">
+                <div className="px-4 py-5 sm:p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">
+                    Next {LIST_RANGE_DAYS} Days ({slots.length} slots)
+                  </h3>
+
+                  {slots.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      <p>No upcoming slots. Customers cannot book appointments until you add some.</p>
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Starts
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Ends
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Booked
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Capacity
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Actions
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {slots.map((slot) => (
+                            <tr key={slot.id}>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                                {formatDateTime(new Date(slot.startsAt))}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                {formatDateTime(new Date(slot.endsAt))}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                                  slot.bookedCount >= slot.capacity
+                                    ? 'bg-red-100 text-red-800'
+                                    : 'bg-green-100 text-green-800'
+                                }`}>
+                                  {slot.bookedCount} / {slot.capacity}
+                                </span>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                <input
+                                  type="number"
+                                  min={Math.max(1, slot.bookedCount)}
+                                  max={50}
+                                  value={capacityEdits[slot.id] ?? slot.capacity}
+                                  onChange={(e) => setCapacityEdits({ ...capacityEdits, [slot.id]: parseInt(e.target.value) || 0 })}
+                                  className="w-20 border-gray-300 rounded-md shadow-sm text-gray-900"
+                                />
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                                <button
+                                  onClick={() => handleUpdateCapacity(slot)}
+                                  disabled={submitting || capacityEdits[slot.id] === undefined || capacityEdits[slot.id] === slot.capacity}
+                                  className="text-teal-600 hover:text-teal-900 disabled:opacity-50"
+                                >
+                                  Save
+                                </button>
+                                <button
+                                  onClick={() => handleDeleteSlot(slot)}
+                                  disabled={submitting || slot.bookedCount > 0}
+                                  title={slot.bookedCount > 0 ? 'Slots with bookings cannot be removed' : undefined}
+                                  className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                                >
+                                  Remove
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -33,6 +33,7 @@ export const metadata: Metadata = {
 };
 
 import ErrorBoundary from '@/components/ErrorBoundary';
+import ImpersonationBanner from '@/components/ImpersonationBanner';
 
 export default function RootLayout({
   children,
@@ -45,6 +46,7 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         <ErrorBoundary>
+          <ImpersonationBanner />
           {children}
         </ErrorBoundary>
       </body>
@@ -3,6 +3,17 @@
 import { useRouter } from 'next/navigation';
 import { useState, useEffect, useCallback } from 'react';
 import { formatDateTime } from '@/utils/common';
+import RequestHandoverPanel from '@/components/RequestHandoverPanel';
+import MechanicLocationSharing from '@/components/MechanicLocationSharing';
+import RequestTimeline from '@/components/RequestTimeline';
+import RequestChat, { UnreadMessagesBadge } from '@/components/RequestChat';
+import RequestEstimates from '@/components/RequestEstimates';
+import RequestVehicleDocuments from '@/components/RequestVehicleDocuments';
+import { useUnreadMessages } from '@/hooks/useUnreadMessages';
+import RequestStatusReasonForm from '@/components/RequestStatusReasonForm';
+import ServiceRequestProblem, { UrgencyBadge } from '@/components/ServiceRequestProblem';
+import { canTransition, HOLD_REASON_LABELS, isActiveRequestStatus, isTrackingLive, REQUEST_STATUS_BADGE_STYLES } from '@/lib/request-status';
+import { usePermissions } from '@/hooks/usePermissions';
 import type { ServiceRequest, VehicleStatus, Notification, ServiceSummary, ServiceCompletionData } from '@/types/auth';
 
 // Performance data types
@@ -52,6 +63,8 @@ interface PerformanceData {
 
 export default function MechanicDashboard() {
   const router = useRouter();
+  const { userId } = usePermissions();
+  const { unread: unreadMessages, refresh: refreshUnreadMessages } = useUnreadMessages();
   const [requests, setRequests] = useState<ServiceRequest[]>([]);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(true);
@@ -60,6 +73,7 @@ export default function MechanicDashboard() {
   const [selectedRequest, setSelectedRequest] = useState<ServiceRequest | null>(null);
   const [activeTab, setActiveTab] = useState<'requests' | 'tracking' | 'notifications' | 'performance'>('requests');
   const [updatingStatus, setUpdatingStatus] = useState(false);
+  const [reasonStatus, setReasonStatus] = useState<'CANCELLED' | 'ON_HOLD' | null>(null);
   
   // Performance tracking states
   const [performanceData, setPerformanceData] = useState<PerformanceData | null>(null);
@@ -70,6 +84,7 @@ export default function MechanicDashboard() {
   const [vehicleStatuses, setVehicleStatuses] = useState<VehicleStatus[]>([]);
   const [selectedServiceRequest, setSelectedServiceRequest] = useState<number | null>(null);
   const [newStatusDescription, setNewStatusDescription] = useState('');
+  const [newStatusOdometer, setNewStatusOdometer] = useState('');
   const [availableServices, setAvailableServices] = useState<{ id: number; name: string; basePrice: number }[]>([]);
 
   // Service completion states
@@ -228,7 +243,8 @@ export default function MechanicDashboard() {
         },
         body: JSON.stringify({
           serviceRequestId: selectedServiceRequest,
-          description: newStatusDescription.trim()
+          description: newStatusDescription.trim(),
+          odometerKm: newStatusOdometer ? parseInt(newStatusOdometer) : null
         }),
       });
 
@@ -236,6 +252,7 @@ export default function MechanicDashboard() {
 
       if (result.success) {
         setNewStatusDescription('');
+        setNewStatusOdometer('');
         await fetchVehicleStatuses(selectedServiceRequest);
       } else {
         setError(result.error || 'Failed to add vehicle status');
@@ -404,30 +421,30 @@ export default function MechanicDashboard() {
   };
 
   const getStatusBadge = (status: string) => {
-    const statusStyles = {
-      PENDING: 'bg-yellow-100 text-yellow-800',
-      ACCEPTED: 'bg-blue-100 text-blue-800',
-      IN_PROGRESS: 'bg-purple-100 text-purple-800',
-      COMPLETED: 'bg-green-100 text-green-800',
-      CANCELLED: 'bg-red-100 text-red-800'
-    };
-
     return (
-      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[status as keyof typeof statusStyles] || 'bg-gray-100 text-gray-800'}`}>
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${REQUEST_STATUS_BADGE_STYLES[status as ServiceRequest['status']] || 'bg-gray-100 text-gray-800'}`}>
         {status}
       </span>
     );
   };
 
   const canAcceptRequest = (request: ServiceRequest) => {
-    return request.status === 'PENDING';
+    return request.status === 'PENDING' || request.status === 'SCHEDULED';
   };
 
   const canUpdateRequest = (request: ServiceRequest) => {
-    return request.mechanicId && request.status !== 'COMPLETED' && request.status !== 'CANCELLED';
+    return request.mechanicId && isActiveRequestStatus(request.status);
+  };
+
+  const handleReasonStatusDone = async () => {
+    setReasonStatus(null);
+    setSelectedRequest(null);
+    await fetchRequests();
   };
 
-  const assignedRequests = requests.filter(r => r.mechanicId && ['ACCEPTED', 'IN_PROGRESS'].includes(r.status));
+  const assignedRequests = requests.filter(r => r.mechanicId && isActiveRequestStatus(r.status));
+  // The garage's other mechanics see these requests too; only the one driving shares a location
+  const enRouteRequests = requests.filter(r => r.mechanicId === userId && isTrackingLive(r));
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -501,6 +518,12 @@ export default function MechanicDashboard() {
             </div>
           )}
 
+          {enRouteRequests.map(request => (
+            <div key={request.id} className="mb-6">
+              <MechanicLocationSharing request={request} onArrived={fetchRequests} />
+            </div>
+          ))}
+
           {/* Service Requests Tab */}
           {activeTab === 'requests' && (
             <div className="space-y-6">
@@ -518,6 +541,7 @@ export default function MechanicDashboard() {
                   >
                     <option value="all">All Requests</option>
                     <option value="PENDING">Pending</option>
+                    <option value="SCHEDULED">Scheduled</option>
                     <option value="ACCEPTED">Accepted</option>
                     <option value="IN_PROGRESS">In Progress</option>
                     <option value="COMPLETED">Completed</option>
@@ -560,11 +584,17 @@ export default function MechanicDashboard() {
                                   Request #{request.id}
                                 </h4>
                                 {getStatusBadge(request.status)}
+                                <UrgencyBadge urgency={request.urgency} />
+                                <UnreadMessagesBadge count={unreadMessages.requests[request.id]} />
                               </div>
                               <div className="text-sm text-gray-600 space-y-1">
                                 <div>Customer: {request.customer.firstName} {request.customer.lastName}</div>
                                 <div>Vehicle: {request.vehicle.vehicleType} - {request.vehicle.plateCode} {request.vehicle.plateNumber}</div>
+                                <ServiceRequestProblem request={request} compact />
                                 <div>Created: {formatDateTime(new Date(request.createdAt))}</div>
+                                {request.scheduledFor && (
+                                  <div>Appointment: {formatDateTime(new Date(request.scheduledFor))}</div>
+                                )}
                                 {request.mechanic && (
                                   <div>Assigned to: {request.mechanic.firstName} {request.mechanic.lastName}</div>
                                 )}
@@ -649,6 +679,14 @@ export default function MechanicDashboard() {
                                 rows={3}
                                 className="w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
                               />
+                              <input
+                                type="number"
+                                min="0"
+                                value={newStatusOdometer}
+                                onChange={(e) => setNewStatusOdometer(e.target.value)}
+                                placeholder="Odometer reading in km (optional)"
+                                className="w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                              />
                               <button
                                 onClick={handleAddVehicleStatus}
                                 disabled={!newStatusDescription.trim()}
@@ -679,6 +717,9 @@ export default function MechanicDashboard() {
                                       </span>
                                     </div>
                                     <p className="text-gray-900 mb-3">{status.description}</p>
+                                    {status.odometerKm !== null && (
+                                      <p className="text-sm text-gray-600 mb-3">Odometer: {status.odometerKm.toLocaleString()} km</p>
+                                    )}
                                     
                                     {/* Ongoing Services */}
                                     {status.ongoingServices.length > 0 && (
@@ -971,7 +1012,10 @@ export default function MechanicDashboard() {
                       Service Request #{selectedRequest.id}
                     </h3>
                     <button
-                      onClick={() => setSelectedRequest(null)}
+                      onClick={() => {
+                        setSelectedRequest(null);
+                        setReasonStatus(null);
+                      }}
                       className="text-gray-400 hover:text-gray-600"
                     >
                       <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -1001,9 +1045,40 @@ export default function MechanicDashboard() {
                         <div>Type: {selectedRequest.vehicle.vehicleType}</div>
                         <div>Plate: {selectedRequest.vehicle.plateCode} {selectedRequest.vehicle.plateNumber}</div>
                         <div>Color: {selectedRequest.vehicle.color}</div>
+                        {selectedRequest.vehicle.make && <div>Make: {selectedRequest.vehicle.make}</div>}
+                        {selectedRequest.vehicle.modelYear && <div>Model Year: {selectedRequest.vehicle.modelYear}</div>}
+                        {selectedRequest.vehicle.vin && <div>VIN: <span className="font-mono">{selectedRequest.vehicle.vin}</span></div>}
                       </div>
                     </div>
 
+                    <ServiceRequestProblem request={selectedRequest} />
+
+                    {canUpdateRequest(selectedRequest) && <RequestVehicleDocuments request={selectedRequest} />}
+
+                    {selectedRequest.status === 'ON_HOLD' && selectedRequest.holdReason && (
+                      <div className="p-3 bg-orange-50 rounded text-sm text-orange-800">
+                        On hold: {HOLD_REASON_LABELS[selectedRequest.holdReason]}
+                        {selectedRequest.statusNote && ` - ${selectedRequest.statusNote}`}
+                      </div>
+                    )}
+
+                    {selectedRequest.scheduledFor && (
+                      <div className="text-sm space-y-1">
+                        <div>
+                          <span className="font-medium text-gray-700">Appointment:</span>
+                          <span className="ml-2">{formatDateTime(new Date(selectedRequest.scheduledFor))}</span>
+                        </div>
+                        {selectedRequest.requestedServices.length > 0 && (
+                          <div>
+                            <span className="font-medium text-gray-700">Requested services:</span>
+                            <span className="ml-2">
+                              {selectedRequest.requestedServices.map(({ service }) => service.serviceName).join(', ')}
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     <div>
                       <span className="text-sm font-medium text-gray-700">Request Date:</span>
                       <span className="ml-2 text-sm">{formatDateTime(new Date(selectedRequest.createdAt))}</span>
@@ -1022,14 +1097,31 @@ export default function MechanicDashboard() {
                     {canUpdateRequest(selectedRequest) && (
                       <div className="pt-4 border-t border-gray-200">
                         <h4 className="text-sm font-medium text-gray-700 mb-3">Update Status</h4>
-                        <div className="flex space-x-2">
+                        {reasonStatus ? (
+                          <RequestStatusReasonForm
+                            request={selectedRequest}
+                            status={reasonStatus}
+                            onDone={handleReasonStatusDone}
+                            onClose={() => setReasonStatus(null)}
+                          />
+                        ) : (
+                        <div className="flex flex-wrap gap-2">
                           {selectedRequest.status === 'ACCEPTED' && (
+                            <button
+                              onClick={() => handleStatusUpdate(selectedRequest.id, 'EN_ROUTE')}
+                              disabled={updatingStatus}
+                              className="bg-cyan-600 hover:bg-cyan-700 disabled:bg-cyan-300 text-white px-3 py-1 rounded-md text-sm font-medium"
+                            >
+                              On My Way
+                            </button>
+                          )}
+                          {canTransition(selectedRequest.status, 'IN_PROGRESS') && (
                             <button
                               onClick={() => handleStatusUpdate(selectedRequest.id, 'IN_PROGRESS')}
                               disabled={updatingStatus}
                               className="bg-purple-600 hover:bg-purple-700 disabled:bg-purple-300 text-white px-3 py-1 rounded-md text-sm font-medium"
                             >
-                              Start Work
+                              {selectedRequest.status === 'ON_HOLD' ? 'Resume Work' : 'Start Work'}
                             </button>
                           )}
                           {selectedRequest.status === 'IN_PROGRESS' && (
@@ -1041,9 +1133,18 @@ export default function MechanicDashboard() {
                               Mark Complete
                             </button>
                           )}
-                          {['ACCEPTED', 'IN_PROGRESS'].includes(selectedRequest.status) && (
+                          {canTransition(selectedRequest.status, 'ON_HOLD') && (
                             <button
-                              onClick={() => handleStatusUpdate(selectedRequest.id, 'CANCELLED')}
+                              onClick={() => setReasonStatus('ON_HOLD')}
+                              disabled={updatingStatus}
+                              className="bg-orange-600 hover:bg-orange-700 disabled:bg-orange-300 text-white px-3 py-1 rounded-md text-sm font-medium"
+                            >
+                              Put On Hold
+                            </button>
+                          )}
+                          {canTransition(selectedRequest.status, 'CANCELLED') && (
+                            <button
+                              onClick={() => setReasonStatus('CANCELLED')}
                               disabled={updatingStatus}
                               className="bg-red-600 hover:bg-red-700 disabled:bg-red-300 text-white px-3 py-1 rounded-md text-sm font-medium"
                             >
@@ -1051,9 +1152,33 @@ export default function MechanicDashboard() {
                             </button>
                           )}
                         </div>
+                        )}
                       </div>
                     )}
 
+                    {canUpdateRequest(selectedRequest) && (
+                      <div className="pt-4 border-t border-gray-200">
+                        <RequestHandoverPanel
+                          key={selectedRequest.id}
+                          request={selectedRequest}
+                          canAssign={false}
+                          onChanged={fetchRequests}
+                        />
+                      </div>
+                    )}
+
+                    <div className="pt-4 border-t border-gray-200">
+                      <RequestEstimates key={selectedRequest.id} request={selectedRequest} onChanged={fetchRequests} />
+                    </div>
+
+                    <div className="pt-4 border-t border-gray-200">
+                      <RequestChat key={selectedRequest.id} request={selectedRequest} onRead={refreshUnreadMessages} />
+                    </div>
+
+                    <div className="pt-4 border-t border-gray-200">
+                      <RequestTimeline key={selectedRequest.id} request={selectedRequest} />
+                    </div>
+
                     {canAcceptRequest(selectedRequest) && (
                       <div className="pt-4 border-t border-gray-200">
                         <button
@@ -1102,6 +1227,12 @@ export default function MechanicDashboard() {
                               <span>${service.price}</span>
                             </div>
                           ))}
+                          {serviceSummary.afterHoursSurcharge > 0 && (
+                            <div className="flex justify-between">
+                              <span>After-hours emergency surcharge</span>
+                              <span>${serviceSummary.afterHoursSurcharge}</span>
+                            </div>
+                          )}
                           <div className="border-t pt-2 font-medium">
                             <div className="flex justify-between">
                               <span>Subtotal:</span>
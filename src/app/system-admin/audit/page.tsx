@@ -0,0 +1,404 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { formatDateTime } from '@/utils/common';
+
+interface AuditEntry {
+  id: number;
+  actorId: number | null;
+  action: string;
+  targetType: string;
+  targetId: number | null;
+  before: unknown;
+  after: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  actor: {
+    id: number;
+    username: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+}
+
+const PAGE_SIZE = 50;
+
+export default function AuditLogPage() {
+  const router = useRouter();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [actions, setActions] = useState<string[]>([]);
+  const [targetTypes, setTargetTypes] = useState<string[]>([]);
+  const [expandedEntry, setExpandedEntry] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Filter states
+  const [actorFilter, setActorFilter] = useState('');
+  const [actionFilter, setActionFilter] = useState('all');
+  const [targetTypeFilter, setTargetTypeFilter] = useState('all');
+  const [targetIdFilter, setTargetIdFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const buildParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (actorFilter) params.append('actor', actorFilter);
+    if (actionFilter !== 'all') params.append('action', actionFilter);
+    if (targetTypeFilter !== 'all') params.append('targetType', targetTypeFilter);
+    if (targetIdFilter) params.append('targetId', targetIdFilter);
+    if (fromDate) params.append('from', fromDate);
+    if (toDate) params.append('to', toDate);
+    return params;
+  }, [actorFilter, actionFilter, targetTypeFilter, targetIdFilter, fromDate, toDate]);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const params = buildParams();
+      params.append('page', currentPage.toString());
+      params.append('limit', PAGE_SIZE.toString());
+
+      const response = await fetch(`/api/admin/audit?${params.toString()}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setEntries(result.data.entries);
+        setTotalCount(result.data.totalCount);
+        setActions(result.data.filters.actions);
+        setTargetTypes(result.data.filters.targetTypes);
+      } else {
+        setError(result.error || 'Failed to fetch audit log');
+      }
+    } catch (error) {
+      console.error('Fetch audit log error:', error);
+      setError('Failed to fetch audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [buildParams, currentPage]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+      router.push('/auth/signin');
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
+  };
+
+  const handleExport = () => {
+    const params = buildParams();
+    params.append('format', 'csv');
+    window.location.href = `/api/admin/audit?${params.toString()}`;
+  };
+
+  const clearFilters = () => {
+    setActorFilter('');
+    setActionFilter('all');
+    setTargetTypeFilter('all');
+    setTargetIdFilter('');
+    setFromDate('');
+    setToDate('');
+    setCurrentPage(1);
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => router.push('/system-admin')}
+              className="text-gray-600 hover:text-gray-900"
+            >
+              ← Back to Dashboard
+            </button>
+            <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => router.push('/auth/change-password')}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Change Password
+            </button>
+            <button
+              onClick={handleLogout}
+              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Logout
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          {/* Filters */}
+          <div className="bg-white shadow rounded-lg mb-6 p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Filters</h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label htmlFor="actor-filter" className="block text-sm font-medium text-gray-700 mb-2">
+                  Actor
+                </label>
+                <input
+                  id="actor-filter"
+                  type="text"
+                  value={actorFilter}
+                  onChange={(e) => {
+                    setActorFilter(e.target.value);
+                    setCurrentPage(1);
+                  }}
+                  placeholder="Username..."
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="action-filter" className="block text-sm font-medium text-gray-700 mb-2">
+                  Action
+                </label>
+                <select
+                  id="action-filter"
+                  value={actionFilter}
+                  onChange={(e) => {
+                    setActionFilter(e.target.value);
+                    setCurrentPage(1);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  <option value="all">All Actions</option>
+                  {actions.map(action => (
+                    <option key={action} value={action}>{action}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="targetType-filter" className="block text-sm font-medium text-gray-700 mb-2">
+                  Target
+                </label>
+                <div className="flex space-x-2">
+                  <select
+                    id="targetType-filter"
+                    value={targetTypeFilter}
+                    onChange={(e) => {
+                      setTargetTypeFilter(e.target.value);
+                      setCurrentPage(1);
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    <option value="all">All Types</option>
+                    {targetTypes.map(targetType => (
+                      <option key={targetType} value={targetType}>{targetType}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="1"
+                    value={targetIdFilter}
+                    onChange={(e) => {
+                      setTargetIdFilter(e.target.value);
+                      setCurrentPage(1);
+                    }}
+                    placeholder="ID"
+                    aria-label="Target ID"
+                    className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="from-filter" className="block text-sm font-medium text-gray-700 mb-2">
+                  Date Range
+                </label>
+                <div className="flex space-x-2">
+                  <input
+                    id="from-filter"
+                    type="date"
+                    value={fromDate}
+                    onChange={(e) => {
+                      setFromDate(e.target.value);
+                      setCurrentPage(1);
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                  <input
+                    type="date"
+                    value={toDate}
+                    onChange={(e) => {
+                      setToDate(e.target.value);
+                      setCurrentPage(1);
+                    }}
+                    aria-label="To date"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="mt-4 flex justify-end space-x-2">
+              <button
+                onClick={clearFilters}
+                className="bg-gray-300 hover:bg-gray-400 text-gray-700 px-4 py-2 rounded-md text-sm font-medium"
+              >
+                Clear Filters
+              </button>
+              <button
+                onClick={handleExport}
+                className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+              >
+                Export CSV
+              </button>
+            </div>
+          </div>
+
+          {/* Audit Entries */}
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">
+                Entries ({totalCount})
+              </h3>
+            </div>
+
+            {loading ? (
+              <div className="p-6 text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto"></div>
+                <p className="mt-2 text-gray-600">Loading audit log...</p>
+              </div>
+            ) : entries.length === 0 ? (
+              <div className="p-6 text-center text-gray-500">
+                No audit entries found matching your criteria.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Time
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actor
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Action
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Target
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        IP Address
+                      </th>
+                      <th className="px-6 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {entries.map(entry => (
+                      <Fragment key={entry.id}>
+                        <tr className="hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {formatDateTime(new Date(entry.createdAt))}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {entry.actor ? (
+                              <>
+                                <div>{entry.actor.firstName} {entry.actor.lastName}</div>
+                                <div className="text-gray-500">@{entry.actor.username}</div>
+                              </>
+                            ) : (
+                              <span className="text-gray-500">Deleted user</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className="px-2 py-1 text-xs font-mono rounded bg-indigo-50 text-indigo-800">
+                              {entry.action}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {entry.targetType}{entry.targetId !== null && ` #${entry.targetId}`}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {entry.ipAddress || '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                            <button
+                              onClick={() => setExpandedEntry(expandedEntry === entry.id ? null : entry.id)}
+                              className="text-indigo-600 hover:text-indigo-900"
+                            >
+                              {expandedEntry === entry.id ? 'Hide' : 'Details'}
+                            </button>
+                          </td>
+                        </tr>
+                        {expandedEntry === entry.id && (
+                          <tr className="bg-gray-50">
+                            <td colSpan={6} className="px-6 py-4">
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+                                <div>
+                                  <p className="font-medium text-gray-700 mb-1">Before</p>
+                                  <pre className="bg-white border border-gray-200 rounded p-3 overflow-x-auto text-gray-800">
+                                    {entry.before ? JSON.stringify(entry.before, null, 2) : '-'}
+                                  </pre>
+                                </div>
+                                <div>
+                                  <p className="font-medium text-gray-700 mb-1">After</p>
+                                  <pre className="bg-white border border-gray-200 rounded p-3 overflow-x-auto text-gray-800">
+                                    {entry.after ? JSON.stringify(entry.after, null, 2) : '-'}
+                                  </pre>
+                                </div>
+                              </div>
+                              {entry.userAgent && (
+                                <p className="mt-2 text-xs text-gray-500">User agent: {entry.userAgent}</p>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {totalPages > 1 && (
+              <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+                <button
+                  onClick={() => setCurrentPage(page => page - 1)}
+                  disabled={currentPage === 1}
+                  className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600">
+                  Page {currentPage} of {totalPages}
+                </span>
+                <button
+                  onClick={() => setCurrentPage(page => page + 1)}
+                  disabled={currentPage === totalPages}
+                  className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
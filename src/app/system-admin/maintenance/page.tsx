@@ -0,0 +1,291 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState, useEffect, useCallback } from 'react';
+import type { MaintenanceSchedule } from '@/types/auth';
+
+interface ServiceOption {
+  id: number;
+  serviceName: string;
+}
+
+interface ScheduleForm {
+  serviceId: string;
+  vehicleType: string;
+  intervalKm: string;
+  intervalMonths: string;
+}
+
+const EMPTY_SCHEDULE_FORM: ScheduleForm = {
+  serviceId: '',
+  vehicleType: '',
+  intervalKm: '',
+  intervalMonths: '',
+};
+
+function describeInterval(schedule: MaintenanceSchedule): string {
+  const parts = [
+    schedule.intervalKm !== null ? `${schedule.intervalKm.toLocaleString()} km` : null,
+    schedule.intervalMonths !== null ? `${schedule.intervalMonths} month${schedule.intervalMonths === 1 ? '' : 's'}` : null,
+  ].filter(Boolean);
+
+  return `Every ${parts.join(' or ')}${parts.length > 1 ? ', whichever comes first' : ''}`;
+}
+
+export default function MaintenanceSchedulesPage() {
+  const router = useRouter();
+  const [schedules, setSchedules] = useState<MaintenanceSchedule[]>([]);
+  const [services, setServices] = useState<ServiceOption[]>([]);
+  const [form, setForm] = useState<ScheduleForm>(EMPTY_SCHEDULE_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [schedulesResponse, servicesResponse] = await Promise.all([
+        fetch('/api/admin/maintenance-schedules'),
+        fetch('/api/services'),
+      ]);
+      const schedulesResult = await schedulesResponse.json();
+      const servicesResult = await servicesResponse.json();
+
+      if (schedulesResult.success) {
+        setSchedules(schedulesResult.data.schedules);
+      } else {
+        setError(schedulesResult.error || 'Failed to fetch maintenance schedules');
+      }
+
+      if (servicesResult.success) {
+        setServices(servicesResult.data.services);
+      }
+    } catch (error) {
+      console.error('Fetch maintenance schedules error:', error);
+      setError('Failed to fetch maintenance schedules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+      router.push('/auth/signin');
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
+  };
+
+  const runScheduleAction = async (url: string, method: string, body?: unknown) => {
+    try {
+      setSaving(true);
+      setError('');
+      setSuccess('');
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setSuccess(result.message);
+        await fetchSchedules();
+        return true;
+      }
+
+      setError(result.error || 'Failed to update maintenance schedule');
+    } catch (error) {
+      console.error('Maintenance schedule error:', error);
+      setError('Failed to update maintenance schedule');
+    } finally {
+      setSaving(false);
+    }
+
+    return false;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const created = await runScheduleAction('/api/admin/maintenance-schedules', 'POST', {
+      serviceId: parseInt(form.serviceId),
+      vehicleType: form.vehicleType,
+      intervalKm: form.intervalKm ? parseInt(form.intervalKm) : null,
+      intervalMonths: form.intervalMonths ? parseInt(form.intervalMonths) : null,
+    });
+
+    if (created) {
+      setForm(EMPTY_SCHEDULE_FORM);
+    }
+  };
+
+  const handleDelete = (schedule: MaintenanceSchedule) => {
+    if (!confirm(`Delete the ${schedule.service.serviceName} schedule? Owners will no longer be reminded of it.`)) return;
+    runScheduleAction(`/api/admin/maintenance-schedules/${schedule.id}`, 'DELETE');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => router.push('/system-admin')}
+              className="text-gray-600 hover:text-gray-900"
+            >
+              ← Back to Dashboard
+            </button>
+            <h1 className="text-3xl font-bold text-gray-900">Maintenance Schedules</h1>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => router.push('/auth/change-password')}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Change Password
+            </button>
+            <button
+              onClick={handleLogout}
+              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Logout
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          {success && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+              {success}
+            </div>
+          )}
+
+          <form onSubmit={handleCreate} className="bg-white shadow rounded-lg p-6 space-y-4">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">New Schedule</h3>
+              <p className="mt-1 text-sm text-gray-600">
+                Owners see when each service is due and are reminded shortly before. Leave the vehicle type
+                empty to apply the schedule to every vehicle.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <select
+                aria-label="Service"
+                value={form.serviceId}
+                onChange={(e) => setForm(prev => ({ ...prev, serviceId: e.target.value }))}
+                className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                required
+              >
+                <option value="">Choose a service</option>
+                {services.map(service => (
+                  <option key={service.id} value={service.id}>{service.serviceName}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                aria-label="Vehicle type"
+                placeholder="Vehicle type (all)"
+                value={form.vehicleType}
+                onChange={(e) => setForm(prev => ({ ...prev, vehicleType: e.target.value }))}
+                className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+              <input
+                type="number"
+                min="1"
+                aria-label="Every km"
+                placeholder="Every ... km"
+                value={form.intervalKm}
+                onChange={(e) => setForm(prev => ({ ...prev, intervalKm: e.target.value }))}
+                className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+              <input
+                type="number"
+                min="1"
+                aria-label="Every months"
+                placeholder="Every ... months"
+                value={form.intervalMonths}
+                onChange={(e) => setForm(prev => ({ ...prev, intervalMonths: e.target.value }))}
+                className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Add Schedule
+            </button>
+          </form>
+
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            {loading ? (
+              <div className="text-center py-12 text-gray-500">Loading maintenance schedules...</div>
+            ) : schedules.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">No maintenance schedules yet.</div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Service</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vehicle Type</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Interval</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {schedules.map(schedule => (
+                    <tr key={schedule.id}>
+                      <td className="px-6 py-4 text-sm text-gray-900">{schedule.service.serviceName}</td>
+                      <td className="px-6 py-4 text-sm text-gray-600">{schedule.vehicleType ?? 'All vehicles'}</td>
+                      <td className="px-6 py-4 text-sm text-gray-600">{describeInterval(schedule)}</td>
+                      <td className="px-6 py-4 text-sm">
+                        <span className={schedule.active ? 'text-green-700' : 'text-gray-500'}>
+                          {schedule.active ? 'Active' : 'Paused'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-right space-x-3">
+                        <button
+                          onClick={() => runScheduleAction(`/api/admin/maintenance-schedules/${schedule.id}`, 'PATCH', { active: !schedule.active })}
+                          disabled={saving}
+                          className="text-indigo-600 hover:text-indigo-800 font-medium"
+                        >
+                          {schedule.active ? 'Pause' : 'Resume'}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(schedule)}
+                          disabled={saving}
+                          className="text-red-600 hover:text-red-800 font-medium"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
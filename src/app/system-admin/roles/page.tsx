@@ -0,0 +1,631 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState, useEffect, useCallback } from 'react';
+import type { Permission } from '@/lib/permissions';
+
+type RoleScope = 'GLOBAL' | 'GARAGE';
+
+interface Role {
+  id: number;
+  name: string;
+  description: string | null;
+  scope: RoleScope;
+  permissions: Permission[];
+  _count: {
+    assignments: number;
+  };
+}
+
+interface RoleAssignment {
+  id: number;
+  createdAt: string;
+  user: {
+    id: number;
+    username: string;
+    firstName: string;
+    lastName: string;
+    userType: string;
+  };
+  role: {
+    id: number;
+    name: string;
+    scope: RoleScope;
+  };
+  garage: {
+    id: number;
+    garageName: string;
+  } | null;
+}
+
+interface UserOption {
+  id: number;
+  username: string;
+  firstName: string;
+  lastName: string;
+  userType: string;
+}
+
+interface GarageOption {
+  id: number;
+  garageName: string;
+}
+
+const emptyRoleForm = {
+  name: '',
+  description: '',
+  scope: 'GLOBAL' as RoleScope,
+  permissions: [] as Permission[]
+};
+
+export default function RolesManagement() {
+  const router = useRouter();
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [allPermissions, setAllPermissions] = useState<Permission[]>([]);
+  const [garagePermissions, setGaragePermissions] = useState<Permission[]>([]);
+  const [assignments, setAssignments] = useState<RoleAssignment[]>([]);
+  const [garages, setGarages] = useState<GarageOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const [showRoleForm, setShowRoleForm] = useState(false);
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [roleForm, setRoleForm] = useState(emptyRoleForm);
+
+  const [userSearch, setUserSearch] = useState('');
+  const [userOptions, setUserOptions] = useState<UserOption[]>([]);
+  const [assignmentForm, setAssignmentForm] = useState({ userId: '', roleId: '', garageId: '' });
+
+  const fetchRoles = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/roles');
+      const result = await response.json();
+
+      if (result.success) {
+        setRoles(result.data.roles);
+        setAllPermissions(result.data.permissions);
+        setGaragePermissions(result.data.garagePermissions);
+      } else {
+        setError(result.error || 'Failed to fetch roles');
+      }
+    } catch (error) {
+      console.error('Fetch roles error:', error);
+      setError('Failed to fetch roles');
+    }
+  }, []);
+
+  const fetchAssignments = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/roles/assignments');
+      const result = await response.json();
+
+      if (result.success) {
+        setAssignments(result.data.assignments);
+      } else {
+        setError(result.error || 'Failed to fetch role assignments');
+      }
+    } catch (error) {
+      console.error('Fetch role assignments error:', error);
+      setError('Failed to fetch role assignments');
+    }
+  }, []);
+
+  const fetchGarages = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/garages?status=approved&limit=100');
+      const result = await response.json();
+
+      if (result.success) {
+        setGarages(result.data.garages);
+      }
+    } catch (error) {
+      console.error('Fetch garages error:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      await Promise.all([fetchRoles(), fetchAssignments(), fetchGarages()]);
+      setLoading(false);
+    };
+
+    loadData();
+  }, [fetchRoles, fetchAssignments, fetchGarages]);
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+      router.push('/auth/signin');
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
+  };
+
+  const startCreateRole = () => {
+    setEditingRole(null);
+    setRoleForm(emptyRoleForm);
+    setShowRoleForm(true);
+  };
+
+  const startEditRole = (role: Role) => {
+    setEditingRole(role);
+    setRoleForm({
+      name: role.name,
+      description: role.description || '',
+      scope: role.scope,
+      permissions: role.permissions
+    });
+    setShowRoleForm(true);
+  };
+
+  const cancelRoleForm = () => {
+    setShowRoleForm(false);
+    setEditingRole(null);
+    setRoleForm(emptyRoleForm);
+  };
+
+  const togglePermission = (permission: Permission) => {
+    setRoleForm(form => ({
+      ...form,
+      permissions: form.permissions.includes(permission)
+        ? form.permissions.filter(p => p !== permission)
+        : [...form.permissions, permission]
+    }));
+  };
+
+  const handleSaveRole = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch(editingRole ? `/api/admin/roles/${editingRole.id}` : '/api/admin/roles', {
+        method: editingRole ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(editingRole
+          ? { name: roleForm.name, description: roleForm.description, permissions: roleForm.permissions }
+          : roleForm
+        ),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        cancelRoleForm();
+        fetchRoles();
+      } else {
+        setError(result.error || 'Failed to save role');
+      }
+    } catch (error) {
+      console.error('Save role error:', error);
+      setError('Failed to save role');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDeleteRole = async (role: Role) => {
+    if (!confirm(`Delete the "${role.name}" role? It will be removed from ${role._count.assignments} user(s).`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/roles/${role.id}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (result.success) {
+        fetchRoles();
+        fetchAssignments();
+      } else {
+        setError(result.error || 'Failed to delete role');
+      }
+    } catch (error) {
+      console.error('Delete role error:', error);
+      setError('Failed to delete role');
+    }
+  };
+
+  const handleUserSearch = async () => {
+    if (!userSearch.trim()) return;
+
+    try {
+      const response = await fetch(`/api/admin/users?search=${encodeURIComponent(userSearch.trim())}&limit=10`);
+      const result = await response.json();
+
+      if (result.success) {
+        setUserOptions(result.data.users);
+        setAssignmentForm(form => ({ ...form, userId: result.data.users[0]?.id?.toString() || '' }));
+      } else {
+        setError(result.error || 'Failed to search users');
+      }
+    } catch (error) {
+      console.error('Search users error:', error);
+      setError('Failed to search users');
+    }
+  };
+
+  const selectedRole = roles.find(role => role.id.toString() === assignmentForm.roleId);
+
+  const handleAssignRole = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/roles/assignments', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          userId: parseInt(assignmentForm.userId),
+          roleId: parseInt(assignmentForm.roleId),
+          garageId: selectedRole?.scope === 'GARAGE' ? parseInt(assignmentForm.garageId) : undefined
+        }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setAssignmentForm({ userId: '', roleId: '', garageId: '' });
+        setUserOptions([]);
+        setUserSearch('');
+        fetchAssignments();
+        fetchRoles();
+      } else {
+        setError(result.error || 'Failed to assign role');
+      }
+    } catch (error) {
+      console.error('Assign role error:', error);
+      setError('Failed to assign role');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRemoveAssignment = async (assignment: RoleAssignment) => {
+    if (!confirm(`Remove "${assignment.role.name}" from ${assignment.user.firstName} ${assignment.user.lastName}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/roles/assignments?id=${assignment.id}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (result.success) {
+        fetchAssignments();
+        fetchRoles();
+      } else {
+        setError(result.error || 'Failed to remove role');
+      }
+    } catch (error) {
+      console.error('Remove role error:', error);
+      setError('Failed to remove role');
+    }
+  };
+
+  const selectablePermissions = roleForm.scope === 'GARAGE' ? garagePermissions : allPermissions;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => router.push('/system-admin')}
+              className="text-gray-600 hover:text-gray-900"
+            >
+              ← Back to Dashboard
+            </button>
+            <h1 className="text-3xl font-bold text-gray-900">Roles & Permissions</h1>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => router.push('/auth/change-password')}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Change Password
+            </button>
+            <button
+              onClick={handleLogout}
+              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Logout
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-500">Loading roles...</div>
+          ) : (
+            <>
+              {/* Create Role Button */}
+              <div className="mb-6">
+                <button
+                  onClick={startCreateRole}
+                  className="bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+                >
+                  Create New Role
+                </button>
+              </div>
+
+              {/* Create / Edit Role Form */}
+              {showRoleForm && (
+                <div className="bg-white shadow rounded-lg mb-6 p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">
+                    {editingRole ? `Edit Role: ${editingRole.name}` : 'Create New Role'}
+                  </h3>
+                  <form onSubmit={handleSaveRole} className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Role Name</label>
+                        <input
+                          type="text"
+                          value={roleForm.name}
+                          onChange={(e) => setRoleForm({ ...roleForm, name: e.target.value })}
+                          required
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Scope</label>
+                        <select
+                          value={roleForm.scope}
+                          onChange={(e) => setRoleForm({ ...roleForm, scope: e.target.value as RoleScope, permissions: [] })}
+                          disabled={!!editingRole}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500 disabled:bg-gray-100"
+                        >
+                          <option value="GLOBAL">Global</option>
+                          <option value="GARAGE">Garage (assigned per garage)</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Description</label>
+                        <input
+                          type="text"
+                          value={roleForm.description}
+                          onChange={(e) => setRoleForm({ ...roleForm, description: e.target.value })}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Permissions</label>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                        {selectablePermissions.map(permission => (
+                          <label key={permission} className="flex items-center space-x-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={roleForm.permissions.includes(permission)}
+                              onChange={() => togglePermission(permission)}
+                              className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                            />
+                            <span className="font-mono">{permission}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex space-x-2">
+                      <button
+                        type="submit"
+                        disabled={submitting}
+                        className="bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+                      >
+                        {submitting ? 'Saving...' : editingRole ? 'Update Role' : 'Create Role'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={cancelRoleForm}
+                        className="bg-gray-300 hover:bg-gray-400 text-gray-700 px-4 py-2 rounded-md text-sm font-medium"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                </div>
+              )}
+
+              {/* Roles List */}
+              <div className="bg-white shadow overflow-hidden sm:rounded-md mb-8">
+                <div className="px-4 py-5 sm:px-6">
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">Roles</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Roles add permissions on top of each user type&apos;s built-in access. Garage roles only apply to the garage they are assigned for.
+                  </p>
+                </div>
+                {roles.length === 0 ? (
+                  <div className="px-4 py-5 text-sm text-gray-500">No roles defined yet.</div>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {roles.map(role => (
+                      <li key={role.id} className="px-4 py-4 sm:px-6">
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <div className="flex items-center space-x-2">
+                              <p className="text-sm font-medium text-gray-900">{role.name}</p>
+                              <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                                role.scope === 'GARAGE' ? 'bg-orange-100 text-orange-800' : 'bg-blue-100 text-blue-800'
+                              }`}>
+                                {role.scope === 'GARAGE' ? 'Garage' : 'Global'}
+                              </span>
+                              <span className="text-xs text-gray-500">{role._count.assignments} assigned</span>
+                            </div>
+                            {role.description && (
+                              <p className="mt-1 text-sm text-gray-500">{role.description}</p>
+                            )}
+                            <div className="mt-2 flex flex-wrap gap-1">
+                              {role.permissions.map(permission => (
+                                <span key={permission} className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs font-mono">
+                                  {permission}
+                                </span>
+                              ))}
+                            </div>
+                          </div>
+                          <div className="flex space-x-2 ml-4">
+                            <button
+                              onClick={() => startEditRole(role)}
+                              className="text-blue-600 hover:text-blue-900 text-sm font-medium"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => handleDeleteRole(role)}
+                              className="text-red-600 hover:text-red-900 text-sm font-medium"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Assign Role Form */}
+              <div className="bg-white shadow rounded-lg mb-6 p-6">
+                <h3 className="text-lg font-medium text-gray-900 mb-4">Assign Role</h3>
+                <form onSubmit={handleAssignRole} className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Find User</label>
+                      <div className="mt-1 flex space-x-2">
+                        <input
+                          type="text"
+                          value={userSearch}
+                          onChange={(e) => setUserSearch(e.target.value)}
+                          placeholder="Name, username or email"
+                          className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500"
+                        />
+                        <button
+                          type="button"
+                          onClick={handleUserSearch}
+                          className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                        >
+                          Search
+                        </button>
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">User</label>
+                      <select
+                        value={assignmentForm.userId}
+                        onChange={(e) => setAssignmentForm({ ...assignmentForm, userId: e.target.value })}
+                        required
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500"
+                      >
+                        <option value="">Select a user</option>
+                        {userOptions.map(option => (
+                          <option key={option.id} value={option.id}>
+                            {option.firstName} {option.lastName} (@{option.username}, {option.userType.replace('_', ' ')})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Role</label>
+                      <select
+                        value={assignmentForm.roleId}
+                        onChange={(e) => setAssignmentForm({ ...assignmentForm, roleId: e.target.value, garageId: '' })}
+                        required
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500"
+                      >
+                        <option value="">Select a role</option>
+                        {roles.map(role => (
+                          <option key={role.id} value={role.id}>{role.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {selectedRole?.scope === 'GARAGE' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Garage</label>
+                        <select
+                          value={assignmentForm.garageId}
+                          onChange={(e) => setAssignmentForm({ ...assignmentForm, garageId: e.target.value })}
+                          required
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-teal-500 focus:border-teal-500"
+                        >
+                          <option value="">Select a garage</option>
+                          {garages.map(garage => (
+                            <option key={garage.id} value={garage.id}>{garage.garageName}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+                  >
+                    {submitting ? 'Assigning...' : 'Assign Role'}
+                  </button>
+                </form>
+              </div>
+
+              {/* Assignments List */}
+              <div className="bg-white shadow overflow-hidden sm:rounded-md">
+                <div className="px-4 py-5 sm:px-6">
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">Role Assignments</h3>
+                </div>
+                {assignments.length === 0 ? (
+                  <div className="px-4 py-5 text-sm text-gray-500">No roles have been assigned yet.</div>
+                ) : (
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Garage</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Assigned</th>
+                        <th className="px-6 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {assignments.map(assignment => (
+                        <tr key={assignment.id}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {assignment.user.firstName} {assignment.user.lastName}
+                            <span className="ml-1 text-gray-500">@{assignment.user.username}</span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{assignment.role.name}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {assignment.garage ? assignment.garage.garageName : 'All'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {new Date(assignment.createdAt).toLocaleDateString()}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                            <button
+                              onClick={() => handleRemoveAssignment(assignment)}
+                              className="text-red-600 hover:text-red-900 font-medium"
+                            >
+                              Remove
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState, useEffect, useCallback } from 'react';
+
+type UserType = 'CUSTOMER' | 'MECHANIC' | 'GARAGE_ADMIN' | 'SYSTEM_ADMIN';
+
+interface Settings {
+  'auth.twoFactorRequiredUserTypes': UserType[];
+}
+
+const USER_TYPE_OPTIONS: { value: UserType; label: string }[] = [
+  { value: 'SYSTEM_ADMIN', label: 'System Admins' },
+  { value: 'GARAGE_ADMIN', label: 'Garage Admins' },
+  { value: 'MECHANIC', label: 'Mechanics' },
+  { value: 'CUSTOMER', label: 'Customers' },
+];
+
+export default function SystemSettingsPage() {
+  const router = useRouter();
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/settings');
+      const result = await response.json();
+
+      if (result.success) {
+        setSettings(result.data.settings);
+      } else {
+        setError(result.error || 'Failed to fetch settings');
+      }
+    } catch (error) {
+      console.error('Fetch settings error:', error);
+      setError('Failed to fetch settings');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+      router.push('/auth/signin');
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
+  };
+
+  const saveSetting = async (key: keyof Settings, value: Settings[keyof Settings]) => {
+    try {
+      setSaving(true);
+      setError('');
+      setSuccess('');
+
+      const response = await fetch('/api/admin/settings', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ key, value }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setSettings(result.data.settings);
+        setSuccess(result.message);
+      } else {
+        setError(result.error || 'Failed to update setting');
+      }
+    } catch (error) {
+      console.error('Update setting error:', error);
+      setError('Failed to update setting');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleTwoFactorUserType = (userType: UserType, checked: boolean) => {
+    if (!settings) return;
+
+    const current = settings['auth.twoFactorRequiredUserTypes'];
+    const next = checked ? [...current, userType] : current.filter(type => type !== userType);
+    saveSetting('auth.twoFactorRequiredUserTypes', next);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => router.push('/system-admin')}
+              className="text-gray-600 hover:text-gray-900"
+            >
+              ← Back to Dashboard
+            </button>
+            <h1 className="text-3xl font-bold text-gray-900">System Settings</h1>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => router.push('/auth/change-password')}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Change Password
+            </button>
+            <button
+              onClick={handleLogout}
+              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Logout
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          {success && (
+            <div className="mb-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+              {success}
+            </div>
+          )}
+
+          {loading || !settings ? (
+            <div className="text-center py-12 text-gray-500">Loading settings...</div>
+          ) : (
+            <div className="bg-white shadow rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900">Two-Factor Authentication</h3>
+              <p className="mt-1 text-sm text-gray-600">
+                Users of the selected types must sign in with an authenticator app. Those who have not set it up yet
+                are asked to enroll the next time they sign in.
+              </p>
+              <div className="mt-4 space-y-3">
+                {USER_TYPE_OPTIONS.map(option => (
+                  <label key={option.value} className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={settings['auth.twoFactorRequiredUserTypes'].includes(option.value)}
+                      onChange={(e) => toggleTwoFactorUserType(option.value, e.target.checked)}
+                      disabled={saving}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <span className="text-sm text-gray-900">Require for {option.label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { useRouter } from 'next/navigation';
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { formatDateTime } from '@/utils/common';
+import { usePermissions } from '@/hooks/usePermissions';
+import { PERMISSIONS } from '@/lib/permissions';
 
 interface User {
   id: number;
@@ -13,6 +15,10 @@ interface User {
   lastName: string;
   phoneNumber: string | null;
   userType: string;
+  failedLoginAttempts: number;
+  lastFailedLoginAt: string | null;
+  lockedUntil: string | null;
+  twoFactorEnabled: boolean;
   createdAt: string;
   updatedAt: string;
   _count: {
@@ -34,7 +40,8 @@ export default function UserManagementPage() {
     customers: 0,
     mechanics: 0,
     garageAdmins: 0,
-    systemAdmins: 0
+    systemAdmins: 0,
+    lockedUsers: 0
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
@@ -42,11 +49,19 @@ export default function UserManagementPage() {
   
   // Filter states
   const [userTypeFilter, setUserTypeFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   
   // Selection states
   const [selectedUsers, setSelectedUsers] = useState<number[]>([]);
+
+  // Impersonation dialog
+  const { can } = usePermissions();
+  const [impersonationTarget, setImpersonationTarget] = useState<User | null>(null);
+  const [impersonationReason, setImpersonationReason] = useState('');
+  const [allowChanges, setAllowChanges] = useState(false);
+  const [impersonating, setImpersonating] = useState(false);
   
   const fetchUsers = useCallback(async () => {
     try {
@@ -55,6 +70,7 @@ export default function UserManagementPage() {
       
       const params = new URLSearchParams();
       if (userTypeFilter !== 'all') params.append('userType', userTypeFilter);
+      if (statusFilter !== 'all') params.append('status', statusFilter);
       if (searchTerm) params.append('search', searchTerm);
       params.append('page', currentPage.toString());
       params.append('limit', '20');
@@ -74,7 +90,7 @@ export default function UserManagementPage() {
     } finally {
       setLoading(false);
     }
-  }, [userTypeFilter, searchTerm, currentPage]);
+  }, [userTypeFilter, statusFilter, searchTerm, currentPage]);
 
   useEffect(() => {
     fetchUsers();
@@ -105,8 +121,8 @@ export default function UserManagementPage() {
     }
   };
 
-  const handleBulkAction = async (action: string, newUserType?: string) => {
-    if (selectedUsers.length === 0) return;
+  const handleBulkAction = async (action: string, newUserType?: string, userIds: number[] = selectedUsers) => {
+    if (userIds.length === 0) return;
 
     try {
       setError('');
@@ -118,7 +134,7 @@ export default function UserManagementPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          userIds: selectedUsers,
+          userIds,
           action,
           newUserType
         }),
@@ -139,6 +155,52 @@ export default function UserManagementPage() {
     }
   };
 
+  const closeImpersonationDialog = () => {
+    setImpersonationTarget(null);
+    setImpersonationReason('');
+    setAllowChanges(false);
+  };
+
+  const handleImpersonate = async () => {
+    if (!impersonationTarget) return;
+
+    try {
+      setImpersonating(true);
+      setError('');
+      setSuccess('');
+
+      const response = await fetch('/api/admin/impersonation', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          userId: impersonationTarget.id,
+          readOnly: !allowChanges,
+          reason: impersonationReason
+        }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        // Full reload, so every page picks up the new session and shows the impersonation banner
+        window.location.href = result.data.redirect;
+      } else {
+        setError(result.error || 'Failed to start impersonation');
+        closeImpersonationDialog();
+        setImpersonating(false);
+      }
+    } catch (error) {
+      console.error('Impersonation error:', error);
+      setError('Failed to start impersonation');
+      closeImpersonationDialog();
+      setImpersonating(false);
+    }
+  };
+
+  const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
   const getUserTypeBadge = (userType: string) => {
     const colors = {
       CUSTOMER: 'bg-blue-100 text-blue-800',
@@ -198,8 +260,54 @@ export default function UserManagementPage() {
             </div>
           )}
 
+          {/* Impersonation Dialog */}
+          {impersonationTarget && (
+            <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+              <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+                <div className="mt-3">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">View as User</h3>
+                  <p className="text-sm text-gray-500 mb-4">
+                    You will be signed in as {impersonationTarget.firstName} {impersonationTarget.lastName} (@{impersonationTarget.username})
+                    for up to 30 minutes. Everything you do is recorded in the audit log.
+                  </p>
+                  <textarea
+                    value={impersonationReason}
+                    onChange={(e) => setImpersonationReason(e.target.value)}
+                    placeholder="Reason, e.g. support ticket number (optional)"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    rows={3}
+                  />
+                  <label className="mt-3 flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={allowChanges}
+                      onChange={(e) => setAllowChanges(e.target.checked)}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <span>Allow changes (read-only otherwise)</span>
+                  </label>
+                  <div className="flex justify-end space-x-2 mt-4">
+                    <button
+                      onClick={closeImpersonationDialog}
+                      className="bg-gray-300 hover:bg-gray-400 text-gray-700 px-4 py-2 rounded-md text-sm"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleImpersonate}
+                      disabled={impersonating}
+                      className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 text-white px-4 py-2 rounded-md text-sm"
+                    >
+                      {impersonating ? 'Starting...' : 'Start'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Stats Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-4 mb-6">
             <div className="bg-white p-4 rounded-lg shadow border-l-4 border-blue-400">
               <div className="text-center">
                 <p className="text-blue-600 text-sm font-medium">Total Users</p>
@@ -230,12 +338,24 @@ export default function UserManagementPage() {
                 <p className="text-2xl font-bold text-gray-900">{stats.systemAdmins}</p>
               </div>
             </div>
+            <button
+              onClick={() => {
+                setStatusFilter('locked');
+                setCurrentPage(1);
+              }}
+              className="bg-white p-4 rounded-lg shadow border-l-4 border-orange-400 hover:bg-orange-50"
+            >
+              <div className="text-center">
+                <p className="text-orange-600 text-sm font-medium">Locked Accounts</p>
+                <p className="text-2xl font-bold text-gray-900">{stats.lockedUsers}</p>
+              </div>
+            </button>
           </div>
 
           {/* Filters */}
           <div className="bg-white shadow rounded-lg mb-6 p-6">
             <h3 className="text-lg font-medium text-gray-900 mb-4">Filters</h3>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div>
                 <label htmlFor="userType-filter" className="block text-sm font-medium text-gray-700 mb-2">
                   User Type
@@ -256,6 +376,23 @@ export default function UserManagementPage() {
                   <option value="SYSTEM_ADMIN">System Admins</option>
                 </select>
               </div>
+              <div>
+                <label htmlFor="status-filter" className="block text-sm font-medium text-gray-700 mb-2">
+                  Account Status
+                </label>
+                <select
+                  id="status-filter"
+                  value={statusFilter}
+                  onChange={(e) => {
+                    setStatusFilter(e.target.value);
+                    setCurrentPage(1);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  <option value="all">All Accounts</option>
+                  <option value="locked">Locked Out</option>
+                </select>
+              </div>
               <div>
                 <label htmlFor="search" className="block text-sm font-medium text-gray-700 mb-2">
                   Search Users
@@ -276,6 +413,7 @@ export default function UserManagementPage() {
                 <button
                   onClick={() => {
                     setUserTypeFilter('all');
+                    setStatusFilter('all');
                     setSearchTerm('');
                     setCurrentPage(1);
                   }}
@@ -311,6 +449,12 @@ export default function UserManagementPage() {
                     <option value="MECHANIC">To Mechanic</option>
                     <option value="GARAGE_ADMIN">To Garage Admin</option>
                   </select>
+                  <button
+                    onClick={() => handleBulkAction('unlock')}
+                    className="bg-orange-600 hover:bg-orange-700 text-white px-3 py-1 rounded text-sm"
+                  >
+                    Unlock Accounts
+                  </button>
                   <button
                     onClick={() => setSelectedUsers([])}
                     className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded text-sm"
@@ -367,6 +511,11 @@ export default function UserManagementPage() {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Joined
                       </th>
+                      {can(PERMISSIONS.USERS_IMPERSONATE) && (
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Support
+                        </th>
+                      )}
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
@@ -392,6 +541,24 @@ export default function UserManagementPage() {
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           {getUserTypeBadge(user.userType)}
+                          {user.twoFactorEnabled && (
+                            <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                              2FA
+                            </span>
+                          )}
+                          {isLocked(user) && (
+                            <div className="mt-1 flex items-center space-x-2">
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                                Locked until {formatDateTime(new Date(user.lockedUntil!))}
+                              </span>
+                              <button
+                                onClick={() => handleBulkAction('unlock', undefined, [user.id])}
+                                className="text-xs text-orange-700 hover:text-orange-900 font-medium"
+                              >
+                                Unlock
+                              </button>
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="text-sm text-gray-900">{user.email}</div>
@@ -411,11 +578,28 @@ export default function UserManagementPage() {
                             {user.mechanic && (
                               <div>Mechanic ID: {user.mechanic.id}</div>
                             )}
+                            {user.failedLoginAttempts > 0 && user.lastFailedLoginAt && (
+                              <div className="text-orange-600">
+                                Failed logins: {user.failedLoginAttempts} (last {formatDateTime(new Date(user.lastFailedLoginAt))})
+                              </div>
+                            )}
                           </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {formatDateTime(new Date(user.createdAt))}
                         </td>
+                        {can(PERMISSIONS.USERS_IMPERSONATE) && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            {user.userType !== 'SYSTEM_ADMIN' && (
+                              <button
+                                onClick={() => setImpersonationTarget(user)}
+                                className="text-indigo-600 hover:text-indigo-900 font-medium"
+                              >
+                                View as user
+                              </button>
+                            )}
+                          </td>
+                        )}
                       </tr>
                     ))}
                   </tbody>
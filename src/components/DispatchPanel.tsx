@@ -0,0 +1,225 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { formatDateTime } from '@/utils/common';
+import { canTransition } from '@/lib/request-status';
+import type { DispatchDecision, DispatchRationale, ServiceRequest } from '@/types/auth';
+
+interface DispatchPanelProps {
+  request: Pick<ServiceRequest, 'id' | 'status' | 'mechanicId'>;
+  // Called after the request was assigned, so the parent can reload it
+  onAssigned: () => void;
+}
+
+// Latest auto-dispatch decision with its ranking, and controls to run dispatch or override it
+export default function DispatchPanel({
+  request,
+  onAssigned
+}: DispatchPanelProps) {
+  const [decisions, setDecisions] = useState<DispatchDecision[]>([]);
+  const [ranking, setRanking] = useState<DispatchRationale | null>(null);
+  const [override, setOverride] = useState({ mechanicId: '', reason: '' });
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const fetchDispatch = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/requests/${request.id}/dispatch`);
+      const result = await response.json();
+
+      if (result.success) {
+        setDecisions(result.data.decisions);
+        setRanking(result.data.ranking);
+      } else {
+        setError(result.error || 'Failed to fetch dispatch details');
+      }
+    } catch (error) {
+      console.error('Fetch dispatch error:', error);
+      setError('Failed to fetch dispatch details');
+    } finally {
+      setLoading(false);
+    }
+  }, [request.id]);
+
+  useEffect(() => {
+    fetchDispatch();
+  }, [fetchDispatch]);
+
+  const submit = async (method: 'POST' | 'PATCH', body?: object) => {
+    setSubmitting(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(`/api/requests/${request.id}/dispatch`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setSuccess(result.message);
+        setOverride({ mechanicId: '', reason: '' });
+        onAssigned();
+      } else {
+        setError(result.error || 'Failed to assign the request');
+      }
+      await fetchDispatch();
+    } catch (error) {
+      console.error('Dispatch error:', error);
+      setError('Failed to assign the request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleOverride = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit('PATCH', { mechanicId: parseInt(override.mechanicId), reason: override.reason });
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading dispatch details...</div>;
+  }
+
+  const latest = decisions[0];
+  const waiting = canTransition(request.status, 'ACCEPTED');
+  const canOverride = latest && !latest.overriddenAt && ['PENDING', 'SCHEDULED', 'ACCEPTED'].includes(request.status);
+  const candidates = (latest && !latest.overriddenAt ? latest.rationale : ranking)?.candidates ?? [];
+
+  return (
+    <div className="space-y-3 text-sm">
+      <h4 className="font-medium text-gray-700">Dispatch</h4>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-3 py-2 rounded">
+          {success}
+        </div>
+      )}
+
+      {decisions.length === 0 ? (
+        <p className="text-gray-600">This request has not been dispatched automatically.</p>
+      ) : (
+        <ul className="space-y-2">
+          {decisions.map(decision => (
+            <li key={decision.id} className="bg-gray-50 rounded p-3">
+              <div className="text-gray-900">{decision.summary}</div>
+              <div className="text-xs text-gray-500">{formatDateTime(new Date(decision.createdAt))}</div>
+              {decision.overriddenAt && (
+                <div className="mt-1 text-xs text-orange-700">
+                  Overridden by {decision.overriddenBy?.firstName} {decision.overriddenBy?.lastName} on{' '}
+                  {formatDateTime(new Date(decision.overriddenAt))}: {decision.overrideReason}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {candidates.length > 0 && (
+        <div className="overflow-x-auto">
+          <p className="text-xs text-gray-500 mb-1">
+            {latest && !latest.overriddenAt ? 'Ranking at the time of the decision' : 'How your mechanics rank right now'}
+          </p>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mechanic</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Score</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Skills</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rating</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Open Jobs</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {candidates.map(candidate => (
+                <tr key={candidate.mechanicId} className={candidate.eligible ? '' : 'text-gray-400'}>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {candidate.name}
+                    {candidate.excludedBecause && <span className="ml-1 text-xs">({candidate.excludedBecause})</span>}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">{candidate.score}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {candidate.skillsRequested > 0 ? `${candidate.skillsMatched}/${candidate.skillsRequested}` : '-'}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {candidate.averageRating === null ? 'New' : `${candidate.averageRating}/10 (${candidate.ratingCount})`}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">{candidate.openJobs}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {waiting && (
+        <button
+          onClick={() => submit('POST')}
+          disabled={submitting}
+          className="bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+        >
+          {submitting ? 'Assigning...' : 'Auto-assign Best Mechanic'}
+        </button>
+      )}
+
+      {canOverride && ranking && (
+        <form onSubmit={handleOverride} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+          <div>
+            <label htmlFor="overrideMechanic" className="block text-xs font-medium text-gray-700">Assign instead</label>
+            <select
+              id="overrideMechanic"
+              required
+              value={override.mechanicId}
+              onChange={(e) => setOverride({ ...override, mechanicId: e.target.value })}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm text-gray-900"
+            >
+              <option value="">Choose a mechanic</option>
+              {ranking.candidates
+                .filter(candidate => candidate.mechanicId !== request.mechanicId)
+                .map(candidate => (
+                  <option key={candidate.mechanicId} value={candidate.mechanicId}>
+                    {candidate.name}{candidate.excludedBecause ? ` (${candidate.excludedBecause})` : ''}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="overrideReason" className="block text-xs font-medium text-gray-700">Reason</label>
+            <input
+              id="overrideReason"
+              type="text"
+              required
+              maxLength={500}
+              placeholder="e.g. Customer asked for this mechanic"
+              value={override.reason}
+              onChange={(e) => setOverride({ ...override, reason: e.target.value })}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm text-gray-900"
+            />
+          </div>
+          <div>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="bg-orange-600 hover:bg-orange-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+            >
+              Override
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
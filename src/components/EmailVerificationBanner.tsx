@@ -0,0 +1,68 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface EmailVerificationBannerProps {
+  className?: string;
+}
+
+// Reminds users with an unverified email address to confirm it, with a way to resend the link
+export default function EmailVerificationBanner({ className = '' }: EmailVerificationBannerProps) {
+  const [email, setEmail] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        const response = await fetch('/api/users/profile');
+        const result = await response.json();
+
+        if (result.success && !result.data.user.emailVerified) {
+          setEmail(result.data.user.email);
+        }
+      } catch (error) {
+        console.error('Fetch profile error:', error);
+      }
+    };
+
+    fetchProfile();
+  }, []);
+
+  const handleResend = async () => {
+    try {
+      setSending(true);
+      setMessage('');
+
+      const response = await fetch('/api/auth/verify-email/resend', { method: 'POST' });
+      const result = await response.json();
+
+      setMessage(result.success ? result.message : result.error || 'Failed to send verification email');
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      setMessage('Failed to send verification email');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!email) return null;
+
+  return (
+    <div className={`bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg ${className}`} role="alert">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <span className="text-sm">
+          Please verify your email address ({email}) to request services and make payments.
+        </span>
+        <button
+          onClick={handleResend}
+          disabled={sending}
+          className="text-sm font-medium text-yellow-900 underline hover:text-yellow-700 disabled:opacity-50"
+        >
+          {sending ? 'Sending...' : 'Resend verification email'}
+        </button>
+      </div>
+      {message && <p className="mt-1 text-sm">{message}</p>}
+    </div>
+  );
+}
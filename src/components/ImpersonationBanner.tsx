@@ -0,0 +1,101 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+interface ImpersonationStatus {
+  active: boolean;
+  expired?: boolean;
+  expiresAt?: string;
+  readOnly?: boolean;
+  user?: {
+    username: string;
+    firstName: string;
+    lastName: string;
+  };
+  admin?: {
+    username: string;
+  };
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// Shown on every page while a system admin is signed in as another user; ends the impersonation on expiry
+export default function ImpersonationBanner() {
+  const [status, setStatus] = useState<ImpersonationStatus | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [ending, setEnding] = useState(false);
+
+  useEffect(() => {
+    const fetchStatus = async () => {
+      try {
+        const response = await fetch('/api/auth/impersonation');
+        const result = await response.json();
+
+        if (result.success && result.data.active) {
+          setStatus(result.data);
+        }
+      } catch (error) {
+        console.error('Fetch impersonation status error:', error);
+      }
+    };
+
+    fetchStatus();
+  }, []);
+
+  const handleEnd = useCallback(async () => {
+    try {
+      setEnding(true);
+      const response = await fetch('/api/auth/impersonation', { method: 'DELETE' });
+      const result = await response.json();
+
+      // Full reload, so no page keeps data of the impersonated user
+      window.location.href = result.success ? result.data.redirect : '/auth/signin';
+    } catch (error) {
+      console.error('End impersonation error:', error);
+      setEnding(false);
+    }
+  }, []);
+
+  const expiresAt = status?.expiresAt ? new Date(status.expiresAt).getTime() : null;
+  const remaining = expiresAt ? expiresAt - now : 0;
+
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [expiresAt]);
+
+  useEffect(() => {
+    if (expiresAt && remaining <= 0 && !ending) {
+      handleEnd();
+    }
+  }, [expiresAt, remaining, ending, handleEnd]);
+
+  if (!status?.active || !status.user) return null;
+
+  return (
+    <div className="sticky top-0 z-50 bg-red-600 text-white px-4 py-2" role="alert">
+      <div className="max-w-7xl mx-auto flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-sm">
+        <span>
+          Viewing as <strong>{status.user.firstName} {status.user.lastName}</strong> (@{status.user.username})
+          {status.readOnly ? ' - read-only' : ' - changes allowed'}
+          {' - '}
+          {status.expired || remaining <= 0 ? 'expired' : `ends in ${formatRemaining(remaining)}`}
+        </span>
+        <button
+          onClick={handleEnd}
+          disabled={ending}
+          className="bg-white text-red-700 hover:bg-red-50 px-3 py-1 rounded-md font-medium disabled:opacity-50"
+        >
+          {ending ? 'Returning...' : `Return to ${status.admin?.username ?? 'admin'}`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { formatDistance } from '@/utils/common';
+import type { RequestTracking, ServiceRequest } from '@/types/auth';
+
+interface MechanicLocationSharingProps {
+  request: Pick<ServiceRequest, 'id' | 'customer'>;
+  onArrived: (message: string) => void;
+}
+
+// The device may report far more often; the customer only needs an update now and then
+const REPORT_INTERVAL_MS = 30 * 1000;
+
+// Shares the mechanic's position while they drive to a roadside request, until they mark arrival
+export default function MechanicLocationSharing({ request, onArrived }: MechanicLocationSharingProps) {
+  const [tracking, setTracking] = useState<RequestTracking | null>(null);
+  const [error, setError] = useState('');
+  const [arriving, setArriving] = useState(false);
+  const lastReportRef = useRef(0);
+
+  useEffect(() => {
+    if (!navigator.geolocation) {
+      setError('Location sharing is not supported by this browser');
+      return;
+    }
+
+    const reportPosition = async (position: GeolocationPosition) => {
+      if (Date.now() - lastReportRef.current < REPORT_INTERVAL_MS) return;
+      lastReportRef.current = Date.now();
+
+      try {
+        const response = await fetch(`/api/requests/${request.id}/location`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy
+          }),
+        });
+        const result = await response.json();
+
+        if (result.success) {
+          setTracking(result.data.tracking);
+          setError('');
+        } else {
+          setError(result.error || 'Failed to share your location');
+        }
+      } catch (error) {
+        console.error('Share location error:', error);
+        setError('Failed to share your location');
+      }
+    };
+
+    const watchId = navigator.geolocation.watchPosition(
+      reportPosition,
+      () => setError('Allow location access so the customer can see you are on the way'),
+      { enableHighAccuracy: true, maximumAge: 10000 }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [request.id]);
+
+  const handleArrived = async () => {
+    try {
+      setArriving(true);
+      setError('');
+
+      const response = await fetch(`/api/requests/${request.id}/arrival`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        onArrived(result.message);
+      } else {
+        setError(result.error || 'Failed to record your arrival');
+      }
+    } catch (error) {
+      console.error('Mark arrival error:', error);
+      setError('Failed to record your arrival');
+    } finally {
+      setArriving(false);
+    }
+  };
+
+  return (
+    <div className="bg-cyan-50 border border-cyan-200 rounded-lg p-4 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="text-cyan-900">
+          <div className="font-medium">
+            On the way to request #{request.id} for {request.customer.firstName} {request.customer.lastName}
+          </div>
+          <div className="text-cyan-700">
+            {tracking?.distanceKm != null
+              ? `Sharing your location · ${formatDistance(tracking.distanceKm)} to go, about ${tracking.eta}`
+              : 'Sharing your location with the customer...'}
+          </div>
+        </div>
+        <button
+          onClick={handleArrived}
+          disabled={arriving}
+          className="bg-cyan-600 hover:bg-cyan-700 disabled:bg-cyan-300 text-white px-3 py-1 rounded-md text-sm font-medium"
+        >
+          {arriving ? 'Saving...' : "I've Arrived"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-2 bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { formatDateTime, formatDistance } from '@/utils/common';
+import type { RequestTracking, ServiceRequest } from '@/types/auth';
+
+interface MechanicTrackingPanelProps {
+  request: Pick<ServiceRequest, 'id' | 'status'>;
+}
+
+const REFRESH_INTERVAL_MS = 20 * 1000;
+
+// Where the mechanic is on their way to the vehicle, refreshed until they arrive
+export default function MechanicTrackingPanel({ request }: MechanicTrackingPanelProps) {
+  const [tracking, setTracking] = useState<RequestTracking | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchTracking = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/requests/${request.id}/location`);
+      const result = await response.json();
+
+      if (result.success) {
+        setTracking(result.data.tracking);
+        setError('');
+      } else {
+        setError(result.error || 'Failed to fetch the mechanic location');
+      }
+    } catch (error) {
+      console.error('Fetch request tracking error:', error);
+      setError('Failed to fetch the mechanic location');
+    } finally {
+      setLoading(false);
+    }
+  }, [request.id]);
+
+  useEffect(() => {
+    fetchTracking();
+  }, [fetchTracking, request.status]);
+
+  const live = tracking?.live ?? false;
+
+  useEffect(() => {
+    if (!live) return;
+
+    const timer = setInterval(fetchTracking, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [live, fetchTracking]);
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading mechanic location...</div>;
+  }
+
+  const mechanicName = tracking?.mechanic
+    ? `${tracking.mechanic.firstName} ${tracking.mechanic.lastName}`
+    : 'Your mechanic';
+  const lastLocation = tracking?.lastLocation;
+
+  return (
+    <div className="space-y-2 text-sm">
+      <h4 className="font-medium text-gray-700">Mechanic Location</h4>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded">
+          {error}
+        </div>
+      )}
+
+      {tracking?.arrivedAt ? (
+        <div className="p-3 bg-green-50 rounded-lg text-green-800">
+          {mechanicName} arrived at {formatDateTime(new Date(tracking.arrivedAt))}.
+        </div>
+      ) : live && lastLocation && tracking.distanceKm !== null ? (
+        <div className="p-3 bg-cyan-50 rounded-lg text-cyan-900 space-y-1">
+          <div>
+            {mechanicName} is <span className="font-medium">{formatDistance(tracking.distanceKm)}</span> away,
+            about <span className="font-medium">{tracking.eta}</span> by road.
+          </div>
+          <div className="text-xs text-cyan-700">
+            Last position {formatDateTime(new Date(lastLocation.recordedAt))}
+            {' · '}
+            <a
+              href={`https://www.openstreetmap.org/?mlat=${lastLocation.latitude}&mlon=${lastLocation.longitude}#map=15/${lastLocation.latitude}/${lastLocation.longitude}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline hover:text-cyan-900"
+            >
+              View on map
+            </a>
+          </div>
+        </div>
+      ) : live ? (
+        <div className="text-gray-500">{mechanicName} is on the way; their position will show here once shared.</div>
+      ) : (
+        <div className="text-gray-500">The mechanic is not sharing a location for this request.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { formatDateTime } from '@/utils/common';
+import { usePermissions } from '@/hooks/usePermissions';
+import { getRequestMessageImageUrl, MAX_MESSAGE_LENGTH, PHOTO_CONTENT_TYPES } from '@/lib/service-requests';
+import type { RequestMessage, ServiceRequest } from '@/types/auth';
+
+interface RequestChatProps {
+  request: Pick<ServiceRequest, 'id'>;
+  // Called after the conversation has been marked as read, so the dashboard can update its counts
+  onRead?: () => void;
+}
+
+const REFRESH_INTERVAL_MS = 15 * 1000;
+
+const SENDER_ROLES: Record<string, string> = {
+  CUSTOMER: 'customer',
+  MECHANIC: 'mechanic',
+  GARAGE_ADMIN: 'garage',
+  SYSTEM_ADMIN: 'admin'
+};
+
+// Conversation between the customer, the mechanic and the garage about one service request
+export default function RequestChat({ request, onRead }: RequestChatProps) {
+  const { userId } = usePermissions();
+  const [messages, setMessages] = useState<RequestMessage[]>([]);
+  const [canSend, setCanSend] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [body, setBody] = useState('');
+  const [image, setImage] = useState<File | null>(null);
+  const [sending, setSending] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/requests/${request.id}/messages`);
+      const result = await response.json();
+
+      if (result.success) {
+        setMessages(result.data.messages);
+        setCanSend(result.data.canSend);
+        setError('');
+      } else {
+        setError(result.error || 'Failed to fetch messages');
+      }
+    } catch (error) {
+      console.error('Fetch request messages error:', error);
+      setError('Failed to fetch messages');
+    } finally {
+      setLoading(false);
+    }
+  }, [request.id]);
+
+  useEffect(() => {
+    fetchMessages();
+    const timer = setInterval(fetchMessages, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchMessages]);
+
+  const hasUnread = userId !== null && messages.some(message =>
+    message.sender.id !== userId && !message.readBy.some(reader => reader.id === userId)
+  );
+
+  useEffect(() => {
+    if (!hasUnread) return;
+
+    const markRead = async () => {
+      try {
+        const response = await fetch(`/api/requests/${request.id}/messages/read`, { method: 'POST' });
+        const result = await response.json();
+
+        if (result.success) {
+          await fetchMessages();
+          onRead?.();
+        }
+      } catch (error) {
+        console.error('Mark messages read error:', error);
+      }
+    };
+
+    markRead();
+  }, [hasUnread, request.id, fetchMessages, onRead]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim() && !image) return;
+
+    try {
+      setSending(true);
+      setError('');
+
+      const formData = new FormData();
+      formData.append('body', body);
+      if (image) formData.append('image', image);
+
+      const response = await fetch(`/api/requests/${request.id}/messages`, {
+        method: 'POST',
+        body: formData,
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setMessages(result.data.messages);
+        setBody('');
+        setImage(null);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+      } else {
+        setError(result.error || 'Failed to send message');
+      }
+    } catch (error) {
+      console.error('Send request message error:', error);
+      setError('Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <h4 className="font-medium text-gray-700">Messages</h4>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded">
+          {error}
+        </div>
+      )}
+
+      {!loading && messages.length === 0 && (
+        <div className="text-gray-500">No messages yet.</div>
+      )}
+
+      {messages.length > 0 && (
+        <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+          {messages.map(message => {
+            const own = message.sender.id === userId;
+
+            return (
+              <div key={message.id} className={`flex ${own ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[80%] rounded-lg px-3 py-2 ${own ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'}`}>
+                  {!own && (
+                    <div className="text-xs font-medium text-gray-600">
+                      {message.sender.firstName} {message.sender.lastName} ({SENDER_ROLES[message.sender.userType] || message.sender.userType.toLowerCase()})
+                    </div>
+                  )}
+                  {message.image && (
+                    <a
+                      href={getRequestMessageImageUrl(request.id, message.id)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title={message.image.fileName}
+                    >
+                      {/* eslint-disable-next-line @next/next/no-img-element -- served by an authenticated API route */}
+                      <img
+                        src={getRequestMessageImageUrl(request.id, message.id)}
+                        alt={message.image.fileName}
+                        className="mt-1 max-h-48 rounded border border-gray-200 hover:opacity-90"
+                      />
+                    </a>
+                  )}
+                  {message.body && <p className="whitespace-pre-wrap">{message.body}</p>}
+                  {!message.body && !message.image && (
+                    <p className="italic opacity-75">This message was removed</p>
+                  )}
+                  <div className={`text-xs mt-1 ${own ? 'text-blue-100' : 'text-gray-500'}`}>
+                    {formatDateTime(new Date(message.createdAt))}
+                    {own && message.readBy.length > 0 && (
+                      <span title={message.readBy.map(reader => `${reader.firstName} ${reader.lastName}`).join(', ')}>
+                        {' · '}Read by {message.readBy.map(reader => reader.firstName).join(', ')}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canSend && (
+        <form onSubmit={handleSend} className="space-y-2">
+          <textarea
+            rows={2}
+            maxLength={MAX_MESSAGE_LENGTH}
+            placeholder="Write a message"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            className="block w-full border-gray-300 rounded-md shadow-sm text-gray-900"
+          />
+          <div className="flex items-center justify-between">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={PHOTO_CONTENT_TYPES.join(',')}
+              onChange={(e) => setImage(e.target.files?.[0] ?? null)}
+              className="text-xs text-gray-600"
+            />
+            <button
+              type="submit"
+              disabled={sending || (!body.trim() && !image)}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white px-4 py-2 rounded-md font-medium"
+            >
+              {sending ? 'Sending...' : 'Send'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+// Shown on request cards while the conversation has messages the user has not read
+export function UnreadMessagesBadge({ count }: { count: number | undefined }) {
+  if (!count) return null;
+
+  return (
+    <span className="text-xs bg-blue-600 text-white px-2 py-1 rounded-full">
+      {count} new message{count === 1 ? '' : 's'}
+    </span>
+  );
+}
@@ -0,0 +1,480 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { formatDateTime } from '@/utils/common';
+import { isActiveRequestStatus } from '@/lib/request-status';
+import {
+  DEFAULT_ESTIMATE_VALID_DAYS,
+  ESTIMATE_ITEM_KIND_LABELS,
+  ESTIMATE_STATUS_LABELS,
+  MAX_ESTIMATE_ITEMS,
+  MAX_ESTIMATE_NOTES_LENGTH,
+  MAX_ESTIMATE_VALID_DAYS
+} from '@/lib/estimates';
+import type { EstimateItemKind } from '@/generated/prisma';
+import type { Estimate, EstimateItemData, ServiceRequest } from '@/types/auth';
+
+interface RequestEstimatesProps {
+  request: Pick<ServiceRequest, 'id' | 'garageId' | 'status'>;
+  // Called after an estimate was converted, so the dashboard can reload the request's services
+  onChanged?: () => void;
+}
+
+interface GarageServiceOption {
+  service: { id: number; serviceName: string; estimatedPrice: number };
+}
+
+interface EstimateLine {
+  kind: EstimateItemKind;
+  serviceId: string;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+const EMPTY_LINE: EstimateLine = { kind: 'SERVICE', serviceId: '', description: '', quantity: '1', unitPrice: '' };
+
+const STATUS_STYLES: Record<Estimate['status'], string> = {
+  SENT: 'bg-yellow-100 text-yellow-800',
+  ANSWERED: 'bg-blue-100 text-blue-800',
+  SUPERSEDED: 'bg-gray-100 text-gray-600',
+  CONVERTED: 'bg-green-100 text-green-800'
+};
+
+const DECISION_STYLES: Record<Estimate['items'][number]['decision'], string> = {
+  PENDING: 'text-gray-500',
+  APPROVED: 'text-green-700',
+  DECLINED: 'text-red-700'
+};
+
+// Priced estimates for a request: the garage sends and revises them, the customer answers each line
+export default function RequestEstimates({ request, onChanged }: RequestEstimatesProps) {
+  const [estimates, setEstimates] = useState<Estimate[]>([]);
+  const [canRespond, setCanRespond] = useState(false);
+  const [canEdit, setCanEdit] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [decisions, setDecisions] = useState<Record<number, 'APPROVED' | 'DECLINED'>>({});
+  const [expectedDate, setExpectedDate] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [garageServices, setGarageServices] = useState<GarageServiceOption[]>([]);
+  const [lines, setLines] = useState<EstimateLine[]>([EMPTY_LINE]);
+  const [validDays, setValidDays] = useState(String(DEFAULT_ESTIMATE_VALID_DAYS));
+  const [notes, setNotes] = useState('');
+
+  const fetchEstimates = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/requests/${request.id}/estimates`);
+      const result = await response.json();
+
+      if (result.success) {
+        setEstimates(result.data.estimates);
+        setCanRespond(result.data.canRespond);
+        setCanEdit(result.data.canEdit);
+      } else {
+        setError(result.error || 'Failed to fetch estimates');
+      }
+    } catch (error) {
+      console.error('Fetch estimates error:', error);
+      setError('Failed to fetch estimates');
+    } finally {
+      setLoading(false);
+    }
+  }, [request.id]);
+
+  useEffect(() => {
+    fetchEstimates();
+  }, [fetchEstimates]);
+
+  const openForm = async (basedOn?: Estimate) => {
+    setLines(basedOn
+      ? basedOn.items.map(item => ({
+        kind: item.kind,
+        serviceId: item.serviceId ? String(item.serviceId) : '',
+        description: item.description,
+        quantity: String(item.quantity),
+        unitPrice: String(item.unitPrice)
+      }))
+      : [EMPTY_LINE]);
+    setNotes(basedOn?.notes ?? '');
+    setValidDays(String(DEFAULT_ESTIMATE_VALID_DAYS));
+    setShowForm(true);
+
+    if (garageServices.length > 0) return;
+
+    try {
+      const response = await fetch(`/api/garages/${request.garageId}/services`);
+      const result = await response.json();
+
+      if (result.success) {
+        setGarageServices(result.data.garageServices);
+      }
+    } catch (error) {
+      console.error('Fetch garage services error:', error);
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<EstimateLine>) => {
+    setLines(current => current.map((line, lineIndex) => (lineIndex === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleServiceChange = (index: number, serviceId: string) => {
+    const option = garageServices.find(entry => String(entry.service.id) === serviceId);
+    updateLine(index, {
+      serviceId,
+      description: option?.service.serviceName ?? '',
+      unitPrice: option ? String(option.service.estimatedPrice) : ''
+    });
+  };
+
+  const submit = async (url: string, method: string, body: unknown, onDone?: () => void) => {
+    try {
+      setSubmitting(true);
+      setError('');
+      setSuccess('');
+
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setSuccess(result.message);
+        onDone?.();
+        await fetchEstimates();
+      } else {
+        setError(result.error || 'Failed to update estimate');
+      }
+    } catch (error) {
+      console.error('Update estimate error:', error);
+      setError('Failed to update estimate');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const items: EstimateItemData[] = lines.map(line => ({
+      kind: line.kind,
+      ...(line.kind === 'SERVICE' && line.serviceId && { serviceId: parseInt(line.serviceId) }),
+      description: line.description,
+      quantity: parseFloat(line.quantity),
+      unitPrice: parseFloat(line.unitPrice)
+    }));
+
+    submit(
+      `/api/requests/${request.id}/estimates`,
+      'POST',
+      { validDays: parseInt(validDays), notes, items },
+      () => setShowForm(false)
+    );
+  };
+
+  const handleAnswer = (estimate: Estimate) => {
+    submit(
+      `/api/requests/${request.id}/estimates/${estimate.id}`,
+      'PATCH',
+      { decisions },
+      () => setDecisions({})
+    );
+  };
+
+  const handleConvert = (estimate: Estimate) => {
+    submit(
+      `/api/requests/${request.id}/estimates/${estimate.id}/convert`,
+      'POST',
+      { expectedDate: expectedDate ? new Date(expectedDate).toISOString() : '' },
+      onChanged
+    );
+  };
+
+  const [latest, ...earlier] = estimates;
+  const active = isActiveRequestStatus(request.status);
+  const answering = latest && canRespond && latest.status === 'SENT' && !latest.expired;
+  const allDecided = latest && latest.items.every(item => decisions[item.id]);
+  const hasApprovedServices = latest?.items.some(item => item.kind === 'SERVICE' && item.decision === 'APPROVED');
+  const draftTotal = lines.reduce((sum, line) => sum + (parseFloat(line.quantity) || 0) * (parseFloat(line.unitPrice) || 0), 0);
+
+  const renderEstimate = (estimate: Estimate, current: boolean) => (
+    <div key={estimate.id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="font-medium text-gray-900">
+          Version {estimate.version}
+          <span className="ml-2 text-xs text-gray-500">
+            by {estimate.createdBy.firstName} {estimate.createdBy.lastName}, {formatDateTime(new Date(estimate.createdAt))}
+          </span>
+        </div>
+        <span className={`text-xs px-2 py-1 rounded-full ${estimate.expired ? 'bg-red-100 text-red-800' : STATUS_STYLES[estimate.status]}`}>
+          {estimate.expired ? 'Expired' : ESTIMATE_STATUS_LABELS[estimate.status]}
+        </span>
+      </div>
+
+      <table className="w-full text-left">
+        <thead className="text-xs text-gray-500">
+          <tr>
+            <th className="py-1">Item</th>
+            <th className="py-1 text-right">Qty</th>
+            <th className="py-1 text-right">Price</th>
+            <th className="py-1 text-right">Total</th>
+            <th className="py-1 text-right">Decision</th>
+          </tr>
+        </thead>
+        <tbody>
+          {estimate.items.map(item => (
+            <tr key={item.id} className="border-t border-gray-100">
+              <td className="py-1">
+                {item.description}
+                <span className="ml-1 text-xs text-gray-500">({ESTIMATE_ITEM_KIND_LABELS[item.kind]})</span>
+              </td>
+              <td className="py-1 text-right">{item.quantity}</td>
+              <td className="py-1 text-right">${item.unitPrice.toFixed(2)}</td>
+              <td className="py-1 text-right">${item.totalPrice.toFixed(2)}</td>
+              <td className="py-1 text-right">
+                {current && answering ? (
+                  <select
+                    value={decisions[item.id] ?? ''}
+                    onChange={(e) => setDecisions(current => ({ ...current, [item.id]: e.target.value as 'APPROVED' | 'DECLINED' }))}
+                    className="border-gray-300 rounded-md text-xs text-gray-900"
+                  >
+                    <option value="">Choose</option>
+                    <option value="APPROVED">Approve</option>
+                    <option value="DECLINED">Decline</option>
+                  </select>
+                ) : (
+                  <span className={`text-xs ${DECISION_STYLES[item.decision]}`}>{item.decision.toLowerCase()}</span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex justify-between text-gray-700">
+        <span>
+          {estimate.status === 'SENT' && !estimate.expired && `Valid until ${formatDateTime(new Date(estimate.validUntil))}`}
+          {estimate.respondedAt && `Answered ${formatDateTime(new Date(estimate.respondedAt))}`}
+        </span>
+        <span>
+          Total <span className="font-medium">${estimate.total.toFixed(2)}</span>
+          {estimate.status !== 'SENT' && estimate.status !== 'SUPERSEDED' && (
+            <> · Approved <span className="font-medium">${estimate.approvedTotal.toFixed(2)}</span></>
+          )}
+        </span>
+      </div>
+
+      {estimate.notes && <p className="text-gray-600 whitespace-pre-wrap">{estimate.notes}</p>}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-700">Estimate</h4>
+        {canEdit && active && !showForm && (
+          <button
+            onClick={() => openForm(latest)}
+            className="text-blue-600 hover:text-blue-800 font-medium"
+          >
+            {latest ? 'Revise Estimate' : 'Create Estimate'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-3 py-2 rounded">
+          {success}
+        </div>
+      )}
+
+      {!loading && !latest && !showForm && (
+        <div className="text-gray-500">No estimate has been sent yet.</div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSend} className="border border-blue-200 bg-blue-50 rounded-lg p-3 space-y-2">
+          {lines.map((line, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+              <select
+                value={line.kind}
+                onChange={(e) => updateLine(index, { kind: e.target.value as EstimateItemKind, serviceId: '' })}
+                className="col-span-2 border-gray-300 rounded-md text-gray-900"
+              >
+                {Object.entries(ESTIMATE_ITEM_KIND_LABELS).map(([kind, label]) => (
+                  <option key={kind} value={kind}>{label}</option>
+                ))}
+              </select>
+              {line.kind === 'SERVICE' ? (
+                <select
+                  value={line.serviceId}
+                  onChange={(e) => handleServiceChange(index, e.target.value)}
+                  className="col-span-5 border-gray-300 rounded-md text-gray-900"
+                  required
+                >
+                  <option value="">Choose a service</option>
+                  {garageServices.map(entry => (
+                    <option key={entry.service.id} value={entry.service.id}>{entry.service.serviceName}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  placeholder="Description"
+                  value={line.description}
+                  onChange={(e) => updateLine(index, { description: e.target.value })}
+                  className="col-span-5 border-gray-300 rounded-md text-gray-900"
+                  required
+                />
+              )}
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                title="Quantity"
+                value={line.quantity}
+                onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                className="col-span-2 border-gray-300 rounded-md text-gray-900"
+                required
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Unit price"
+                value={line.unitPrice}
+                onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                className="col-span-2 border-gray-300 rounded-md text-gray-900"
+                required
+              />
+              <button
+                type="button"
+                onClick={() => setLines(current => current.filter((_, lineIndex) => lineIndex !== index))}
+                disabled={lines.length === 1}
+                className="col-span-1 text-red-600 hover:text-red-800 disabled:text-gray-300"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={() => setLines(current => [...current, EMPTY_LINE])}
+              disabled={lines.length >= MAX_ESTIMATE_ITEMS}
+              className="text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-400"
+            >
+              Add Line
+            </button>
+            <span className="text-gray-700">Total <span className="font-medium">${draftTotal.toFixed(2)}</span></span>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="estimateValidDays" className="text-gray-700">Valid for</label>
+            <input
+              id="estimateValidDays"
+              type="number"
+              min="1"
+              max={MAX_ESTIMATE_VALID_DAYS}
+              value={validDays}
+              onChange={(e) => setValidDays(e.target.value)}
+              className="w-20 border-gray-300 rounded-md text-gray-900"
+              required
+            />
+            <span className="text-gray-700">days</span>
+          </div>
+
+          <textarea
+            rows={2}
+            maxLength={MAX_ESTIMATE_NOTES_LENGTH}
+            placeholder="Notes for the customer (optional)"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="block w-full border-gray-300 rounded-md shadow-sm text-gray-900"
+          />
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded-md font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white px-4 py-2 rounded-md font-medium"
+            >
+              {submitting ? 'Sending...' : latest ? 'Send Revision' : 'Send Estimate'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {latest && renderEstimate(latest, true)}
+
+      {answering && (
+        <div className="flex justify-end">
+          <button
+            onClick={() => handleAnswer(latest)}
+            disabled={submitting || !allDecided}
+            className="bg-green-600 hover:bg-green-700 disabled:bg-green-300 text-white px-4 py-2 rounded-md font-medium"
+          >
+            {submitting ? 'Sending...' : 'Send Answer'}
+          </button>
+        </div>
+      )}
+
+      {latest && canEdit && active && latest.status === 'ANSWERED' &&
+        latest.items.some(item => item.decision === 'APPROVED') && (
+        <div className="flex items-center justify-end gap-2">
+          {hasApprovedServices && (
+            <input
+              type="datetime-local"
+              title="Expected completion of the approved services"
+              value={expectedDate}
+              onChange={(e) => setExpectedDate(e.target.value)}
+              className="border-gray-300 rounded-md text-gray-900"
+            />
+          )}
+          <button
+            onClick={() => handleConvert(latest)}
+            disabled={submitting || (hasApprovedServices && !expectedDate)}
+            className="bg-green-600 hover:bg-green-700 disabled:bg-green-300 text-white px-4 py-2 rounded-md font-medium"
+          >
+            {submitting ? 'Converting...' : 'Start Approved Work'}
+          </button>
+        </div>
+      )}
+
+      {earlier.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="text-gray-600 hover:text-gray-800"
+          >
+            {showHistory ? 'Hide' : 'Show'} earlier versions ({earlier.length})
+          </button>
+          {showHistory && (
+            <div className="mt-2 space-y-2">
+              {earlier.map(estimate => renderEstimate(estimate, false))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { formatDateTime } from '@/utils/common';
+import { isActiveRequestStatus } from '@/lib/request-status';
+import type { DispatchCandidate, RequestReassignment, ServiceRequest } from '@/types/auth';
+
+interface RequestHandoverPanelProps {
+  request: Pick<ServiceRequest, 'id' | 'status' | 'mechanicId'>;
+  // Garage staff reassign and answer hand-over requests; the assigned mechanic can only ask
+  canAssign: boolean;
+  // Called after the request moved to another mechanic or a hand-over was requested
+  onChanged: () => void;
+}
+
+const STATUS_LABELS: Record<RequestReassignment['status'], string> = {
+  PENDING: 'Waiting for the garage',
+  COMPLETED: 'Handed over',
+  DECLINED: 'Declined'
+};
+
+// Who worked on the request before, and the controls to hand it to another mechanic
+export default function RequestHandoverPanel({
+  request,
+  canAssign,
+  onChanged
+}: RequestHandoverPanelProps) {
+  const [reassignments, setReassignments] = useState<RequestReassignment[]>([]);
+  const [mechanics, setMechanics] = useState<DispatchCandidate[]>([]);
+  const [form, setForm] = useState({ mechanicId: '', reason: '' });
+  const [declineNote, setDeclineNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const fetchReassignments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/requests/${request.id}/reassignments`);
+      const result = await response.json();
+
+      if (result.success) {
+        setReassignments(result.data.reassignments);
+      } else {
+        setError(result.error || 'Failed to fetch hand-overs');
+      }
+    } catch (error) {
+      console.error('Fetch reassignments error:', error);
+      setError('Failed to fetch hand-overs');
+    }
+  }, [request.id]);
+
+  // The dispatch ranking doubles as the list of mechanics who could take over, best first
+  const fetchMechanics = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/requests/${request.id}/dispatch`);
+      const result = await response.json();
+
+      if (result.success) {
+        setMechanics(result.data.ranking.candidates);
+      }
+    } catch (error) {
+      console.error('Fetch mechanics error:', error);
+    }
+  }, [request.id]);
+
+  useEffect(() => {
+    fetchReassignments();
+    if (canAssign) fetchMechanics();
+  }, [canAssign, fetchReassignments, fetchMechanics]);
+
+  const send = async (url: string, method: 'POST' | 'PATCH', body: object) => {
+    setSubmitting(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setSuccess(result.message);
+        setForm({ mechanicId: '', reason: '' });
+        setDeclineNote('');
+        onChanged();
+      } else {
+        setError(result.error || 'Failed to hand over the request');
+      }
+      await fetchReassignments();
+    } catch (error) {
+      console.error('Hand-over error:', error);
+      setError('Failed to hand over the request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    send(`/api/requests/${request.id}/reassignments`, 'POST', {
+      reason: form.reason,
+      ...(canAssign ? { mechanicId: parseInt(form.mechanicId) } : {})
+    });
+  };
+
+  const pending = reassignments.find(reassignment => reassignment.status === 'PENDING');
+  const active = isActiveRequestStatus(request.status) && !!request.mechanicId;
+
+  if (!active && reassignments.length === 0) return null;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <h4 className="font-medium text-gray-700">Hand-over</h4>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-3 py-2 rounded">
+          {success}
+        </div>
+      )}
+
+      {reassignments.length > 0 && (
+        <ul className="space-y-2">
+          {reassignments.map(reassignment => (
+            <li key={reassignment.id} className="bg-gray-50 rounded p-3">
+              <div className="flex justify-between">
+                <span className="text-gray-900">
+                  {reassignment.fromMechanic.firstName} {reassignment.fromMechanic.lastName}
+                  {reassignment.toMechanic && ` → ${reassignment.toMechanic.firstName} ${reassignment.toMechanic.lastName}`}
+                </span>
+                <span className="text-xs text-gray-500">{STATUS_LABELS[reassignment.status]}</span>
+              </div>
+              <div className="text-gray-600">Reason: {reassignment.reason}</div>
+              {reassignment.decisionNote && (
+                <div className="text-gray-600">Note: {reassignment.decisionNote}</div>
+              )}
+              <div className="text-xs text-gray-500">
+                Asked by {reassignment.requestedBy.firstName} {reassignment.requestedBy.lastName},{' '}
+                {formatDateTime(new Date(reassignment.createdAt))}
+                {reassignment.decidedBy && reassignment.decidedAt && (
+                  <> · answered by {reassignment.decidedBy.firstName} {reassignment.decidedBy.lastName},{' '}
+                    {formatDateTime(new Date(reassignment.decidedAt))}</>
+                )}
+              </div>
+              {canAssign && reassignment.status === 'PENDING' && (
+                <div className="mt-2 flex items-center space-x-2">
+                  <input
+                    type="text"
+                    maxLength={500}
+                    placeholder="Note for the mechanic (optional)"
+                    value={declineNote}
+                    onChange={(e) => setDeclineNote(e.target.value)}
+                    className="flex-1 border-gray-300 rounded-md shadow-sm text-gray-900"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => send(`/api/requests/${request.id}/reassignments/${reassignment.id}`, 'PATCH', { decisionNote: declineNote })}
+                    disabled={submitting}
+                    className="text-red-600 hover:text-red-900 font-medium disabled:opacity-50"
+                  >
+                    Decline
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {active && (canAssign || !pending) && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+          {canAssign && (
+            <div>
+              <label htmlFor="handoverMechanic" className="block text-xs font-medium text-gray-700">Hand over to</label>
+              <select
+                id="handoverMechanic"
+                required
+                value={form.mechanicId}
+                onChange={(e) => setForm({ ...form, mechanicId: e.target.value })}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm text-gray-900"
+              >
+                <option value="">Choose a mechanic</option>
+                {mechanics
+                  .filter(mechanic => mechanic.mechanicId !== request.mechanicId)
+                  .map(mechanic => (
+                    <option key={mechanic.mechanicId} value={mechanic.mechanicId}>
+                      {mechanic.name}{mechanic.excludedBecause ? ` (${mechanic.excludedBecause})` : ''}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          )}
+          <div className={canAssign ? '' : 'md:col-span-2'}>
+            <label htmlFor="handoverReason" className="block text-xs font-medium text-gray-700">Reason</label>
+            <input
+              id="handoverReason"
+              type="text"
+              required
+              maxLength={500}
+              placeholder={canAssign ? 'e.g. Mechanic went off sick' : 'e.g. My shift is ending'}
+              value={form.reason}
+              onChange={(e) => setForm({ ...form, reason: e.target.value })}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm text-gray-900"
+            />
+          </div>
+          <div>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="bg-orange-600 hover:bg-orange-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+            >
+              {canAssign ? 'Reassign' : 'Request Hand-over'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
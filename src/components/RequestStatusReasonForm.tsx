@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  CANCELLATION_CATEGORY_LABELS,
+  getCancellationFee,
+  HOLD_REASON_LABELS,
+  MAX_STATUS_REASON_LENGTH
+} from '@/lib/request-status';
+import type { ServiceRequest } from '@/types/auth';
+
+type ReasonStatus = 'CANCELLED' | 'ON_HOLD' | 'REJECTED_BY_GARAGE';
+
+interface RequestStatusReasonFormProps {
+  request: Pick<ServiceRequest, 'id' | 'status' | 'garage'>;
+  status: ReasonStatus;
+  // Customers see the cancellation fee before they confirm
+  cancelledByCustomer?: boolean;
+  onDone: (message: string) => void;
+  onClose: () => void;
+}
+
+const FORM_TEXT: Record<ReasonStatus, { title: string; submit: string; notePlaceholder: string; buttonClass: string }> = {
+  CANCELLED: {
+    title: 'Why is the request cancelled?',
+    submit: 'Cancel Request',
+    notePlaceholder: 'Anything the other side should know',
+    buttonClass: 'bg-red-600 hover:bg-red-700 disabled:bg-red-300'
+  },
+  ON_HOLD: {
+    title: 'Why is the work on hold?',
+    submit: 'Put On Hold',
+    notePlaceholder: 'e.g. Brake pads arrive on Thursday',
+    buttonClass: 'bg-orange-600 hover:bg-orange-700 disabled:bg-orange-300'
+  },
+  REJECTED_BY_GARAGE: {
+    title: 'Why can the garage not take this request?',
+    submit: 'Reject Request',
+    notePlaceholder: 'e.g. We do not repair this kind of vehicle',
+    buttonClass: 'bg-red-600 hover:bg-red-700 disabled:bg-red-300'
+  }
+};
+
+// Asks for the reason a status needs (cancelling, pausing or rejecting a request) and applies it
+export default function RequestStatusReasonForm({
+  request,
+  status,
+  cancelledByCustomer = false,
+  onDone,
+  onClose
+}: RequestStatusReasonFormProps) {
+  const [category, setCategory] = useState('');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const categories: Record<string, string> | null = status === 'CANCELLED'
+    ? CANCELLATION_CATEGORY_LABELS
+    : status === 'ON_HOLD' ? HOLD_REASON_LABELS : null;
+  const fee = status === 'CANCELLED'
+    ? getCancellationFee(request.status, cancelledByCustomer, request.garage.cancellationFee)
+    : 0;
+  const text = FORM_TEXT[status];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/requests/${request.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(
+          status === 'CANCELLED'
+            ? { status, cancellationCategory: category, cancellationReason: note }
+            : status === 'ON_HOLD'
+              ? { status, holdReason: category, note }
+              : { status, note }
+        ),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        onDone(result.message);
+      } else {
+        setError(result.error || 'Failed to update request status');
+      }
+    } catch (error) {
+      console.error('Status update error:', error);
+      setError('Failed to update request status');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 text-sm">
+      <h4 className="font-medium text-gray-700">{text.title}</h4>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded">
+          {error}
+        </div>
+      )}
+
+      {fee > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-3 py-2 rounded">
+          A mechanic has already been dispatched, so a cancellation fee of ${fee.toFixed(2)} will be invoiced.
+        </div>
+      )}
+
+      {categories && (
+        <select
+          required
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="block w-full border-gray-300 rounded-md shadow-sm text-gray-900"
+        >
+          <option value="">Choose a reason</option>
+          {Object.entries(categories).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      )}
+
+      <textarea
+        rows={2}
+        required={!categories || category === 'OTHER'}
+        maxLength={MAX_STATUS_REASON_LENGTH}
+        placeholder={text.notePlaceholder}
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        className="block w-full border-gray-300 rounded-md shadow-sm text-gray-900"
+      />
+
+      <div className="flex space-x-2">
+        <button
+          type="submit"
+          disabled={submitting}
+          className={`${text.buttonClass} text-white px-4 py-2 rounded-md font-medium`}
+        >
+          {submitting ? 'Saving...' : text.submit}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-md font-medium"
+        >
+          Back
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { formatDateTime } from '@/utils/common';
+import type { RequestEvent, ServiceRequest } from '@/types/auth';
+
+interface RequestTimelineProps {
+  // The timeline reloads when the status or the assigned mechanic changes
+  request: Pick<ServiceRequest, 'id' | 'status' | 'mechanicId'>;
+}
+
+const ACTOR_ROLES: Record<string, string> = {
+  CUSTOMER: 'customer',
+  MECHANIC: 'mechanic',
+  GARAGE_ADMIN: 'garage',
+  SYSTEM_ADMIN: 'admin'
+};
+
+// Colour of the dot by the kind of thing that happened ("request", "payment", ...)
+const EVENT_COLORS: Record<string, string> = {
+  request: 'bg-blue-500',
+  dispatch: 'bg-indigo-500',
+  handover: 'bg-orange-500',
+  mechanic: 'bg-orange-500',
+  statusUpdate: 'bg-purple-500',
+  service: 'bg-green-500',
+  additionalService: 'bg-yellow-500',
+  estimate: 'bg-teal-500',
+  invoice: 'bg-gray-500',
+  payment: 'bg-emerald-500',
+  photo: 'bg-sky-500'
+};
+
+// Who did what and when on a service request, oldest first
+export default function RequestTimeline({ request }: RequestTimelineProps) {
+  const [events, setEvents] = useState<RequestEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/requests/${request.id}/events`);
+      const result = await response.json();
+
+      if (result.success) {
+        setEvents(result.data.events);
+        setError('');
+      } else {
+        setError(result.error || 'Failed to fetch the timeline');
+      }
+    } catch (error) {
+      console.error('Fetch request events error:', error);
+      setError('Failed to fetch the timeline');
+    } finally {
+      setLoading(false);
+    }
+  }, [request.id]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents, request.status, request.mechanicId]);
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-700">Timeline</h4>
+        <button
+          type="button"
+          onClick={fetchEvents}
+          disabled={loading}
+          className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded">
+          {error}
+        </div>
+      )}
+
+      {!loading && !error && events.length === 0 && (
+        <div className="text-gray-500">Nothing has been recorded for this request yet.</div>
+      )}
+
+      {events.length > 0 && (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+          {events.map(event => (
+            <li key={event.id} className="ml-4">
+              <span
+                className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white ${EVENT_COLORS[event.type.split('.')[0]] || 'bg-gray-400'}`}
+              />
+              <div className="text-gray-900">{event.summary}</div>
+              <div className="text-xs text-gray-500">
+                {event.actor
+                  ? `${event.actor.firstName} ${event.actor.lastName} (${ACTOR_ROLES[event.actor.userType] || event.actor.userType.toLowerCase()})`
+                  : 'System'}
+                {' · '}
+                {formatDateTime(new Date(event.createdAt))}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
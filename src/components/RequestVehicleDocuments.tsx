@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  getRequestVehicleDocumentFileUrl,
+  getVehicleDocumentExpiryStatus,
+  VEHICLE_DOCUMENT_EXPIRY_LABELS,
+  VEHICLE_DOCUMENT_TYPE_LABELS
+} from '@/lib/vehicle-document-display';
+import type { ServiceRequest, VehicleDocument } from '@/types/auth';
+
+interface RequestVehicleDocumentsProps {
+  request: Pick<ServiceRequest, 'id'>;
+}
+
+// The customer's papers for the vehicle on an active request, e.g. the policy for an insurance payment
+export default function RequestVehicleDocuments({ request }: RequestVehicleDocumentsProps) {
+  const [documents, setDocuments] = useState<VehicleDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchDocuments = async () => {
+      try {
+        const response = await fetch(`/api/requests/${request.id}/vehicle-documents`);
+        const result = await response.json();
+
+        if (result.success) {
+          setDocuments(result.data.documents);
+        } else {
+          setError(result.error || 'Failed to fetch vehicle documents');
+        }
+      } catch (error) {
+        console.error('Fetch request vehicle documents error:', error);
+        setError('Failed to fetch vehicle documents');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDocuments();
+  }, [request.id]);
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-gray-700">Vehicle Documents</h4>
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading documents...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : documents.length === 0 ? (
+        <p className="text-sm text-gray-500">The customer has not added any documents for this vehicle.</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {documents.map(document => {
+            const expiryStatus = getVehicleDocumentExpiryStatus(document.expiresAt);
+
+            return (
+              <li key={document.id} className="flex justify-between gap-4">
+                <span>
+                  <span className="font-medium">{VEHICLE_DOCUMENT_TYPE_LABELS[document.type]}</span>
+                  {' '}{document.documentNumber} · {document.issuer}
+                  {document.expiresAt && (
+                    <span className={expiryStatus === 'VALID' ? 'text-gray-500' : 'text-red-600'}>
+                      {' '}· expires {document.expiresAt.slice(0, 10)}
+                      {expiryStatus !== 'VALID' && ` (${VEHICLE_DOCUMENT_EXPIRY_LABELS[expiryStatus].toLowerCase()})`}
+                    </span>
+                  )}
+                </span>
+                {document.file && (
+                  <a
+                    href={getRequestVehicleDocumentFileUrl(request.id, document.id)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="shrink-0 text-indigo-600 hover:text-indigo-800 font-medium"
+                  >
+                    View
+                  </a>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import type { ServiceRequest } from '@/types/auth';
+import {
+  getRequestPhotoUrl,
+  SYMPTOM_CATEGORY_LABELS,
+  URGENCY_BADGE_STYLES,
+  URGENCY_LABELS
+} from '@/lib/service-requests';
+
+interface ServiceRequestProblemProps {
+  request: Pick<ServiceRequest, 'id' | 'description' | 'symptomCategory' | 'urgency' | 'photos' | 'afterHours' | 'afterHoursSurcharge'>;
+  // One-line summary for request lists instead of the full description and photos
+  compact?: boolean;
+}
+
+export function UrgencyBadge({ urgency }: { urgency: ServiceRequest['urgency'] }) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${URGENCY_BADGE_STYLES[urgency]}`}>
+      {urgency}
+    </span>
+  );
+}
+
+// What the customer reported: symptom, urgency, description and photos
+export default function ServiceRequestProblem({
+  request,
+  compact = false
+}: ServiceRequestProblemProps) {
+  const symptom = request.symptomCategory ? SYMPTOM_CATEGORY_LABELS[request.symptomCategory] : null;
+
+  if (compact) {
+    if (!symptom && !request.description && request.photos.length === 0) return null;
+
+    return (
+      <div className="truncate">
+        Problem: {symptom ?? 'Not specified'}
+        {request.description && ` - ${request.description}`}
+        {request.photos.length > 0 && ` (${request.photos.length} photo${request.photos.length === 1 ? '' : 's'})`}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <h4 className="font-medium text-gray-700">Reported Problem</h4>
+      <div className="flex items-center space-x-2">
+        <span className="text-gray-700">Urgency:</span>
+        <UrgencyBadge urgency={request.urgency} />
+        <span className="text-gray-500">{URGENCY_LABELS[request.urgency]}</span>
+      </div>
+      <div>Symptom: {symptom ?? 'Not specified'}</div>
+      {request.afterHours && (
+        <div className="text-red-700">
+          Requested outside opening hours
+          {request.afterHoursSurcharge ? ` (after-hours surcharge $${request.afterHoursSurcharge.toFixed(2)})` : ''}
+        </div>
+      )}
+      {request.description ? (
+        <p className="whitespace-pre-wrap text-gray-800 bg-gray-50 rounded p-3">{request.description}</p>
+      ) : (
+        <p className="text-gray-500">No description given.</p>
+      )}
+      {request.photos.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {request.photos.map((photo) => (
+            <a
+              key={photo.id}
+              href={getRequestPhotoUrl(request.id, photo.id)}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={photo.fileName}
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element -- served by an authenticated API route */}
+              <img
+                src={getRequestPhotoUrl(request.id, photo.id)}
+                alt={photo.fileName}
+                className="h-24 w-full object-cover rounded border border-gray-200 hover:opacity-90"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
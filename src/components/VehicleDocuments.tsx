@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getVehicleDocumentExpiryStatus,
+  getVehicleDocumentFileUrl,
+  VEHICLE_DOCUMENT_EXPIRY_LABELS,
+  VEHICLE_DOCUMENT_TYPE_LABELS
+} from '@/lib/vehicle-document-display';
+import type { VehicleDocument, VehicleDocumentExpiryStatus } from '@/types/auth';
+
+interface VehicleDocumentsProps {
+  vehicleId: number;
+  archived: boolean;
+}
+
+const EXPIRY_STYLES: Record<VehicleDocumentExpiryStatus, string> = {
+  VALID: 'bg-green-100 text-green-800',
+  EXPIRING: 'bg-yellow-100 text-yellow-800',
+  EXPIRED: 'bg-red-100 text-red-800'
+};
+
+const EMPTY_DOCUMENT_FORM = {
+  type: 'INSURANCE',
+  documentNumber: '',
+  issuer: '',
+  expiresAt: ''
+};
+
+// Insurance, registration and inspection papers of one of the customer's vehicles
+export default function VehicleDocuments({ vehicleId, archived }: VehicleDocumentsProps) {
+  const [documents, setDocuments] = useState<VehicleDocument[]>([]);
+  const [form, setForm] = useState(EMPTY_DOCUMENT_FORM);
+  const [file, setFile] = useState<File | null>(null);
+  const [formKey, setFormKey] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchDocuments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/vehicles/${vehicleId}/documents`);
+      const result = await response.json();
+
+      if (result.success) {
+        setDocuments(result.data.documents);
+      } else {
+        setError(result.error || 'Failed to fetch documents');
+      }
+    } catch (error) {
+      console.error('Fetch vehicle documents error:', error);
+      setError('Failed to fetch documents');
+    } finally {
+      setLoading(false);
+    }
+  }, [vehicleId]);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [fetchDocuments]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+
+    const formData = new FormData();
+    Object.entries(form).forEach(([key, value]) => formData.append(key, value));
+    if (file) formData.append('file', file);
+
+    try {
+      const response = await fetch(`/api/vehicles/${vehicleId}/documents`, {
+        method: 'POST',
+        body: formData,
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setForm(EMPTY_DOCUMENT_FORM);
+        setFile(null);
+        // Remount the form so the file input is cleared too
+        setFormKey(key => key + 1);
+        await fetchDocuments();
+      } else {
+        setError(result.error || 'Failed to add document');
+      }
+    } catch (error) {
+      console.error('Add vehicle document error:', error);
+      setError('Network error');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (document: VehicleDocument) => {
+    if (!confirm(`Remove the ${VEHICLE_DOCUMENT_TYPE_LABELS[document.type].toLowerCase()} document ${document.documentNumber}?`)) return;
+
+    setSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/vehicles/${vehicleId}/documents/${document.id}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (result.success) {
+        await fetchDocuments();
+      } else {
+        setError(result.error || 'Failed to remove document');
+      }
+    } catch (error) {
+      console.error('Remove vehicle document error:', error);
+      setError('Network error');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading documents...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium text-gray-900">Documents</h4>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {documents.length === 0 ? (
+        <p className="text-sm text-gray-500">No documents yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {documents.map(document => {
+            const expiryStatus = getVehicleDocumentExpiryStatus(document.expiresAt);
+
+            return (
+              <li key={document.id} className="flex justify-between items-start gap-4 text-sm">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-gray-900">
+                      {VEHICLE_DOCUMENT_TYPE_LABELS[document.type]} {document.documentNumber}
+                    </span>
+                    {document.expiresAt && (
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${EXPIRY_STYLES[expiryStatus]}`}>
+                        {VEHICLE_DOCUMENT_EXPIRY_LABELS[expiryStatus]}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {document.issuer}
+                    {document.expiresAt ? ` · expires ${document.expiresAt.slice(0, 10)}` : ' · no expiry'}
+                  </p>
+                </div>
+                <div className="flex gap-3 shrink-0">
+                  {document.file && (
+                    <a
+                      href={getVehicleDocumentFileUrl(vehicleId, document.id)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-indigo-600 hover:text-indigo-800 font-medium"
+                    >
+                      View
+                    </a>
+                  )}
+                  <button
+                    onClick={() => handleRemove(document)}
+                    disabled={submitting}
+                    className="text-red-600 hover:text-red-800 font-medium"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {!archived && (
+        <form key={formKey} onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <select
+            aria-label="Document type"
+            value={form.type}
+            onChange={(e) => setForm(prev => ({ ...prev, type: e.target.value }))}
+            className="block w-full border border-gray-300 rounded-md px-3 py-1 text-sm"
+          >
+            {Object.entries(VEHICLE_DOCUMENT_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            aria-label="Document number"
+            placeholder="Document or policy number"
+            value={form.documentNumber}
+            onChange={(e) => setForm(prev => ({ ...prev, documentNumber: e.target.value }))}
+            className="block w-full border border-gray-300 rounded-md px-3 py-1 text-sm"
+            required
+          />
+          <input
+            type="text"
+            aria-label="Issuer"
+            placeholder="Issuer, e.g. insurance company"
+            value={form.issuer}
+            onChange={(e) => setForm(prev => ({ ...prev, issuer: e.target.value }))}
+            className="block w-full border border-gray-300 rounded-md px-3 py-1 text-sm"
+            required
+          />
+          <input
+            type="date"
+            aria-label="Expiry date"
+            value={form.expiresAt}
+            onChange={(e) => setForm(prev => ({ ...prev, expiresAt: e.target.value }))}
+            className="block w-full border border-gray-300 rounded-md px-3 py-1 text-sm"
+          />
+          <input
+            type="file"
+            aria-label="Scan or photo of the document"
+            accept="application/pdf,image/jpeg,image/png,image/webp"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="block w-full text-sm text-gray-600"
+          />
+          <button
+            type="submit"
+            disabled={submitting}
+            className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white px-3 py-1 rounded-md text-sm font-medium"
+          >
+            Add Document
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
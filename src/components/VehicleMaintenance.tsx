@@ -0,0 +1,216 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import type { MaintenanceDueStatus, MaintenanceItem, OdometerReading, VehicleMaintenance as VehicleMaintenanceData } from '@/types/auth';
+
+interface VehicleMaintenanceProps {
+  vehicleId: number;
+  userId: number;
+  archived: boolean;
+}
+
+// Readings listed under the form; older ones still count towards the schedules
+const VISIBLE_READINGS = 5;
+
+const STATUS_STYLES: Record<MaintenanceDueStatus, string> = {
+  OK: 'bg-green-100 text-green-800',
+  DUE_SOON: 'bg-yellow-100 text-yellow-800',
+  DUE: 'bg-red-100 text-red-800'
+};
+
+const STATUS_LABELS: Record<MaintenanceDueStatus, string> = {
+  OK: 'Up to date',
+  DUE_SOON: 'Due soon',
+  DUE: 'Due'
+};
+
+function describeDue(item: MaintenanceItem): string {
+  const due = [
+    item.dueKm !== null ? `${item.dueKm.toLocaleString()} km` : null,
+    item.dueAt ? new Date(item.dueAt).toLocaleDateString() : null
+  ].filter(Boolean);
+
+  if (!item.lastDoneAt && due.length === 0) return 'No record of it being done yet';
+  return due.length > 0 ? `Due at ${due.join(' or ')}` : 'Log the odometer to see when it is due';
+}
+
+// Booking goes to the garage that did it last, otherwise the owner picks a garage first
+function getBookingHref(vehicleId: number, item: MaintenanceItem): string {
+  const query = `vehicle_id=${vehicleId}&service_id=${item.service.id}`;
+  return item.lastGarageId
+    ? `/customer/request-service?garage_id=${item.lastGarageId}&${query}`
+    : `/customer/garages?${query}`;
+}
+
+// Odometer log and maintenance schedule of one of the customer's vehicles
+export default function VehicleMaintenance({ vehicleId, userId, archived }: VehicleMaintenanceProps) {
+  const [maintenance, setMaintenance] = useState<VehicleMaintenanceData | null>(null);
+  const [readings, setReadings] = useState<OdometerReading[]>([]);
+  const [km, setKm] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchMaintenance = useCallback(async () => {
+    try {
+      const [maintenanceResponse, readingsResponse] = await Promise.all([
+        fetch(`/api/vehicles/${vehicleId}/maintenance`),
+        fetch(`/api/vehicles/${vehicleId}/odometer`)
+      ]);
+      const maintenanceResult = await maintenanceResponse.json();
+      const readingsResult = await readingsResponse.json();
+
+      if (maintenanceResult.success && readingsResult.success) {
+        setMaintenance(maintenanceResult.data.maintenance);
+        setReadings(readingsResult.data.readings);
+      } else {
+        setError(maintenanceResult.error || readingsResult.error || 'Failed to fetch maintenance');
+      }
+    } catch (error) {
+      console.error('Fetch maintenance error:', error);
+      setError('Failed to fetch maintenance');
+    } finally {
+      setLoading(false);
+    }
+  }, [vehicleId]);
+
+  useEffect(() => {
+    fetchMaintenance();
+  }, [fetchMaintenance]);
+
+  const runReadingAction = async (url: string, method: string, body?: unknown) => {
+    setSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        await fetchMaintenance();
+        return true;
+      }
+
+      setError(result.error || 'Failed to update odometer');
+    } catch (error) {
+      console.error('Odometer error:', error);
+      setError('Network error');
+    } finally {
+      setSubmitting(false);
+    }
+
+    return false;
+  };
+
+  const handleLogReading = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await runReadingAction(`/api/vehicles/${vehicleId}/odometer`, 'POST', { km: parseInt(km) })) {
+      setKm('');
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading maintenance...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-900">Odometer</h4>
+        <p className="text-sm text-gray-600">
+          {maintenance && maintenance.currentKm !== null && maintenance.lastReadingAt
+            ? `${maintenance.currentKm.toLocaleString()} km (logged ${new Date(maintenance.lastReadingAt).toLocaleDateString()})`
+            : 'No reading yet'}
+        </p>
+
+        {!archived && (
+          <form onSubmit={handleLogReading} className="mt-2 flex gap-2">
+            <input
+              type="number"
+              min="0"
+              aria-label="Odometer reading in km"
+              placeholder="Current reading (km)"
+              value={km}
+              onChange={(e) => setKm(e.target.value)}
+              className="block w-48 border border-gray-300 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              required
+            />
+            <button
+              type="submit"
+              disabled={submitting}
+              className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white px-3 py-1 rounded-md text-sm font-medium"
+            >
+              Log
+            </button>
+          </form>
+        )}
+
+        {readings.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {readings.slice(0, VISIBLE_READINGS).map(reading => (
+              <li key={reading.id} className="text-xs text-gray-500 flex gap-2">
+                <span>
+                  {reading.km.toLocaleString()} km on {new Date(reading.recordedAt).toLocaleDateString()}
+                  {reading.source === 'MECHANIC' && reading.recordedBy && ` by ${reading.recordedBy.firstName} ${reading.recordedBy.lastName}`}
+                </span>
+                {reading.source === 'CUSTOMER' && reading.recordedBy?.id === userId && (
+                  <button
+                    onClick={() => runReadingAction(`/api/vehicles/${vehicleId}/odometer/${reading.id}`, 'DELETE')}
+                    disabled={submitting}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    Remove
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-900">Maintenance</h4>
+        {!maintenance || maintenance.items.length === 0 ? (
+          <p className="text-sm text-gray-500">No maintenance schedule applies to this vehicle.</p>
+        ) : (
+          <ul className="mt-2 space-y-2">
+            {maintenance.items.map(item => (
+              <li key={item.scheduleId} className="flex justify-between items-start gap-4 text-sm">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-gray-900">{item.service.serviceName}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[item.status]}`}>
+                      {STATUS_LABELS[item.status]}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {describeDue(item)}
+                    {item.lastDoneAt && ` · last done ${new Date(item.lastDoneAt).toLocaleDateString()}`}
+                    {item.lastDoneKm !== null && ` at ${item.lastDoneKm.toLocaleString()} km`}
+                  </p>
+                </div>
+                {!archived && item.status !== 'OK' && (
+                  <Link
+                    href={getBookingHref(vehicleId, item)}
+                    className="shrink-0 text-indigo-600 hover:text-indigo-800 font-medium"
+                  >
+                    Book
+                  </Link>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { decodeVin, normalizeVin, validateVin, VIN_LENGTH } from '@/lib/vin';
+
+interface VinFieldProps {
+  id: string;
+  value: string;
+  onChange: (vin: string) => void;
+}
+
+// VIN input that decodes as the owner types, so mistakes show before the form is sent
+export default function VinField({ id, value, onChange }: VinFieldProps) {
+  const vin = normalizeVin(value);
+  const complete = vin.length === VIN_LENGTH;
+  const vinError = complete ? validateVin(vin) : null;
+  const decoded = complete ? decodeVin(vin) : null;
+
+  let hint = { text: 'Optional. Make, model year and origin are filled in from it.', className: 'text-gray-500' };
+
+  if (vin && !complete) {
+    hint = { text: `${vin.length}/${VIN_LENGTH} characters`, className: 'text-gray-500' };
+  } else if (vinError) {
+    hint = { text: vinError, className: 'text-red-600' };
+  } else if (decoded) {
+    const details = [decoded.make ?? `Unknown make (${decoded.wmi})`, decoded.modelYear, decoded.origin].filter(Boolean).join(' · ');
+    hint = decoded.checkDigitValid
+      ? { text: details, className: 'text-green-700' }
+      : { text: `${details} — the check digit could not be verified, please double-check the VIN`, className: 'text-yellow-700' };
+  }
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700">
+        VIN
+      </label>
+      <input
+        type="text"
+        id={id}
+        value={value}
+        maxLength={VIN_LENGTH + 4}
+        onChange={(e) => onChange(e.target.value.toUpperCase())}
+        className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 font-mono focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+        placeholder="e.g., 1HGCM82633A004352"
+      />
+      <p className={`mt-1 text-xs ${hint.className}`}>{hint.text}</p>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { NavigationItem, Permission } from '@/lib/permissions';
+
+// Loads the signed-in user's effective permissions so dashboards only show what the API allows
+export function usePermissions() {
+  const [userId, setUserId] = useState<number | null>(null);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [navigation, setNavigation] = useState<NavigationItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchPermissions = async () => {
+      try {
+        const response = await fetch('/api/auth/permissions');
+        const result = await response.json();
+
+        if (result.success) {
+          setUserId(result.data.userId);
+          setPermissions(result.data.permissions);
+          setNavigation(result.data.navigation);
+        }
+      } catch (error) {
+        console.error('Fetch permissions error:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPermissions();
+  }, []);
+
+  const can = useCallback(
+    (permission: Permission) => permissions.includes(permission),
+    [permissions]
+  );
+
+  return { userId, permissions, navigation, loading, can };
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { UnreadMessageCounts } from '@/types/auth';
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+// Unread request messages of the signed-in user, for the badges on the dashboards
+export function useUnreadMessages() {
+  const [unread, setUnread] = useState<UnreadMessageCounts>({ total: 0, requests: {} });
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/messages/unread');
+      const result = await response.json();
+
+      if (result.success) {
+        setUnread(result.data.unread);
+      }
+    } catch (error) {
+      console.error('Fetch unread messages error:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  return { unread, refresh };
+}
@@ -0,0 +1,291 @@
+import crypto from 'crypto';
+import { prisma } from './prisma';
+import { createZip } from './zip';
+import { getStorage } from './storage';
+import { REQUEST_PHOTO_SELECT } from './service-requests';
+import { OPEN_REQUEST_STATUSES } from './request-status';
+import { hashPassword } from '@/utils/password';
+import type { AuthUser } from '@/types/auth';
+
+/**
+ * Everything stored about a user, grouped by topic. Secrets (password, 2FA, tokens)
+ * are left out; they are not useful to the user and must never leave the server.
+ */
+export async function collectUserData(userId: number) {
+  const [
+    profile,
+    vehicles,
+    serviceRequests,
+    invoices,
+    payments,
+    ratings,
+    notifications,
+    applications
+  ] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        username: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        phoneNumber: true,
+        userType: true,
+        emailVerified: true,
+        twoFactorEnabled: true,
+        createdAt: true,
+        updatedAt: true
+      }
+    }),
+    prisma.vehicle.findMany({
+      where: { customerId: userId },
+      include: {
+        odometerReadings: { orderBy: { recordedAt: 'asc' } },
+        documents: {
+          select: {
+            id: true,
+            type: true,
+            documentNumber: true,
+            issuer: true,
+            expiresAt: true,
+            fileName: true,
+            createdAt: true
+          },
+          orderBy: { createdAt: 'asc' }
+        }
+      },
+      orderBy: { id: 'asc' }
+    }),
+    prisma.serviceRequest.findMany({
+      where: { OR: [{ customerId: userId }, { mechanicId: userId }] },
+      include: {
+        garage: { select: { id: true, garageName: true } },
+        vehicle: { select: { id: true, vehicleType: true, plateCode: true, plateNumber: true } },
+        vehicleStatuses: {
+          select: { id: true, description: true, approved: true, createdAt: true },
+          orderBy: { createdAt: 'asc' }
+        },
+        photos: { select: REQUEST_PHOTO_SELECT }
+      },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.invoice.findMany({
+      where: { customerId: userId },
+      include: {
+        garage: { select: { id: true, garageName: true } },
+        invoiceItems: true
+      },
+      orderBy: { issuedDate: 'asc' }
+    }),
+    prisma.payment.findMany({
+      where: { customerId: userId },
+      include: { garage: { select: { id: true, garageName: true } } },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.rating.findMany({
+      where: { OR: [{ customerId: userId }, { mechanicId: userId }] },
+      include: { garage: { select: { id: true, garageName: true } } },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.notification.findMany({
+      where: { receiverId: userId },
+      select: { id: true, type: true, title: true, message: true, read: true, createdAt: true },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.application.findMany({
+      where: { applicantId: userId },
+      include: { garage: { select: { id: true, garageName: true } } },
+      orderBy: { createdAt: 'asc' }
+    })
+  ]);
+
+  return {
+    exportedAt: new Date(),
+    profile,
+    vehicles,
+    serviceRequests,
+    invoices,
+    payments,
+    ratings,
+    notifications,
+    applications
+  };
+}
+
+// The export as a ZIP archive with one JSON file per topic
+export function createUserDataZip(data: Awaited<ReturnType<typeof collectUserData>>): Buffer {
+  const { exportedAt, ...sections } = data;
+
+  return createZip([
+    {
+      name: 'README.txt',
+      content: `Personal data export created ${exportedAt.toISOString()}.\r\nEach JSON file contains one kind of record stored about your account.\r\n`
+    },
+    ...Object.entries(sections).map(([name, value]) => ({
+      name: `${name}.json`,
+      content: JSON.stringify(value, null, 2)
+    }))
+  ], exportedAt);
+}
+
+// Why the account cannot be deleted yet, or null when it can
+export async function getAccountDeletionBlocker(user: AuthUser): Promise<string | null> {
+  if (user.userType === 'SYSTEM_ADMIN') {
+    return 'System admin accounts cannot be deleted this way';
+  }
+
+  const [openRequests, pendingPayments, ownedGarages] = await Promise.all([
+    prisma.serviceRequest.count({
+      where: {
+        OR: [{ customerId: user.id }, { mechanicId: user.id }],
+        status: { in: [...OPEN_REQUEST_STATUSES] }
+      }
+    }),
+    prisma.payment.count({
+      where: { customerId: user.id, status: 'PENDING' }
+    }),
+    prisma.garage.count({
+      where: { adminId: user.id, removed: false }
+    })
+  ]);
+
+  if (openRequests > 0) {
+    return `You have ${openRequests} open service request(s). Complete or cancel them first.`;
+  }
+  if (pendingPayments > 0) {
+    return `You have ${pendingPayments} pending payment(s). Settle them first.`;
+  }
+  if (ownedGarages > 0) {
+    return 'You still run a garage. Ask a system admin to remove or hand over the garage first.';
+  }
+
+  return null;
+}
+
+/**
+ * Close an account: personal fields are replaced with placeholders and personal-only records
+ * are removed, while service requests, invoices and payments stay (linked to the anonymized
+ * user) because garages must keep their financial records.
+ */
+export async function anonymizeUser(userId: number) {
+  const now = new Date();
+  // Nobody knows this password, so the account can never be signed into again
+  const unusablePassword = await hashPassword(crypto.randomBytes(32).toString('hex'));
+  const photos = await prisma.serviceRequestPhoto.findMany({
+    where: { uploadedById: userId },
+    select: { storageKey: true }
+  });
+  const messageImages = await prisma.requestMessage.findMany({
+    where: { senderId: userId, storageKey: { not: null } },
+    select: { storageKey: true }
+  });
+  const vehicleDocuments = await prisma.vehicleDocument.findMany({
+    where: { uploadedById: userId, storageKey: { not: null } },
+    select: { storageKey: true }
+  });
+
+  await prisma.$transaction(async (tx) => {
+    const account = await tx.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { username: true, email: true }
+    });
+
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        username: `deleted-user-${userId}`,
+        email: `deleted-user-${userId}@deleted.invalid`,
+        firstName: 'Deleted',
+        lastName: 'User',
+        phoneNumber: null,
+        password: unusablePassword,
+        emailVerified: null,
+        emailVerificationSentAt: null,
+        failedLoginAttempts: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null,
+        unlockToken: null,
+        unlockTokenExpires: null,
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastUsedStep: null,
+        deletedAt: now
+      }
+    });
+
+    // Sign out everywhere and drop records that only describe the person
+    await tx.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: now, revokedReason: 'Account deleted' }
+    });
+    await tx.passwordResetToken.deleteMany({ where: { userId } });
+    await tx.loginAttempt.deleteMany({
+      where: {
+        OR: [
+          { userId },
+          { identifier: { in: [account.username, account.email] } }
+        ]
+      }
+    });
+    await tx.notification.deleteMany({ where: { receiverId: userId } });
+    await tx.roleAssignment.deleteMany({ where: { userId } });
+    await tx.vehicleDocument.deleteMany({ where: { uploadedById: userId } });
+
+    // Ratings keep counting towards garage scores, without the written comment
+    await tx.rating.updateMany({
+      where: { customerId: userId },
+      data: { comment: null }
+    });
+
+    // Vehicle transfers still waiting for an answer cannot complete any more
+    await tx.vehicleTransfer.updateMany({
+      where: { status: 'PENDING', OR: [{ fromCustomerId: userId }, { toCustomerId: userId }] },
+      data: { status: 'CANCELLED', decidedAt: now }
+    });
+    await tx.vehicleTransfer.updateMany({
+      where: { OR: [{ fromCustomerId: userId }, { toCustomerId: userId }] },
+      data: { toEmail: null }
+    });
+
+    // Vehicles on past requests stay for the garages' records, without identifying details
+    await tx.vehicle.deleteMany({
+      where: { customerId: userId, serviceRequests: { none: {} } }
+    });
+    await tx.vehicle.updateMany({
+      where: { customerId: userId },
+      data: { plateNumber: 'REDACTED', plateCode: '', countryCode: '', color: '', vin: null }
+    });
+
+    // Where the customer was when asking for help, and what they wrote and photographed
+    await tx.serviceRequest.updateMany({
+      where: { customerId: userId },
+      data: { latitude: 0, longitude: 0, description: null }
+    });
+    await tx.serviceRequestPhoto.deleteMany({ where: { uploadedById: userId } });
+
+    // Messages stay in the conversation so the replies still make sense, but without their content
+    await tx.requestMessage.updateMany({
+      where: { senderId: userId },
+      data: { body: null, storageKey: null, fileName: null, contentType: null, size: null }
+    });
+    await tx.requestMessageRead.deleteMany({ where: { userId } });
+
+    await tx.mechanic.updateMany({
+      where: { userId },
+      data: { removed: true }
+    });
+  });
+
+  // Files are removed once the records are gone; a leftover file is unreachable either way
+  const storage = getStorage();
+  const storageKeys = [
+    ...photos.map(photo => photo.storageKey),
+    ...messageImages.flatMap(message => message.storageKey ?? []),
+    ...vehicleDocuments.flatMap(document => document.storageKey ?? [])
+  ];
+  await Promise.all(storageKeys.map(storageKey =>
+    storage.delete(storageKey).catch(error => console.error('Delete photo file error:', error))
+  ));
+}
@@ -0,0 +1,450 @@
+import { NextRequest, NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import { prisma } from './prisma';
+import { UserType } from '@/generated/prisma';
+import { isGaragePermission, isPermission, PERMISSIONS, USER_TYPE_PERMISSIONS, type Permission } from './permissions';
+import {
+  AUTH_COOKIE,
+  createSession,
+  REFRESH_COOKIE,
+  rotateSession,
+  setSessionCookies,
+  signAccessToken,
+  touchSession,
+  type ImpersonationClaims,
+  type SessionTokens
+} from './sessions';
+import { EMAIL_NOT_VERIFIED_MESSAGE, isEmailVerified } from './email-verification';
+import { AUDIT_ACTIONS, recordAudit } from './audit';
+import type { ApiResponse, AuthUser } from '@/types/auth';
+
+export interface AuthContext<P = Record<string, string>> {
+  params: Promise<P>;
+  user: AuthUser;
+}
+
+export interface AuthOptions {
+  // User types allowed to call the handler; omit to allow any signed-in user
+  roles?: UserType[];
+  // Permission the user must hold in at least one scope (see hasPermission)
+  permission?: Permission;
+  // Error returned when the user type is not in `roles` or the permission is missing
+  forbiddenMessage?: string;
+  // Only allow users who have confirmed their email address
+  requireVerifiedEmail?: boolean;
+  // Refuse the request while a system admin is impersonating the user (account security settings)
+  blockImpersonation?: boolean;
+}
+
+// Requests a read-only impersonation session may still make
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+type AuthenticatedHandler<P> = (
+  request: NextRequest,
+  context: AuthContext<P>
+) => Promise<NextResponse>;
+
+export function getTokenFromRequest(request: NextRequest): string | null {
+  // Try to get token from cookie first
+  const tokenFromCookie = request.cookies.get('auth-token')?.value;
+  if (tokenFromCookie) return tokenFromCookie;
+
+  // Fallback to Authorization header
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+
+  return null;
+}
+
+export function verifyAuthToken(token: string): AuthUser | null {
+  try {
+    return jwt.verify(token, process.env.NEXTAUTH_SECRET!) as AuthUser;
+  } catch {
+    return null;
+  }
+}
+
+export function authErrorResponse(error: string, status: 401 | 403) {
+  return NextResponse.json<ApiResponse>(
+    {
+      success: false,
+      error
+    },
+    { status }
+  );
+}
+
+// Open a session for a user who just proved their identity and issue its tokens
+export async function startSession(user: AuthUser, request: NextRequest) {
+  const permissions = await getUserPermissions(user);
+  const { session, refreshToken } = await createSession(user.id, request);
+  const accessToken = signAccessToken(user, permissions, session.id);
+
+  return { permissions, tokens: { accessToken, refreshToken } };
+}
+
+// Sign in a user who completed every login step: start the session and set its cookies
+export async function createLoginResponse(user: AuthUser, request: NextRequest, extra: Record<string, unknown> = {}) {
+  // A short-lived access token (with permissions embedded so the middleware can guard
+  // dashboard pages) and a rotating refresh token stored hashed in the DB
+  const { permissions, tokens } = await startSession(user, request);
+
+  // Return user data without password
+  const userData = {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    userType: user.userType,
+    permissions,
+  };
+
+  const response = NextResponse.json({
+    success: true,
+    user: userData,
+    token: tokens.accessToken,
+    ...extra,
+  });
+
+  // Set HTTP-only cookies with the access and refresh tokens
+  setSessionCookies(response, tokens);
+
+  return response;
+}
+
+// Rotate a refresh token and issue a fresh access token with up-to-date permissions
+export async function refreshSession(refreshToken: string, request: NextRequest) {
+  const rotated = await rotateSession(refreshToken, request);
+  if (!rotated) return null;
+
+  const account = await prisma.user.findUnique({
+    where: { id: rotated.session.userId },
+    select: {
+      id: true,
+      username: true,
+      email: true,
+      userType: true,
+      firstName: true,
+      lastName: true
+    }
+  });
+  if (!account) return null;
+
+  // Impersonation sessions keep their claims across refreshes
+  const impersonation = await prisma.impersonation.findUnique({
+    where: { sessionId: rotated.session.id },
+    select: { adminId: true, readOnly: true }
+  });
+  const claims: ImpersonationClaims | undefined = impersonation
+    ? { impersonatorId: impersonation.adminId, impersonationReadOnly: impersonation.readOnly }
+    : undefined;
+
+  const permissions = await getUserPermissions(account);
+  const accessToken = signAccessToken(account, permissions, rotated.session.id, claims);
+  const user: AuthUser = { ...account, permissions, sid: rotated.session.id, ...claims };
+
+  return { user, tokens: { accessToken, refreshToken: rotated.refreshToken } };
+}
+
+type AuthenticationResult =
+  | { user: AuthUser; refreshedTokens?: SessionTokens }
+  | { error: string };
+
+/**
+ * Resolve the signed-in user of a request. A valid access token must belong to an active
+ * session; when it is missing or expired, the refresh token cookie is rotated instead and
+ * the new tokens are returned so the caller can set them on its response.
+ */
+export async function authenticateRequest(request: NextRequest): Promise<AuthenticationResult> {
+  const token = getTokenFromRequest(request);
+  const user = token ? verifyAuthToken(token) : null;
+
+  if (user?.sid && await touchSession(user.sid)) {
+    return { user };
+  }
+
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+  if (refreshToken) {
+    const refreshed = await refreshSession(refreshToken, request);
+    if (refreshed) {
+      return { user: refreshed.user, refreshedTokens: refreshed.tokens };
+    }
+  }
+
+  return { error: token ? 'Invalid token' : 'Authentication required' };
+}
+
+// Wrap a route handler so it only runs for a signed-in user with one of the allowed user types
+// and, when `permission` is given, holding that permission (and a verified email if required)
+export function withAuth<P = Record<string, string>>(
+  handler: AuthenticatedHandler<P>,
+  options: AuthOptions = {}
+) {
+  return async (request: NextRequest, context: { params: Promise<P> }): Promise<NextResponse> => {
+    const authentication = await authenticateRequest(request);
+
+    if ('error' in authentication) {
+      return authErrorResponse(authentication.error, 401);
+    }
+
+    const { user, refreshedTokens } = authentication;
+
+    const authorizeAndHandle = async (): Promise<NextResponse> => {
+      if (user.impersonatorId) {
+        if (options.blockImpersonation) {
+          return authErrorResponse('Not available while impersonating a user', 403);
+        }
+        if (user.impersonationReadOnly && !READ_ONLY_METHODS.includes(request.method)) {
+          return authErrorResponse('Read-only impersonation: changes are disabled', 403);
+        }
+      }
+
+      if (options.roles && !options.roles.includes(user.userType)) {
+        return authErrorResponse(options.forbiddenMessage || 'Access denied', 403);
+      }
+
+      if (options.permission && !(await hasPermission(user, options.permission))) {
+        return authErrorResponse(options.forbiddenMessage || 'Access denied', 403);
+      }
+
+      if (options.requireVerifiedEmail && !(await isEmailVerified(user.id))) {
+        return authErrorResponse(EMAIL_NOT_VERIFIED_MESSAGE, 403);
+      }
+
+      return handler(request, { params: context.params, user });
+    };
+
+    const response = await authorizeAndHandle();
+
+    // Everything an admin does as another user is attributed to the admin
+    if (user.impersonatorId) {
+      await recordAudit(request, user.impersonatorId, {
+        action: AUDIT_ACTIONS.IMPERSONATION_REQUEST,
+        targetType: 'User',
+        targetId: user.id,
+        after: {
+          method: request.method,
+          path: request.nextUrl.pathname + request.nextUrl.search,
+          status: response.status,
+          readOnly: !!user.impersonationReadOnly
+        }
+      });
+    }
+
+    // Handlers that sign the user out clear the cookies themselves; don't set them again
+    if (refreshedTokens && !response.cookies.get(AUTH_COOKIE)) {
+      setSessionCookies(response, refreshedTokens);
+    }
+
+    return response;
+  };
+}
+
+// Get the approved, non-removed mechanic record of a MECHANIC user
+export async function getApprovedMechanic(user: AuthUser) {
+  if (user.userType !== UserType.MECHANIC) {
+    return null;
+  }
+
+  return prisma.mechanic.findFirst({
+    where: {
+      userId: user.id,
+      approved: true,
+      removed: false
+    },
+    select: { id: true, garageId: true }
+  });
+}
+
+export async function isApprovedMechanicOf(user: AuthUser, garageId: number): Promise<boolean> {
+  const mechanic = await getApprovedMechanic(user);
+  return !!mechanic && mechanic.garageId === garageId;
+}
+
+export async function isGarageAdminOf(user: AuthUser, garageId: number): Promise<boolean> {
+  if (user.userType !== UserType.GARAGE_ADMIN) {
+    return false;
+  }
+
+  const garage = await prisma.garage.findFirst({
+    where: {
+      id: garageId,
+      adminId: user.id
+    },
+    select: { id: true }
+  });
+
+  return !!garage;
+}
+
+// Whether the user owns (GARAGE_ADMIN) or works at (MECHANIC) the garage
+async function isStaffOf(user: AuthUser, garageId: number): Promise<boolean> {
+  if (user.userType === UserType.GARAGE_ADMIN) {
+    return isGarageAdminOf(user, garageId);
+  }
+  return isApprovedMechanicOf(user, garageId);
+}
+
+/**
+ * Effective permissions of a user: the built-in permissions of their user type plus
+ * every assigned role. Without a garageId, permissions held for any garage are included;
+ * with one, garage permissions only count when they apply to that garage.
+ */
+export async function getUserPermissions(user: AuthUser, garageId?: number): Promise<Permission[]> {
+  const permissions = new Set<Permission>();
+  const builtIn = USER_TYPE_PERMISSIONS[user.userType] || [];
+
+  const needsStaffCheck = garageId !== undefined
+    && user.userType !== UserType.SYSTEM_ADMIN
+    && builtIn.some(isGaragePermission);
+  const appliesToGarage = needsStaffCheck ? await isStaffOf(user, garageId) : true;
+
+  for (const permission of builtIn) {
+    if (appliesToGarage || !isGaragePermission(permission)) {
+      permissions.add(permission);
+    }
+  }
+
+  const assignments = await prisma.roleAssignment.findMany({
+    where: {
+      userId: user.id,
+      ...(garageId !== undefined && {
+        OR: [{ garageId: null }, { garageId }]
+      })
+    },
+    select: {
+      role: {
+        select: { permissions: true }
+      }
+    }
+  });
+
+  for (const assignment of assignments) {
+    assignment.role.permissions.filter(isPermission).forEach(permission => permissions.add(permission));
+  }
+
+  return Array.from(permissions);
+}
+
+export async function hasPermission(user: AuthUser, permission: Permission, garageId?: number): Promise<boolean> {
+  const permissions = await getUserPermissions(user, garageId);
+  return permissions.includes(permission);
+}
+
+// Garages where the user holds a garage permission; null means every garage
+export async function getGarageIdsWithPermission(user: AuthUser, permission: Permission): Promise<number[] | null> {
+  const builtIn = (USER_TYPE_PERMISSIONS[user.userType] || []).includes(permission);
+
+  if (builtIn && (user.userType === UserType.SYSTEM_ADMIN || !isGaragePermission(permission))) {
+    return null;
+  }
+
+  const assignments = await prisma.roleAssignment.findMany({
+    where: {
+      userId: user.id,
+      role: { permissions: { has: permission } }
+    },
+    select: { garageId: true }
+  });
+
+  if (assignments.some(assignment => assignment.garageId === null)) {
+    return null;
+  }
+
+  const garageIds = new Set(assignments.map(assignment => assignment.garageId as number));
+
+  if (builtIn && user.userType === UserType.GARAGE_ADMIN) {
+    const ownedGarages = await prisma.garage.findMany({
+      where: {
+        adminId: user.id,
+        approved: true
+      },
+      select: { id: true }
+    });
+    ownedGarages.forEach(garage => garageIds.add(garage.id));
+  } else if (builtIn && user.userType === UserType.MECHANIC) {
+    const mechanic = await getApprovedMechanic(user);
+    if (mechanic) garageIds.add(mechanic.garageId);
+  }
+
+  return Array.from(garageIds);
+}
+
+/**
+ * Who may act on a service request:
+ * - owner: the CUSTOMER who created it
+ * - assignedMechanic: the MECHANIC assigned to it
+ * - garageMechanic: any approved MECHANIC of its garage
+ * - garageAdmin: the GARAGE_ADMIN who owns its garage
+ * - systemAdmin: any SYSTEM_ADMIN
+ * - garageStaff: any user given requests.view for its garage through a role
+ */
+export type ServiceRequestAccessRule =
+  | 'owner'
+  | 'assignedMechanic'
+  | 'garageMechanic'
+  | 'garageAdmin'
+  | 'systemAdmin'
+  | 'garageStaff';
+
+export const SERVICE_REQUEST_VIEWERS: ServiceRequestAccessRule[] = [
+  'owner',
+  'assignedMechanic',
+  'garageMechanic',
+  'garageAdmin',
+  'systemAdmin',
+  'garageStaff'
+];
+
+interface ServiceRequestOwnership {
+  customerId: number;
+  garageId: number;
+  mechanicId: number | null;
+}
+
+export async function canAccessServiceRequest(
+  user: AuthUser,
+  serviceRequest: ServiceRequestOwnership,
+  allow: ServiceRequestAccessRule[] = SERVICE_REQUEST_VIEWERS
+): Promise<boolean> {
+  if (await matchesUserTypeRule(user, serviceRequest, allow)) {
+    return true;
+  }
+
+  return allow.includes('garageStaff')
+    && hasPermission(user, PERMISSIONS.REQUESTS_VIEW, serviceRequest.garageId);
+}
+
+async function matchesUserTypeRule(
+  user: AuthUser,
+  serviceRequest: ServiceRequestOwnership,
+  allow: ServiceRequestAccessRule[]
+): Promise<boolean> {
+  switch (user.userType) {
+    case UserType.CUSTOMER:
+      return allow.includes('owner') && serviceRequest.customerId === user.id;
+
+    case UserType.MECHANIC: {
+      const mechanic = await getApprovedMechanic(user);
+      if (!mechanic) return false;
+
+      if (allow.includes('assignedMechanic') && serviceRequest.mechanicId === user.id) {
+        return true;
+      }
+
+      return allow.includes('garageMechanic') && mechanic.garageId === serviceRequest.garageId;
+    }
+
+    case UserType.GARAGE_ADMIN:
+      return allow.includes('garageAdmin') && isGarageAdminOf(user, serviceRequest.garageId);
+
+    case UserType.SYSTEM_ADMIN:
+      return allow.includes('systemAdmin');
+
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,119 @@
+import { prisma } from './prisma';
+import { generateAppointmentReminderEmail, sendEmail } from './email';
+import { formatGarageTime } from './opening-hours';
+import { recordRequestEvent, REQUEST_EVENTS } from './request-events';
+import type { Prisma } from '@/generated/prisma';
+import { createNotification, NOTIFICATION_TEMPLATES, NOTIFICATION_TYPES } from '@/utils/notifications';
+
+// Customers are reminded once, this long before their appointment
+export const APPOINTMENT_REMINDER_LEAD_TIME = 24 * 60 * 60 * 1000;
+
+export const MAX_SLOT_CAPACITY = 50;
+// Slots that can be created in one call (about three months of a busy schedule)
+export const MAX_SLOTS_PER_BATCH = 500;
+
+/**
+ * Take one place in a future slot of the garage. The check and the increment are a single
+ * conditional UPDATE, so concurrent bookings can never push bookedCount past capacity.
+ * Returns null when the slot does not exist, has started or is full.
+ */
+export async function reserveAppointmentSlot(
+  tx: Prisma.TransactionClient,
+  slotId: number,
+  garageId: number
+) {
+  const reserved = await tx.appointmentSlot.updateMany({
+    where: {
+      id: slotId,
+      garageId,
+      startsAt: { gt: new Date() },
+      bookedCount: { lt: tx.appointmentSlot.fields.capacity }
+    },
+    data: { bookedCount: { increment: 1 } }
+  });
+
+  if (reserved.count === 0) return null;
+
+  return tx.appointmentSlot.findUnique({ where: { id: slotId } });
+}
+
+// Give a place back, e.g. when a booked request is cancelled
+export async function releaseAppointmentSlot(tx: Prisma.TransactionClient, slotId: number) {
+  await tx.appointmentSlot.updateMany({
+    where: { id: slotId, bookedCount: { gt: 0 } },
+    data: { bookedCount: { decrement: 1 } }
+  });
+}
+
+/**
+ * Notify and email customers whose appointment starts within the lead time. Each request is
+ * claimed by setting reminderSentAt first, so overlapping runs never remind twice, and released
+ * again when sending fails.
+ */
+export async function sendAppointmentReminders(now = new Date()): Promise<number> {
+  const dueRequests = await prisma.serviceRequest.findMany({
+    where: {
+      status: { in: ['SCHEDULED', 'ACCEPTED'] },
+      reminderSentAt: null,
+      scheduledFor: {
+        gt: now,
+        lte: new Date(now.getTime() + APPOINTMENT_REMINDER_LEAD_TIME)
+      }
+    },
+    include: {
+      customer: { select: { id: true, email: true, firstName: true, lastName: true } },
+      garage: { select: { garageName: true, adminId: true, timezone: true } }
+    }
+  });
+
+  let sent = 0;
+
+  for (const request of dueRequests) {
+    const claimed = await prisma.serviceRequest.updateMany({
+      where: { id: request.id, reminderSentAt: null },
+      data: { reminderSentAt: now }
+    });
+    if (claimed.count === 0 || !request.scheduledFor) continue;
+
+    const appointmentTime = formatGarageTime(request.scheduledFor, request.garage.timezone);
+    const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.APPOINTMENT_REMINDER].toCustomer(
+      request.garage.garageName,
+      appointmentTime
+    );
+
+    try {
+      await createNotification(
+        request.garage.adminId,
+        request.customer.id,
+        NOTIFICATION_TYPES.APPOINTMENT_REMINDER,
+        template.title,
+        template.message
+      );
+
+      const emailTemplate = generateAppointmentReminderEmail(
+        `${request.customer.firstName} ${request.customer.lastName}`,
+        request.garage.garageName,
+        appointmentTime
+      );
+      await sendEmail({ ...emailTemplate, to: request.customer.email });
+    } catch (error) {
+      console.error(`Appointment reminder error for request ${request.id}:`, error);
+      // Release the claim so the next run tries again
+      await prisma.serviceRequest.updateMany({
+        where: { id: request.id, reminderSentAt: now },
+        data: { reminderSentAt: null }
+      }).catch(releaseError => console.error('Release appointment reminder error:', releaseError));
+      continue;
+    }
+
+    sent++;
+
+    await recordRequestEvent(null, {
+      serviceRequestId: request.id,
+      type: REQUEST_EVENTS.REQUEST_REMINDER_SENT,
+      summary: `Appointment reminder sent for ${appointmentTime}`
+    }).catch(error => console.error(`Appointment reminder event error for request ${request.id}:`, error));
+  }
+
+  return sent;
+}
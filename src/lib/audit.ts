@@ -0,0 +1,74 @@
+import { NextRequest } from 'next/server';
+import { prisma } from './prisma';
+import { Prisma } from '@/generated/prisma';
+import { getClientIp } from './sessions';
+
+// Actions recorded in the audit log, named "<entity>.<action>"
+export const AUDIT_ACTIONS = {
+  APPLICATION_REVIEW: 'application.review',
+  GARAGE_APPROVE: 'garage.approve',
+  GARAGE_REMOVE: 'garage.remove',
+  GARAGE_RESTORE: 'garage.restore',
+  GARAGE_TOGGLE_AVAILABILITY: 'garage.toggleAvailability',
+  GARAGE_DELETE: 'garage.delete',
+  USER_CHANGE_TYPE: 'user.changeUserType',
+  USER_UNLOCK: 'user.unlock',
+  USER_DELETE_ACCOUNT: 'user.deleteAccount',
+  RATING_DELETE: 'rating.delete',
+  RATING_HIDE_COMMENT: 'rating.hideComment',
+  PAYMENT_UPDATE_STATUS: 'payment.updateStatus',
+  ROLE_CREATE: 'role.create',
+  ROLE_UPDATE: 'role.update',
+  ROLE_DELETE: 'role.delete',
+  ROLE_ASSIGN: 'role.assign',
+  ROLE_UNASSIGN: 'role.unassign',
+  SETTING_UPDATE: 'setting.update',
+  IMPERSONATION_START: 'impersonation.start',
+  IMPERSONATION_END: 'impersonation.end',
+  IMPERSONATION_REQUEST: 'impersonation.request',
+} as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[keyof typeof AUDIT_ACTIONS];
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetType: string;
+  targetId?: number | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Dates and other non-JSON values become plain JSON, so the snapshot reads the same as an API response
+function toSnapshot(value: unknown): Prisma.InputJsonValue | undefined {
+  if (value === undefined || value === null) return undefined;
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+}
+
+/**
+ * Record one or more privileged actions taken by a user. A failure to write the log is
+ * reported but never fails the action itself, which has already happened by this point.
+ */
+export async function recordAudit(request: NextRequest, actorId: number, entries: AuditEntry | AuditEntry[]) {
+  const list = Array.isArray(entries) ? entries : [entries];
+  if (list.length === 0) return;
+
+  const ipAddress = getClientIp(request);
+  const userAgent = request.headers.get('user-agent');
+
+  try {
+    await prisma.auditLog.createMany({
+      data: list.map(entry => ({
+        actorId,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId ?? null,
+        before: toSnapshot(entry.before),
+        after: toSnapshot(entry.after),
+        ipAddress,
+        userAgent
+      }))
+    });
+  } catch (error) {
+    console.error('Audit log write error:', error, list);
+  }
+}
@@ -0,0 +1,12 @@
+import crypto from 'crypto';
+import type { NextRequest } from 'next/server';
+
+// Scheduled jobs authenticate with "Authorization: Bearer <CRON_SECRET>" (the header Vercel Cron sends)
+export function isAuthorizedCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get('authorization') || '');
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
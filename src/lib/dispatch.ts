@@ -0,0 +1,304 @@
+import { prisma } from './prisma';
+import { isWithinWeeklyHours } from './opening-hours';
+import { ACTIVE_REQUEST_STATUSES, DISPATCHABLE_REQUEST_STATUSES, moveRequestStatus } from './request-status';
+import type { Prisma } from '@/generated/prisma';
+import type { DispatchCandidate, DispatchRationale, GarageDispatchSettings } from '@/types/auth';
+import { createNotification, NOTIFICATION_TEMPLATES, NOTIFICATION_TYPES } from '@/utils/notifications';
+
+// Points a candidate earns for a full skill match and a 10/10 rating, and loses per open job
+export const DISPATCH_WEIGHTS = {
+  skills: 40,
+  rating: 30,
+  workload: 15
+};
+
+// Mechanics with this many open jobs are not given another one automatically
+export const MAX_OPEN_JOBS_PER_MECHANIC = 3;
+
+/**
+ * Score every approved mechanic of the garage for a job needing the given services at the given
+ * time (now for roadside calls, the appointment time for bookings). Candidates come back best
+ * first; those off shift or at their job limit are kept, marked ineligible, so the rationale
+ * shows why they were passed over.
+ */
+export async function rankMechanics(
+  garageId: number,
+  serviceIds: number[],
+  at = new Date()
+): Promise<DispatchRationale> {
+  const garage = await prisma.garage.findUniqueOrThrow({
+    where: { id: garageId },
+    select: { timezone: true }
+  });
+
+  const mechanics = await prisma.mechanic.findMany({
+    where: {
+      garageId,
+      approved: true,
+      removed: false,
+      user: { deletedAt: null }
+    },
+    include: {
+      user: { select: { id: true, firstName: true, lastName: true } },
+      skills: { select: { serviceId: true } },
+      shifts: { select: { dayOfWeek: true, startsAt: true, endsAt: true } }
+    }
+  });
+
+  const userIds = mechanics.map(mechanic => mechanic.userId);
+
+  const [workloads, ratings] = await Promise.all([
+    prisma.serviceRequest.groupBy({
+      by: ['mechanicId'],
+      where: {
+        mechanicId: { in: userIds },
+        status: { in: [...ACTIVE_REQUEST_STATUSES] }
+      },
+      _count: { _all: true }
+    }),
+    prisma.rating.groupBy({
+      by: ['mechanicId'],
+      where: { mechanicId: { in: userIds } },
+      _avg: { rating: true },
+      _count: { _all: true }
+    })
+  ]);
+
+  const openJobsByMechanic = new Map(workloads.map(row => [row.mechanicId, row._count._all]));
+  const ratingsByMechanic = new Map(ratings.map(row => [row.mechanicId, row]));
+
+  const candidates: DispatchCandidate[] = mechanics.map(mechanic => {
+    const openJobs = openJobsByMechanic.get(mechanic.userId) ?? 0;
+    const rating = ratingsByMechanic.get(mechanic.userId);
+    const averageRating = rating?._avg.rating ?? null;
+    const skillIds = new Set(mechanic.skills.map(skill => skill.serviceId));
+    const skillsMatched = serviceIds.filter(serviceId => skillIds.has(serviceId)).length;
+
+    // Mechanics without shifts work whenever the garage is open
+    const onShift = mechanic.shifts.length === 0 || isWithinWeeklyHours(
+      mechanic.shifts.map(shift => ({ dayOfWeek: shift.dayOfWeek, opensAt: shift.startsAt, closesAt: shift.endsAt })),
+      garage.timezone,
+      at
+    );
+
+    const excludedBecause = !onShift
+      ? 'Off shift'
+      : openJobs >= MAX_OPEN_JOBS_PER_MECHANIC
+        ? `Already has ${openJobs} open jobs`
+        : null;
+
+    // Unrated mechanics count as average so new staff still get work
+    const ratingShare = averageRating === null ? 0.5 : averageRating / 10;
+    const skillShare = serviceIds.length === 0 ? 1 : skillsMatched / serviceIds.length;
+    const score = DISPATCH_WEIGHTS.skills * skillShare
+      + DISPATCH_WEIGHTS.rating * ratingShare
+      - DISPATCH_WEIGHTS.workload * openJobs;
+
+    return {
+      mechanicId: mechanic.userId,
+      name: `${mechanic.user.firstName} ${mechanic.user.lastName}`,
+      eligible: excludedBecause === null,
+      excludedBecause,
+      openJobs,
+      skillsMatched,
+      skillsRequested: serviceIds.length,
+      averageRating: averageRating === null ? null : Math.round(averageRating * 10) / 10,
+      ratingCount: rating?._count._all ?? 0,
+      onShift,
+      score: Math.round(score * 100) / 100
+    };
+  });
+
+  candidates.sort((a, b) =>
+    Number(b.eligible) - Number(a.eligible) ||
+    b.score - a.score ||
+    a.openJobs - b.openJobs ||
+    a.mechanicId - b.mechanicId
+  );
+
+  return {
+    evaluatedAt: at.toISOString(),
+    serviceIds,
+    candidates
+  };
+}
+
+// Auto-dispatch setting of the garage, the services it offers and what dispatch knows of each mechanic
+export async function getGarageDispatchSettings(garageId: number): Promise<GarageDispatchSettings> {
+  const [garage, services, mechanics] = await Promise.all([
+    prisma.garage.findUniqueOrThrow({
+      where: { id: garageId },
+      select: { autoDispatch: true }
+    }),
+    prisma.garageService.findMany({
+      where: { garageId, available: true, service: { removed: false } },
+      include: { service: { select: { id: true, serviceName: true } } },
+      orderBy: { service: { serviceName: 'asc' } }
+    }),
+    prisma.mechanic.findMany({
+      where: { garageId, approved: true, removed: false, user: { deletedAt: null } },
+      include: {
+        user: { select: { firstName: true, lastName: true } },
+        skills: { select: { serviceId: true } },
+        shifts: {
+          select: { dayOfWeek: true, startsAt: true, endsAt: true },
+          orderBy: [{ dayOfWeek: 'asc' }, { startsAt: 'asc' }]
+        }
+      },
+      orderBy: { user: { firstName: 'asc' } }
+    })
+  ]);
+
+  const workloads = await prisma.serviceRequest.groupBy({
+    by: ['mechanicId'],
+    where: {
+      mechanicId: { in: mechanics.map(mechanic => mechanic.userId) },
+      status: { in: [...ACTIVE_REQUEST_STATUSES] }
+    },
+    _count: { _all: true }
+  });
+  const openJobsByMechanic = new Map(workloads.map(row => [row.mechanicId, row._count._all]));
+
+  return {
+    autoDispatch: garage.autoDispatch,
+    services: services.map(garageService => garageService.service),
+    mechanics: mechanics.map(mechanic => ({
+      mechanicId: mechanic.userId,
+      firstName: mechanic.user.firstName,
+      lastName: mechanic.user.lastName,
+      openJobs: openJobsByMechanic.get(mechanic.userId) ?? 0,
+      serviceIds: mechanic.skills.map(skill => skill.serviceId),
+      shifts: mechanic.shifts
+    }))
+  };
+}
+
+// The chosen mechanic (the best eligible candidate) and a one-line reason for people to read
+export function describeDispatch(rationale: DispatchRationale): { mechanicId: number | null; summary: string } {
+  const best = rationale.candidates.find(candidate => candidate.eligible);
+
+  if (!best) {
+    if (rationale.candidates.length === 0) {
+      return { mechanicId: null, summary: 'No mechanic available: the garage has no approved mechanics' };
+    }
+
+    const offShift = rationale.candidates.filter(candidate => !candidate.onShift).length;
+    const busy = rationale.candidates.length - offShift;
+    return {
+      mechanicId: null,
+      summary: `No mechanic available: ${offShift} off shift, ${busy} at their job limit`
+    };
+  }
+
+  const reasons = [
+    `${best.openJobs} open job${best.openJobs === 1 ? '' : 's'}`,
+    ...(best.skillsRequested > 0 ? [`skilled in ${best.skillsMatched}/${best.skillsRequested} requested services`] : []),
+    best.averageRating === null
+      ? 'no ratings yet'
+      : `rated ${best.averageRating}/10 from ${best.ratingCount} review${best.ratingCount === 1 ? '' : 's'}`,
+    'on shift'
+  ];
+
+  return {
+    mechanicId: best.mechanicId,
+    summary: `Assigned ${best.name} (score ${best.score}): ${reasons.join(', ')}`
+  };
+}
+
+export function toDispatchRationaleJson(rationale: DispatchRationale): Prisma.InputJsonValue {
+  return rationale as unknown as Prisma.InputJsonValue;
+}
+
+// Tell a mechanic they were given a job, with the customer and vehicle to look for
+export async function notifyDispatchedMechanic(
+  senderId: number,
+  mechanicId: number,
+  requestId: number
+) {
+  const request = await prisma.serviceRequest.findUnique({
+    where: { id: requestId },
+    include: {
+      customer: { select: { firstName: true, lastName: true } },
+      vehicle: { select: { color: true, vehicleType: true, plateCode: true, plateNumber: true } }
+    }
+  });
+  if (!request) return;
+
+  const customerName = `${request.customer.firstName} ${request.customer.lastName}`;
+  const vehicleInfo = `${request.vehicle.color} ${request.vehicle.vehicleType} (${request.vehicle.plateCode}-${request.vehicle.plateNumber})`;
+  const mechanicTemplate = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.REQUEST_ACCEPTED].toMechanic(customerName, vehicleInfo);
+
+  await createNotification(
+    senderId,
+    mechanicId,
+    NOTIFICATION_TYPES.REQUEST_ACCEPTED,
+    mechanicTemplate.title,
+    mechanicTemplate.message
+  );
+}
+
+/**
+ * Rank the garage's mechanics for a waiting request and accept it on behalf of the best one.
+ * The decision is stored either way, so staff can see why and override it. Returns null when
+ * the request is no longer waiting (e.g. someone accepted it in the meantime).
+ */
+export async function autoDispatchRequest(requestId: number, triggeredBy: number) {
+  const request = await prisma.serviceRequest.findUnique({
+    where: { id: requestId },
+    include: {
+      requestedServices: { select: { serviceId: true } },
+      customer: { select: { id: true } },
+      garage: { select: { garageName: true } }
+    }
+  });
+
+  if (!request || !(DISPATCHABLE_REQUEST_STATUSES as readonly string[]).includes(request.status)) {
+    return null;
+  }
+
+  const rationale = await rankMechanics(
+    request.garageId,
+    request.requestedServices.map(requested => requested.serviceId),
+    request.scheduledFor ?? new Date()
+  );
+  const { mechanicId, summary } = describeDispatch(rationale);
+
+  const decision = await prisma.$transaction(async (tx) => {
+    if (mechanicId) {
+      // Conditional on the status, so a mechanic accepting by hand at the same moment wins cleanly
+      const moved = await moveRequestStatus(tx, { id: request.id, status: request.status }, 'ACCEPTED', { mechanicId });
+      if (!moved) return null;
+    }
+
+    return tx.dispatchDecision.create({
+      data: {
+        serviceRequestId: request.id,
+        mechanicId,
+        summary,
+        rationale: toDispatchRationaleJson(rationale)
+      }
+    });
+  });
+
+  if (decision?.mechanicId) {
+    try {
+      const chosen = rationale.candidates.find(candidate => candidate.mechanicId === decision.mechanicId);
+      const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.REQUEST_ACCEPTED].toCustomer(
+        request.garage.garageName,
+        chosen?.name ?? 'Assigned Mechanic'
+      );
+      await createNotification(
+        decision.mechanicId,
+        request.customer.id,
+        NOTIFICATION_TYPES.REQUEST_ACCEPTED,
+        template.title,
+        template.message
+      );
+      await notifyDispatchedMechanic(triggeredBy, decision.mechanicId, request.id);
+    } catch (error) {
+      console.error(`Dispatch notification error for request ${request.id}:`, error);
+    }
+  }
+
+  return decision;
+}
@@ -0,0 +1,73 @@
+import jwt from 'jsonwebtoken';
+import { prisma } from './prisma';
+import { sendEmail, generateEmailVerificationEmail } from './email';
+import type { User } from '@/generated/prisma';
+
+const VERIFICATION_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+// Minimum time between two verification emails to the same account
+export const RESEND_INTERVAL_MS = 60 * 1000;
+
+export const EMAIL_NOT_VERIFIED_MESSAGE = 'Please verify your email address first. Check your inbox for the verification link.';
+
+// Verification links are signed with their own key so they can never be used as access tokens
+function getVerificationSecret(): string {
+  return `${process.env.NEXTAUTH_SECRET}:email-verification`;
+}
+
+/**
+ * Send a signed verification link. The link carries the address it was sent to, so it
+ * stops working if the account's email changes in the meantime.
+ */
+export async function sendVerificationEmail(user: Pick<User, 'id' | 'email' | 'firstName'>) {
+  const token = jwt.sign(
+    { id: user.id, email: user.email, purpose: 'email-verification' },
+    getVerificationSecret(),
+    { expiresIn: VERIFICATION_TOKEN_TTL_SECONDS }
+  );
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { emailVerificationSentAt: new Date() }
+  });
+
+  const emailContent = generateEmailVerificationEmail(token, user.firstName);
+  emailContent.to = user.email;
+
+  try {
+    await sendEmail(emailContent);
+  } catch (emailError) {
+    console.error('Failed to send verification email:', emailError);
+  }
+}
+
+// Mark the email of a verification link as verified; false when the link is invalid or outdated
+export async function verifyEmailToken(token: string): Promise<boolean> {
+  let decoded: { id: number; email: string; purpose: string };
+  try {
+    decoded = jwt.verify(token, getVerificationSecret()) as typeof decoded;
+  } catch {
+    return false;
+  }
+
+  if (decoded.purpose !== 'email-verification') return false;
+
+  const result = await prisma.user.updateMany({
+    where: {
+      id: decoded.id,
+      email: decoded.email
+    },
+    data: { emailVerified: new Date() }
+  });
+
+  return result.count === 1;
+}
+
+export async function isEmailVerified(userId: number): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { emailVerified: true }
+  });
+
+  return !!user?.emailVerified;
+}
@@ -114,6 +114,211 @@ export function generatePasswordResetEmail(resetToken: string, userName: string)
   };
 }
 
+export function generateEmailVerificationEmail(verificationToken: string, userName: string): EmailOptions {
+  const verifyUrl = `${process.env.NEXTAUTH_URL}/auth/verify-email?token=${verificationToken}`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <title>Verify Your Email Address</title>
+        <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background-color: #f9f9f9; }
+            .button { 
+                display: inline-block; 
+                background-color: #4F46E5; 
+                color: white; 
+                padding: 12px 24px; 
+                text-decoration: none; 
+                border-radius: 5px; 
+                margin: 20px 0; 
+            }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <h1>Auto Service Management System</h1>
+            </div>
+            <div class="content">
+                <h2>Verify Your Email Address</h2>
+                <p>Hello ${userName},</p>
+                <p>Please confirm that this is your email address by clicking the button below:</p>
+                <a href="${verifyUrl}" class="button">Verify Email</a>
+                <p>This link will expire in 24 hours. Until your address is verified you cannot request services or make payments.</p>
+                <p>If you did not create an account, please ignore this email.</p>
+            </div>
+            <div class="footer">
+                <p>This is an automated email from Auto Service Management System.</p>
+                <p>If you have any questions, please contact support.</p>
+            </div>
+        </div>
+    </body>
+    </html>
+  `;
+
+  return {
+    to: '',
+    subject: 'Verify Your Email Address - Auto Service Management System',
+    html,
+  };
+}
+
+export function generateAccountUnlockEmail(unlockToken: string, userName: string, lockedUntil: Date): EmailOptions {
+  const unlockUrl = `${process.env.NEXTAUTH_URL}/auth/unlock-account?token=${unlockToken}`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <title>Account Locked</title>
+        <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background-color: #f9f9f9; }
+            .button { 
+                display: inline-block; 
+                background-color: #4F46E5; 
+                color: white; 
+                padding: 12px 24px; 
+                text-decoration: none; 
+                border-radius: 5px; 
+                margin: 20px 0; 
+            }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <h1>Auto Service Management System</h1>
+            </div>
+            <div class="content">
+                <h2>Your Account Has Been Locked</h2>
+                <p>Hello ${userName},</p>
+                <p>We locked your account after several failed sign-in attempts. It will unlock automatically at ${lockedUntil.toLocaleString()}.</p>
+                <p>If these attempts were yours, you can unlock your account right away:</p>
+                <a href="${unlockUrl}" class="button">Unlock Account</a>
+                <p>This link will expire in 24 hours.</p>
+                <p>If you did not try to sign in, someone may be guessing your password. We recommend resetting your password after unlocking your account.</p>
+            </div>
+            <div class="footer">
+                <p>This is an automated email from Auto Service Management System.</p>
+                <p>If you have any questions, please contact support.</p>
+            </div>
+        </div>
+    </body>
+    </html>
+  `;
+
+  return {
+    to: '',
+    subject: 'Account Locked - Auto Service Management System',
+    html,
+  };
+}
+
+export function generateAccountDeletedEmail(userName: string): EmailOptions {
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <title>Account Deleted</title>
+        <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background-color: #f9f9f9; }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <h1>Auto Service Management System</h1>
+            </div>
+            <div class="content">
+                <h2>Your Account Has Been Deleted</h2>
+                <p>Hello ${userName},</p>
+                <p>As requested, we closed your account and removed your personal details. You have been signed out on every device.</p>
+                <p>Invoices and payments for services you received are kept without your personal details, because garages are required to keep financial records.</p>
+                <p>If you did not ask for this, please contact support right away.</p>
+            </div>
+            <div class="footer">
+                <p>This is an automated email from Auto Service Management System.</p>
+                <p>If you have any questions, please contact support.</p>
+            </div>
+        </div>
+    </body>
+    </html>
+  `;
+
+  return {
+    to: '',
+    subject: 'Account Deleted - Auto Service Management System',
+    html,
+  };
+}
+
+export function generateAppointmentReminderEmail(
+  userName: string,
+  garageName: string,
+  appointmentTime: string
+): EmailOptions {
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <title>Appointment Reminder</title>
+        <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background-color: #f9f9f9; }
+            .appointment { background-color: #EEF2FF; border-left: 4px solid #4F46E5; padding: 10px 15px; margin: 15px 0; }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <h1>Auto Service Management System</h1>
+            </div>
+            <div class="content">
+                <h2>Your Appointment Is Coming Up</h2>
+                <p>Hello ${userName},</p>
+                <p>This is a reminder of your service appointment:</p>
+                <div class="appointment">
+                    <strong>${garageName}</strong><br>
+                    ${appointmentTime}
+                </div>
+                <p>If you can no longer make it, please cancel the request from your dashboard so the time can go to another customer.</p>
+            </div>
+            <div class="footer">
+                <p>This is an automated email from Auto Service Management System.</p>
+                <p>If you have any questions, please contact support.</p>
+            </div>
+        </div>
+    </body>
+    </html>
+  `;
+
+  return {
+    to: '',
+    subject: `Appointment Reminder - ${garageName}`,
+    html,
+  };
+}
+
 export function generateApplicationApprovalEmail(
   applicantName: string,
   applicationType: 'GARAGE' | 'MECHANIC',
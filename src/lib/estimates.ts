@@ -0,0 +1,86 @@
+import type { EstimateItemKind, EstimateStatus, Prisma } from '@/generated/prisma';
+import type { Estimate } from '@/types/auth';
+
+// Shared by the estimate APIs, service completion and the dashboards; keep free of server-only imports
+
+export const MAX_ESTIMATE_ITEMS = 50;
+export const MAX_ESTIMATE_VALID_DAYS = 30;
+export const DEFAULT_ESTIMATE_VALID_DAYS = 7;
+export const MAX_ESTIMATE_NOTES_LENGTH = 1000;
+
+export const ESTIMATE_STATUS_LABELS: Record<EstimateStatus, string> = {
+  SENT: 'Waiting for approval',
+  ANSWERED: 'Answered',
+  SUPERSEDED: 'Replaced by a newer version',
+  CONVERTED: 'Approved work scheduled'
+};
+
+export const ESTIMATE_ITEM_KIND_LABELS: Record<EstimateItemKind, string> = {
+  SERVICE: 'Service',
+  PART: 'Part',
+  LABOR: 'Labor'
+};
+
+export function isEstimateItemKind(value: unknown): value is EstimateItemKind {
+  return typeof value === 'string' && value in ESTIMATE_ITEM_KIND_LABELS;
+}
+
+// Money is stored as Float; keep line totals to whole cents
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+const PERSON_SELECT = { select: { id: true, firstName: true, lastName: true } } as const;
+
+export const ESTIMATE_INCLUDE = {
+  createdBy: PERSON_SELECT,
+  items: { orderBy: { id: 'asc' } }
+} as const;
+
+type EstimateWithItems = Prisma.EstimateGetPayload<{ include: typeof ESTIMATE_INCLUDE }>;
+
+export function toEstimate(estimate: EstimateWithItems, now: Date = new Date()): Estimate {
+  return {
+    id: estimate.id,
+    serviceRequestId: estimate.serviceRequestId,
+    version: estimate.version,
+    status: estimate.status,
+    expired: estimate.status === 'SENT' && estimate.validUntil < now,
+    validUntil: estimate.validUntil.toISOString(),
+    notes: estimate.notes,
+    createdAt: estimate.createdAt.toISOString(),
+    respondedAt: estimate.respondedAt?.toISOString() ?? null,
+    convertedAt: estimate.convertedAt?.toISOString() ?? null,
+    createdBy: estimate.createdBy,
+    items: estimate.items.map(item => ({
+      id: item.id,
+      kind: item.kind,
+      serviceId: item.serviceId,
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      totalPrice: item.totalPrice,
+      decision: item.decision,
+      ongoingServiceId: item.ongoingServiceId
+    })),
+    total: roundMoney(estimate.items.reduce((sum, item) => sum + item.totalPrice, 0)),
+    approvedTotal: roundMoney(estimate.items
+      .filter(item => item.decision === 'APPROVED')
+      .reduce((sum, item) => sum + item.totalPrice, 0))
+  };
+}
+
+/**
+ * Approved part and labor lines of converted estimates. Approved service lines became ongoing
+ * services on conversion and are billed through those; these are billed on completion directly.
+ */
+export async function getEstimateCharges(db: Prisma.TransactionClient, serviceRequestId: number) {
+  return db.estimateItem.findMany({
+    where: {
+      estimate: { serviceRequestId, status: 'CONVERTED' },
+      kind: { in: ['PART', 'LABOR'] },
+      decision: 'APPROVED'
+    },
+    orderBy: { id: 'asc' }
+  });
+}
@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from './prisma';
+import { getUserPermissions } from './api-auth';
+import { AUDIT_ACTIONS, recordAudit } from './audit';
+import {
+  clearSessionCookies,
+  createSession,
+  getRequestSessionId,
+  hashToken,
+  IMPERSONATION_RETURN_COOKIE,
+  REFRESH_TOKEN_MAX_AGE,
+  reissueSession,
+  revokeSession,
+  setSessionCookies,
+  signAccessToken,
+  type SessionTokens
+} from './sessions';
+import type { AuthUser } from '@/types/auth';
+
+// Impersonation sessions end on their own after this many seconds
+export const IMPERSONATION_MAX_AGE = 30 * 60;
+
+interface ImpersonationTarget {
+  id: number;
+  username: string;
+  email: string;
+  userType: AuthUser['userType'];
+  firstName: string;
+  lastName: string;
+}
+
+/**
+ * Open a session as `target` for a system admin. The admin's own session stays active and is
+ * resumed by endImpersonation; the returned return token must be kept in the admin's browser.
+ */
+export async function startImpersonation(
+  admin: AuthUser,
+  target: ImpersonationTarget,
+  options: { readOnly: boolean; reason: string | null },
+  request: NextRequest
+) {
+  const expiresAt = new Date(Date.now() + IMPERSONATION_MAX_AGE * 1000);
+  const returnToken = crypto.randomBytes(32).toString('hex');
+
+  const { session, refreshToken } = await createSession(target.id, request, expiresAt);
+  const impersonation = await prisma.impersonation.create({
+    data: {
+      adminId: admin.id,
+      userId: target.id,
+      sessionId: session.id,
+      adminSessionId: admin.sid ?? null,
+      readOnly: options.readOnly,
+      reason: options.reason,
+      returnTokenHash: hashToken(returnToken),
+      expiresAt
+    }
+  });
+
+  const permissions = await getUserPermissions(target);
+  const accessToken = signAccessToken(target, permissions, session.id, {
+    impersonatorId: admin.id,
+    impersonationReadOnly: options.readOnly
+  });
+
+  await recordAudit(request, admin.id, {
+    action: AUDIT_ACTIONS.IMPERSONATION_START,
+    targetType: 'User',
+    targetId: target.id,
+    after: {
+      impersonationId: impersonation.id,
+      readOnly: options.readOnly,
+      reason: options.reason,
+      expiresAt
+    }
+  });
+
+  return {
+    impersonation,
+    permissions,
+    returnToken,
+    tokens: { accessToken, refreshToken }
+  };
+}
+
+// Impersonation behind the session of a request, if any, with the people involved
+export async function getRequestImpersonation(request: NextRequest) {
+  const sessionId = await getRequestSessionId(request);
+  if (!sessionId) return null;
+
+  return prisma.impersonation.findUnique({
+    where: { sessionId },
+    include: {
+      admin: { select: { id: true, username: true, firstName: true, lastName: true } },
+      user: { select: { id: true, username: true, firstName: true, lastName: true, userType: true } }
+    }
+  });
+}
+
+// Mark an impersonation as over and revoke its session; safe to call more than once
+export async function closeImpersonation(sessionId: number) {
+  await prisma.impersonation.updateMany({
+    where: {
+      sessionId,
+      endedAt: null
+    },
+    data: { endedAt: new Date() }
+  });
+  await revokeSession(sessionId, 'Impersonation ended');
+}
+
+/**
+ * End the impersonation of the request (also after it expired) and, when the browser still
+ * holds the return token, give it the admin's own session back. Returns null when the request
+ * is not an impersonation; `tokens` is null when the admin has to sign in again.
+ */
+export async function endImpersonation(
+  request: NextRequest
+): Promise<{ tokens: SessionTokens | null } | null> {
+  const impersonation = await getRequestImpersonation(request);
+  if (!impersonation) return null;
+
+  // The expiry does not close an impersonation, so it is still open until ended here or by signing out
+  const wasOpen = !impersonation.endedAt;
+  await closeImpersonation(impersonation.sessionId);
+
+  if (wasOpen) {
+    await recordAudit(request, impersonation.adminId, {
+      action: AUDIT_ACTIONS.IMPERSONATION_END,
+      targetType: 'User',
+      targetId: impersonation.userId,
+      after: {
+        impersonationId: impersonation.id,
+        expired: impersonation.expiresAt <= new Date()
+      }
+    });
+  }
+
+  // The return token only works once
+  const returnToken = request.cookies.get(IMPERSONATION_RETURN_COOKIE)?.value;
+  if (!wasOpen || !returnToken || hashToken(returnToken) !== impersonation.returnTokenHash || !impersonation.adminSessionId) {
+    return { tokens: null };
+  }
+
+  const refreshToken = await reissueSession(impersonation.adminSessionId);
+  const admin = await prisma.user.findUnique({
+    where: { id: impersonation.adminId },
+    select: {
+      id: true,
+      username: true,
+      email: true,
+      userType: true,
+      firstName: true,
+      lastName: true
+    }
+  });
+  if (!refreshToken || !admin) {
+    return { tokens: null };
+  }
+
+  const permissions = await getUserPermissions(admin);
+  const accessToken = signAccessToken(admin, permissions, impersonation.adminSessionId);
+
+  return { tokens: { accessToken, refreshToken } };
+}
+
+export function setImpersonationReturnCookie(response: NextResponse, returnToken: string) {
+  // Outlives the impersonation, so the admin can still return after it expired
+  response.cookies.set(IMPERSONATION_RETURN_COOKIE, returnToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: REFRESH_TOKEN_MAX_AGE,
+    path: '/',
+  });
+}
+
+// Cookies after an impersonation ended: the admin's session when it was resumed, none otherwise
+export function setImpersonationEndCookies(response: NextResponse, tokens: SessionTokens | null) {
+  clearSessionCookies(response);
+  if (tokens) {
+    setSessionCookies(response, tokens);
+  }
+}
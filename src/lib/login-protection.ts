@@ -0,0 +1,243 @@
+import crypto from 'crypto';
+import { prisma } from './prisma';
+import { hashToken } from './sessions';
+import { sendEmail, generateAccountUnlockEmail } from './email';
+import { LoginAttemptType } from '@/generated/prisma';
+import type { User } from '@/generated/prisma';
+
+// Consecutive failed logins after which an account is locked
+export const MAX_FAILED_LOGINS = 5;
+export const LOCKOUT_DURATION_MS = 30 * 60 * 1000;
+const UNLOCK_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const ACCOUNT_LOCKED_MESSAGE =
+  'Your account is temporarily locked after too many failed login attempts. Check your email for an unlock link or try again later.';
+
+// Failed logins from one IP address within the window before it is blocked
+const IP_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const MAX_IP_FAILURES = 20;
+
+// Upper bound of the progressive delay between attempts, in seconds
+const MAX_DELAY_SECONDS = 60;
+
+// Password reset requests allowed per hour
+const RESET_WINDOW_MS = 60 * 60 * 1000;
+const MAX_RESETS_PER_IP = 10;
+const MAX_RESETS_PER_EMAIL = 3;
+
+type LockableUser = Pick<User, 'id' | 'email' | 'firstName' | 'failedLoginAttempts' | 'lastFailedLoginAt' | 'lockedUntil'>;
+
+// Seconds to wait after `failures` consecutive failures: none after the first, then 1, 2, 4, 8... up to the cap
+export function getProgressiveDelay(failures: number): number {
+  if (failures < 2) return 0;
+  return Math.min(2 ** (failures - 2), MAX_DELAY_SECONDS);
+}
+
+function secondsUntil(date: Date): number {
+  return Math.max(0, Math.ceil((date.getTime() - Date.now()) / 1000));
+}
+
+export function isAccountLocked(user: Pick<User, 'lockedUntil'>): boolean {
+  return !!user.lockedUntil && user.lockedUntil > new Date();
+}
+
+/**
+ * Seconds before the IP address may try to log in again. Blocked outright once it reached
+ * MAX_IP_FAILURES within the window, otherwise slowed down progressively.
+ */
+export async function getIpRetryAfter(ipAddress: string | null): Promise<number> {
+  if (!ipAddress) return 0;
+
+  const recentFailures = await prisma.loginAttempt.findMany({
+    where: {
+      type: LoginAttemptType.LOGIN,
+      ipAddress,
+      success: false,
+      createdAt: { gt: new Date(Date.now() - IP_ATTEMPT_WINDOW_MS) }
+    },
+    select: { createdAt: true },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_IP_FAILURES
+  });
+
+  if (recentFailures.length === 0) return 0;
+
+  if (recentFailures.length >= MAX_IP_FAILURES) {
+    // Blocked until the oldest of these failures leaves the window
+    const oldest = recentFailures[recentFailures.length - 1].createdAt;
+    return secondsUntil(new Date(oldest.getTime() + IP_ATTEMPT_WINDOW_MS));
+  }
+
+  const delay = getProgressiveDelay(recentFailures.length);
+  return secondsUntil(new Date(recentFailures[0].createdAt.getTime() + delay * 1000));
+}
+
+// Seconds before the account may try to log in again, ignoring a full lockout
+export function getAccountRetryAfter(user: LockableUser): number {
+  if (!user.lastFailedLoginAt) return 0;
+
+  const delay = getProgressiveDelay(user.failedLoginAttempts);
+  return secondsUntil(new Date(user.lastFailedLoginAt.getTime() + delay * 1000));
+}
+
+// Reset the failure counter of an account whose lockout has run out
+export async function clearExpiredLockout<T extends LockableUser>(user: T): Promise<T> {
+  if (!user.lockedUntil || isAccountLocked(user)) {
+    return user;
+  }
+
+  await unlockAccounts([user.id]);
+  return { ...user, failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null };
+}
+
+/**
+ * Record a failed login. Once an account reaches MAX_FAILED_LOGINS it is locked and the
+ * owner is emailed an unlock link. Returns the lock expiry when this failure locked it.
+ */
+export async function recordLoginFailure(
+  identifier: string,
+  ipAddress: string | null,
+  user: LockableUser | null
+): Promise<Date | null> {
+  await prisma.loginAttempt.create({
+    data: {
+      type: LoginAttemptType.LOGIN,
+      identifier,
+      ipAddress,
+      userId: user?.id,
+      success: false
+    }
+  });
+
+  if (!user) return null;
+
+  const updatedUser = await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      failedLoginAttempts: { increment: 1 },
+      lastFailedLoginAt: new Date()
+    },
+    select: { failedLoginAttempts: true, lockedUntil: true }
+  });
+
+  if (updatedUser.failedLoginAttempts < MAX_FAILED_LOGINS || isAccountLocked(updatedUser)) {
+    return null;
+  }
+
+  return lockAccount(user);
+}
+
+export async function recordLoginSuccess(identifier: string, ipAddress: string | null, user: LockableUser) {
+  await prisma.loginAttempt.create({
+    data: {
+      type: LoginAttemptType.LOGIN,
+      identifier,
+      ipAddress,
+      userId: user.id,
+      success: true
+    }
+  });
+
+  if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+    await unlockAccounts([user.id]);
+  }
+}
+
+async function lockAccount(user: LockableUser): Promise<Date> {
+  const lockedUntil = new Date(Date.now() + LOCKOUT_DURATION_MS);
+  const unlockToken = crypto.randomBytes(32).toString('hex');
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      lockedUntil,
+      unlockToken: hashToken(unlockToken),
+      unlockTokenExpires: new Date(Date.now() + UNLOCK_TOKEN_TTL_MS)
+    }
+  });
+
+  const emailContent = generateAccountUnlockEmail(unlockToken, user.firstName, lockedUntil);
+  emailContent.to = user.email;
+
+  try {
+    await sendEmail(emailContent);
+  } catch (emailError) {
+    console.error('Failed to send account unlock email:', emailError);
+  }
+
+  return lockedUntil;
+}
+
+// Lift lockouts and reset the failure counters of the given accounts
+export async function unlockAccounts(userIds: number[]) {
+  const result = await prisma.user.updateMany({
+    where: { id: { in: userIds } },
+    data: {
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
+      unlockToken: null,
+      unlockTokenExpires: null
+    }
+  });
+
+  return result.count;
+}
+
+// Unlock the account an emailed unlock link belongs to; false when the link is invalid or expired
+export async function unlockAccountWithToken(unlockToken: string): Promise<boolean> {
+  const user = await prisma.user.findFirst({
+    where: {
+      unlockToken: hashToken(unlockToken),
+      unlockTokenExpires: { gt: new Date() }
+    },
+    select: { id: true }
+  });
+
+  if (!user) return false;
+
+  await unlockAccounts([user.id]);
+  return true;
+}
+
+/**
+ * Record a password reset request and check it against the hourly limits. Over the IP limit the
+ * caller should refuse the request; over the per-email limit it should quietly skip sending the
+ * email, so the response does not reveal whether the address has an account.
+ */
+export async function checkPasswordResetRequest(email: string, ipAddress: string | null) {
+  const since = new Date(Date.now() - RESET_WINDOW_MS);
+
+  const [ipRequests, emailRequests] = await Promise.all([
+    ipAddress
+      ? prisma.loginAttempt.count({
+          where: {
+            type: LoginAttemptType.FORGOT_PASSWORD,
+            ipAddress,
+            createdAt: { gt: since }
+          }
+        })
+      : Promise.resolve(0),
+    prisma.loginAttempt.count({
+      where: {
+        type: LoginAttemptType.FORGOT_PASSWORD,
+        identifier: email,
+        createdAt: { gt: since }
+      }
+    })
+  ]);
+
+  if (ipRequests >= MAX_RESETS_PER_IP) {
+    return { ipLimited: true, emailLimited: true };
+  }
+
+  await prisma.loginAttempt.create({
+    data: {
+      type: LoginAttemptType.FORGOT_PASSWORD,
+      identifier: email,
+      ipAddress
+    }
+  });
+
+  return { ipLimited: false, emailLimited: emailRequests >= MAX_RESETS_PER_EMAIL };
+}
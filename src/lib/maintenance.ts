@@ -0,0 +1,418 @@
+import { prisma } from './prisma';
+import { OPEN_REQUEST_STATUSES } from './request-status';
+import { formatVehicle } from './vehicles';
+import type { Prisma } from '@/generated/prisma';
+import type {
+  MaintenanceDueStatus,
+  MaintenanceItem,
+  MaintenanceSchedule,
+  MaintenanceScheduleData,
+  OdometerReading,
+  VehicleMaintenance
+} from '@/types/auth';
+import { createNotification, NOTIFICATION_TEMPLATES, NOTIFICATION_TYPES } from '@/utils/notifications';
+
+// Items turn DUE_SOON this close to their due date or distance, which is also when owners are reminded
+export const MAINTENANCE_DUE_SOON_DAYS = 30;
+export const MAINTENANCE_DUE_SOON_KM = 1000;
+
+export const MAX_ODOMETER_KM = 2000000;
+export const MAX_INTERVAL_KM = 500000;
+export const MAX_INTERVAL_MONTHS = 120;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ODOMETER_READING_INCLUDE = {
+  recordedBy: { select: { id: true, firstName: true, lastName: true } }
+} as const;
+
+export const MAINTENANCE_SCHEDULE_INCLUDE = {
+  service: { select: { id: true, serviceName: true } }
+} as const;
+
+export function toOdometerReading(
+  reading: Prisma.OdometerReadingGetPayload<{ include: typeof ODOMETER_READING_INCLUDE }>
+): OdometerReading {
+  return {
+    id: reading.id,
+    km: reading.km,
+    source: reading.source,
+    recordedAt: reading.recordedAt.toISOString(),
+    recordedBy: reading.recordedBy
+  };
+}
+
+export function toMaintenanceSchedule(
+  schedule: Prisma.MaintenanceScheduleGetPayload<{ include: typeof MAINTENANCE_SCHEDULE_INCLUDE }>
+): MaintenanceSchedule {
+  return {
+    id: schedule.id,
+    vehicleType: schedule.vehicleType,
+    intervalKm: schedule.intervalKm,
+    intervalMonths: schedule.intervalMonths,
+    active: schedule.active,
+    createdAt: schedule.createdAt.toISOString(),
+    service: schedule.service
+  };
+}
+
+export async function getLatestOdometerReading(vehicleId: number) {
+  return prisma.odometerReading.findFirst({
+    where: { vehicleId },
+    orderBy: [{ recordedAt: 'desc' }, { id: 'desc' }]
+  });
+}
+
+// Odometers only count up, so a reading below the last one is a typo
+export function validateOdometerKm(km: unknown, latestKm: number | null): string | null {
+  if (typeof km !== 'number' || !Number.isInteger(km) || km < 0 || km > MAX_ODOMETER_KM) {
+    return 'Odometer reading must be a whole number of kilometres';
+  }
+
+  if (latestKm !== null && km < latestKm) {
+    return `Odometer reading cannot be lower than the last recorded ${latestKm} km`;
+  }
+
+  return null;
+}
+
+const MAX_VEHICLE_TYPE_LENGTH = 100;
+
+/**
+ * Trimmed schedule fields. Either interval may be left out, but not both; an empty vehicle type
+ * applies the schedule to every vehicle.
+ */
+export function normalizeMaintenanceScheduleData(
+  body: Partial<MaintenanceScheduleData>
+): { data: Required<MaintenanceScheduleData> } | { error: string } {
+  const isInterval = (value: unknown, max: number) =>
+    value === null || (typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= max);
+
+  const vehicleType = typeof body.vehicleType === 'string' && body.vehicleType.trim() ? body.vehicleType.trim() : null;
+  const intervalKm = body.intervalKm ?? null;
+  const intervalMonths = body.intervalMonths ?? null;
+
+  if (!Number.isInteger(body.serviceId)) {
+    return { error: 'Service is required' };
+  }
+
+  if (vehicleType && vehicleType.length > MAX_VEHICLE_TYPE_LENGTH) {
+    return { error: `Vehicle type must be at most ${MAX_VEHICLE_TYPE_LENGTH} characters` };
+  }
+
+  if (!isInterval(intervalKm, MAX_INTERVAL_KM)) {
+    return { error: `Distance interval must be a whole number of kilometres up to ${MAX_INTERVAL_KM}` };
+  }
+
+  if (!isInterval(intervalMonths, MAX_INTERVAL_MONTHS)) {
+    return { error: `Time interval must be a whole number of months up to ${MAX_INTERVAL_MONTHS}` };
+  }
+
+  if (intervalKm === null && intervalMonths === null) {
+    return { error: 'Set a distance interval, a time interval or both' };
+  }
+
+  return {
+    data: {
+      vehicleType,
+      serviceId: body.serviceId as number,
+      intervalKm,
+      intervalMonths,
+      active: body.active !== false
+    }
+  };
+}
+
+// Another schedule for the same service and vehicle type, so each service is only tracked once
+export async function findDuplicateMaintenanceSchedule(
+  data: Pick<MaintenanceScheduleData, 'serviceId' | 'vehicleType'>,
+  excludeScheduleId?: number
+) {
+  return prisma.maintenanceSchedule.findFirst({
+    where: {
+      serviceId: data.serviceId,
+      vehicleType: data.vehicleType ? { equals: data.vehicleType, mode: 'insensitive' } : null,
+      ...(excludeScheduleId !== undefined && { id: { not: excludeScheduleId } })
+    }
+  });
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+interface MaintenanceEvaluation {
+  item: MaintenanceItem;
+  // Finished OngoingService the interval counts from, 0 when the service was never done
+  sinceServiceId: number;
+  scheduleCreatorId: number;
+}
+
+interface MaintenanceVehicle {
+  id: number;
+  vehicleType: string;
+  createdAt: Date;
+}
+
+const MAINTENANCE_READING_INCLUDE = {
+  vehicleStatus: { select: { serviceRequestId: true } }
+} as const;
+
+const FINISHED_SERVICE_INCLUDE = {
+  status: { select: { serviceRequestId: true, serviceRequest: { select: { garageId: true, vehicleId: true } } } }
+} as const;
+
+type ActiveSchedule = Prisma.MaintenanceScheduleGetPayload<{ include: typeof MAINTENANCE_SCHEDULE_INCLUDE }>;
+type MaintenanceReading = Prisma.OdometerReadingGetPayload<{ include: typeof MAINTENANCE_READING_INCLUDE }>;
+type FinishedService = Prisma.OngoingServiceGetPayload<{ include: typeof FINISHED_SERVICE_INCLUDE }>;
+
+// Vehicles reminders are worked through per page, so each page costs a fixed number of queries
+const REMINDER_VEHICLE_PAGE_SIZE = 100;
+
+async function findActiveSchedules(vehicleType?: string): Promise<ActiveSchedule[]> {
+  return prisma.maintenanceSchedule.findMany({
+    where: {
+      active: true,
+      service: { removed: false },
+      ...(vehicleType !== undefined && {
+        OR: [
+          { vehicleType: null },
+          { vehicleType: { equals: vehicleType, mode: 'insensitive' } }
+        ]
+      })
+    },
+    include: MAINTENANCE_SCHEDULE_INCLUDE,
+    orderBy: { id: 'asc' }
+  });
+}
+
+/**
+ * Odometer readings (oldest first) and finished scheduled services (newest first) of the
+ * given vehicles, grouped by vehicle.
+ */
+async function loadMaintenanceHistory(vehicleIds: number[], serviceIds: number[]) {
+  const [readings, finishedServices] = await Promise.all([
+    prisma.odometerReading.findMany({
+      where: { vehicleId: { in: vehicleIds } },
+      include: MAINTENANCE_READING_INCLUDE,
+      orderBy: [{ recordedAt: 'asc' }, { id: 'asc' }]
+    }),
+    serviceIds.length === 0 ? Promise.resolve([]) : prisma.ongoingService.findMany({
+      where: {
+        serviceId: { in: serviceIds },
+        serviceFinished: true,
+        finishedAt: { not: null },
+        status: { serviceRequest: { vehicleId: { in: vehicleIds } } }
+      },
+      include: FINISHED_SERVICE_INCLUDE,
+      orderBy: { finishedAt: 'desc' }
+    })
+  ]);
+
+  const readingsByVehicle = new Map<number, MaintenanceReading[]>();
+  for (const reading of readings) {
+    const vehicleReadings = readingsByVehicle.get(reading.vehicleId) ?? [];
+    vehicleReadings.push(reading);
+    readingsByVehicle.set(reading.vehicleId, vehicleReadings);
+  }
+
+  const servicesByVehicle = new Map<number, FinishedService[]>();
+  for (const service of finishedServices) {
+    const vehicleId = service.status.serviceRequest.vehicleId;
+    const vehicleServices = servicesByVehicle.get(vehicleId) ?? [];
+    vehicleServices.push(service);
+    servicesByVehicle.set(vehicleId, vehicleServices);
+  }
+
+  return { readingsByVehicle, servicesByVehicle };
+}
+
+/**
+ * Work out every schedule that applies to the vehicle. An interval counts from the last time the
+ * service was finished on it, by any garage; the distance at that point is the reading the
+ * mechanic took on that request, or else the last reading before it. Services never done count
+ * from a new vehicle for distance, and from when the vehicle or the schedule was added, whichever
+ * is later, for time. Without a reading there is no distance to go by, so a distance-only
+ * schedule stays OK until the first one.
+ */
+function evaluateVehicleMaintenance(
+  vehicle: MaintenanceVehicle,
+  schedules: ActiveSchedule[],
+  readings: MaintenanceReading[],
+  finishedServices: FinishedService[],
+  now: Date
+): { currentKm: number | null; lastReadingAt: Date | null; evaluations: MaintenanceEvaluation[] } {
+  const latestReading = readings.at(-1) ?? null;
+  const currentKm = latestReading?.km ?? null;
+  const vehicleType = vehicle.vehicleType.toLowerCase();
+
+  const evaluations = schedules
+    .filter(schedule => schedule.vehicleType === null || schedule.vehicleType.toLowerCase() === vehicleType)
+    .map((schedule): MaintenanceEvaluation => {
+      const last = finishedServices.find(service => service.serviceId === schedule.serviceId);
+      const lastDoneAt = last?.finishedAt ?? null;
+
+      let lastDoneKm: number | null = null;
+      if (last && lastDoneAt) {
+        const requestReadings = readings.filter(reading => reading.vehicleStatus?.serviceRequestId === last.status.serviceRequestId);
+        const earlierReadings = readings.filter(reading => reading.recordedAt <= lastDoneAt);
+        lastDoneKm = (requestReadings.at(-1) ?? earlierReadings.at(-1))?.km ?? null;
+      }
+
+      const trackedSince = vehicle.createdAt > schedule.createdAt ? vehicle.createdAt : schedule.createdAt;
+
+      const dueKm = schedule.intervalKm !== null && (!last || lastDoneKm !== null)
+        ? (lastDoneKm ?? 0) + schedule.intervalKm
+        : null;
+      const dueAt = schedule.intervalMonths !== null ? addMonths(lastDoneAt ?? trackedSince, schedule.intervalMonths) : null;
+
+      const kmLeft = dueKm !== null && currentKm !== null ? dueKm - currentKm : null;
+      const msLeft = dueAt ? dueAt.getTime() - now.getTime() : null;
+
+      let status: MaintenanceDueStatus = 'OK';
+      if ((kmLeft !== null && kmLeft <= 0) || (msLeft !== null && msLeft <= 0)) {
+        status = 'DUE';
+      } else if ((kmLeft !== null && kmLeft <= MAINTENANCE_DUE_SOON_KM) || (msLeft !== null && msLeft <= MAINTENANCE_DUE_SOON_DAYS * DAY_MS)) {
+        status = 'DUE_SOON';
+      }
+
+      return {
+        item: {
+          scheduleId: schedule.id,
+          service: schedule.service,
+          intervalKm: schedule.intervalKm,
+          intervalMonths: schedule.intervalMonths,
+          lastDoneAt: lastDoneAt?.toISOString() ?? null,
+          lastDoneKm,
+          lastGarageId: last?.status.serviceRequest.garageId ?? null,
+          dueAt: dueAt?.toISOString() ?? null,
+          dueKm,
+          status
+        },
+        sinceServiceId: last?.id ?? 0,
+        scheduleCreatorId: schedule.createdBy
+      };
+    });
+
+  return { currentKm, lastReadingAt: latestReading?.recordedAt ?? null, evaluations };
+}
+
+export async function getVehicleMaintenance(
+  vehicle: MaintenanceVehicle,
+  now = new Date()
+): Promise<VehicleMaintenance> {
+  const schedules = await findActiveSchedules(vehicle.vehicleType);
+  const { readingsByVehicle, servicesByVehicle } = await loadMaintenanceHistory(
+    [vehicle.id],
+    schedules.map(schedule => schedule.serviceId)
+  );
+
+  const { currentKm, lastReadingAt, evaluations } = evaluateVehicleMaintenance(
+    vehicle,
+    schedules,
+    readingsByVehicle.get(vehicle.id) ?? [],
+    servicesByVehicle.get(vehicle.id) ?? [],
+    now
+  );
+
+  return {
+    currentKm,
+    lastReadingAt: lastReadingAt?.toISOString() ?? null,
+    items: evaluations.map(evaluation => evaluation.item)
+  };
+}
+
+/**
+ * Notify owners once per vehicle, schedule and interval when a service becomes due soon or due.
+ * Each reminder is claimed by inserting its row first, so overlapping runs never remind twice;
+ * the row is deleted again when sending fails.
+ * Archived vehicles and vehicles already booked in are skipped.
+ */
+export async function sendMaintenanceReminders(now = new Date()): Promise<number> {
+  const schedules = await findActiveSchedules();
+  if (schedules.length === 0) return 0;
+
+  const serviceIds = [...new Set(schedules.map(schedule => schedule.serviceId))];
+  let sent = 0;
+  let cursor: number | undefined;
+
+  while (true) {
+    const vehicles = await prisma.vehicle.findMany({
+      where: { archivedAt: null, customer: { deletedAt: null } },
+      select: {
+        id: true,
+        customerId: true,
+        vehicleType: true,
+        color: true,
+        plateCode: true,
+        plateNumber: true,
+        createdAt: true
+      },
+      orderBy: { id: 'asc' },
+      take: REMINDER_VEHICLE_PAGE_SIZE,
+      ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 })
+    });
+    if (vehicles.length === 0) break;
+    cursor = vehicles.at(-1)!.id;
+
+    const vehicleIds = vehicles.map(vehicle => vehicle.id);
+    const [{ readingsByVehicle, servicesByVehicle }, openRequests] = await Promise.all([
+      loadMaintenanceHistory(vehicleIds, serviceIds),
+      prisma.serviceRequest.findMany({
+        where: { vehicleId: { in: vehicleIds }, status: { in: [...OPEN_REQUEST_STATUSES] } },
+        select: { vehicleId: true }
+      })
+    ]);
+    const bookedVehicleIds = new Set(openRequests.map(request => request.vehicleId));
+
+    for (const vehicle of vehicles) {
+      if (bookedVehicleIds.has(vehicle.id)) continue;
+
+      const { evaluations } = evaluateVehicleMaintenance(
+        vehicle,
+        schedules,
+        readingsByVehicle.get(vehicle.id) ?? [],
+        servicesByVehicle.get(vehicle.id) ?? [],
+        now
+      );
+
+      for (const { item, sinceServiceId, scheduleCreatorId } of evaluations) {
+        if (item.status === 'OK') continue;
+
+        const claimed = await prisma.maintenanceReminder.createMany({
+          data: [{ vehicleId: vehicle.id, scheduleId: item.scheduleId, sinceServiceId, sentAt: now }],
+          skipDuplicates: true
+        });
+        if (claimed.count === 0) continue;
+
+        try {
+          const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.MAINTENANCE_DUE].toCustomer(
+            item.service.serviceName,
+            formatVehicle(vehicle),
+            item.status === 'DUE'
+          );
+          await createNotification(
+            scheduleCreatorId,
+            vehicle.customerId,
+            NOTIFICATION_TYPES.MAINTENANCE_DUE,
+            template.title,
+            template.message
+          );
+          sent++;
+        } catch (error) {
+          console.error(`Maintenance reminder error for vehicle ${vehicle.id}:`, error);
+          // Release the claim so the next run tries again
+          await prisma.maintenanceReminder.deleteMany({
+            where: { vehicleId: vehicle.id, scheduleId: item.scheduleId, sinceServiceId, sentAt: now }
+          }).catch(releaseError => console.error('Release maintenance reminder error:', releaseError));
+        }
+      }
+    }
+
+    if (vehicles.length < REMINDER_VEHICLE_PAGE_SIZE) break;
+  }
+
+  return sent;
+}
@@ -0,0 +1,220 @@
+import type { GarageOpeningHours } from '@/types/auth';
+
+// Shared by the garage APIs and the dashboards; keep free of server-only imports
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// "HH:MM" on a 24-hour clock; "24:00" only makes sense as a closing time
+const TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// How far ahead the next opening time is looked for
+const NEXT_OPENING_LOOKAHEAD_DAYS = 14;
+
+export const MAX_AFTER_HOURS_SURCHARGE = 10000;
+
+interface ClosureLike {
+  startDate: Date | string;
+  endDate: Date | string;
+  reason: string | null;
+}
+
+interface GarageScheduleLike {
+  available: boolean;
+  timezone: string;
+  openingHours: GarageOpeningHours[];
+  closures: ClosureLike[];
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidDateKey(value: string): boolean {
+  return DATE_PATTERN.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Closure dates are stored as calendar dates (midnight UTC), so the key is the ISO date
+function toDateKey(value: Date | string): string {
+  return (typeof value === 'string' ? value : value.toISOString()).slice(0, 10);
+}
+
+function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// Calendar date, weekday and minutes past midnight of an instant, as seen in the time zone
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  const dateKey = `${parts.year}-${parts.month}-${parts.day}`;
+  return {
+    dateKey,
+    dayOfWeek: new Date(`${dateKey}T00:00:00Z`).getUTCDay(),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    seconds: Number(parts.second)
+  };
+}
+
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const { dateKey, minutes, seconds } = getZonedParts(new Date(instant), timeZone);
+  const asUtc = new Date(`${dateKey}T00:00:00Z`).getTime() + minutes * 60000 + seconds * 1000;
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// The instant at which the wall clock in the time zone shows the given date and time
+function zonedTimeToUtc(dateKey: string, minutes: number, timeZone: string): Date {
+  const wallClock = new Date(`${dateKey}T00:00:00Z`).getTime() + minutes * 60000;
+  const offset = getTimeZoneOffset(wallClock - getTimeZoneOffset(wallClock, timeZone), timeZone);
+  return new Date(wallClock - offset);
+}
+
+/**
+ * Check weekly hours sent by a garage (opening hours or mechanic shifts). Each entry is one
+ * window; a day may have several (e.g. a lunch break) as long as they do not overlap. Returns
+ * an error message or null.
+ */
+export function validateOpeningHours(hours: GarageOpeningHours[]): string | null {
+  for (const entry of hours) {
+    if (!Number.isInteger(entry.dayOfWeek) || entry.dayOfWeek < 0 || entry.dayOfWeek > 6) {
+      return 'Day of week must be between 0 (Sunday) and 6 (Saturday)';
+    }
+    if (!TIME_PATTERN.test(entry.opensAt) || !TIME_PATTERN.test(entry.closesAt) || entry.opensAt === '24:00') {
+      return 'Times must look like 08:30';
+    }
+    if (toMinutes(entry.closesAt) <= toMinutes(entry.opensAt)) {
+      return `${WEEKDAY_LABELS[entry.dayOfWeek]}: end time must be after start time`;
+    }
+  }
+
+  for (let day = 0; day < 7; day++) {
+    const windows = hours
+      .filter(entry => entry.dayOfWeek === day)
+      .sort((a, b) => toMinutes(a.opensAt) - toMinutes(b.opensAt));
+
+    for (let i = 1; i < windows.length; i++) {
+      if (toMinutes(windows[i].opensAt) < toMinutes(windows[i - 1].closesAt)) {
+        return `${WEEKDAY_LABELS[day]}: times overlap`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Whether the instant falls inside one of the weekly windows, read on the time zone's clock
+export function isWithinWeeklyHours(hours: GarageOpeningHours[], timeZone: string, at: Date): boolean {
+  const local = getZonedParts(at, timeZone);
+
+  return hours.some(entry =>
+    entry.dayOfWeek === local.dayOfWeek &&
+    toMinutes(entry.opensAt) <= local.minutes &&
+    local.minutes < toMinutes(entry.closesAt)
+  );
+}
+
+/**
+ * Whether the garage takes requests right now and, if not, when it opens next. A garage that
+ * switched itself off (available = false) stays closed until it switches back on; a garage
+ * without opening hours is treated as always open, as before opening hours existed.
+ */
+export function getGarageAvailability(garage: GarageScheduleLike, now = new Date()) {
+  if (!garage.available) {
+    return { openNow: false, nextOpeningAt: null, closedReason: 'Temporarily closed' };
+  }
+
+  if (garage.openingHours.length === 0) {
+    return { openNow: true, nextOpeningAt: null, closedReason: null };
+  }
+
+  const local = getZonedParts(now, garage.timezone);
+  const closureOn = (dateKey: string) => garage.closures.find(closure =>
+    toDateKey(closure.startDate) <= dateKey && dateKey <= toDateKey(closure.endDate)
+  );
+  const closureToday = closureOn(local.dateKey);
+
+  const openNow = !closureToday && isWithinWeeklyHours(garage.openingHours, garage.timezone, now);
+
+  if (openNow) {
+    return { openNow: true, nextOpeningAt: null, closedReason: null };
+  }
+
+  let nextOpeningAt: Date | null = null;
+
+  for (let offset = 0; offset <= NEXT_OPENING_LOOKAHEAD_DAYS && !nextOpeningAt; offset++) {
+    const dateKey = addDays(local.dateKey, offset);
+    if (closureOn(dateKey)) continue;
+
+    const dayOfWeek = (local.dayOfWeek + offset) % 7;
+    const opening = garage.openingHours
+      .filter(entry => entry.dayOfWeek === dayOfWeek)
+      .map(entry => toMinutes(entry.opensAt))
+      .filter(minutes => offset > 0 || minutes > local.minutes)
+      .sort((a, b) => a - b)[0];
+
+    if (opening !== undefined) {
+      nextOpeningAt = zonedTimeToUtc(dateKey, opening, garage.timezone);
+    }
+  }
+
+  return {
+    openNow: false,
+    nextOpeningAt,
+    closedReason: closureToday ? (closureToday.reason || 'Closed today') : 'Outside opening hours'
+  };
+}
+
+// Date and time as shown on the garage's own clock, e.g. for messages about its opening times
+export function formatGarageTime(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  }).format(date);
+}
+
+/**
+ * Prisma include for what getGarageAvailability needs. A closure's last day is stored as
+ * midnight UTC and still runs until the end of that day in the garage's time zone, up to
+ * 36 hours later west of UTC, so only closures that ended more than two days ago are left out.
+ */
+export function garageScheduleInclude(now = new Date()) {
+  return {
+    openingHours: {
+      select: { dayOfWeek: true, opensAt: true, closesAt: true },
+      orderBy: [{ dayOfWeek: 'asc' as const }, { opensAt: 'asc' as const }]
+    },
+    closures: {
+      where: { endDate: { gte: new Date(now.getTime() - 48 * 60 * 60 * 1000) } },
+      select: { id: true, startDate: true, endDate: true, reason: true },
+      orderBy: { startDate: 'asc' as const }
+    }
+  };
+}
@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { prisma } from './prisma';
+import { getClientIp, hashToken } from './sessions';
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// Minimum time between two reset emails for the same account
+const REISSUE_INTERVAL_MS = 2 * 60 * 1000;
+
+// Invalidate every reset link of a user that has not been used yet
+export async function invalidatePasswordResetTokens(userId: number) {
+  await prisma.passwordResetToken.updateMany({
+    where: {
+      userId,
+      usedAt: null,
+      invalidatedAt: null
+    },
+    data: { invalidatedAt: new Date() }
+  });
+}
+
+/**
+ * Issue a reset token for a user and record who asked for it. Earlier tokens stop working.
+ * Returns null when a token was issued too recently; only the hash is stored, so the
+ * returned token can be emailed but never recovered from the database.
+ */
+export async function issuePasswordResetToken(userId: number, request: NextRequest): Promise<string | null> {
+  const latest = await prisma.passwordResetToken.findFirst({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true }
+  });
+
+  if (latest && Date.now() - latest.createdAt.getTime() < REISSUE_INTERVAL_MS) {
+    return null;
+  }
+
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await invalidatePasswordResetTokens(userId);
+  await prisma.passwordResetToken.create({
+    data: {
+      userId,
+      tokenHash: hashToken(token),
+      requestedIp: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+      expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS)
+    }
+  });
+
+  return token;
+}
+
+// Use up a reset token; returns the user it belongs to, or null when it is invalid, expired or used
+export async function consumePasswordResetToken(token: string, request: NextRequest): Promise<number | null> {
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) }
+  });
+
+  if (!resetToken) return null;
+
+  // Guarded update, so two requests racing with the same token cannot both succeed
+  const consumed = await prisma.passwordResetToken.updateMany({
+    where: {
+      id: resetToken.id,
+      usedAt: null,
+      invalidatedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    data: {
+      usedAt: new Date(),
+      usedIp: getClientIp(request)
+    }
+  });
+
+  return consumed.count === 1 ? resetToken.userId : null;
+}
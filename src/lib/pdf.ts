@@ -0,0 +1,133 @@
+// Minimal PDF writer (A4, standard Helvetica, plain text only) for small generated reports
+
+export interface PdfLine {
+  text: string;
+  size?: number;
+  bold?: boolean;
+  // Extra space above the line, in points
+  spaceBefore?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_FONT_SIZE = 10;
+const LINE_HEIGHT = 1.4;
+
+// Helvetica has no metrics here, so wrap at a slightly generous average glyph width
+const AVERAGE_GLYPH_WIDTH = 0.52;
+
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+  '–': '-',
+  '—': '-',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '•': '-',
+  '…': '...'
+};
+
+// The standard fonts only cover Latin-1, anything else is printed as "?"
+function toLatin1(text: string): string {
+  return Array.from(text, char => {
+    const replaced = CHARACTER_REPLACEMENTS[char] ?? char;
+    const code = replaced.charCodeAt(0);
+    if (replaced.length > 1) return replaced;
+    if (code < 0x20 || (code >= 0x7f && code < 0xa0)) return ' ';
+    return code > 0xff ? '?' : replaced;
+  }).join('');
+}
+
+function escapePdfText(text: string): string {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function wrapText(text: string, size: number): string[] {
+  const maxChars = Math.max(1, Math.floor((PAGE_WIDTH - 2 * MARGIN) / (size * AVERAGE_GLYPH_WIDTH)));
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) lines.push(current);
+    current = word;
+    while (current.length > maxChars) {
+      lines.push(current.slice(0, maxChars));
+      current = current.slice(maxChars);
+    }
+  }
+
+  lines.push(current);
+  return lines;
+}
+
+// Lay the lines out top to bottom, starting a new page whenever the current one is full
+function layoutPages(lines: PdfLine[]): string[] {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_FONT_SIZE;
+    const font = line.bold ? 'F2' : 'F1';
+    y -= line.spaceBefore ?? 0;
+
+    for (const wrapped of wrapText(toLatin1(line.text), size)) {
+      y -= size * LINE_HEIGHT;
+      if (y < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN - size * LINE_HEIGHT;
+      }
+      pages[pages.length - 1].push(`BT /${font} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td (${escapePdfText(wrapped)}) Tj ET`);
+    }
+  }
+
+  return pages.map(commands => commands.join('\n'));
+}
+
+export function createPdf(lines: PdfLine[], title?: string): Buffer {
+  const pages = layoutPages(lines);
+  const firstPageObject = 5;
+  const pageObjectIds = pages.map((_, index) => firstPageObject + index * 2);
+
+  const objects: string[] = [
+    `<< /Type /Catalog /Pages 2 0 R >>`,
+    `<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>`,
+    `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>`
+  ];
+
+  pages.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> ` +
+      `/Contents ${pageObjectIds[index] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  });
+
+  if (title) {
+    objects.push(`<< /Title (${escapePdfText(toLatin1(title))}) >>`);
+  }
+
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(body, 'latin1'));
+    body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(body, 'latin1');
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R${title ? ` /Info ${objects.length} 0 R` : ''} >>\n`;
+  body += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, 'latin1');
+}
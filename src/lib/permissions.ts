@@ -0,0 +1,247 @@
+import { UserType } from '@/generated/prisma';
+
+// Named permissions. API routes, middleware and dashboard navigation all check against these.
+export const PERMISSIONS = {
+  // Customer
+  CUSTOMER_DASHBOARD: 'customer.dashboard',
+  VEHICLES_MANAGE: 'vehicles.manage',
+  REQUESTS_CREATE: 'requests.create',
+  RATINGS_CREATE: 'ratings.create',
+
+  // Garage operations (can be granted for a single garage)
+  MECHANIC_DASHBOARD: 'mechanic.dashboard',
+  GARAGE_DASHBOARD: 'garage.dashboard',
+  REQUESTS_VIEW: 'requests.view',
+  REQUESTS_ACCEPT: 'requests.accept',
+  REQUESTS_ASSIGN: 'requests.assign',
+  REQUESTS_UPDATE: 'requests.update',
+  GARAGE_PROFILE_EDIT: 'garage.profile.edit',
+  GARAGE_SERVICES_EDIT: 'garage.services.edit',
+  GARAGE_SCHEDULE_EDIT: 'garage.schedule.edit',
+  GARAGE_MECHANICS_MANAGE: 'garage.mechanics.manage',
+  GARAGE_ANALYTICS_VIEW: 'garage.analytics.view',
+
+  // System administration
+  SYSTEM_DASHBOARD: 'system.dashboard',
+  APPLICATIONS_REVIEW: 'applications.review',
+  SERVICES_MANAGE: 'services.manage',
+  USERS_MANAGE: 'users.manage',
+  USERS_IMPERSONATE: 'users.impersonate',
+  ROLES_MANAGE: 'roles.manage',
+  SETTINGS_MANAGE: 'system.settings.manage',
+  AUDIT_VIEW: 'audit.view',
+  GARAGES_MANAGE: 'garages.manage',
+  RATINGS_MODERATE: 'ratings.moderate',
+  PAYMENTS_MANAGE: 'payments.manage',
+  PAYMENTS_REFUND: 'payments.refund',
+  ANALYTICS_VIEW: 'analytics.view',
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+export const ALL_PERMISSIONS = Object.values(PERMISSIONS) as Permission[];
+
+// Permissions that only make sense for a specific garage; GARAGE scoped roles may only contain these
+export const GARAGE_PERMISSIONS: Permission[] = [
+  PERMISSIONS.MECHANIC_DASHBOARD,
+  PERMISSIONS.GARAGE_DASHBOARD,
+  PERMISSIONS.REQUESTS_VIEW,
+  PERMISSIONS.REQUESTS_ACCEPT,
+  PERMISSIONS.REQUESTS_ASSIGN,
+  PERMISSIONS.REQUESTS_UPDATE,
+  PERMISSIONS.GARAGE_PROFILE_EDIT,
+  PERMISSIONS.GARAGE_SERVICES_EDIT,
+  PERMISSIONS.GARAGE_SCHEDULE_EDIT,
+  PERMISSIONS.GARAGE_MECHANICS_MANAGE,
+  PERMISSIONS.GARAGE_ANALYTICS_VIEW,
+];
+
+export function isGaragePermission(permission: Permission): boolean {
+  return GARAGE_PERMISSIONS.includes(permission);
+}
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && (ALL_PERMISSIONS as string[]).includes(value);
+}
+
+/**
+ * Built-in permissions of each user type. Garage permissions of GARAGE_ADMIN and
+ * MECHANIC apply to the garage they own or work at; everything else applies globally.
+ */
+export const USER_TYPE_PERMISSIONS: Record<UserType, Permission[]> = {
+  [UserType.CUSTOMER]: [
+    PERMISSIONS.CUSTOMER_DASHBOARD,
+    PERMISSIONS.VEHICLES_MANAGE,
+    PERMISSIONS.REQUESTS_CREATE,
+    PERMISSIONS.RATINGS_CREATE,
+  ],
+  [UserType.MECHANIC]: [
+    PERMISSIONS.MECHANIC_DASHBOARD,
+    PERMISSIONS.REQUESTS_VIEW,
+    PERMISSIONS.REQUESTS_ACCEPT,
+  ],
+  [UserType.GARAGE_ADMIN]: [
+    PERMISSIONS.GARAGE_DASHBOARD,
+    PERMISSIONS.REQUESTS_VIEW,
+    PERMISSIONS.REQUESTS_ACCEPT,
+    PERMISSIONS.REQUESTS_ASSIGN,
+    PERMISSIONS.REQUESTS_UPDATE,
+    PERMISSIONS.GARAGE_PROFILE_EDIT,
+    PERMISSIONS.GARAGE_SERVICES_EDIT,
+    PERMISSIONS.GARAGE_SCHEDULE_EDIT,
+    PERMISSIONS.GARAGE_MECHANICS_MANAGE,
+    PERMISSIONS.GARAGE_ANALYTICS_VIEW,
+  ],
+  [UserType.SYSTEM_ADMIN]: [
+    PERMISSIONS.SYSTEM_DASHBOARD,
+    PERMISSIONS.REQUESTS_VIEW,
+    PERMISSIONS.REQUESTS_ACCEPT,
+    PERMISSIONS.REQUESTS_ASSIGN,
+    PERMISSIONS.REQUESTS_UPDATE,
+    PERMISSIONS.GARAGE_SERVICES_EDIT,
+    PERMISSIONS.GARAGE_SCHEDULE_EDIT,
+    PERMISSIONS.APPLICATIONS_REVIEW,
+    PERMISSIONS.SERVICES_MANAGE,
+    PERMISSIONS.USERS_MANAGE,
+    PERMISSIONS.USERS_IMPERSONATE,
+    PERMISSIONS.ROLES_MANAGE,
+    PERMISSIONS.SETTINGS_MANAGE,
+    PERMISSIONS.AUDIT_VIEW,
+    PERMISSIONS.GARAGES_MANAGE,
+    PERMISSIONS.RATINGS_MODERATE,
+    PERMISSIONS.PAYMENTS_MANAGE,
+    PERMISSIONS.PAYMENTS_REFUND,
+    PERMISSIONS.ANALYTICS_VIEW,
+  ],
+};
+
+// Roles created by /api/setup as a starting point; system admins can edit or delete them
+export const PRESET_ROLES: { name: string; description: string; scope: 'GLOBAL' | 'GARAGE'; permissions: Permission[] }[] = [
+  {
+    name: 'Front Desk',
+    description: 'Takes incoming requests, assigns mechanics and manages appointment slots, without access to pricing',
+    scope: 'GARAGE',
+    permissions: [
+      PERMISSIONS.GARAGE_DASHBOARD,
+      PERMISSIONS.REQUESTS_VIEW,
+      PERMISSIONS.REQUESTS_ACCEPT,
+      PERMISSIONS.REQUESTS_ASSIGN,
+      PERMISSIONS.GARAGE_SCHEDULE_EDIT,
+    ],
+  },
+  {
+    name: 'Senior Mechanic',
+    description: 'Mechanic who can also dispatch requests and follow garage performance',
+    scope: 'GARAGE',
+    permissions: [
+      PERMISSIONS.MECHANIC_DASHBOARD,
+      PERMISSIONS.GARAGE_DASHBOARD,
+      PERMISSIONS.REQUESTS_VIEW,
+      PERMISSIONS.REQUESTS_ACCEPT,
+      PERMISSIONS.REQUESTS_ASSIGN,
+      PERMISSIONS.REQUESTS_UPDATE,
+      PERMISSIONS.GARAGE_ANALYTICS_VIEW,
+    ],
+  },
+  {
+    name: 'Finance Officer',
+    description: 'Reviews payments and issues refunds',
+    scope: 'GLOBAL',
+    permissions: [
+      PERMISSIONS.SYSTEM_DASHBOARD,
+      PERMISSIONS.PAYMENTS_MANAGE,
+      PERMISSIONS.PAYMENTS_REFUND,
+    ],
+  },
+  {
+    name: 'Content Moderator',
+    description: 'Moderates customer ratings and feedback',
+    scope: 'GLOBAL',
+    permissions: [
+      PERMISSIONS.SYSTEM_DASHBOARD,
+      PERMISSIONS.RATINGS_MODERATE,
+    ],
+  },
+];
+
+/**
+ * Dashboard pages and the permission each one requires. The middleware uses the longest
+ * matching prefix to guard pages, and the dashboards use the same entries to build navigation.
+ */
+export interface NavigationItem {
+  href: string;
+  label: string;
+  permission: Permission;
+}
+
+export const DASHBOARD_ROUTES: NavigationItem[] = [
+  { href: '/customer', label: 'Customer Dashboard', permission: PERMISSIONS.CUSTOMER_DASHBOARD },
+
+  { href: '/mechanic', label: 'Mechanic Dashboard', permission: PERMISSIONS.MECHANIC_DASHBOARD },
+
+  { href: '/garage-admin', label: 'Garage Dashboard', permission: PERMISSIONS.GARAGE_DASHBOARD },
+  { href: '/garage-admin/requests', label: 'Service Requests', permission: PERMISSIONS.REQUESTS_VIEW },
+  { href: '/garage-admin/applications', label: 'Mechanic Applications', permission: PERMISSIONS.GARAGE_MECHANICS_MANAGE },
+  { href: '/garage-admin/mechanics', label: 'Mechanics', permission: PERMISSIONS.GARAGE_MECHANICS_MANAGE },
+  { href: '/garage-admin/dispatch', label: 'Dispatch', permission: PERMISSIONS.GARAGE_MECHANICS_MANAGE },
+  { href: '/garage-admin/services', label: 'Services & Pricing', permission: PERMISSIONS.GARAGE_SERVICES_EDIT },
+  { href: '/garage-admin/slots', label: 'Appointment Slots', permission: PERMISSIONS.GARAGE_SCHEDULE_EDIT },
+  { href: '/garage-admin/hours', label: 'Opening Hours', permission: PERMISSIONS.GARAGE_SCHEDULE_EDIT },
+  { href: '/garage-admin/analytics', label: 'Analytics', permission: PERMISSIONS.GARAGE_ANALYTICS_VIEW },
+  { href: '/garage-admin/profile', label: 'Garage Profile', permission: PERMISSIONS.GARAGE_PROFILE_EDIT },
+
+  { href: '/system-admin', label: 'System Dashboard', permission: PERMISSIONS.SYSTEM_DASHBOARD },
+  { href: '/system-admin/applications', label: 'Applications', permission: PERMISSIONS.APPLICATIONS_REVIEW },
+  { href: '/system-admin/services', label: 'Services', permission: PERMISSIONS.SERVICES_MANAGE },
+  { href: '/system-admin/maintenance', label: 'Maintenance Schedules', permission: PERMISSIONS.SERVICES_MANAGE },
+  { href: '/system-admin/users', label: 'Users', permission: PERMISSIONS.USERS_MANAGE },
+  { href: '/system-admin/roles', label: 'Roles & Permissions', permission: PERMISSIONS.ROLES_MANAGE },
+  { href: '/system-admin/settings', label: 'Settings', permission: PERMISSIONS.SETTINGS_MANAGE },
+  { href: '/system-admin/audit', label: 'Audit Log', permission: PERMISSIONS.AUDIT_VIEW },
+  { href: '/system-admin/garages', label: 'Garages', permission: PERMISSIONS.GARAGES_MANAGE },
+  { href: '/system-admin/feedback', label: 'Feedback', permission: PERMISSIONS.RATINGS_MODERATE },
+  { href: '/system-admin/analytics', label: 'Analytics', permission: PERMISSIONS.ANALYTICS_VIEW },
+  { href: '/system-admin/payments', label: 'Payments', permission: PERMISSIONS.PAYMENTS_MANAGE },
+];
+
+export function getRoutePermission(pathname: string): Permission | null {
+  let match: NavigationItem | null = null;
+
+  for (const route of DASHBOARD_ROUTES) {
+    const matches = pathname === route.href || pathname.startsWith(`${route.href}/`);
+    if (matches && (!match || route.href.length > match.href.length)) {
+      match = route;
+    }
+  }
+
+  return match ? match.permission : null;
+}
+
+// First dashboard the user can open, used to redirect away from pages they lack access to
+export function getHomeRoute(permissions: Permission[]): string {
+  const home = DASHBOARD_ROUTES.find(route =>
+    !route.href.slice(1).includes('/') && permissions.includes(route.permission)
+  );
+  return home ? home.href : '/auth/signin';
+}
+
+// Validate the permission list of a role; returns an error message or null when valid
+export function validateRolePermissions(scope: 'GLOBAL' | 'GARAGE', permissions: unknown): string | null {
+  if (!Array.isArray(permissions) || permissions.length === 0) {
+    return 'At least one permission is required';
+  }
+
+  const unknown = permissions.filter(permission => !isPermission(permission));
+  if (unknown.length > 0) {
+    return `Unknown permissions: ${unknown.join(', ')}`;
+  }
+
+  if (scope === 'GARAGE') {
+    const global = (permissions as Permission[]).filter(permission => !isGaragePermission(permission));
+    if (global.length > 0) {
+      return `Garage roles can only contain garage permissions: ${global.join(', ')} not allowed`;
+    }
+  }
+
+  return null;
+}
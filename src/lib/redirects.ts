@@ -0,0 +1,18 @@
+import type { NextRequest } from 'next/server';
+
+/**
+ * Where to send the browser after a redirect parameter such as `?redirect=/customer`. The value is
+ * resolved the way the browser would resolve it, so "//host" and "/\host" are caught as other
+ * origins; anything off-site falls back to the home page.
+ */
+export function getSameOriginRedirect(redirectParam: string | null, request: NextRequest): URL {
+  const home = new URL('/', request.url);
+  if (!redirectParam) return home;
+
+  try {
+    const target = new URL(redirectParam, request.url);
+    return target.origin === request.nextUrl.origin ? target : home;
+  } catch {
+    return home;
+  }
+}
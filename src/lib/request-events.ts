@@ -0,0 +1,68 @@
+import { prisma } from './prisma';
+import { Prisma } from '@/generated/prisma';
+
+// Events on a service request's timeline, named "<entity>.<action>"
+export const REQUEST_EVENTS = {
+  REQUEST_CREATED: 'request.created',
+  REQUEST_STATUS_CHANGED: 'request.statusChanged',
+  REQUEST_REMINDER_SENT: 'request.reminderSent',
+  MECHANIC_ARRIVED: 'mechanic.arrived',
+  PHOTO_ADDED: 'photo.added',
+  PHOTO_REMOVED: 'photo.removed',
+  DISPATCH_DECIDED: 'dispatch.decided',
+  DISPATCH_OVERRIDDEN: 'dispatch.overridden',
+  HANDOVER_REQUESTED: 'handover.requested',
+  HANDOVER_DECLINED: 'handover.declined',
+  MECHANIC_REASSIGNED: 'mechanic.reassigned',
+  STATUS_UPDATE_ADDED: 'statusUpdate.added',
+  STATUS_UPDATE_APPROVED: 'statusUpdate.approved',
+  STATUS_UPDATE_DECLINED: 'statusUpdate.declined',
+  SERVICE_ADDED: 'service.added',
+  SERVICE_COMPLETED: 'service.completed',
+  SERVICE_REMOVED: 'service.removed',
+  ADDITIONAL_SERVICE_REQUESTED: 'additionalService.requested',
+  ADDITIONAL_SERVICE_APPROVED: 'additionalService.approved',
+  ADDITIONAL_SERVICE_DECLINED: 'additionalService.declined',
+  ADDITIONAL_SERVICE_WITHDRAWN: 'additionalService.withdrawn',
+  ESTIMATE_SENT: 'estimate.sent',
+  ESTIMATE_ANSWERED: 'estimate.answered',
+  ESTIMATE_CONVERTED: 'estimate.converted',
+  INVOICE_GENERATED: 'invoice.generated',
+  PAYMENT_RECORDED: 'payment.recorded',
+  PAYMENT_STATUS_CHANGED: 'payment.statusChanged',
+} as const;
+
+export type RequestEventType = typeof REQUEST_EVENTS[keyof typeof REQUEST_EVENTS];
+
+export interface RequestEventEntry {
+  serviceRequestId: number;
+  type: RequestEventType;
+  summary: string;
+  details?: unknown;
+}
+
+/**
+ * Add one or more events to service request timelines. Like the audit log, this runs after the
+ * change itself has been saved, so a failure to write the event is reported but never fails
+ * the change. actorId is null for changes the system makes on its own.
+ */
+export async function recordRequestEvent(actorId: number | null, entries: RequestEventEntry | RequestEventEntry[]) {
+  const list = Array.isArray(entries) ? entries : [entries];
+  if (list.length === 0) return;
+
+  try {
+    await prisma.requestEvent.createMany({
+      data: list.map(entry => ({
+        serviceRequestId: entry.serviceRequestId,
+        actorId,
+        type: entry.type,
+        summary: entry.summary,
+        details: entry.details === undefined || entry.details === null
+          ? undefined
+          : JSON.parse(JSON.stringify(entry.details)) as Prisma.InputJsonValue
+      }))
+    });
+  } catch (error) {
+    console.error('Request event write error:', error, list);
+  }
+}
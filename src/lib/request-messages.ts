@@ -0,0 +1,120 @@
+import { prisma } from './prisma';
+import { getGarageIdsWithPermission, type ServiceRequestAccessRule } from './api-auth';
+import { PERMISSIONS } from './permissions';
+import { Prisma } from '@/generated/prisma';
+import type { AuthUser, RequestMessage, UnreadMessageCounts } from '@/types/auth';
+
+// Who can write in a request's conversation; other garage mechanics and admins can only read it
+export const MESSAGE_SENDERS: ServiceRequestAccessRule[] = ['owner', 'assignedMechanic', 'garageAdmin', 'garageStaff'];
+
+const PERSON_SELECT = { select: { id: true, firstName: true, lastName: true } } as const;
+
+/**
+ * The conversation on a request, oldest first. A message counts as read by everyone other than
+ * its sender who has opened the conversation since it was sent.
+ */
+export async function getRequestMessages(serviceRequestId: number): Promise<RequestMessage[]> {
+  const [messages, reads] = await Promise.all([
+    prisma.requestMessage.findMany({
+      where: { serviceRequestId },
+      include: {
+        sender: { select: { id: true, firstName: true, lastName: true, userType: true } }
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    }),
+    prisma.requestMessageRead.findMany({
+      where: { serviceRequestId },
+      include: { user: PERSON_SELECT }
+    })
+  ]);
+
+  return messages.map(message => ({
+    id: message.id,
+    serviceRequestId: message.serviceRequestId,
+    body: message.body,
+    image: message.storageKey && message.fileName && message.contentType && message.size !== null
+      ? { fileName: message.fileName, contentType: message.contentType, size: message.size }
+      : null,
+    createdAt: message.createdAt.toISOString(),
+    sender: message.sender,
+    readBy: reads
+      .filter(read => read.userId !== message.senderId && read.lastReadAt >= message.createdAt)
+      .map(read => read.user)
+  }));
+}
+
+// Everything in the conversation up to now has been seen by the user
+export async function markMessagesRead(serviceRequestId: number, userId: number) {
+  const lastReadAt = new Date();
+
+  await prisma.requestMessageRead.upsert({
+    where: { serviceRequestId_userId: { serviceRequestId, userId } },
+    create: { serviceRequestId, userId, lastReadAt },
+    update: { lastReadAt }
+  });
+}
+
+/**
+ * Unread messages per request for the dashboards: the user's own requests, the ones assigned to
+ * them and those of garages where they can view requests. System admins, who can read every
+ * conversation, only get counts for conversations they take part in.
+ */
+export async function getUnreadMessageCounts(user: AuthUser): Promise<UnreadMessageCounts> {
+  const garageIds = await getGarageIdsWithPermission(user, PERMISSIONS.REQUESTS_VIEW);
+  const garageScope = garageIds && garageIds.length > 0
+    ? Prisma.sql`OR r."garageId" IN (${Prisma.join(garageIds)})`
+    : Prisma.empty;
+
+  // One pass over the conversations in scope, each joined to how far the user has read it, so the
+  // query stays the same size however many conversations the user has opened
+  const counts = await prisma.$queryRaw<{ serviceRequestId: number; count: number }[]>`
+    SELECT m."serviceRequestId", COUNT(*)::int AS count
+    FROM request_messages m
+    JOIN service_requests r ON r.id = m."serviceRequestId"
+    LEFT JOIN request_message_reads rd ON rd."serviceRequestId" = m."serviceRequestId" AND rd."userId" = ${user.id}
+    WHERE m."senderId" <> ${user.id}
+      AND (rd."lastReadAt" IS NULL OR m."createdAt" > rd."lastReadAt")
+      AND (r."customerId" = ${user.id} OR r."mechanicId" = ${user.id} ${garageScope})
+    GROUP BY m."serviceRequestId"
+  `;
+
+  const requests: Record<number, number> = {};
+  for (const count of counts) {
+    requests[count.serviceRequestId] = count.count;
+  }
+
+  return {
+    total: counts.reduce((sum, count) => sum + count.count, 0),
+    requests
+  };
+}
+
+/**
+ * Of the given users, those who had read everything on the request before the new message.
+ * They get a notification; the others already have one waiting for the same conversation.
+ */
+export async function getCaughtUpUsers(serviceRequestId: number, userIds: number[], newMessageId: number): Promise<number[]> {
+  if (userIds.length === 0) return [];
+
+  const reads = await prisma.requestMessageRead.findMany({
+    where: { serviceRequestId, userId: { in: userIds } },
+    select: { userId: true, lastReadAt: true }
+  });
+
+  const caughtUp: number[] = [];
+  for (const userId of userIds) {
+    const read = reads.find(entry => entry.userId === userId);
+    const olderUnread = await prisma.requestMessage.count({
+      where: {
+        serviceRequestId,
+        id: { not: newMessageId },
+        senderId: { not: userId },
+        ...(read && { createdAt: { gt: read.lastReadAt } })
+      }
+    });
+
+    if (olderUnread === 0) caughtUp.push(userId);
+  }
+
+  return caughtUp;
+}
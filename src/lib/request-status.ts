@@ -0,0 +1,150 @@
+import type { CancellationCategory, HoldReason, Prisma, ServiceStatus } from '@/generated/prisma';
+
+// The service request life cycle. Shared by every route that changes a request's status and by
+// the dashboards deciding which buttons to show; keep free of server-only imports
+
+/**
+ * Where a request can go from each status. Accepting assigns a mechanic, who may drive out
+ * (EN_ROUTE) or start straight away at the garage; ON_HOLD pauses the work until it resumes.
+ */
+export const REQUEST_STATUS_TRANSITIONS: Record<ServiceStatus, readonly ServiceStatus[]> = {
+  PENDING: ['ACCEPTED', 'REJECTED_BY_GARAGE', 'CANCELLED'],
+  SCHEDULED: ['ACCEPTED', 'REJECTED_BY_GARAGE', 'CANCELLED'],
+  ACCEPTED: ['EN_ROUTE', 'IN_PROGRESS', 'ON_HOLD', 'CANCELLED'],
+  EN_ROUTE: ['IN_PROGRESS', 'ON_HOLD', 'CANCELLED'],
+  IN_PROGRESS: ['ON_HOLD', 'COMPLETED', 'CANCELLED'],
+  ON_HOLD: ['IN_PROGRESS', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: [],
+  REJECTED_BY_GARAGE: []
+};
+
+// Waiting for a mechanic
+export const DISPATCHABLE_REQUEST_STATUSES = ['PENDING', 'SCHEDULED'] as const;
+
+// A mechanic has been dispatched and is on the job
+export const ACTIVE_REQUEST_STATUSES = ['ACCEPTED', 'EN_ROUTE', 'IN_PROGRESS', 'ON_HOLD'] as const;
+
+// Requests that still need work; a vehicle can only have one of these at a time
+export const OPEN_REQUEST_STATUSES = [...DISPATCHABLE_REQUEST_STATUSES, ...ACTIVE_REQUEST_STATUSES] as const;
+
+export const REQUEST_STATUS_LABELS: Record<ServiceStatus, string> = {
+  PENDING: 'Pending',
+  SCHEDULED: 'Scheduled',
+  ACCEPTED: 'Accepted',
+  EN_ROUTE: 'Mechanic en route',
+  IN_PROGRESS: 'In progress',
+  ON_HOLD: 'On hold',
+  COMPLETED: 'Completed',
+  CANCELLED: 'Cancelled',
+  REJECTED_BY_GARAGE: 'Rejected by garage'
+};
+
+export const REQUEST_STATUS_BADGE_STYLES: Record<ServiceStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  SCHEDULED: 'bg-indigo-100 text-indigo-800',
+  ACCEPTED: 'bg-blue-100 text-blue-800',
+  EN_ROUTE: 'bg-cyan-100 text-cyan-800',
+  IN_PROGRESS: 'bg-purple-100 text-purple-800',
+  ON_HOLD: 'bg-orange-100 text-orange-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+  REJECTED_BY_GARAGE: 'bg-red-100 text-red-800'
+};
+
+export const HOLD_REASON_LABELS: Record<HoldReason, string> = {
+  WAITING_FOR_PARTS: 'Waiting for parts',
+  WAITING_FOR_CUSTOMER_APPROVAL: 'Waiting for customer approval',
+  OTHER: 'Other'
+};
+
+export const CANCELLATION_CATEGORY_LABELS: Record<CancellationCategory, string> = {
+  CHANGED_MIND: 'Changed my mind',
+  FOUND_ANOTHER_GARAGE: 'Found another garage',
+  PROBLEM_RESOLVED: 'Problem solved itself',
+  WAITED_TOO_LONG: 'Waited too long',
+  PRICE_TOO_HIGH: 'Price too high',
+  DUPLICATE_REQUEST: 'Duplicate request',
+  CUSTOMER_UNREACHABLE: 'Customer could not be reached',
+  MECHANIC_UNAVAILABLE: 'No mechanic available',
+  OTHER: 'Other'
+};
+
+export const MAX_STATUS_REASON_LENGTH = 500;
+export const MAX_CANCELLATION_FEE = 10000;
+
+export function isServiceStatus(value: unknown): value is ServiceStatus {
+  return typeof value === 'string' && value in REQUEST_STATUS_TRANSITIONS;
+}
+
+export function isHoldReason(value: unknown): value is HoldReason {
+  return typeof value === 'string' && value in HOLD_REASON_LABELS;
+}
+
+export function isCancellationCategory(value: unknown): value is CancellationCategory {
+  return typeof value === 'string' && value in CANCELLATION_CATEGORY_LABELS;
+}
+
+export function isActiveRequestStatus(status: ServiceStatus): boolean {
+  return (ACTIVE_REQUEST_STATUSES as readonly ServiceStatus[]).includes(status);
+}
+
+// The mechanic shares their position from "On My Way" until they reach the vehicle
+export function isTrackingLive(request: { status: ServiceStatus; arrivedAt: Date | string | null }): boolean {
+  return request.status === 'EN_ROUTE' && !request.arrivedAt;
+}
+
+export function canTransition(from: ServiceStatus, to: ServiceStatus): boolean {
+  return REQUEST_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Why the move is not allowed, or null when it is
+export function getTransitionError(from: ServiceStatus, to: ServiceStatus): string | null {
+  if (canTransition(from, to)) return null;
+
+  return REQUEST_STATUS_TRANSITIONS[from].length === 0
+    ? `The request is already ${REQUEST_STATUS_LABELS[from].toLowerCase()}`
+    : `Cannot change status from ${REQUEST_STATUS_LABELS[from]} to ${REQUEST_STATUS_LABELS[to]}`;
+}
+
+/**
+ * The fee for cancelling a request now. Customers pay the garage's fee once a mechanic has been
+ * dispatched; cancelling before that, or a cancellation by the garage or mechanic, is free.
+ */
+export function getCancellationFee(
+  status: ServiceStatus,
+  cancelledByCustomer: boolean,
+  garageCancellationFee: number
+): number {
+  return cancelledByCustomer && isActiveRequestStatus(status) && garageCancellationFee > 0
+    ? garageCancellationFee
+    : 0;
+}
+
+/**
+ * Move a request to another status inside a transaction. The update only applies while the
+ * request still has the status (and mechanic, when given) it was read with, so of two changes
+ * made at once only one wins; returns false for the loser. Passing the current status again
+ * changes only the other fields under the same guard, e.g. swapping the assigned mechanic.
+ */
+export async function moveRequestStatus(
+  tx: Prisma.TransactionClient,
+  request: { id: number; status: ServiceStatus; mechanicId?: number | null },
+  to: ServiceStatus,
+  data: Omit<Prisma.ServiceRequestUncheckedUpdateManyInput, 'status'> = {}
+): Promise<boolean> {
+  if (request.status !== to && !canTransition(request.status, to)) {
+    throw new Error(`Invalid service request transition ${request.status} -> ${to}`);
+  }
+
+  const moved = await tx.serviceRequest.updateMany({
+    where: {
+      id: request.id,
+      status: request.status,
+      ...(request.mechanicId !== undefined && { mechanicId: request.mechanicId })
+    },
+    data: { ...data, status: to }
+  });
+
+  return moved.count > 0;
+}
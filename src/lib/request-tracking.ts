@@ -0,0 +1,64 @@
+import { prisma } from './prisma';
+import { calculateDistance, estimateTravelTime } from '@/utils/common';
+import { isTrackingLive } from './request-status';
+import type { MechanicLocationPoint, RequestTracking } from '@/types/auth';
+
+// Positions arriving faster than this are not stored; the trail only needs a rough line
+export const MIN_LOCATION_INTERVAL_MS = 10 * 1000;
+
+// Points returned with the tracking view; older ones stay stored but are not sent
+export const TRACKING_TRAIL_LIMIT = 200;
+
+/**
+ * Tracking view of a request: the mechanic's trail, and distance and ETA from their last
+ * position to the customer's, recomputed on every call. Returns null when the request is gone.
+ */
+export async function getRequestTracking(requestId: number): Promise<RequestTracking | null> {
+  const serviceRequest = await prisma.serviceRequest.findUnique({
+    where: { id: requestId },
+    select: {
+      id: true,
+      status: true,
+      latitude: true,
+      longitude: true,
+      arrivedAt: true,
+      mechanic: { select: { id: true, firstName: true, lastName: true } }
+    }
+  });
+
+  if (!serviceRequest) return null;
+
+  // Only the assigned mechanic's trail; a mechanic who handed the request over is no longer coming.
+  // Newest first to apply the limit, then turned around so the trail reads in driving order
+  const points = !serviceRequest.mechanic ? [] : await prisma.mechanicLocation.findMany({
+    where: { serviceRequestId: serviceRequest.id, mechanicId: serviceRequest.mechanic.id },
+    select: { latitude: true, longitude: true, accuracy: true, recordedAt: true },
+    orderBy: [{ recordedAt: 'desc' }, { id: 'desc' }],
+    take: TRACKING_TRAIL_LIMIT
+  });
+
+  const trail: MechanicLocationPoint[] = points.reverse().map(point => ({
+    ...point,
+    recordedAt: point.recordedAt.toISOString()
+  }));
+  const lastLocation = trail.length > 0 ? trail[trail.length - 1] : null;
+  const live = isTrackingLive(serviceRequest);
+
+  // Once the mechanic has arrived there is nothing left to drive
+  const distanceKm = live && lastLocation
+    ? calculateDistance(lastLocation.latitude, lastLocation.longitude, serviceRequest.latitude, serviceRequest.longitude)
+    : null;
+
+  return {
+    serviceRequestId: serviceRequest.id,
+    status: serviceRequest.status,
+    live,
+    arrivedAt: serviceRequest.arrivedAt?.toISOString() ?? null,
+    destination: { latitude: serviceRequest.latitude, longitude: serviceRequest.longitude },
+    mechanic: serviceRequest.mechanic,
+    lastLocation,
+    distanceKm,
+    eta: distanceKm === null ? null : estimateTravelTime(distanceKm),
+    trail
+  };
+}
@@ -0,0 +1,95 @@
+import type { RequestUrgency, SymptomCategory } from '@/types/auth';
+
+// Shared by the request form, the request APIs and the dashboards; keep free of server-only imports
+
+export const SYMPTOM_CATEGORY_LABELS: Record<SymptomCategory, string> = {
+  WONT_START: "Won't start",
+  FLAT_TIRE: 'Flat tire',
+  OVERHEATING: 'Overheating',
+  ACCIDENT: 'Accident',
+  BATTERY: 'Battery',
+  BRAKES: 'Brakes',
+  ENGINE_NOISE: 'Engine noise',
+  WARNING_LIGHT: 'Warning light',
+  OUT_OF_FUEL: 'Out of fuel',
+  LOCKED_OUT: 'Locked out',
+  OTHER: 'Other'
+};
+
+export const URGENCY_LABELS: Record<RequestUrgency, string> = {
+  LOW: 'Low - can wait a few days',
+  NORMAL: 'Normal',
+  HIGH: 'High - needed today',
+  EMERGENCY: 'Emergency - stranded or unsafe'
+};
+
+export const URGENCY_BADGE_STYLES: Record<RequestUrgency, string> = {
+  LOW: 'bg-gray-100 text-gray-800',
+  NORMAL: 'bg-blue-100 text-blue-800',
+  HIGH: 'bg-orange-100 text-orange-800',
+  EMERGENCY: 'bg-red-100 text-red-800'
+};
+
+export const MAX_DESCRIPTION_LENGTH = 2000;
+
+// Photo limits
+export const MAX_REQUEST_PHOTOS = 5;
+export const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+export const PHOTO_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Request message limits; a message may carry one photo within the limits above
+export const MAX_MESSAGE_LENGTH = 2000;
+
+// Photo fields returned with a request (the storage key stays on the server)
+export const REQUEST_PHOTO_SELECT = {
+  id: true,
+  fileName: true,
+  contentType: true,
+  size: true,
+  createdAt: true
+} as const;
+
+// People named on a hand-over or reassignment record
+const PERSON_SELECT = { select: { id: true, firstName: true, lastName: true } } as const;
+
+export const REQUEST_REASSIGNMENT_INCLUDE = {
+  fromMechanic: PERSON_SELECT,
+  toMechanic: PERSON_SELECT,
+  requestedBy: PERSON_SELECT,
+  decidedBy: PERSON_SELECT
+} as const;
+
+export function isSymptomCategory(value: unknown): value is SymptomCategory {
+  return typeof value === 'string' && value in SYMPTOM_CATEGORY_LABELS;
+}
+
+export function isRequestUrgency(value: unknown): value is RequestUrgency {
+  return typeof value === 'string' && value in URGENCY_LABELS;
+}
+
+// The image type from the file's first bytes, so a renamed file cannot pass as a photo
+export function detectImageType(data: Uint8Array): { contentType: string; extension: string } | null {
+  const startsWith = (bytes: number[], offset = 0) =>
+    bytes.every((byte, index) => data[offset + index] === byte);
+
+  if (startsWith([0xff, 0xd8, 0xff])) {
+    return { contentType: 'image/jpeg', extension: 'jpg' };
+  }
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return { contentType: 'image/png', extension: 'png' };
+  }
+  // "RIFF" .... "WEBP"
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+    return { contentType: 'image/webp', extension: 'webp' };
+  }
+
+  return null;
+}
+
+export function getRequestPhotoUrl(serviceRequestId: number, photoId: number): string {
+  return `/api/requests/${serviceRequestId}/photos/${photoId}`;
+}
+
+export function getRequestMessageImageUrl(serviceRequestId: number, messageId: number): string {
+  return `/api/requests/${serviceRequestId}/messages/${messageId}/image`;
+}
@@ -0,0 +1,284 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from './prisma';
+import type { Session } from '@/generated/prisma';
+import type { Permission } from './permissions';
+import type { AuthUser } from '@/types/auth';
+
+export const AUTH_COOKIE = 'auth-token';
+export const REFRESH_COOKIE = 'refresh-token';
+// Set while a system admin impersonates a user; needed to return to the admin's own session
+export const IMPERSONATION_RETURN_COOKIE = 'impersonation-return';
+
+// Lifetimes in seconds
+export const ACCESS_TOKEN_MAX_AGE = 15 * 60;
+export const REFRESH_TOKEN_MAX_AGE = 30 * 24 * 60 * 60;
+
+// A refresh token that was just rotated is still accepted for this long, so parallel
+// requests racing the rotation are not mistaken for token theft
+const ROTATION_GRACE_MS = 30 * 1000;
+
+// How often lastSeenAt is written for an active session
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+export interface SessionTokens {
+  accessToken: string;
+  // null when an access token was re-issued without rotating the refresh token
+  refreshToken: string | null;
+}
+
+interface AccessTokenUser {
+  id: number;
+  username: string;
+  email: string;
+  userType: AuthUser['userType'];
+  firstName: string;
+  lastName: string;
+}
+
+// Added to the access tokens of a session a system admin opened as another user
+export interface ImpersonationClaims {
+  impersonatorId: number;
+  impersonationReadOnly: boolean;
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function generateRefreshToken(): string {
+  return crypto.randomBytes(48).toString('base64url');
+}
+
+export function getClientIp(request: NextRequest): string | null {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return request.headers.get('x-real-ip');
+}
+
+export function signAccessToken(
+  user: AccessTokenUser,
+  permissions: Permission[],
+  sessionId: number,
+  impersonation?: ImpersonationClaims
+): string {
+  return jwt.sign(
+    {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      userType: user.userType,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      permissions,
+      sid: sessionId,
+      ...impersonation,
+    },
+    process.env.NEXTAUTH_SECRET!,
+    { expiresIn: ACCESS_TOKEN_MAX_AGE }
+  );
+}
+
+// Create a session for a device that just signed in; expiresAt shortens the default lifetime
+export async function createSession(userId: number, request: NextRequest, expiresAt?: Date) {
+  const refreshToken = generateRefreshToken();
+
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: getClientIp(request),
+      expiresAt: expiresAt || new Date(Date.now() + REFRESH_TOKEN_MAX_AGE * 1000),
+    }
+  });
+
+  return { session, refreshToken };
+}
+
+// Give an active session a new refresh token, e.g. when the browser holding it gets it back
+export async function reissueSession(sessionId: number): Promise<string | null> {
+  const refreshToken = generateRefreshToken();
+
+  const reissued = await prisma.session.updateMany({
+    where: {
+      id: sessionId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    data: {
+      refreshTokenHash: hashToken(refreshToken),
+      rotatedAt: new Date(),
+      lastSeenAt: new Date(),
+    }
+  });
+
+  return reissued.count === 1 ? refreshToken : null;
+}
+
+/**
+ * Exchange a refresh token for a new one. Presenting a token that was already rotated
+ * (outside the grace window) revokes the whole session, since it was most likely stolen.
+ */
+export async function rotateSession(
+  refreshToken: string,
+  request: NextRequest
+): Promise<{ session: Session; refreshToken: string | null } | null> {
+  const tokenHash = hashToken(refreshToken);
+  const now = new Date();
+
+  const session = await prisma.session.findUnique({
+    where: { refreshTokenHash: tokenHash }
+  });
+
+  if (session) {
+    if (session.revokedAt || session.expiresAt <= now) {
+      return null;
+    }
+
+    const nextRefreshToken = generateRefreshToken();
+    const rotated = await prisma.session.updateMany({
+      where: {
+        id: session.id,
+        refreshTokenHash: tokenHash
+      },
+      data: {
+        refreshTokenHash: hashToken(nextRefreshToken),
+        previousTokenHash: tokenHash,
+        rotatedAt: now,
+        lastSeenAt: now,
+        ipAddress: getClientIp(request),
+      }
+    });
+
+    if (rotated.count === 1) {
+      return { session, refreshToken: nextRefreshToken };
+    }
+  }
+
+  const previousSession = await prisma.session.findFirst({
+    where: { previousTokenHash: tokenHash }
+  });
+
+  if (!previousSession || previousSession.revokedAt || previousSession.expiresAt <= now) {
+    return null;
+  }
+
+  if (previousSession.rotatedAt && now.getTime() - previousSession.rotatedAt.getTime() < ROTATION_GRACE_MS) {
+    return { session: previousSession, refreshToken: null };
+  }
+
+  await revokeSession(previousSession.id, 'Refresh token reuse detected');
+  return null;
+}
+
+// Whether the session behind an access token is still active; also records when it was last used
+export async function touchSession(sessionId: number): Promise<boolean> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true, expiresAt: true, lastSeenAt: true }
+  });
+
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    return false;
+  }
+
+  if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+    await prisma.session.update({
+      where: { id: sessionId },
+      data: { lastSeenAt: new Date() }
+    });
+  }
+
+  return true;
+}
+
+export async function revokeSession(sessionId: number, reason: string) {
+  await prisma.session.updateMany({
+    where: {
+      id: sessionId,
+      revokedAt: null
+    },
+    data: {
+      revokedAt: new Date(),
+      revokedReason: reason
+    }
+  });
+}
+
+// Revoke every active session of a user, optionally keeping the one making the request
+export async function revokeUserSessions(userId: number, reason: string, exceptSessionId?: number) {
+  const result = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId !== undefined && { id: { not: exceptSessionId } })
+    },
+    data: {
+      revokedAt: new Date(),
+      revokedReason: reason
+    }
+  });
+
+  return result.count;
+}
+
+// Session id of the request, from the access token or else the refresh token
+export async function getRequestSessionId(request: NextRequest): Promise<number | null> {
+  const accessToken = request.cookies.get(AUTH_COOKIE)?.value;
+  if (accessToken) {
+    try {
+      // An expired access token still identifies the session, e.g. when signing out
+      const decoded = jwt.verify(accessToken, process.env.NEXTAUTH_SECRET!, { ignoreExpiration: true }) as { sid?: number };
+      if (decoded.sid) return decoded.sid;
+    } catch {
+      // Fall back to the refresh token
+    }
+  }
+
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+  if (refreshToken) {
+    const session = await prisma.session.findUnique({
+      where: { refreshTokenHash: hashToken(refreshToken) },
+      select: { id: true }
+    });
+    if (session) return session.id;
+  }
+
+  return null;
+}
+
+export function setSessionCookies(response: NextResponse, tokens: SessionTokens) {
+  response.cookies.set(AUTH_COOKIE, tokens.accessToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: ACCESS_TOKEN_MAX_AGE,
+    path: '/',
+  });
+
+  if (tokens.refreshToken) {
+    response.cookies.set(REFRESH_COOKIE, tokens.refreshToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: REFRESH_TOKEN_MAX_AGE,
+      path: '/',
+    });
+  }
+}
+
+export function clearSessionCookies(response: NextResponse) {
+  for (const name of [AUTH_COOKIE, REFRESH_COOKIE, IMPERSONATION_RETURN_COOKIE]) {
+    response.cookies.set(name, '', {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: 0, // Expire immediately
+      path: '/',
+    });
+  }
+}
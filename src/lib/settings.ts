@@ -0,0 +1,66 @@
+import { prisma } from './prisma';
+import { Prisma, UserType } from '@/generated/prisma';
+
+// Keys of the settings stored in the system_settings table
+export const SETTINGS = {
+  // User types that must use two-factor authentication to sign in
+  TWO_FACTOR_REQUIRED_USER_TYPES: 'auth.twoFactorRequiredUserTypes',
+} as const;
+
+export type SettingKey = typeof SETTINGS[keyof typeof SETTINGS];
+
+interface SettingValues {
+  [SETTINGS.TWO_FACTOR_REQUIRED_USER_TYPES]: UserType[];
+}
+
+export const SETTING_DEFAULTS: SettingValues = {
+  [SETTINGS.TWO_FACTOR_REQUIRED_USER_TYPES]: [],
+};
+
+// Returns an error message when the value is not valid for the setting, otherwise null
+const SETTING_VALIDATORS: { [K in SettingKey]: (value: unknown) => string | null } = {
+  [SETTINGS.TWO_FACTOR_REQUIRED_USER_TYPES]: (value) => {
+    if (!Array.isArray(value) || value.some(userType => !Object.values(UserType).includes(userType))) {
+      return 'Expected a list of user types';
+    }
+    return null;
+  },
+};
+
+export function isSettingKey(key: unknown): key is SettingKey {
+  return typeof key === 'string' && (Object.values(SETTINGS) as string[]).includes(key);
+}
+
+export function validateSetting(key: SettingKey, value: unknown): string | null {
+  return SETTING_VALIDATORS[key](value);
+}
+
+export async function getSetting<K extends SettingKey>(key: K): Promise<SettingValues[K]> {
+  const setting = await prisma.systemSetting.findUnique({
+    where: { key }
+  });
+
+  return setting ? (setting.value as SettingValues[K]) : SETTING_DEFAULTS[key];
+}
+
+// All settings with defaults filled in
+export async function getAllSettings(): Promise<SettingValues> {
+  const stored = await prisma.systemSetting.findMany();
+  const settings = { ...SETTING_DEFAULTS };
+
+  for (const setting of stored) {
+    if (isSettingKey(setting.key)) {
+      (settings as Record<SettingKey, unknown>)[setting.key] = setting.value;
+    }
+  }
+
+  return settings;
+}
+
+export async function updateSetting<K extends SettingKey>(key: K, value: SettingValues[K], updatedBy: number) {
+  await prisma.systemSetting.upsert({
+    where: { key },
+    create: { key, value: value as Prisma.InputJsonValue, updatedBy },
+    update: { value: value as Prisma.InputJsonValue, updatedBy }
+  });
+}
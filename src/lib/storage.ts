@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Where uploaded files are kept. Records in the database only store the key, so the backend
+ * can be swapped (e.g. for object storage) by adding a driver below and setting STORAGE_DRIVER.
+ */
+export interface FileStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // null when no file is stored under the key
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+// Keys are generated by createStorageKey; anything else could escape the storage directory
+const STORAGE_KEY_PATTERN = /^[a-z0-9-]+(\/[a-z0-9-]+)*\/[a-f0-9]{32}\.[a-z0-9]+$/;
+
+export function createStorageKey(prefix: string, extension: string): string {
+  return `${prefix}/${crypto.randomBytes(16).toString('hex')}.${extension}`;
+}
+
+export function createLocalDiskStorage(rootDirectory: string): FileStorage {
+  const resolve = (key: string) => {
+    if (!STORAGE_KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(rootDirectory, key);
+  };
+
+  return {
+    async put(key, data) {
+      const filePath = resolve(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    }
+  };
+}
+
+const STORAGE_DRIVERS: Record<string, () => FileStorage> = {
+  local: () => createLocalDiskStorage(
+    process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'storage')
+  )
+};
+
+let storage: FileStorage | null = null;
+
+export function getStorage(): FileStorage {
+  if (!storage) {
+    const driver = process.env.STORAGE_DRIVER || 'local';
+    const createStorage = STORAGE_DRIVERS[driver];
+    if (!createStorage) {
+      throw new Error(`Unknown storage driver: ${driver}`);
+    }
+    storage = createStorage();
+  }
+
+  return storage;
+}
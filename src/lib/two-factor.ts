@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { prisma } from './prisma';
+import { hashToken } from './sessions';
+import { getSetting, SETTINGS } from './settings';
+import type { User, UserType } from '@/generated/prisma';
+
+// TOTP parameters (RFC 6238 defaults, as expected by common authenticator apps)
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Codes from one step before or after the current one are accepted to allow for clock drift
+const ALLOWED_DRIFT_STEPS = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = 'Auto Service Management System';
+
+// How long the second login step may take after the password was accepted
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+type TwoFactorUser = Pick<User, 'id' | 'twoFactorSecret' | 'twoFactorRecoveryCodes' | 'twoFactorLastUsedStep'>;
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[^A-Z2-7]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function generateHotp(secret: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeUInt32BE(Math.floor(counter / 2 ** 32), 0);
+  counterBuffer.writeUInt32BE(counter % 2 ** 32, 4);
+
+  const hmac = crypto.createHmac('sha1', secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+// Time step of the code matching `code`, or null when it matches none within the drift window
+function findTotpStep(secret: string, code: string): number | null {
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+
+  for (let drift = -ALLOWED_DRIFT_STEPS; drift <= ALLOWED_DRIFT_STEPS; drift++) {
+    const expected = generateHotp(key, currentStep + drift);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return currentStep + drift;
+    }
+  }
+
+  return null;
+}
+
+// Secrets are stored encrypted with a key derived from the app secret
+function getEncryptionKey(): Buffer {
+  return crypto.createHash('sha256').update(`${process.env.NEXTAUTH_SECRET}:two-factor-secret`).digest();
+}
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, authTag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-f0-9]/g, '');
+}
+
+function generateRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+  return { codes, hashes: codes.map(code => hashToken(normalizeRecoveryCode(code))) };
+}
+
+export async function isTwoFactorRequired(userType: UserType): Promise<boolean> {
+  const requiredUserTypes = await getSetting(SETTINGS.TWO_FACTOR_REQUIRED_USER_TYPES);
+  return requiredUserTypes.includes(userType);
+}
+
+/**
+ * Short-lived token proving the password step of a login succeeded. Signed with its own key
+ * so it can never be used as an access token.
+ */
+export function signTwoFactorChallenge(userId: number): string {
+  return jwt.sign(
+    { id: userId, purpose: 'two-factor' },
+    `${process.env.NEXTAUTH_SECRET}:two-factor`,
+    { expiresIn: CHALLENGE_TTL_SECONDS }
+  );
+}
+
+export function verifyTwoFactorChallenge(challengeToken: string): number | null {
+  try {
+    const decoded = jwt.verify(challengeToken, `${process.env.NEXTAUTH_SECRET}:two-factor`) as { id: number; purpose: string };
+    return decoded.purpose === 'two-factor' ? decoded.id : null;
+  } catch {
+    return null;
+  }
+}
+
+// Start (or restart) enrollment: store a new pending secret and return what the authenticator app needs
+export async function beginTwoFactorEnrollment(user: Pick<User, 'id' | 'username'>) {
+  const secret = base32Encode(crypto.randomBytes(20));
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorEnabled: false,
+      twoFactorSecret: encryptSecret(secret),
+      twoFactorRecoveryCodes: [],
+      twoFactorLastUsedStep: null
+    }
+  });
+
+  const label = encodeURIComponent(`${ISSUER}:${user.username}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_PERIOD_SECONDS.toString(),
+  });
+
+  return { secret, otpauthUrl: `otpauth://totp/${label}?${params.toString()}` };
+}
+
+// Check a TOTP code against the pending secret and turn 2FA on; returns the recovery codes
+export async function completeTwoFactorEnrollment(user: TwoFactorUser, code: string): Promise<string[] | null> {
+  if (!user.twoFactorSecret || !/^\d{6}$/.test(code)) return null;
+
+  const step = findTotpStep(decryptSecret(user.twoFactorSecret), code);
+  if (step === null) return null;
+
+  const { codes, hashes } = generateRecoveryCodes();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorEnabled: true,
+      twoFactorRecoveryCodes: hashes,
+      twoFactorLastUsedStep: step
+    }
+  });
+
+  return codes;
+}
+
+/**
+ * Verify a TOTP code or, failing that, a recovery code. Accepted TOTP codes cannot be used
+ * again and recovery codes are consumed.
+ */
+export async function verifyTwoFactorCode(user: TwoFactorUser, code: string): Promise<boolean> {
+  if (!user.twoFactorSecret) return false;
+
+  const trimmed = code.replace(/\s/g, '');
+
+  if (/^\d{6}$/.test(trimmed)) {
+    const step = findTotpStep(decryptSecret(user.twoFactorSecret), trimmed);
+    if (step === null) return false;
+
+    // Only accept the step if no later or equal one was used, guarding against replays and races
+    const updated = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [
+          { twoFactorLastUsedStep: null },
+          { twoFactorLastUsedStep: { lt: step } }
+        ]
+      },
+      data: { twoFactorLastUsedStep: step }
+    });
+
+    return updated.count === 1;
+  }
+
+  const codeHash = hashToken(normalizeRecoveryCode(trimmed));
+  if (!user.twoFactorRecoveryCodes.includes(codeHash)) return false;
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter(hash => hash !== codeHash)
+    }
+  });
+
+  return true;
+}
+
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorRecoveryCodes: hashes }
+  });
+
+  return codes;
+}
+
+export async function disableTwoFactor(userId: number) {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: [],
+      twoFactorLastUsedStep: null
+    }
+  });
+}
@@ -0,0 +1,39 @@
+import type { VehicleDocumentType } from '@/generated/prisma';
+import type { VehicleDocumentExpiryStatus } from '@/types/auth';
+
+// Labels, expiry state and file links shown by the customer and mechanic pages, also used by the
+// document reminders; keep free of server-only imports
+
+// Owners are reminded once, this many days before a document expires
+export const VEHICLE_DOCUMENT_EXPIRY_REMINDER_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const VEHICLE_DOCUMENT_TYPE_LABELS: Record<VehicleDocumentType, string> = {
+  INSURANCE: 'Insurance',
+  REGISTRATION: 'Registration',
+  INSPECTION: 'Inspection',
+  OTHER: 'Other'
+};
+
+export const VEHICLE_DOCUMENT_EXPIRY_LABELS: Record<VehicleDocumentExpiryStatus, string> = {
+  VALID: 'Valid',
+  EXPIRING: 'Expiring soon',
+  EXPIRED: 'Expired'
+};
+
+export function getVehicleDocumentExpiryStatus(expiresAt: string | Date | null, now = new Date()): VehicleDocumentExpiryStatus {
+  if (!expiresAt) return 'VALID';
+
+  const msLeft = new Date(expiresAt).getTime() - now.getTime();
+  if (msLeft <= 0) return 'EXPIRED';
+  return msLeft <= VEHICLE_DOCUMENT_EXPIRY_REMINDER_DAYS * DAY_MS ? 'EXPIRING' : 'VALID';
+}
+
+export function getVehicleDocumentFileUrl(vehicleId: number, documentId: number): string {
+  return `/api/vehicles/${vehicleId}/documents/${documentId}`;
+}
+
+export function getRequestVehicleDocumentFileUrl(serviceRequestId: number, documentId: number): string {
+  return `/api/requests/${serviceRequestId}/vehicle-documents/${documentId}`;
+}
@@ -0,0 +1,164 @@
+import { prisma } from './prisma';
+import { detectImageType } from './service-requests';
+import { VEHICLE_DOCUMENT_EXPIRY_REMINDER_DAYS, VEHICLE_DOCUMENT_TYPE_LABELS } from './vehicle-document-display';
+import { formatVehicle } from './vehicles';
+import type { Prisma, VehicleDocumentType } from '@/generated/prisma';
+import type { VehicleDocument, VehicleDocumentData } from '@/types/auth';
+import { createNotification, NOTIFICATION_TEMPLATES, NOTIFICATION_TYPES } from '@/utils/notifications';
+
+export const MAX_VEHICLE_DOCUMENTS = 20;
+export const MAX_DOCUMENT_FILE_SIZE = 10 * 1024 * 1024;
+const MAX_DOCUMENT_FIELD_LENGTH = 100;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isVehicleDocumentType(value: unknown): value is VehicleDocumentType {
+  return typeof value === 'string' && value in VEHICLE_DOCUMENT_TYPE_LABELS;
+}
+
+export const VEHICLE_DOCUMENT_SELECT = {
+  id: true,
+  vehicleId: true,
+  type: true,
+  documentNumber: true,
+  issuer: true,
+  expiresAt: true,
+  createdAt: true,
+  storageKey: true,
+  fileName: true,
+  contentType: true,
+  size: true
+} as const;
+
+export function toVehicleDocument(
+  document: Prisma.VehicleDocumentGetPayload<{ select: typeof VEHICLE_DOCUMENT_SELECT }>
+): VehicleDocument {
+  return {
+    id: document.id,
+    vehicleId: document.vehicleId,
+    type: document.type,
+    documentNumber: document.documentNumber,
+    issuer: document.issuer,
+    expiresAt: document.expiresAt?.toISOString() ?? null,
+    createdAt: document.createdAt.toISOString(),
+    file: document.storageKey && document.fileName && document.contentType && document.size !== null
+      ? { fileName: document.fileName, contentType: document.contentType, size: document.size }
+      : null
+  };
+}
+
+/**
+ * Trimmed document fields. The expiry is a date; the document stays valid until the end of
+ * that day (UTC).
+ */
+export function normalizeVehicleDocumentData(
+  body: Partial<Record<keyof VehicleDocumentData, unknown>>
+): { data: { type: VehicleDocumentType; documentNumber: string; issuer: string; expiresAt: Date | null } } | { error: string } {
+  const documentNumber = typeof body.documentNumber === 'string' ? body.documentNumber.trim() : '';
+  const issuer = typeof body.issuer === 'string' ? body.issuer.trim() : '';
+  const expiresAt = typeof body.expiresAt === 'string' ? body.expiresAt.trim() : '';
+
+  if (!isVehicleDocumentType(body.type)) {
+    return { error: 'Document type must be insurance, registration, inspection or other' };
+  }
+
+  if (!documentNumber || !issuer) {
+    return { error: 'Document number and issuer are required' };
+  }
+
+  if (documentNumber.length > MAX_DOCUMENT_FIELD_LENGTH || issuer.length > MAX_DOCUMENT_FIELD_LENGTH) {
+    return { error: `Document number and issuer must be at most ${MAX_DOCUMENT_FIELD_LENGTH} characters` };
+  }
+
+  let expiryDate: Date | null = null;
+  if (expiresAt) {
+    expiryDate = new Date(`${expiresAt}T23:59:59.999Z`);
+    if (!DATE_PATTERN.test(expiresAt) || isNaN(expiryDate.getTime()) || !expiryDate.toISOString().startsWith(expiresAt)) {
+      return { error: 'Expiry date must be a valid date (YYYY-MM-DD)' };
+    }
+  }
+
+  return {
+    data: { type: body.type, documentNumber, issuer, expiresAt: expiryDate }
+  };
+}
+
+// The file type from its first bytes: a PDF or a photo of the paper
+export function detectDocumentFileType(data: Uint8Array): { contentType: string; extension: string } | null {
+  // "%PDF-"
+  if ([0x25, 0x50, 0x44, 0x46, 0x2d].every((byte, index) => data[index] === byte)) {
+    return { contentType: 'application/pdf', extension: 'pdf' };
+  }
+
+  return detectImageType(data);
+}
+
+/**
+ * Remind owners once per document when it is about to expire. Documents already followed by a
+ * renewal of the same type are skipped, as are archived vehicles. Each reminder is claimed before
+ * it is sent, so overlapping runs never remind twice, and released again when sending fails.
+ */
+export async function sendVehicleDocumentReminders(now = new Date()): Promise<number> {
+  const expiringDocuments = await prisma.vehicleDocument.findMany({
+    where: {
+      expiryReminderSentAt: null,
+      expiresAt: {
+        gt: now,
+        lte: new Date(now.getTime() + VEHICLE_DOCUMENT_EXPIRY_REMINDER_DAYS * 24 * 60 * 60 * 1000)
+      },
+      vehicle: { archivedAt: null, customer: { deletedAt: null } }
+    },
+    include: {
+      vehicle: { select: { customerId: true, vehicleType: true, color: true, plateCode: true, plateNumber: true } }
+    }
+  });
+
+  let sent = 0;
+
+  for (const document of expiringDocuments) {
+    if (!document.expiresAt) continue;
+
+    const renewed = await prisma.vehicleDocument.findFirst({
+      where: {
+        vehicleId: document.vehicleId,
+        type: document.type,
+        id: { not: document.id },
+        OR: [{ expiresAt: null }, { expiresAt: { gt: document.expiresAt } }]
+      },
+      select: { id: true }
+    });
+    if (renewed) continue;
+
+    const claimed = await prisma.vehicleDocument.updateMany({
+      where: { id: document.id, expiryReminderSentAt: null },
+      data: { expiryReminderSentAt: now }
+    });
+    if (claimed.count === 0) continue;
+
+    try {
+      const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.VEHICLE_DOCUMENT_EXPIRING].toCustomer(
+        VEHICLE_DOCUMENT_TYPE_LABELS[document.type],
+        formatVehicle(document.vehicle),
+        document.expiresAt.toISOString().slice(0, 10)
+      );
+      // Nobody else is involved, so the reminder comes from the owner's own account
+      await createNotification(
+        document.vehicle.customerId,
+        document.vehicle.customerId,
+        NOTIFICATION_TYPES.VEHICLE_DOCUMENT_EXPIRING,
+        template.title,
+        template.message
+      );
+      sent++;
+    } catch (error) {
+      console.error(`Vehicle document reminder error for document ${document.id}:`, error);
+      // Release the claim so the next run tries again
+      await prisma.vehicleDocument.updateMany({
+        where: { id: document.id, expiryReminderSentAt: now },
+        data: { expiryReminderSentAt: null }
+      }).catch(releaseError => console.error('Release vehicle document reminder error:', releaseError));
+    }
+  }
+
+  return sent;
+}
@@ -0,0 +1,264 @@
+import { prisma } from './prisma';
+import { createPdf, type PdfLine } from './pdf';
+import { REQUEST_STATUS_LABELS } from './request-status';
+import type { Prisma } from '@/generated/prisma';
+import type { VehicleHistory, VehicleHistoryEntry } from '@/types/auth';
+
+// Requests that ended before any work was recorded say nothing about the vehicle
+const UNWORKED_END_STATUSES = ['CANCELLED', 'REJECTED_BY_GARAGE'] as const;
+
+const VEHICLE_HISTORY_REQUEST_INCLUDE = {
+  garage: { select: { id: true, garageName: true } },
+  vehicleStatuses: {
+    include: {
+      mechanic: { select: { firstName: true, lastName: true } },
+      odometerReading: { select: { km: true } },
+      ongoingServices: { include: { service: { select: { serviceName: true } } }, orderBy: { id: 'asc' } },
+      additionalServices: { include: { service: { select: { serviceName: true } } }, orderBy: { id: 'asc' } }
+    },
+    orderBy: { createdAt: 'asc' }
+  },
+  invoices: {
+    select: { invoiceNumber: true, issuedDate: true, totalAmount: true, status: true },
+    orderBy: { issuedDate: 'asc' }
+  }
+} as const;
+
+function toVehicleHistoryEntry(
+  request: Prisma.ServiceRequestGetPayload<{ include: typeof VEHICLE_HISTORY_REQUEST_INCLUDE }>
+): VehicleHistoryEntry {
+  const statusUpdates = request.vehicleStatuses.map(status => ({
+    id: status.id,
+    createdAt: status.createdAt.toISOString(),
+    description: status.description,
+    mechanicName: `${status.mechanic.firstName} ${status.mechanic.lastName}`,
+    odometerKm: status.odometerReading?.km ?? null
+  }));
+  const readings = statusUpdates.flatMap(status => status.odometerKm ?? []);
+
+  return {
+    id: request.id,
+    createdAt: request.createdAt.toISOString(),
+    status: request.status,
+    garage: request.garage,
+    odometerKm: readings.length > 0 ? Math.max(...readings) : null,
+    statusUpdates,
+    services: request.vehicleStatuses.flatMap(status => status.ongoingServices.map(service => ({
+      serviceName: service.service.serviceName,
+      finished: service.serviceFinished,
+      finishedAt: service.finishedAt?.toISOString() ?? null,
+      totalPrice: service.totalPrice
+    }))),
+    additionalServices: request.vehicleStatuses.flatMap(status => status.additionalServices.map(service => ({
+      serviceName: service.service.serviceName,
+      approved: service.approved,
+      totalPrice: service.totalPrice
+    }))),
+    invoices: request.invoices.map(invoice => ({
+      invoiceNumber: invoice.invoiceNumber,
+      issuedDate: invoice.issuedDate.toISOString(),
+      totalAmount: invoice.totalAmount,
+      status: invoice.status
+    }))
+  };
+}
+
+/**
+ * Everything garages recorded about the vehicle, whoever owned it at the time. The owner's own
+ * request descriptions, locations and messages are left out, since the report is meant to be
+ * handed to buyers.
+ */
+export async function getVehicleHistory(vehicleId: number, now = new Date()): Promise<VehicleHistory | null> {
+  const vehicle = await prisma.vehicle.findUnique({
+    where: { id: vehicleId },
+    select: {
+      id: true,
+      vehicleType: true,
+      plateNumber: true,
+      plateCode: true,
+      countryCode: true,
+      color: true,
+      vin: true,
+      make: true,
+      modelYear: true
+    }
+  });
+
+  if (!vehicle) return null;
+
+  const [requests, readings] = await Promise.all([
+    prisma.serviceRequest.findMany({
+      where: {
+        vehicleId,
+        NOT: { status: { in: [...UNWORKED_END_STATUSES] }, vehicleStatuses: { none: {} } }
+      },
+      include: VEHICLE_HISTORY_REQUEST_INCLUDE,
+      orderBy: { createdAt: 'desc' }
+    }),
+    prisma.odometerReading.findMany({
+      where: { vehicleId },
+      select: { km: true, recordedAt: true, source: true },
+      orderBy: [{ recordedAt: 'desc' }, { id: 'desc' }]
+    })
+  ]);
+
+  return {
+    generatedAt: now.toISOString(),
+    vehicle,
+    currentKm: readings[0]?.km ?? null,
+    odometerReadings: readings.map(reading => ({
+      km: reading.km,
+      recordedAt: reading.recordedAt.toISOString(),
+      source: reading.source
+    })),
+    requests: requests.map(toVehicleHistoryEntry)
+  };
+}
+
+function formatDate(iso: string): string {
+  return iso.slice(0, 10);
+}
+
+function formatKm(km: number | null): string {
+  return km === null ? '-' : `${km.toLocaleString('en-US')} km`;
+}
+
+function describeVehicle(history: VehicleHistory): string {
+  const { vehicle } = history;
+  return [vehicle.make, vehicle.modelYear, vehicle.vehicleType, vehicle.color].filter(Boolean).join(' ');
+}
+
+function describePlate(history: VehicleHistory): string {
+  const { vehicle } = history;
+  return `${vehicle.countryCode} ${vehicle.plateCode}-${vehicle.plateNumber}`;
+}
+
+export function getVehicleHistoryFilename(history: VehicleHistory, extension: string): string {
+  const plate = `${history.vehicle.plateCode}-${history.vehicle.plateNumber}`.replace(/[^A-Za-z0-9-]/g, '');
+  return `vehicle-history-${plate}-${formatDate(history.generatedAt)}.${extension}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderEntryHtml(entry: VehicleHistoryEntry): string {
+  const services = [
+    ...entry.services.map(service =>
+      `<tr><td>${escapeHtml(service.serviceName)}</td><td>${service.finished ? `Done ${service.finishedAt ? formatDate(service.finishedAt) : ''}` : 'Not finished'}</td><td class="amount">$${service.totalPrice.toFixed(2)}</td></tr>`
+    ),
+    ...entry.additionalServices.map(service =>
+      `<tr><td>${escapeHtml(service.serviceName)} (additional)</td><td>${service.approved ? 'Approved' : 'Not approved'}</td><td class="amount">$${service.totalPrice.toFixed(2)}</td></tr>`
+    )
+  ];
+
+  return `
+    <section class="entry">
+      <h3>${formatDate(entry.createdAt)} · ${escapeHtml(entry.garage.garageName)}</h3>
+      <p class="meta">Request #${entry.id} · ${REQUEST_STATUS_LABELS[entry.status]} · Odometer ${formatKm(entry.odometerKm)}</p>
+      ${services.length > 0 ? `
+      <table>
+        <thead><tr><th>Work</th><th>Status</th><th class="amount">Price</th></tr></thead>
+        <tbody>${services.join('')}</tbody>
+      </table>` : ''}
+      ${entry.statusUpdates.length > 0 ? `
+      <ul class="updates">
+        ${entry.statusUpdates.map(status => `<li>${formatDate(status.createdAt)} — ${escapeHtml(status.mechanicName)}${status.odometerKm !== null ? ` (${formatKm(status.odometerKm)})` : ''}: ${escapeHtml(status.description)}</li>`).join('')}
+      </ul>` : ''}
+      ${entry.invoices.map(invoice => `<p class="meta">Invoice ${escapeHtml(invoice.invoiceNumber)} · ${formatDate(invoice.issuedDate)} · $${invoice.totalAmount.toFixed(2)} · ${escapeHtml(invoice.status)}</p>`).join('')}
+    </section>`;
+}
+
+// Standalone page that prints cleanly from the browser
+export function renderVehicleHistoryHtml(history: VehicleHistory): string {
+  const title = `Service history of ${describePlate(history)}`;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <title>${escapeHtml(title)}</title>
+        <style>
+            body { font-family: Arial, sans-serif; line-height: 1.5; color: #333; }
+            .container { max-width: 800px; margin: 0 auto; padding: 20px; }
+            .header { border-bottom: 2px solid #4F46E5; margin-bottom: 20px; }
+            .meta { color: #666; font-size: 13px; margin: 4px 0; }
+            .entry { border-bottom: 1px solid #ddd; padding: 12px 0; page-break-inside: avoid; }
+            .entry h3 { margin: 0; font-size: 16px; }
+            table { width: 100%; border-collapse: collapse; margin: 8px 0; font-size: 13px; }
+            th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #eee; }
+            .amount { text-align: right; }
+            .updates { font-size: 13px; padding-left: 18px; margin: 8px 0; }
+            @media print { .container { padding: 0; } }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <h1>${escapeHtml(title)}</h1>
+                <p class="meta">${escapeHtml(describeVehicle(history))}${history.vehicle.vin ? ` · VIN ${escapeHtml(history.vehicle.vin)}` : ''}</p>
+                <p class="meta">Last recorded odometer ${formatKm(history.currentKm)} · Generated ${formatDate(history.generatedAt)}</p>
+            </div>
+            ${history.requests.length > 0
+              ? history.requests.map(renderEntryHtml).join('')
+              : '<p>No service has been recorded for this vehicle yet.</p>'}
+            ${history.odometerReadings.length > 0 ? `
+            <h2>Odometer readings</h2>
+            <ul class="updates">
+              ${history.odometerReadings.map(reading => `<li>${formatDate(reading.recordedAt)}: ${formatKm(reading.km)} (${reading.source === 'MECHANIC' ? 'garage' : 'owner'})</li>`).join('')}
+            </ul>` : ''}
+        </div>
+    </body>
+    </html>
+  `;
+}
+
+export function renderVehicleHistoryPdf(history: VehicleHistory): Buffer {
+  const title = `Service history of ${describePlate(history)}`;
+  const lines: PdfLine[] = [
+    { text: title, size: 18, bold: true },
+    { text: [describeVehicle(history), history.vehicle.vin && `VIN ${history.vehicle.vin}`].filter(Boolean).join(' - '), spaceBefore: 4 },
+    { text: `Last recorded odometer ${formatKm(history.currentKm)} - Generated ${formatDate(history.generatedAt)}` }
+  ];
+
+  if (history.requests.length === 0) {
+    lines.push({ text: 'No service has been recorded for this vehicle yet.', spaceBefore: 12 });
+  }
+
+  for (const entry of history.requests) {
+    lines.push(
+      { text: `${formatDate(entry.createdAt)} - ${entry.garage.garageName}`, size: 12, bold: true, spaceBefore: 14 },
+      { text: `Request #${entry.id} - ${REQUEST_STATUS_LABELS[entry.status]} - Odometer ${formatKm(entry.odometerKm)}` }
+    );
+
+    for (const service of entry.services) {
+      const done = service.finished ? `done ${service.finishedAt ? formatDate(service.finishedAt) : ''}` : 'not finished';
+      lines.push({ text: `- ${service.serviceName}: ${done}, $${service.totalPrice.toFixed(2)}` });
+    }
+    for (const service of entry.additionalServices) {
+      lines.push({ text: `- ${service.serviceName} (additional): ${service.approved ? 'approved' : 'not approved'}, $${service.totalPrice.toFixed(2)}` });
+    }
+    for (const status of entry.statusUpdates) {
+      const km = status.odometerKm !== null ? ` (${formatKm(status.odometerKm)})` : '';
+      lines.push({ text: `- ${formatDate(status.createdAt)} ${status.mechanicName}${km}: ${status.description}` });
+    }
+    for (const invoice of entry.invoices) {
+      lines.push({ text: `- Invoice ${invoice.invoiceNumber}, ${formatDate(invoice.issuedDate)}: $${invoice.totalAmount.toFixed(2)} (${invoice.status})` });
+    }
+  }
+
+  if (history.odometerReadings.length > 0) {
+    lines.push({ text: 'Odometer readings', size: 12, bold: true, spaceBefore: 14 });
+    for (const reading of history.odometerReadings) {
+      lines.push({ text: `- ${formatDate(reading.recordedAt)}: ${formatKm(reading.km)} (${reading.source === 'MECHANIC' ? 'garage' : 'owner'})` });
+    }
+  }
+
+  return createPdf(lines, title);
+}
@@ -0,0 +1,129 @@
+import { prisma } from './prisma';
+import { OPEN_REQUEST_STATUSES } from './request-status';
+import { decodeVin, normalizeVin, validateVin } from './vin';
+import type { Prisma } from '@/generated/prisma';
+import type { VehicleData, VehicleTransfer } from '@/types/auth';
+
+const MAX_VEHICLE_FIELD_LENGTH = 100;
+const MIN_MODEL_YEAR = 1900;
+
+const VEHICLE_FIELDS = ['vehicleType', 'plateNumber', 'plateCode', 'countryCode', 'color'] as const;
+
+interface NormalizedVehicleData extends Pick<VehicleData, typeof VEHICLE_FIELDS[number]> {
+  vin: string | null;
+  make: string | null;
+  modelYear: number | null;
+  origin: string | null;
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_VEHICLE_FIELD_LENGTH) : null;
+}
+
+/**
+ * Trimmed vehicle fields. The VIN is optional but must be valid when given; make, model year and
+ * origin decoded from it fill in whatever the owner left empty.
+ */
+export function normalizeVehicleData(body: Partial<VehicleData>): { data: NormalizedVehicleData } | { error: string } {
+  const required = {} as Pick<VehicleData, typeof VEHICLE_FIELDS[number]>;
+
+  for (const field of VEHICLE_FIELDS) {
+    const value = typeof body[field] === 'string' ? body[field].trim() : '';
+    if (!value || value.length > MAX_VEHICLE_FIELD_LENGTH) return { error: 'All vehicle fields are required' };
+    required[field] = value;
+  }
+
+  const vin = typeof body.vin === 'string' && body.vin.trim() ? normalizeVin(body.vin) : null;
+
+  if (vin) {
+    const vinError = validateVin(vin);
+    if (vinError) return { error: vinError };
+  }
+
+  const maxModelYear = new Date().getFullYear() + 1;
+  const modelYear = body.modelYear === null || body.modelYear === undefined ? null : Number(body.modelYear);
+
+  if (modelYear !== null && (!Number.isInteger(modelYear) || modelYear < MIN_MODEL_YEAR || modelYear > maxModelYear)) {
+    return { error: `Model year must be between ${MIN_MODEL_YEAR} and ${maxModelYear}` };
+  }
+
+  const decoded = vin ? decodeVin(vin) : null;
+
+  return {
+    data: {
+      ...required,
+      vin,
+      make: optionalText(body.make) ?? decoded?.make ?? null,
+      modelYear: modelYear ?? decoded?.modelYear ?? null,
+      origin: optionalText(body.origin) ?? decoded?.origin ?? null
+    }
+  };
+}
+
+// Another vehicle of the customer with the same plate or VIN, archived ones included
+export async function findDuplicateVehicle(customerId: number, data: VehicleData, excludeVehicleId?: number) {
+  return prisma.vehicle.findFirst({
+    where: {
+      customerId,
+      OR: [
+        { plateNumber: data.plateNumber, plateCode: data.plateCode, countryCode: data.countryCode },
+        ...(data.vin ? [{ vin: data.vin }] : [])
+      ],
+      ...(excludeVehicleId !== undefined && { id: { not: excludeVehicleId } })
+    }
+  });
+}
+
+/**
+ * Whether the vehicle has a request that is not finished yet. Its details, owner and archive
+ * state are frozen until then, so the garage works on the vehicle the customer booked.
+ */
+export async function hasOpenVehicleRequest(vehicleId: number): Promise<boolean> {
+  const openRequest = await prisma.serviceRequest.findFirst({
+    where: { vehicleId, status: { in: [...OPEN_REQUEST_STATUSES] } },
+    select: { id: true }
+  });
+
+  return openRequest !== null;
+}
+
+export function formatVehicle(vehicle: { color: string; vehicleType: string; plateCode: string; plateNumber: string }): string {
+  return `${vehicle.color} ${vehicle.vehicleType} (${vehicle.plateCode}-${vehicle.plateNumber})`;
+}
+
+export const VEHICLE_TRANSFER_INCLUDE = {
+  vehicle: {
+    select: {
+      id: true,
+      vehicleType: true,
+      plateNumber: true,
+      plateCode: true,
+      countryCode: true,
+      color: true,
+      vin: true,
+      make: true,
+      modelYear: true
+    }
+  },
+  fromCustomer: { select: { id: true, firstName: true, lastName: true } },
+  toCustomer: { select: { id: true, firstName: true, lastName: true, email: true } }
+} as const;
+
+export function toVehicleTransfer(
+  transfer: Prisma.VehicleTransferGetPayload<{ include: typeof VEHICLE_TRANSFER_INCLUDE }>
+): VehicleTransfer {
+  return {
+    id: transfer.id,
+    status: transfer.status,
+    createdAt: transfer.createdAt.toISOString(),
+    decidedAt: transfer.decidedAt?.toISOString() ?? null,
+    vehicle: transfer.vehicle,
+    fromCustomer: transfer.fromCustomer,
+    // Offers made before the address was stored only have the account
+    toEmail: transfer.toEmail ?? transfer.toCustomer?.email ?? null,
+    // Whether an address belongs to an account is not revealed to the owner before the transfer is accepted
+    toCustomer: transfer.status === 'ACCEPTED' && transfer.toCustomer
+      ? { id: transfer.toCustomer.id, firstName: transfer.toCustomer.firstName, lastName: transfer.toCustomer.lastName }
+      : null
+  };
+}
@@ -0,0 +1,214 @@
+import type { VinInfo } from '@/types/auth';
+
+// Offline VIN (ISO 3779) decoding for the vehicle forms and APIs; keep free of server-only imports
+
+export const VIN_LENGTH = 17;
+
+// I, O and Q are never used so they cannot be mistaken for 1 and 0
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9
+};
+
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Position 10; the 30 codes repeat every 30 years starting in 1980
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+// Order of the second WMI character in the ISO 3780 country ranges
+const RANGE_ORDER = 'ABCDEFGHJKLMNPRSTUVWXYZ1234567890';
+
+const REGIONS: Array<[string, string]> = [
+  ['ABCDEFGH', 'Africa'],
+  ['JKLMNPR', 'Asia'],
+  ['STUVWXYZ', 'Europe'],
+  ['12345', 'North America'],
+  ['67', 'Oceania'],
+  ['890', 'South America']
+];
+
+// [first character, second character from, to, country]
+const COUNTRY_RANGES: Array<[string, string, string, string]> = [
+  ['A', 'A', 'H', 'South Africa'],
+  ['B', 'A', 'E', 'Angola'], ['B', 'F', 'K', 'Kenya'], ['B', 'L', 'R', 'Tanzania'],
+  ['C', 'A', 'E', 'Benin'], ['C', 'F', 'K', 'Madagascar'], ['C', 'L', 'R', 'Tunisia'],
+  ['D', 'A', 'E', 'Egypt'], ['D', 'F', 'K', 'Morocco'], ['D', 'L', 'R', 'Zambia'],
+  ['E', 'A', 'E', 'Ethiopia'], ['E', 'F', 'K', 'Mozambique'],
+  ['F', 'A', 'E', 'Ghana'], ['F', 'F', 'K', 'Nigeria'],
+  ['J', 'A', '0', 'Japan'],
+  ['K', 'A', 'E', 'Sri Lanka'], ['K', 'F', 'K', 'Israel'], ['K', 'L', 'R', 'South Korea'], ['K', 'S', '0', 'Kazakhstan'],
+  ['L', 'A', '0', 'China'],
+  ['M', 'A', 'E', 'India'], ['M', 'F', 'K', 'Indonesia'], ['M', 'L', 'R', 'Thailand'], ['M', 'S', '0', 'Myanmar'],
+  ['N', 'A', 'E', 'Iran'], ['N', 'F', 'K', 'Pakistan'], ['N', 'L', 'R', 'Turkey'],
+  ['P', 'A', 'E', 'Philippines'], ['P', 'F', 'K', 'Singapore'], ['P', 'L', 'R', 'Malaysia'],
+  ['R', 'A', 'E', 'United Arab Emirates'], ['R', 'F', 'K', 'Taiwan'], ['R', 'L', 'R', 'Vietnam'], ['R', 'S', '0', 'Saudi Arabia'],
+  ['S', 'A', 'M', 'United Kingdom'], ['S', 'N', 'T', 'Germany'], ['S', 'U', 'Z', 'Poland'],
+  ['T', 'A', 'H', 'Switzerland'], ['T', 'J', 'P', 'Czech Republic'], ['T', 'R', 'V', 'Hungary'], ['T', 'W', '1', 'Portugal'],
+  ['U', 'H', 'M', 'Denmark'], ['U', 'N', 'T', 'Ireland'], ['U', 'U', 'Z', 'Romania'], ['U', '5', '7', 'Slovakia'],
+  ['V', 'A', 'E', 'Austria'], ['V', 'F', 'R', 'France'], ['V', 'S', 'W', 'Spain'], ['V', 'X', '2', 'Serbia'],
+  ['V', '3', '5', 'Croatia'], ['V', '6', '0', 'Estonia'],
+  ['W', 'A', '0', 'Germany'],
+  ['X', 'A', 'E', 'Bulgaria'], ['X', 'F', 'K', 'Greece'], ['X', 'L', 'R', 'Netherlands'], ['X', 'S', 'W', 'Russia'],
+  ['X', 'X', '2', 'Luxembourg'], ['X', '3', '0', 'Russia'],
+  ['Y', 'A', 'E', 'Belgium'], ['Y', 'F', 'K', 'Finland'], ['Y', 'L', 'R', 'Malta'], ['Y', 'S', 'W', 'Sweden'],
+  ['Y', 'X', '2', 'Norway'], ['Y', '3', '5', 'Belarus'], ['Y', '6', '0', 'Ukraine'],
+  ['Z', 'A', 'R', 'Italy'], ['Z', 'X', '2', 'Slovenia'], ['Z', '3', '5', 'Lithuania'],
+  ['1', 'A', '0', 'United States'], ['4', 'A', '0', 'United States'], ['5', 'A', '0', 'United States'],
+  ['2', 'A', '0', 'Canada'],
+  ['3', 'A', 'W', 'Mexico'],
+  ['6', 'A', 'W', 'Australia'],
+  ['7', 'A', 'E', 'New Zealand'],
+  ['8', 'A', 'E', 'Argentina'], ['8', 'F', 'K', 'Chile'], ['8', 'L', 'R', 'Ecuador'], ['8', 'S', 'W', 'Peru'], ['8', 'X', '2', 'Venezuela'],
+  ['9', 'A', 'E', 'Brazil'], ['9', 'F', 'K', 'Colombia'], ['9', 'S', 'W', 'Uruguay'], ['9', '3', '9', 'Brazil']
+];
+
+// World manufacturer identifiers (VIN positions 1-3) of the makes seen most often
+const WMI_MAKES: Record<string, string> = {
+  // Japan
+  JTD: 'Toyota', JTE: 'Toyota', JTK: 'Toyota', JTL: 'Toyota', JTM: 'Toyota', JTN: 'Toyota',
+  JT2: 'Toyota', JT3: 'Toyota', JT4: 'Toyota', JTH: 'Lexus', JTJ: 'Lexus', JT6: 'Lexus', JT8: 'Lexus',
+  JHM: 'Honda', JHL: 'Honda', JH4: 'Acura',
+  JN1: 'Nissan', JN8: 'Nissan', JNK: 'Infiniti',
+  JM1: 'Mazda', JM3: 'Mazda', JMZ: 'Mazda',
+  JA3: 'Mitsubishi', JA4: 'Mitsubishi', JMB: 'Mitsubishi', JMY: 'Mitsubishi',
+  JF1: 'Subaru', JF2: 'Subaru',
+  JS2: 'Suzuki', JS3: 'Suzuki', JSA: 'Suzuki',
+  JAA: 'Isuzu', JAL: 'Isuzu',
+  // Korea
+  KMH: 'Hyundai', KM8: 'Hyundai', KNA: 'Kia', KND: 'Kia', KNE: 'Kia', KL1: 'Chevrolet', KLA: 'Daewoo', KPT: 'SsangYong',
+  // China
+  LFV: 'Volkswagen', LSV: 'Volkswagen', LVS: 'Ford', LGX: 'BYD', LC0: 'BYD', L6T: 'Geely', LVV: 'Chery',
+  LGW: 'Great Wall', LRW: 'Tesla',
+  // India and South-East Asia
+  MA1: 'Mahindra', MA3: 'Suzuki', MAJ: 'Ford', MAL: 'Hyundai', MAT: 'Tata', MMB: 'Mitsubishi', MNB: 'Ford',
+  MPA: 'Isuzu', MR0: 'Toyota', PL1: 'Proton', PM2: 'Perodua',
+  // Turkey
+  NLH: 'Hyundai', NMT: 'Toyota', NM0: 'Ford',
+  // Africa
+  AAV: 'Volkswagen', AHT: 'Toyota',
+  // Europe
+  SAJ: 'Jaguar', SAL: 'Land Rover', SB1: 'Toyota', SCA: 'Rolls-Royce', SCB: 'Bentley', SCC: 'Lotus',
+  SCF: 'Aston Martin', SFA: 'Ford', SHH: 'Honda', SHS: 'Honda', SJN: 'Nissan',
+  TMA: 'Hyundai', TMB: 'Skoda', TRU: 'Audi', TSM: 'Suzuki',
+  UU1: 'Dacia', U5Y: 'Kia', U6Y: 'Kia',
+  VF1: 'Renault', VF3: 'Peugeot', VF7: 'Citroen', VNK: 'Toyota', VR3: 'Peugeot', VR7: 'Citroen',
+  VSK: 'Nissan', VSS: 'SEAT',
+  WAU: 'Audi', WA1: 'Audi', WUA: 'Audi', WBA: 'BMW', WBS: 'BMW', WBX: 'BMW', WBY: 'BMW', WMW: 'MINI',
+  WDB: 'Mercedes-Benz', WDC: 'Mercedes-Benz', WDD: 'Mercedes-Benz', WDF: 'Mercedes-Benz',
+  W1K: 'Mercedes-Benz', W1N: 'Mercedes-Benz', W1V: 'Mercedes-Benz',
+  WF0: 'Ford', W0L: 'Opel', W0V: 'Opel', WP0: 'Porsche', WP1: 'Porsche',
+  WVW: 'Volkswagen', WVG: 'Volkswagen', WV1: 'Volkswagen', WV2: 'Volkswagen',
+  XTA: 'Lada', XTH: 'GAZ', XTT: 'UAZ',
+  YS2: 'Scania', YS3: 'Saab', YV1: 'Volvo', YV2: 'Volvo', YV4: 'Volvo',
+  ZAM: 'Maserati', ZAR: 'Alfa Romeo', ZCF: 'Iveco', ZFA: 'Fiat', ZFF: 'Ferrari', ZHW: 'Lamborghini', ZLA: 'Lancia',
+  // North America
+  '1FA': 'Ford', '1FB': 'Ford', '1FC': 'Ford', '1FD': 'Ford', '1FM': 'Ford', '1FT': 'Ford', '1ZV': 'Ford',
+  '2FA': 'Ford', '2FM': 'Ford', '2FT': 'Ford', '3FA': 'Ford',
+  '1G1': 'Chevrolet', '1GC': 'Chevrolet', '1GN': 'Chevrolet', '2G1': 'Chevrolet', '3G1': 'Chevrolet',
+  '1G2': 'Pontiac', '1G4': 'Buick', '1GT': 'GMC', '1GY': 'Cadillac',
+  '1C3': 'Chrysler', '1C4': 'Chrysler', '2C3': 'Chrysler', '1B3': 'Dodge', '1D7': 'Dodge', '2B3': 'Dodge', '3D7': 'Dodge',
+  '1J4': 'Jeep', '1J8': 'Jeep',
+  '1HG': 'Honda', '2HG': 'Honda', '5FN': 'Honda', '5J6': 'Honda', '19X': 'Honda',
+  '1N4': 'Nissan', '1N6': 'Nissan', '3N1': 'Nissan', '5N1': 'Nissan',
+  '2T1': 'Toyota', '2T3': 'Toyota', '4T1': 'Toyota', '4T3': 'Toyota', '4T4': 'Toyota', '5TD': 'Toyota', '5TF': 'Toyota',
+  '1YV': 'Mazda', '4S3': 'Subaru', '4S4': 'Subaru',
+  '5NP': 'Hyundai', '5NM': 'Hyundai', '5XX': 'Kia', '5XY': 'Kia',
+  '4US': 'BMW', '5UX': 'BMW', '4JG': 'Mercedes-Benz', '55S': 'Mercedes-Benz',
+  '1VW': 'Volkswagen', '3VW': 'Volkswagen', '5YJ': 'Tesla', '7SA': 'Tesla',
+  // Oceania and South America
+  '6FP': 'Ford', '9BW': 'Volkswagen'
+};
+
+export function normalizeVin(value: string): string {
+  return value.replace(/[\s-]/g, '').toUpperCase();
+}
+
+export function isVinFormatValid(vin: string): boolean {
+  return VIN_PATTERN.test(vin);
+}
+
+// Position 9: weighted sum of all positions modulo 11, where 10 is written as X
+export function computeVinCheckDigit(vin: string): string {
+  let sum = 0;
+
+  for (let position = 0; position < VIN_LENGTH; position++) {
+    const character = vin[position];
+    const value = /\d/.test(character) ? Number(character) : TRANSLITERATION[character] ?? 0;
+    sum += value * POSITION_WEIGHTS[position];
+  }
+
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+/**
+ * The check digit is mandatory for vehicles built for North America. Elsewhere manufacturers may
+ * use position 9 for something else, so a mismatch is only reported, not rejected.
+ */
+export function isVinCheckDigitRequired(vin: string): boolean {
+  return '12345'.includes(vin[0]);
+}
+
+function getCountry(vin: string): string | null {
+  const second = RANGE_ORDER.indexOf(vin[1]);
+
+  for (const [first, from, to, country] of COUNTRY_RANGES) {
+    if (first === vin[0] && second >= RANGE_ORDER.indexOf(from) && second <= RANGE_ORDER.indexOf(to)) {
+      return country;
+    }
+  }
+
+  return null;
+}
+
+function getModelYear(vin: string, now: Date): number | null {
+  const index = MODEL_YEAR_CODES.indexOf(vin[9]);
+  if (index === -1) return null;
+
+  const earlier = 1980 + index;
+  const later = earlier + 30;
+
+  // North American cars mark the second cycle with a letter in position 7
+  if (isVinCheckDigitRequired(vin)) {
+    return /\d/.test(vin[6]) ? earlier : later;
+  }
+
+  // Elsewhere take the most recent year that is not in the future (next year's models included)
+  return later <= now.getFullYear() + 1 ? later : earlier;
+}
+
+// What the VIN tells without looking it up anywhere, or null when it is not a well-formed VIN
+export function decodeVin(value: string, now: Date = new Date()): VinInfo | null {
+  const vin = normalizeVin(value);
+  if (!isVinFormatValid(vin)) return null;
+
+  const wmi = vin.slice(0, 3);
+  const country = getCountry(vin);
+
+  return {
+    vin,
+    wmi,
+    make: WMI_MAKES[wmi] ?? null,
+    modelYear: getModelYear(vin, now),
+    origin: country ?? REGIONS.find(([characters]) => characters.includes(vin[0]))?.[1] ?? null,
+    checkDigitValid: computeVinCheckDigit(vin) === vin[8],
+    checkDigitRequired: isVinCheckDigitRequired(vin)
+  };
+}
+
+export function validateVin(value: string): string | null {
+  const vin = normalizeVin(value);
+
+  if (!isVinFormatValid(vin)) {
+    return `A VIN has ${VIN_LENGTH} letters and digits, without I, O or Q`;
+  }
+
+  if (isVinCheckDigitRequired(vin) && computeVinCheckDigit(vin) !== vin[8]) {
+    return 'This VIN is not valid: its check digit does not match. Please check it for typos.';
+  }
+
+  return null;
+}
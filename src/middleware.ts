@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
 import { UserType } from '@/generated/prisma';
+import { getHomeRoute, getRoutePermission, USER_TYPE_PERMISSIONS, type Permission } from '@/lib/permissions';
 
 interface DecodedToken {
   id: number;
@@ -9,69 +10,79 @@ interface DecodedToken {
   userType: UserType;
   firstName: string;
   lastName: string;
+  permissions?: Permission[];
   iat: number;
   exp: number;
 }
 
+// Paths that don't require authentication
+const PUBLIC_PATHS = [
+  '/',
+  '/auth/signin',
+  '/auth/register',
+  '/auth/apply-garage',
+  '/auth/apply-mechanic',
+  '/auth/forgot-password',
+  '/auth/reset-password',
+  '/auth/unlock-account',
+  '/auth/verify-email',
+  '/api/auth/login',
+  '/api/auth/logout',
+  '/api/auth/refresh',
+  '/api/users/register',
+  '/api/auth/forgot-password',
+  '/api/auth/reset-password',
+  '/api/auth/unlock-account',
+  '/api/auth/verify-email',
+  '/api/auth/2fa/verify',
+  '/api/auth/impersonation',
+];
+
+// The path itself or anything below it; "/" only matches the home page, since every path starts with it
+function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.some(path =>
+    pathname === path || (path !== '/' && pathname.startsWith(`${path}/`))
+  );
+}
+
 export function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
-  // Public paths that don't require authentication
-  const publicPaths = [
-    '/auth/signin',
-    '/auth/signup',
-    '/auth/forgot-password',
-    '/auth/reset-password',
-    '/api/auth/login',
-    '/api/auth/logout',
-    '/api/users/register',
-    '/api/auth/forgot-password',
-    '/api/auth/reset-password',
-    '/',
-  ];
-
-  // Check if the path is public
-  if (publicPaths.some(path => pathname.startsWith(path))) {
+  if (isPublicPath(pathname)) {
     return NextResponse.next();
   }
 
   // Get token from cookie
   const token = request.cookies.get('auth-token')?.value;
 
+  // Access tokens are short-lived; with a refresh token the session can be renewed
+  // without signing in again
+  const redirectToSignin = () => {
+    if (request.cookies.get('refresh-token')?.value) {
+      const refreshUrl = new URL('/api/auth/refresh', request.url);
+      refreshUrl.searchParams.set('redirect', pathname + request.nextUrl.search);
+      return NextResponse.redirect(refreshUrl);
+    }
+    return NextResponse.redirect(new URL('/auth/signin', request.url));
+  };
+
   if (!token) {
     // Redirect to signin if no token
-    return NextResponse.redirect(new URL('/auth/signin', request.url));
+    return redirectToSignin();
   }
 
   try {
     // Verify token
     const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET!) as DecodedToken;
 
-    // Check user type based route access
-    const userType = decoded.userType;
-
-    // Define protected routes for each user type
-    const routePermissions = {
-      [UserType.SYSTEM_ADMIN]: ['/system-admin'],
-      [UserType.GARAGE_ADMIN]: ['/garage-admin'],
-      [UserType.MECHANIC]: ['/mechanic'],
-      [UserType.CUSTOMER]: ['/customer'],
-    };
+    // Check permission based route access, falling back to the user type
+    // defaults for tokens issued before permissions were embedded
+    const permissions = decoded.permissions || USER_TYPE_PERMISSIONS[decoded.userType] || [];
+    const requiredPermission = getRoutePermission(pathname);
 
-    // Check if user has access to the requested route
-    const allowedRoutes = routePermissions[userType] || [];
-    const hasAccess = allowedRoutes.some(route => pathname.startsWith(route));
-
-    if (!hasAccess) {
-      // Redirect to appropriate dashboard based on user type
-      const dashboards = {
-        [UserType.SYSTEM_ADMIN]: '/system-admin',
-        [UserType.GARAGE_ADMIN]: '/garage-admin',
-        [UserType.MECHANIC]: '/mechanic',
-        [UserType.CUSTOMER]: '/customer',
-      };
-
-      return NextResponse.redirect(new URL(dashboards[userType], request.url));
+    if (requiredPermission && !permissions.includes(requiredPermission)) {
+      // Redirect to the first dashboard the user can open
+      return NextResponse.redirect(new URL(getHomeRoute(permissions), request.url));
     }
 
     // Add user info to request headers for API routes
@@ -83,8 +94,8 @@ export function middleware(request: NextRequest) {
     return response;
   } catch (error) {
     console.error('Token verification failed:', error);
-    // Redirect to signin if token is invalid
-    return NextResponse.redirect(new URL('/auth/signin', request.url));
+    // Redirect to signin (or refresh the session) if token is invalid
+    return redirectToSignin();
   }
 }
 
@@ -1,4 +1,15 @@
 import { UserType } from '@/generated/prisma';
+import type {
+  CancellationCategory,
+  EstimateItemDecision,
+  EstimateItemKind,
+  EstimateStatus,
+  HoldReason,
+  ServiceStatus,
+  VehicleDocumentType,
+  VehicleTransferStatus
+} from '@/generated/prisma';
+import type { Permission } from '@/lib/permissions';
 
 export interface LoginCredentials {
   username: string;
@@ -31,8 +42,208 @@ export interface VehicleData {
   plateCode: string;
   countryCode: string;
   color: string;
+  vin?: string | null;
+  make?: string | null;
+  modelYear?: number | null;
+  origin?: string | null;
 }
 
+// Result of decoding a VIN offline
+export interface VinInfo {
+  vin: string;
+  // World manufacturer identifier, the first three characters
+  wmi: string;
+  make: string | null;
+  modelYear: number | null;
+  origin: string | null;
+  checkDigitValid: boolean;
+  // Only North American VINs must carry a valid check digit
+  checkDigitRequired: boolean;
+}
+
+export interface VehicleTransfer {
+  id: number;
+  status: VehicleTransferStatus;
+  createdAt: string;
+  decidedAt: string | null;
+  vehicle: {
+    id: number;
+    vehicleType: string;
+    plateNumber: string;
+    plateCode: string;
+    countryCode: string;
+    color: string;
+    vin: string | null;
+    make: string | null;
+    modelYear: number | null;
+  };
+  fromCustomer: { id: number; firstName: string; lastName: string };
+  // The address the owner entered; the recipient's name is only shown once they accepted
+  toEmail: string | null;
+  toCustomer: { id: number; firstName: string; lastName: string } | null;
+}
+
+export interface VehicleTransferData {
+  // Email address of the customer account that should receive the vehicle
+  email: string;
+}
+
+export interface VehicleTransferDecisionData {
+  // The recipient accepts or declines; the owner can cancel while it waits
+  action: 'accept' | 'decline' | 'cancel';
+}
+
+export interface OdometerReading {
+  id: number;
+  km: number;
+  source: 'CUSTOMER' | 'MECHANIC';
+  recordedAt: string;
+  recordedBy: {
+    id: number;
+    firstName: string;
+    lastName: string;
+  } | null;
+}
+
+export interface OdometerReadingData {
+  km: number;
+}
+
+export interface MaintenanceSchedule {
+  id: number;
+  vehicleType: string | null;
+  intervalKm: number | null;
+  intervalMonths: number | null;
+  active: boolean;
+  createdAt: string;
+  service: {
+    id: number;
+    serviceName: string;
+  };
+}
+
+export interface MaintenanceScheduleData {
+  // Empty applies the schedule to every vehicle
+  vehicleType?: string | null;
+  serviceId: number;
+  intervalKm?: number | null;
+  intervalMonths?: number | null;
+  active?: boolean;
+}
+
+// DUE covers overdue items and services that were never done for the vehicle
+export type MaintenanceDueStatus = 'OK' | 'DUE_SOON' | 'DUE';
+
+export interface MaintenanceItem {
+  scheduleId: number;
+  service: {
+    id: number;
+    serviceName: string;
+  };
+  intervalKm: number | null;
+  intervalMonths: number | null;
+  lastDoneAt: string | null;
+  lastDoneKm: number | null;
+  // Garage that did it last, offered for booking it again
+  lastGarageId: number | null;
+  dueAt: string | null;
+  dueKm: number | null;
+  status: MaintenanceDueStatus;
+}
+
+export interface VehicleMaintenance {
+  currentKm: number | null;
+  lastReadingAt: string | null;
+  items: MaintenanceItem[];
+}
+
+// One service request in a vehicle's history; only what the garages recorded, nothing the owner typed
+export interface VehicleHistoryEntry {
+  id: number;
+  createdAt: string;
+  status: ServiceStatus;
+  garage: {
+    id: number;
+    garageName: string;
+  };
+  // Highest odometer reading the mechanic recorded on the request
+  odometerKm: number | null;
+  statusUpdates: Array<{
+    id: number;
+    createdAt: string;
+    description: string;
+    mechanicName: string;
+    odometerKm: number | null;
+  }>;
+  services: Array<{
+    serviceName: string;
+    finished: boolean;
+    finishedAt: string | null;
+    totalPrice: number;
+  }>;
+  additionalServices: Array<{
+    serviceName: string;
+    approved: boolean;
+    totalPrice: number;
+  }>;
+  invoices: Array<{
+    invoiceNumber: string;
+    issuedDate: string;
+    totalAmount: number;
+    status: string;
+  }>;
+}
+
+export interface VehicleHistory {
+  generatedAt: string;
+  vehicle: {
+    id: number;
+    vehicleType: string;
+    plateNumber: string;
+    plateCode: string;
+    countryCode: string;
+    color: string;
+    vin: string | null;
+    make: string | null;
+    modelYear: number | null;
+  };
+  currentKm: number | null;
+  odometerReadings: Array<{
+    km: number;
+    recordedAt: string;
+    source: OdometerReading['source'];
+  }>;
+  // Newest first, including requests from before the vehicle was transferred to its owner
+  requests: VehicleHistoryEntry[];
+}
+
+export interface VehicleDocument {
+  id: number;
+  vehicleId: number;
+  type: VehicleDocumentType;
+  documentNumber: string;
+  issuer: string;
+  expiresAt: string | null;
+  createdAt: string;
+  // Scan of the paper, null when the owner only entered the details
+  file: {
+    fileName: string;
+    contentType: string;
+    size: number;
+  } | null;
+}
+
+// Form fields sent alongside the optional "file" in the multipart upload
+export interface VehicleDocumentData {
+  type: VehicleDocumentType;
+  documentNumber: string;
+  issuer: string;
+  // YYYY-MM-DD, empty for papers that do not expire
+  expiresAt?: string | null;
+}
+
+export type VehicleDocumentExpiryStatus = 'VALID' | 'EXPIRING' | 'EXPIRED';
+
 export interface MechanicApplicationData {
   garageId: number;
 }
@@ -75,6 +286,13 @@ export interface AuthUser {
   firstName: string;
   lastName: string;
   userType: UserType;
+  // Permissions at sign-in time; only set on tokens issued by /api/auth/login
+  permissions?: Permission[];
+  // Session the access token belongs to
+  sid?: number;
+  // Set when a system admin is signed in as this user
+  impersonatorId?: number;
+  impersonationReadOnly?: boolean;
 }
 
 export interface AuthSession {
@@ -97,12 +315,202 @@ export interface PasswordChange {
 }
 
 // Service Request Types
+export type SymptomCategory =
+  | 'WONT_START'
+  | 'FLAT_TIRE'
+  | 'OVERHEATING'
+  | 'ACCIDENT'
+  | 'BATTERY'
+  | 'BRAKES'
+  | 'ENGINE_NOISE'
+  | 'WARNING_LIGHT'
+  | 'OUT_OF_FUEL'
+  | 'LOCKED_OUT'
+  | 'OTHER';
+
+export type RequestUrgency = 'LOW' | 'NORMAL' | 'HIGH' | 'EMERGENCY';
+
 export interface ServiceRequestData {
   garageId: number;
   vehicleId: number;
   latitude: number;
   longitude: number;
   description?: string;
+  symptomCategory?: SymptomCategory;
+  urgency?: RequestUrgency;
+  // Book an appointment instead of asking for immediate help
+  appointmentSlotId?: number;
+  serviceIds?: number[];
+}
+
+export interface AppointmentSlot {
+  id: number;
+  garageId: number;
+  startsAt: string;
+  endsAt: string;
+  capacity: number;
+  bookedCount: number;
+}
+
+export interface GarageOpeningHours {
+  dayOfWeek: number;
+  opensAt: string;
+  closesAt: string;
+}
+
+export interface GarageClosure {
+  id: number;
+  startDate: string;
+  endDate: string;
+  reason: string | null;
+}
+
+export interface GarageAvailability {
+  openNow: boolean;
+  nextOpeningAt: string | null;
+  closedReason: string | null;
+}
+
+export interface GarageScheduleData {
+  timezone: string;
+  emergencyAfterHours: boolean;
+  afterHoursSurcharge: number;
+  // Charged when a customer cancels after a mechanic has been dispatched
+  cancellationFee: number;
+  openingHours: GarageOpeningHours[];
+}
+
+export interface MechanicShift {
+  dayOfWeek: number;
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface DispatchMechanicProfile {
+  mechanicId: number;
+  firstName: string;
+  lastName: string;
+  openJobs: number;
+  serviceIds: number[];
+  shifts: MechanicShift[];
+}
+
+export interface GarageDispatchSettings {
+  autoDispatch: boolean;
+  services: { id: number; serviceName: string }[];
+  mechanics: DispatchMechanicProfile[];
+}
+
+export interface DispatchCandidate {
+  mechanicId: number;
+  name: string;
+  eligible: boolean;
+  excludedBecause: string | null;
+  openJobs: number;
+  skillsMatched: number;
+  skillsRequested: number;
+  averageRating: number | null;
+  ratingCount: number;
+  onShift: boolean;
+  score: number;
+}
+
+export interface DispatchRationale {
+  evaluatedAt: string;
+  serviceIds: number[];
+  candidates: DispatchCandidate[];
+}
+
+export interface DispatchDecision {
+  id: number;
+  mechanicId: number | null;
+  summary: string;
+  rationale: DispatchRationale;
+  overriddenAt: string | null;
+  overrideReason: string | null;
+  createdAt: string;
+  mechanic: { id: number; firstName: string; lastName: string } | null;
+  overriddenBy: { id: number; firstName: string; lastName: string } | null;
+}
+
+export interface RequestReassignment {
+  id: number;
+  serviceRequestId: number;
+  reason: string;
+  status: 'PENDING' | 'COMPLETED' | 'DECLINED';
+  decisionNote: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+  fromMechanic: { id: number; firstName: string; lastName: string };
+  toMechanic: { id: number; firstName: string; lastName: string } | null;
+  requestedBy: { id: number; firstName: string; lastName: string };
+  decidedBy: { id: number; firstName: string; lastName: string } | null;
+}
+
+export interface RequestReassignmentData {
+  // Required when garage staff reassign; a mechanic asking to hand over leaves it out
+  mechanicId?: number;
+  reason: string;
+}
+
+export interface RequestEvent {
+  id: number;
+  serviceRequestId: number;
+  type: string;
+  summary: string;
+  details: unknown;
+  createdAt: string;
+  // null for changes the system made on its own, e.g. automatic dispatch
+  actor: { id: number; firstName: string; lastName: string; userType: UserType } | null;
+}
+
+export interface MechanicLocationPoint {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  recordedAt: string;
+}
+
+// Where the mechanic driving to a roadside request is, and how far they still have to go
+export interface RequestTracking {
+  serviceRequestId: number;
+  status: ServiceStatus;
+  // True while the mechanic is on the way and sharing their position
+  live: boolean;
+  arrivedAt: string | null;
+  destination: { latitude: number; longitude: number };
+  mechanic: { id: number; firstName: string; lastName: string } | null;
+  lastLocation: MechanicLocationPoint | null;
+  distanceKm: number | null;
+  eta: string | null;
+  // Oldest first, limited to the most recent points
+  trail: MechanicLocationPoint[];
+}
+
+export interface RequestMessage {
+  id: number;
+  serviceRequestId: number;
+  body: string | null;
+  // Served by /api/requests/[id]/messages/[messageId]/image
+  image: { fileName: string; contentType: string; size: number } | null;
+  createdAt: string;
+  sender: { id: number; firstName: string; lastName: string; userType: UserType };
+  // Other participants who have read up to this message
+  readBy: { id: number; firstName: string; lastName: string }[];
+}
+
+// Unread messages per service request for the signed-in user
+export interface UnreadMessageCounts {
+  total: number;
+  requests: Record<number, number>;
+}
+
+export interface ServiceRequestPhoto {
+  id: number;
+  fileName: string;
+  contentType: string;
+  size: number;
+  createdAt: string | Date;
 }
 
 export interface ServiceRequest {
@@ -113,8 +521,29 @@ export interface ServiceRequest {
   vehicleId: number;
   latitude: number;
   longitude: number;
-  status: 'PENDING' | 'ACCEPTED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+  status: ServiceStatus;
   createdAt: string;
+  scheduledFor: string | Date | null;
+  holdReason: HoldReason | null;
+  statusNote: string | null;
+  cancellationCategory: CancellationCategory | null;
+  cancellationReason: string | null;
+  cancelledAt: string | Date | null;
+  arrivedAt: string | Date | null;
+  cancellationFee: number | null;
+  requestedServices: Array<{
+    service: {
+      id: number;
+      serviceName: string;
+      estimatedPrice: number;
+    };
+  }>;
+  description: string | null;
+  symptomCategory: SymptomCategory | null;
+  urgency: RequestUrgency;
+  afterHours: boolean;
+  afterHoursSurcharge: number | null;
+  photos: ServiceRequestPhoto[];
   customer: {
     id: number;
     firstName: string;
@@ -127,6 +556,7 @@ export interface ServiceRequest {
     garageName: string;
     latitude: number;
     longitude: number;
+    cancellationFee: number;
   };
   mechanic?: {
     id: number;
@@ -141,19 +571,30 @@ export interface ServiceRequest {
     plateCode: string;
     countryCode: string;
     color: string;
+    vin: string | null;
+    make: string | null;
+    modelYear: number | null;
   };
   distance?: number;
 }
 
 export interface ServiceRequestStatusUpdate {
-  status: 'ACCEPTED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+  status: ServiceStatus;
   mechanicId?: number;
+  // Required when putting the request ON_HOLD
+  holdReason?: HoldReason;
+  // Why the request is on hold (required for OTHER) or why the garage rejects it (required)
+  note?: string;
+  // Required when cancelling; the reason text is required for OTHER
+  cancellationCategory?: CancellationCategory;
+  cancellationReason?: string;
 }
 
 // Vehicle Status Types (Milestone 5)
 export interface VehicleStatusData {
   serviceRequestId: number;
   description: string;
+  odometerKm?: number | null;
 }
 
 export interface VehicleStatus {
@@ -163,6 +604,7 @@ export interface VehicleStatus {
   description: string;
   approved: boolean;
   createdAt: string;
+  odometerKm: number | null;
   mechanic: {
     id: number;
     firstName: string;
@@ -247,6 +689,62 @@ export interface ServiceStatusUpdate {
   additionalServices?: AdditionalServiceData[];
 }
 
+// Estimate Types
+export interface EstimateItem {
+  id: number;
+  kind: EstimateItemKind;
+  serviceId: number | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  decision: EstimateItemDecision;
+  ongoingServiceId: number | null;
+}
+
+export interface Estimate {
+  id: number;
+  serviceRequestId: number;
+  version: number;
+  status: EstimateStatus;
+  // Still SENT but past validUntil, so it can no longer be answered
+  expired: boolean;
+  validUntil: string;
+  notes: string | null;
+  createdAt: string;
+  respondedAt: string | null;
+  convertedAt: string | null;
+  createdBy: { id: number; firstName: string; lastName: string };
+  items: EstimateItem[];
+  total: number;
+  approvedTotal: number;
+}
+
+export interface EstimateItemData {
+  kind: EstimateItemKind;
+  // Required for SERVICE lines; the description defaults to the service name
+  serviceId?: number;
+  description?: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface EstimateData {
+  validDays: number;
+  notes?: string;
+  items: EstimateItemData[];
+}
+
+export interface EstimateResponseData {
+  // Every line of the estimate, by item ID
+  decisions: Record<number, 'APPROVED' | 'DECLINED'>;
+}
+
+export interface EstimateConversionData {
+  // When the approved services are expected to be done
+  expectedDate: string;
+}
+
 // Service Completion Types
 export interface ServiceCompletionData {
   serviceRequestId: number;
@@ -259,6 +757,8 @@ export interface ServiceSummary {
   serviceRequestId: number;
   totalOngoingServices: number;
   totalAdditionalServices: number;
+  totalEstimateCharges: number;
+  afterHoursSurcharge: number;
   additionalCharges: number;
   discount: number;
   subtotal: number;
@@ -267,7 +767,7 @@ export interface ServiceSummary {
     id: number;
     serviceName: string;
     price: number;
-    type: 'ongoing' | 'additional';
+    type: 'ongoing' | 'additional' | 'estimate';
   }>;
 }
 
@@ -5,9 +5,20 @@ export const NOTIFICATION_TYPES = {
   // Service Request Types
   REQUEST_CREATED: 'REQUEST_CREATED',
   REQUEST_ACCEPTED: 'REQUEST_ACCEPTED',
+  REQUEST_EN_ROUTE: 'REQUEST_EN_ROUTE',
+  MECHANIC_ARRIVED: 'MECHANIC_ARRIVED',
   REQUEST_IN_PROGRESS: 'REQUEST_IN_PROGRESS',
+  REQUEST_ON_HOLD: 'REQUEST_ON_HOLD',
   REQUEST_COMPLETED: 'REQUEST_COMPLETED',
   REQUEST_CANCELLED: 'REQUEST_CANCELLED',
+  REQUEST_REJECTED: 'REQUEST_REJECTED',
+  APPOINTMENT_REMINDER: 'APPOINTMENT_REMINDER',
+  REQUEST_REASSIGNED: 'REQUEST_REASSIGNED',
+  HANDOVER_REQUESTED: 'HANDOVER_REQUESTED',
+  HANDOVER_DECLINED: 'HANDOVER_DECLINED',
+  NEW_MESSAGE: 'NEW_MESSAGE',
+  ESTIMATE_SENT: 'ESTIMATE_SENT',
+  ESTIMATE_ANSWERED: 'ESTIMATE_ANSWERED',
   
   // Status Update Types
   STATUS_UPDATE: 'STATUS_UPDATE',
@@ -30,6 +41,13 @@ export const NOTIFICATION_TYPES = {
   PAYMENT_REFUNDED: 'PAYMENT_REFUNDED',
   PAYMENT_STATUS_UPDATE: 'PAYMENT_STATUS_UPDATE',
   INVOICE_GENERATED: 'INVOICE_GENERATED',
+
+  // Vehicle Types
+  VEHICLE_TRANSFER_REQUESTED: 'VEHICLE_TRANSFER_REQUESTED',
+  VEHICLE_TRANSFER_ANSWERED: 'VEHICLE_TRANSFER_ANSWERED',
+  VEHICLE_TRANSFER_CANCELLED: 'VEHICLE_TRANSFER_CANCELLED',
+  MAINTENANCE_DUE: 'MAINTENANCE_DUE',
+  VEHICLE_DOCUMENT_EXPIRING: 'VEHICLE_DOCUMENT_EXPIRING',
 } as const;
 
 export type NotificationType = typeof NOTIFICATION_TYPES[keyof typeof NOTIFICATION_TYPES];
@@ -41,6 +59,10 @@ export const NOTIFICATION_TEMPLATES = {
       title: 'New Service Request',
       message: `${customerName} has requested assistance for their ${vehicleInfo}. Please review and assign a mechanic.`
     }),
+    toGarageScheduled: (customerName: string, vehicleInfo: string, appointmentTime: string) => ({
+      title: 'New Appointment Booked',
+      message: `${customerName} has booked an appointment on ${appointmentTime} for their ${vehicleInfo}.`
+    }),
   },
   
   [NOTIFICATION_TYPES.REQUEST_ACCEPTED]: {
@@ -48,14 +70,136 @@ export const NOTIFICATION_TEMPLATES = {
       title: 'Service Request Accepted',
       message: `${garageName} has accepted your service request. Mechanic ${mechanicName} has been assigned to help you.`
     }),
+    toMechanic: (customerName: string, vehicleInfo: string) => ({
+      title: 'New Job Assigned',
+      message: `You have been assigned to help ${customerName} with their ${vehicleInfo}.`
+    }),
+    toReplacedMechanic: (requestId: number) => ({
+      title: 'Job Reassigned',
+      message: `Service request #${requestId} has been given to another mechanic. You no longer need to attend it.`
+    }),
   },
   
+  [NOTIFICATION_TYPES.REQUEST_REASSIGNED]: {
+    toCustomer: (newMechanicName: string) => ({
+      title: 'Mechanic Changed',
+      message: `${newMechanicName} is now looking after your service request. Everything done so far stays on record.`
+    }),
+    toNewMechanic: (requestId: number, previousMechanicName: string, reason: string) => ({
+      title: 'Job Handed Over To You',
+      message: `Service request #${requestId} has been handed over to you from ${previousMechanicName}. Reason: ${reason}`
+    }),
+    toPreviousMechanic: (requestId: number, newMechanicName: string) => ({
+      title: 'Job Reassigned',
+      message: `Service request #${requestId} has been handed over to ${newMechanicName}. You no longer need to attend it.`
+    }),
+  },
+
+  [NOTIFICATION_TYPES.HANDOVER_REQUESTED]: {
+    toGarage: (mechanicName: string, requestId: number, reason: string) => ({
+      title: 'Hand-over Requested',
+      message: `${mechanicName} asked to hand over service request #${requestId}. Reason: ${reason}. Please reassign it to another mechanic.`
+    }),
+  },
+
+  [NOTIFICATION_TYPES.HANDOVER_DECLINED]: {
+    toMechanic: (requestId: number, note: string | null) => ({
+      title: 'Hand-over Declined',
+      message: `Your hand-over request for service request #${requestId} was declined${note ? `: ${note}` : '.'}`
+    }),
+  },
+
+  [NOTIFICATION_TYPES.NEW_MESSAGE]: {
+    toParticipant: (senderName: string, requestId: number, preview: string | null) => ({
+      title: 'New Message',
+      message: preview
+        ? `${senderName} wrote about service request #${requestId}: "${preview}"`
+        : `${senderName} sent a photo about service request #${requestId}.`
+    }),
+  },
+
+  [NOTIFICATION_TYPES.VEHICLE_TRANSFER_REQUESTED]: {
+    toRecipient: (ownerName: string, vehicleInfo: string) => ({
+      title: 'Vehicle Transfer',
+      message: `${ownerName} wants to transfer their ${vehicleInfo} and its service history to you. Accept or decline it in your profile.`
+    }),
+  },
+
+  [NOTIFICATION_TYPES.VEHICLE_TRANSFER_ANSWERED]: {
+    toOwner: (recipientName: string, vehicleInfo: string, accepted: boolean) => ({
+      title: accepted ? 'Vehicle Transferred' : 'Vehicle Transfer Declined',
+      message: accepted
+        ? `${recipientName} accepted your ${vehicleInfo}. It is no longer in your vehicles.`
+        : `${recipientName} declined the transfer of your ${vehicleInfo}.`
+    }),
+  },
+
+  [NOTIFICATION_TYPES.VEHICLE_TRANSFER_CANCELLED]: {
+    toRecipient: (ownerName: string, vehicleInfo: string) => ({
+      title: 'Vehicle Transfer Cancelled',
+      message: `${ownerName} cancelled the transfer of their ${vehicleInfo}.`
+    }),
+  },
+
+  [NOTIFICATION_TYPES.MAINTENANCE_DUE]: {
+    toCustomer: (serviceName: string, vehicleInfo: string, overdue: boolean) => ({
+      title: overdue ? 'Maintenance Due' : 'Maintenance Coming Up',
+      message: overdue
+        ? `${serviceName} is due for your ${vehicleInfo}. You can book it from your profile.`
+        : `${serviceName} will soon be due for your ${vehicleInfo}. You can book it from your profile.`
+    }),
+  },
+
+  [NOTIFICATION_TYPES.VEHICLE_DOCUMENT_EXPIRING]: {
+    toCustomer: (documentType: string, vehicleInfo: string, expiryDate: string) => ({
+      title: `${documentType} Expiring`,
+      message: `The ${documentType.toLowerCase()} document for your ${vehicleInfo} expires on ${expiryDate}. Add the renewed document from your profile.`
+    }),
+  },
+
+  [NOTIFICATION_TYPES.ESTIMATE_SENT]: {
+    toCustomer: (garageName: string, requestId: number, total: number, validUntil: Date) => ({
+      title: 'Estimate Ready',
+      message: `${garageName} sent an estimate of $${total.toFixed(2)} for service request #${requestId}. Please approve or decline each line by ${validUntil.toLocaleDateString()}.`
+    }),
+  },
+
+  [NOTIFICATION_TYPES.ESTIMATE_ANSWERED]: {
+    toGarage: (customerName: string, requestId: number, approvedTotal: number, total: number) => ({
+      title: 'Estimate Answered',
+      message: approvedTotal > 0
+        ? `${customerName} approved $${approvedTotal.toFixed(2)} of the $${total.toFixed(2)} estimate for service request #${requestId}.`
+        : `${customerName} declined the estimate for service request #${requestId}.`
+    }),
+  },
+
+  [NOTIFICATION_TYPES.REQUEST_EN_ROUTE]: {
+    toCustomer: (mechanicName: string) => ({
+      title: 'Mechanic On The Way',
+      message: `${mechanicName} is on the way to your vehicle.`
+    }),
+  },
+
+  [NOTIFICATION_TYPES.MECHANIC_ARRIVED]: {
+    toCustomer: (mechanicName: string) => ({
+      title: 'Mechanic Arrived',
+      message: `${mechanicName} has arrived at your vehicle.`
+    }),
+  },
+
   [NOTIFICATION_TYPES.REQUEST_IN_PROGRESS]: {
     toCustomer: (mechanicName: string) => ({
       title: 'Service In Progress',
       message: `${mechanicName} has started working on your vehicle. You'll receive updates as the service progresses.`
     }),
   },
+
+  [NOTIFICATION_TYPES.REQUEST_ON_HOLD]: {
+    toCustomer: (reason: string, note: string | null) => ({
+      title: 'Service On Hold',
+      message: `Work on your vehicle is paused: ${reason}${note ? ` (${note})` : ''}. We'll let you know when it resumes.`
+    }),
+  },
   
   [NOTIFICATION_TYPES.REQUEST_COMPLETED]: {
     toCustomer: (mechanicName: string, totalAmount: number) => ({
@@ -64,14 +208,28 @@ export const NOTIFICATION_TEMPLATES = {
     }),
   },
   
+  [NOTIFICATION_TYPES.APPOINTMENT_REMINDER]: {
+    toCustomer: (garageName: string, appointmentTime: string) => ({
+      title: 'Appointment Reminder',
+      message: `Reminder: your appointment at ${garageName} is on ${appointmentTime}.`
+    }),
+  },
+
   [NOTIFICATION_TYPES.REQUEST_CANCELLED]: {
-    toCustomer: (reason: string = 'No reason provided') => ({
+    toCustomer: (reason: string, cancellationFee: number = 0) => ({
       title: 'Service Request Cancelled',
-      message: `Your service request has been cancelled. Reason: ${reason}`
+      message: `Your service request has been cancelled. Reason: ${reason}${cancellationFee > 0 ? `. A cancellation fee of $${cancellationFee.toFixed(2)} has been invoiced.` : ''}`
     }),
-    toMechanic: (customerName: string) => ({
+    toMechanic: (customerName: string, reason: string) => ({
       title: 'Service Request Cancelled',
-      message: `The service request from ${customerName} has been cancelled.`
+      message: `The service request from ${customerName} has been cancelled. Reason: ${reason}`
+    }),
+  },
+
+  [NOTIFICATION_TYPES.REQUEST_REJECTED]: {
+    toCustomer: (garageName: string, reason: string) => ({
+      title: 'Service Request Declined',
+      message: `${garageName} cannot take your service request. Reason: ${reason}`
     }),
   },
   
@@ -211,7 +369,8 @@ export async function notifyGarageAboutNewRequest(
   customerId: number,
   garageId: number,
   customerName: string,
-  vehicleInfo: string
+  vehicleInfo: string,
+  appointmentTime?: string
 ) {
   try {
     // Get garage admin
@@ -232,7 +391,10 @@ export async function notifyGarageAboutNewRequest(
       select: { userId: true }
     });
 
-    const template = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.REQUEST_CREATED].toGarage(customerName, vehicleInfo);
+    const templates = NOTIFICATION_TEMPLATES[NOTIFICATION_TYPES.REQUEST_CREATED];
+    const template = appointmentTime
+      ? templates.toGarageScheduled(customerName, vehicleInfo, appointmentTime)
+      : templates.toGarage(customerName, vehicleInfo);
 
     // Notify garage admin
     await createNotification(